@@ -0,0 +1,224 @@
+import * as path from 'path';
+import { BackupsCommand } from '../../src/commands/backups-command';
+import { ConfigurationManager } from '../../src/config/configuration-manager';
+import { BackupService } from '../../src/services/backup-service';
+import { FileCopyService } from '../../src/services/file-copy-service';
+import { BackupEntry, CliOptions, CustomGuideConfig } from '../../src/config/types';
+import { ExitCode } from '../../src/utils/errors';
+
+// Mock the configuration and the services
+jest.mock('../../src/config/configuration-manager');
+jest.mock('../../src/services/backup-service');
+jest.mock('../../src/services/file-copy-service');
+
+describe('BackupsCommand', () => {
+  let mockConfigManager: jest.Mocked<ConfigurationManager>;
+  let mockBackupService: jest.Mocked<BackupService>;
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+
+  const baseOptions: CliOptions = {
+    command: 'backups',
+    target: '/project',
+    yes: false,
+    help: false,
+    dryRun: false,
+    json: false,
+  };
+
+  const config: CustomGuideConfig = {
+    version: '1.0.0',
+    customGuidesFolder: '/home/dev/guides',
+    menuItems: [],
+    backups: { location: 'memory-bank', keep: 2 },
+  };
+
+  const newest: BackupEntry = { path: '.memory-bank/.backups/.cursorrules.backup.300', file: '.cursorrules', timestamp: 300, location: 'memory-bank' };
+  const oldest: BackupEntry = { path: '.cursorrules.backup.100', file: '.cursorrules', timestamp: 100, location: 'beside' };
+  const guideBackup: BackupEntry = {
+    path: '.memory-bank/developmentGuide.backup.200.md',
+    file: '.memory-bank/developmentGuide.md',
+    timestamp: 200,
+    location: 'beside',
+  };
+
+  const logged = () => mockConsoleLog.mock.calls.map((call) => call.join(' '));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+    mockConfigManager = {
+      loadResolvedConfig: jest.fn().mockReturnValue({ config, sources: {}, layers: [] }),
+      validateConfig: jest.fn().mockReturnValue({ isValid: true, warnings: [] }),
+    } as any;
+    (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mockImplementation(() => mockConfigManager);
+    (FileCopyService as jest.MockedClass<typeof FileCopyService>).mockImplementation(
+      () => ({ validateTargetDirectory: jest.fn().mockReturnValue({ isValid: true }) }) as any
+    );
+    mockBackupService = {
+      listBackups: jest.fn().mockReturnValue([newest, oldest, guideBackup]),
+      planPrune: jest.fn().mockReturnValue([oldest]),
+      removeBackups: jest.fn((target: string, backups: BackupEntry[]) =>
+        backups.map((backup) => ({ success: true, copiedFilePath: path.join(target, backup.path) }))
+      ),
+      restoreBackup: jest.fn().mockReturnValue({
+        success: true,
+        copiedFilePath: path.join('/project', '.cursorrules'),
+        overwritten: true,
+        backupPath: path.join('/project', '.memory-bank', '.backups', '.cursorrules.backup.999'),
+      }),
+    } as any;
+    (BackupService as jest.MockedClass<typeof BackupService>).mockImplementation(() => mockBackupService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('list', () => {
+    it('should list backups grouped by file', async () => {
+      const report = await new BackupsCommand().run(baseOptions);
+
+      expect(mockBackupService.listBackups).toHaveBeenCalledWith('/project');
+      expect(report).toMatchObject({ status: 'success', action: 'list', backups: [newest, oldest, guideBackup] });
+      expect(logged()).toEqual([
+        '💾 Backups in /project',
+        '\n.cursorrules',
+        `   .memory-bank/.backups/.cursorrules.backup.300 (${new Date(300).toISOString()})`,
+        `   .cursorrules.backup.100 (${new Date(100).toISOString()})`,
+        '\n.memory-bank/developmentGuide.md',
+        `   .memory-bank/developmentGuide.backup.200.md (${new Date(200).toISOString()})`,
+      ]);
+    });
+
+    it('should say when there are no backups', async () => {
+      mockBackupService.listBackups.mockReturnValue([]);
+
+      await new BackupsCommand().run(baseOptions);
+
+      expect(logged()).toEqual(['ℹ️  No backups found in /project']);
+    });
+
+    it('should reject invalid target directories', async () => {
+      (FileCopyService as jest.MockedClass<typeof FileCopyService>).mockImplementation(
+        () => ({ validateTargetDirectory: jest.fn().mockReturnValue({ isValid: false, error: 'Target directory does not exist: /project' }) }) as any
+      );
+
+      const report = await new BackupsCommand().run(baseOptions);
+
+      expect(report.exitCode).toBe(ExitCode.InvalidTarget);
+      expect(mockBackupService.listBackups).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore the latest backup of a file', async () => {
+      const report = await new BackupsCommand().run({ ...baseOptions, restore: '.cursorrules' });
+
+      expect(mockBackupService.restoreBackup).toHaveBeenCalledWith('/project', newest, config.backups);
+      expect(report).toMatchObject({
+        status: 'success',
+        action: 'restore',
+        restored: newest,
+        backupPath: '.memory-bank/.backups/.cursorrules.backup.999',
+      });
+      expect(logged()).toContain('   💾 Saved the current file as .memory-bank/.backups/.cursorrules.backup.999');
+    });
+
+    it('should restore a specific backup', async () => {
+      const report = await new BackupsCommand().run({ ...baseOptions, restore: '.cursorrules.backup.100' });
+
+      expect(mockBackupService.restoreBackup).toHaveBeenCalledWith('/project', oldest, config.backups);
+      expect(report.restored).toEqual(oldest);
+    });
+
+    it('should only show the restore with --dry-run', async () => {
+      const report = await new BackupsCommand().run({ ...baseOptions, restore: '.cursorrules', dryRun: true });
+
+      expect(mockBackupService.restoreBackup).not.toHaveBeenCalled();
+      expect(report.status).toBe('dry-run');
+      expect(logged()).toContain('~ restore  .cursorrules from .memory-bank/.backups/.cursorrules.backup.300');
+    });
+
+    it('should fail when there is no matching backup', async () => {
+      const report = await new BackupsCommand().run({ ...baseOptions, restore: 'README.md' });
+
+      expect(report.exitCode).toBe(ExitCode.BackupNotFound);
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '\n❌ Error:',
+        'No backup found for README.md. Run "init-memory-bank backups" to list them.'
+      );
+    });
+
+    it('should fail when the backup cannot be restored', async () => {
+      mockBackupService.restoreBackup.mockReturnValue({ success: false, error: 'Backup file not found: /project/.cursorrules.backup.100' });
+
+      const report = await new BackupsCommand().run({ ...baseOptions, restore: '.cursorrules' });
+
+      expect(report.exitCode).toBe(ExitCode.CopyFailed);
+      expect(report.error).toBe('Backup file not found: /project/.cursorrules.backup.100');
+    });
+  });
+
+  describe('prune', () => {
+    it('should remove backups outside the configured policy', async () => {
+      const report = await new BackupsCommand().run({ ...baseOptions, prune: true });
+
+      expect(mockBackupService.planPrune).toHaveBeenCalledWith([newest, oldest, guideBackup], { keep: 2, maxAgeDays: undefined });
+      expect(mockBackupService.removeBackups).toHaveBeenCalledWith('/project', [oldest]);
+      expect(report).toMatchObject({ status: 'success', action: 'prune', removed: [oldest] });
+      expect(logged()).toContain('\n🧹 Removed 1 backup.');
+    });
+
+    it('should replace the configured policy with --keep and --older-than', async () => {
+      await new BackupsCommand().run({ ...baseOptions, prune: true, olderThan: 30 });
+
+      expect(mockBackupService.planPrune).toHaveBeenCalledWith(expect.any(Array), { keep: undefined, maxAgeDays: 30 });
+    });
+
+    it('should ignore the policy of an invalid configuration', async () => {
+      mockConfigManager.validateConfig.mockReturnValue({ isValid: false, error: 'Invalid backups.keep: 0' });
+
+      const report = await new BackupsCommand().run({ ...baseOptions, prune: true });
+
+      expect(mockBackupService.planPrune).not.toHaveBeenCalled();
+      expect(report.exitCode).toBe(ExitCode.InvalidArguments);
+      expect(report.error).toContain('No retention policy to prune with');
+    });
+
+    it('should only show the backups that would go with --dry-run', async () => {
+      const report = await new BackupsCommand().run({ ...baseOptions, prune: true, dryRun: true });
+
+      expect(mockBackupService.removeBackups).not.toHaveBeenCalled();
+      expect(report.status).toBe('dry-run');
+      expect(logged()).toContain(`- remove   .cursorrules.backup.100 (${new Date(100).toISOString()})`);
+    });
+
+    it('should say when nothing needs removing', async () => {
+      mockBackupService.planPrune.mockReturnValue([]);
+
+      await new BackupsCommand().run({ ...baseOptions, prune: true });
+
+      expect(mockBackupService.removeBackups).not.toHaveBeenCalled();
+      expect(logged()).toContain('✅ No backups to remove.');
+    });
+
+    it('should fail when backups cannot be removed', async () => {
+      mockBackupService.removeBackups.mockReturnValue([{ success: false, error: 'Failed to remove .cursorrules.backup.100: EACCES' }]);
+
+      const report = await new BackupsCommand().run({ ...baseOptions, prune: true });
+
+      expect(report.exitCode).toBe(ExitCode.CopyFailed);
+      expect(mockConsoleError).toHaveBeenCalledWith('   - Failed to remove .cursorrules.backup.100: EACCES');
+    });
+  });
+
+  it('should print only the JSON report with --json', async () => {
+    const report = await new BackupsCommand().run({ ...baseOptions, prune: true, json: true });
+
+    expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(mockConsoleLog.mock.calls[0][0])).toEqual(report);
+  });
+});
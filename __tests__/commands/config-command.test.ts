@@ -0,0 +1,137 @@
+import * as path from 'path';
+import { ConfigCommand } from '../../src/commands/config-command';
+import { ConfigurationManager } from '../../src/config/configuration-manager';
+import { CliOptions, ResolvedConfig } from '../../src/config/types';
+import { ExitCode } from '../../src/utils/errors';
+
+// Mock the configuration so every run sees fixed layers
+jest.mock('../../src/config/configuration-manager');
+
+describe('ConfigCommand', () => {
+  let mockConfigManager: jest.Mocked<ConfigurationManager>;
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+
+  const baseOptions: CliOptions = {
+    command: 'config',
+    configAction: 'show',
+    target: '/repo',
+    yes: false,
+    help: false,
+    dryRun: false,
+    json: false,
+  };
+
+  const resolved: ResolvedConfig = {
+    config: {
+      version: '1.0.0',
+      customGuidesFolder: '/repo/guides',
+      menuItems: [],
+      backups: { keep: 2 },
+    },
+    sources: {
+      version: { source: 'default' },
+      customGuidesFolder: { source: 'project', origin: '/repo/.memorybankrc.json' },
+      menuItems: { source: 'default' },
+      'backups.keep': { source: 'env', origin: 'MEMORY_BANK_BACKUP_KEEP' },
+    },
+    layers: [
+      { source: 'default', values: { version: '1.0.0', customGuidesFolder: '/home/dev/custom-dev-guides', menuItems: [] } },
+      { source: 'project', origin: '/repo/.memorybankrc.json', values: { customGuidesFolder: '/repo/guides' } },
+      { source: 'env', origin: 'MEMORY_BANK_BACKUP_KEEP', values: { backups: { keep: 2 } } },
+    ],
+  };
+
+  const logged = () => mockConsoleLog.mock.calls.map((call) => call.join(' '));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockConfigManager = {
+      loadResolvedConfig: jest.fn().mockReturnValue(resolved),
+      getConfigLocation: jest.fn().mockReturnValue({ dir: '/etc/memory-bank', source: 'env', origin: 'MEMORY_BANK_HOME' }),
+    } as any;
+    (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mockImplementation(() => mockConfigManager);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should resolve the configuration from the target directory', () => {
+    new ConfigCommand().run({ ...baseOptions, guidesFolder: '/cli/guides' });
+
+    expect(mockConfigManager.loadResolvedConfig).toHaveBeenCalledWith({
+      cwd: path.resolve('/repo'),
+      cliLayers: [
+        { source: 'cli', origin: '--guides-folder', values: { customGuidesFolder: path.resolve('/cli/guides') } },
+      ],
+    });
+  });
+
+  it('should read the global configuration from the directory passed with --config', () => {
+    new ConfigCommand('/cli/memory-bank').run(baseOptions);
+
+    expect(ConfigurationManager).toHaveBeenCalledWith('/cli/memory-bank');
+  });
+
+  it('should report where the global configuration directory comes from', () => {
+    const report = new ConfigCommand().run(baseOptions);
+
+    expect(report.configLocation).toEqual({ dir: '/etc/memory-bank', source: 'env', origin: 'MEMORY_BANK_HOME' });
+    expect(logged()).toContain('   Global configuration directory: /etc/memory-bank (from MEMORY_BANK_HOME)');
+  });
+
+  it('should print every layer with the values it sets', () => {
+    const report = new ConfigCommand().run(baseOptions);
+
+    expect(report).toMatchObject({ status: 'success', exitCode: ExitCode.Success, layers: resolved.layers });
+    expect(logged()).toEqual(
+      expect.arrayContaining(['\ndefault', '\nproject: /repo/.memorybankrc.json', '\nenv: MEMORY_BANK_BACKUP_KEEP'])
+    );
+    expect(logged()).toContain('     "customGuidesFolder": "/repo/guides"');
+  });
+
+  it('should print each effective value with its source with --resolved', () => {
+    const report = new ConfigCommand().run({ ...baseOptions, resolved: true });
+
+    expect(report.config).toEqual(resolved.config);
+    expect(report.values).toEqual([
+      { name: 'backups.keep', value: 2, source: 'env', origin: 'MEMORY_BANK_BACKUP_KEEP' },
+      { name: 'customGuidesFolder', value: '/repo/guides', source: 'project', origin: '/repo/.memorybankrc.json' },
+      { name: 'menuItems', value: [], source: 'default' },
+      { name: 'version', value: '1.0.0', source: 'default' },
+    ]);
+    expect(logged()).toEqual(
+      expect.arrayContaining([
+        'backups.keep        2               (env: MEMORY_BANK_BACKUP_KEEP)',
+        'customGuidesFolder  "/repo/guides"  (project: /repo/.memorybankrc.json)',
+        'version             "1.0.0"         (default)',
+      ])
+    );
+  });
+
+  it('should print only a JSON report with --json', () => {
+    new ConfigCommand().run({ ...baseOptions, resolved: true, json: true });
+
+    expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+    const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+    expect(report.values).toHaveLength(4);
+    expect(report.layers).toBeUndefined();
+  });
+
+  it('should report a project configuration that cannot be read', () => {
+    mockConfigManager.loadResolvedConfig.mockImplementation(() => {
+      throw new Error('Invalid project configuration in /repo/.memorybankrc.json: Unexpected token');
+    });
+
+    const report = new ConfigCommand().run(baseOptions);
+
+    expect(report).toMatchObject({ status: 'failed', exitCode: ExitCode.GeneralError });
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      '\n❌ Error:',
+      'Invalid project configuration in /repo/.memorybankrc.json: Unexpected token'
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import { DiffCommand } from '../../src/commands/diff-command';
+import { ConfigVersionError } from '../../src/config/config-migrations';
+import { ConfigurationManager } from '../../src/config/configuration-manager';
+import { GuideDiscoveryService } from '../../src/services/guide-discovery-service';
+import { FileCopyService } from '../../src/services/file-copy-service';
+import { GuideDiffService } from '../../src/services/guide-diff-service';
+import { CliOptions, FileDiff, GuideInfo, InstallLockfile } from '../../src/config/types';
+import { ExitCode } from '../../src/utils/errors';
+import { readInstallLockfile } from '../../src/utils/install-lockfile';
+import { detectProjectVariables } from '../../src/utils/project-variables';
+
+// Mock the services and the lockfile reader
+jest.mock('../../src/config/configuration-manager');
+jest.mock('../../src/services/guide-discovery-service');
+jest.mock('../../src/services/file-copy-service');
+jest.mock('../../src/services/guide-diff-service');
+jest.mock('../../src/utils/install-lockfile');
+jest.mock('../../src/utils/project-variables');
+
+describe('DiffCommand', () => {
+  let mockGuideDiscoveryService: jest.Mocked<GuideDiscoveryService>;
+  let mockFileCopyService: jest.Mocked<FileCopyService>;
+  let mockGuideDiffService: jest.Mocked<GuideDiffService>;
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  const mockReadInstallLockfile = readInstallLockfile as jest.MockedFunction<typeof readInstallLockfile>;
+
+  const guide: GuideInfo = {
+    id: 'web',
+    displayName: 'Web',
+    type: 'built-in',
+    folderPath: '/package/src/developmentGuides/Web',
+    hasCursorRules: true,
+  };
+
+  const lockfile: InstallLockfile = {
+    lockfileVersion: 1,
+    guide: { id: 'web', type: 'built-in', sourcePath: guide.folderPath, contentHash: 'a'.repeat(64) },
+    files: [],
+    installedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  const baseOptions: CliOptions = {
+    command: 'diff',
+    target: '/project',
+    yes: false,
+    help: false,
+    dryRun: false,
+    json: false,
+  };
+
+  const identical: FileDiff = { path: '.cursorrules', source: '.cursorrules', status: 'identical', added: 0, removed: 0 };
+  const modified: FileDiff = {
+    path: '.memory-bank/developmentGuide.md',
+    source: 'developmentGuide.md',
+    status: 'modified',
+    added: 1,
+    removed: 1,
+    diff: '--- guide/.memory-bank/developmentGuide.md\n+++ project/.memory-bank/developmentGuide.md\n@@ -1 +1 @@\n-a\n+b\n',
+  };
+
+  const logged = () => mockConsoleLog.mock.calls.map((call) => call.join(' '));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+    (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mockImplementation(
+      () =>
+        ({
+          loadResolvedConfig: jest.fn().mockReturnValue({
+            config: { version: '1.0.0', customGuidesFolder: '/custom', menuItems: [] },
+            sources: {},
+            layers: [],
+          }),
+          getDefaultConfig: jest.fn(),
+        }) as any
+    );
+    mockGuideDiscoveryService = {
+      getAllGuides: jest.fn().mockReturnValue([guide, { ...guide, id: 'java', displayName: 'Java' }]),
+      findGuideById: jest.fn((guides: GuideInfo[], id: string) => guides.find((item) => item.id === id)),
+    } as any;
+    (GuideDiscoveryService as jest.MockedClass<typeof GuideDiscoveryService>).mockImplementation(
+      () => mockGuideDiscoveryService
+    );
+    mockFileCopyService = {
+      validateTargetDirectory: jest.fn().mockReturnValue({ isValid: true }),
+      setAvailableGuides: jest.fn(),
+      validateComposition: jest.fn().mockReturnValue({ isValid: true }),
+    } as any;
+    (FileCopyService as jest.MockedClass<typeof FileCopyService>).mockImplementation(() => mockFileCopyService);
+    mockGuideDiffService = {
+      setAvailableGuides: jest.fn(),
+      compareGuide: jest.fn().mockReturnValue([identical]),
+    } as any;
+    (GuideDiffService as jest.MockedClass<typeof GuideDiffService>).mockImplementation(() => mockGuideDiffService);
+    mockReadInstallLockfile.mockReturnValue({ lockfile });
+    (detectProjectVariables as jest.Mock).mockReturnValue({ projectName: 'demo' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should compare the project with the installed guide', async () => {
+    const report = await new DiffCommand().run(baseOptions);
+
+    expect(mockGuideDiffService.compareGuide).toHaveBeenCalledWith(guide, '/project', undefined);
+    expect(report).toMatchObject({ status: 'identical', exitCode: ExitCode.Success, guide: 'web' });
+    expect(logged()).toContain('✅ The memory bank matches the guide.');
+  });
+
+  it('should look for guides with the configuration of the target project', async () => {
+    await new DiffCommand().run({ ...baseOptions, guidesFolder: '/cli/guides' });
+
+    const configManager = (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mock.results[0].value;
+    expect(configManager.loadResolvedConfig).toHaveBeenCalledWith({
+      cwd: '/project',
+      cliLayers: [expect.objectContaining({ origin: '--guides-folder' })],
+    });
+  });
+
+  it('should print the unified diff of every file that differs', async () => {
+    mockGuideDiffService.compareGuide.mockReturnValue([modified, identical]);
+
+    const report = await new DiffCommand().run(baseOptions);
+
+    expect(logged()).toContain(modified.diff);
+    expect(logged()).toContain('\n📊 1 of 2 files differ from the guide.');
+    expect(report.status).toBe('drift');
+    expect(report.exitCode).toBe(ExitCode.Success);
+  });
+
+  it('should only list file statuses with --summary', async () => {
+    mockGuideDiffService.compareGuide.mockReturnValue([modified, identical]);
+
+    await new DiffCommand().run({ ...baseOptions, summary: true });
+
+    expect(logged()).not.toContain(modified.diff);
+    expect(logged()).toEqual(
+      expect.arrayContaining(['   ~ modified  .memory-bank/developmentGuide.md (+1 -1)', '   = identical .cursorrules'])
+    );
+  });
+
+  it('should exit with 1 on drift when --exit-code is given', async () => {
+    mockGuideDiffService.compareGuide.mockReturnValue([modified]);
+
+    expect((await new DiffCommand().run({ ...baseOptions, exitCode: true })).exitCode).toBe(1);
+
+    mockGuideDiffService.compareGuide.mockReturnValue([identical]);
+    expect((await new DiffCommand().run({ ...baseOptions, exitCode: true })).exitCode).toBe(ExitCode.Success);
+  });
+
+  it('should print a JSON report with --json', async () => {
+    mockGuideDiffService.compareGuide.mockReturnValue([modified]);
+
+    await new DiffCommand().run({ ...baseOptions, json: true });
+
+    expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(mockConsoleLog.mock.calls[0][0])).toMatchObject({ status: 'drift', guide: 'web', files: [modified] });
+  });
+
+  it('should compare against the guide given with --guide', async () => {
+    mockReadInstallLockfile.mockReturnValue({});
+
+    const report = await new DiffCommand().run({ ...baseOptions, guide: 'java' });
+
+    expect(mockGuideDiffService.compareGuide).toHaveBeenCalledWith(expect.objectContaining({ id: 'java' }), '/project', undefined);
+    expect(report.guide).toBe('java');
+  });
+
+  it('should render templated guides with the variables recorded at install time', async () => {
+    const templated = { ...guide, manifest: { variables: [{ name: 'team', default: 'Core' }] } };
+    mockGuideDiscoveryService.getAllGuides.mockReturnValue([templated]);
+    mockReadInstallLockfile.mockReturnValue({ lockfile: { ...lockfile, variables: { team: 'Payments' } } });
+
+    await new DiffCommand().run(baseOptions);
+
+    expect(mockGuideDiffService.compareGuide).toHaveBeenCalledWith(templated, '/project', { team: 'Payments', projectName: 'demo' });
+  });
+
+  it('should fail when no guide is installed and none is given', async () => {
+    mockReadInstallLockfile.mockReturnValue({});
+
+    const report = await new DiffCommand().run(baseOptions);
+
+    expect(report.exitCode).toBe(ExitCode.NotInstalled);
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      '\n❌ Error:',
+      'No installed guide found. Use --guide to choose the guide to compare against.'
+    );
+  });
+
+  it('should fail when the guide is not available', async () => {
+    const report = await new DiffCommand().run({ ...baseOptions, guide: 'missing' });
+
+    expect(report.exitCode).toBe(ExitCode.GuideNotFound);
+    expect(report.error).toBe("Guide 'missing' is not available. Available guides: web, java");
+  });
+
+  it('should fail for a configuration written by a newer CLI', async () => {
+    (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mockImplementation(
+      () =>
+        ({
+          loadResolvedConfig: jest.fn(() => {
+            throw new ConfigVersionError('2.0.0');
+          }),
+          getDefaultConfig: jest.fn(),
+        }) as any
+    );
+
+    const report = await new DiffCommand().run(baseOptions);
+
+    expect(mockGuideDiscoveryService.getAllGuides).not.toHaveBeenCalled();
+    expect(report).toMatchObject({ status: 'failed', exitCode: ExitCode.GeneralError });
+    expect(report.error).toContain('Configuration version 2.0.0 is newer than this CLI supports');
+    expect(mockConsoleError).toHaveBeenCalledWith('\n❌ Error:', report.error);
+  });
+
+  it('should fail when the guide cannot be composed from its base guide', async () => {
+    mockFileCopyService.validateComposition.mockReturnValue({
+      isValid: false,
+      error: 'Guides extend each other in a cycle: web -> java -> web',
+    });
+
+    const report = await new DiffCommand().run(baseOptions);
+
+    expect(mockGuideDiffService.setAvailableGuides).toHaveBeenCalledWith(mockGuideDiscoveryService.getAllGuides.mock.results[0].value);
+    expect(report.exitCode).toBe(ExitCode.GuideCompositionFailed);
+    expect(report.error).toBe('Guides extend each other in a cycle: web -> java -> web');
+    expect(mockGuideDiffService.compareGuide).not.toHaveBeenCalled();
+  });
+
+  it('should fail for an invalid target directory', async () => {
+    (FileCopyService as jest.MockedClass<typeof FileCopyService>).mockImplementation(
+      () => ({ validateTargetDirectory: jest.fn().mockReturnValue({ isValid: false, error: 'Not a directory' }) }) as any
+    );
+
+    const report = await new DiffCommand().run(baseOptions);
+
+    expect(report).toMatchObject({ status: 'failed', exitCode: ExitCode.InvalidTarget, error: 'Not a directory' });
+  });
+});
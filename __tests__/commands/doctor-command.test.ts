@@ -0,0 +1,106 @@
+import { DoctorCommand } from '../../src/commands/doctor-command';
+import { DiagnosticsService } from '../../src/services/diagnostics-service';
+import { CliOptions, DiagnosticFinding } from '../../src/config/types';
+import { ExitCode } from '../../src/utils/errors';
+
+// Mock the diagnostics so every run sees fixed findings
+jest.mock('../../src/services/diagnostics-service');
+
+describe('DoctorCommand', () => {
+  let mockDiagnosticsService: jest.Mocked<DiagnosticsService>;
+  let mockConsoleLog: jest.SpyInstance;
+
+  const baseOptions: CliOptions = {
+    command: 'doctor',
+    target: '/project',
+    yes: false,
+    help: false,
+    dryRun: false,
+    json: false,
+  };
+
+  const ok: DiagnosticFinding = { check: 'config', severity: 'ok', message: 'Configuration is valid', path: '/home/dev/.memory-bank/config.json' };
+  const warning: DiagnosticFinding = {
+    check: 'menu-items',
+    severity: 'warning',
+    message: "Menu item 'Team' (m1) points to a folder that does not exist",
+    path: '/home/dev/guides/team',
+    fix: 'Create the folder or remove the menu item from the configuration',
+  };
+  const error: DiagnosticFinding = {
+    check: 'target',
+    severity: 'error',
+    message: 'Target directory does not exist',
+    path: '/project',
+    fix: 'Create the directory or pass an existing one with --target',
+  };
+
+  const output = () => mockConsoleLog.mock.calls.map((call) => call.join(' ')).join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDiagnosticsService = { runChecks: jest.fn().mockReturnValue([ok]) } as any;
+    (DiagnosticsService as jest.MockedClass<typeof DiagnosticsService>).mockImplementation(() => mockDiagnosticsService);
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    mockConsoleLog.mockRestore();
+  });
+
+  it('should report a healthy setup', () => {
+    const report = new DoctorCommand().run(baseOptions);
+
+    expect(mockDiagnosticsService.runChecks).toHaveBeenCalledWith('/project');
+    expect(report).toEqual({ status: 'healthy', exitCode: ExitCode.Success, findings: [ok] });
+    expect(output()).toContain('✅ Configuration is valid (/home/dev/.memory-bank/config.json)');
+    expect(output()).toContain('✅ No problems found.');
+  });
+
+  it('should check the current directory without --target', () => {
+    new DoctorCommand().run({ ...baseOptions, target: undefined });
+
+    expect(mockDiagnosticsService.runChecks).toHaveBeenCalledWith(process.cwd());
+  });
+
+  it('should keep the exit code at 0 for warnings', () => {
+    mockDiagnosticsService.runChecks.mockReturnValue([ok, warning]);
+
+    const report = new DoctorCommand().run(baseOptions);
+
+    expect(report.status).toBe('warnings');
+    expect(report.exitCode).toBe(ExitCode.Success);
+    expect(output()).toContain('Menu items');
+    expect(output()).toContain('      Path: /home/dev/guides/team');
+    expect(output()).toContain('      Fix:  Create the folder or remove the menu item from the configuration');
+    expect(output()).toContain('Found 0 errors and 1 warning.');
+  });
+
+  it('should exit with ChecksFailed when a check fails', () => {
+    mockDiagnosticsService.runChecks.mockReturnValue([ok, warning, error]);
+
+    const report = new DoctorCommand().run(baseOptions);
+
+    expect(report.status).toBe('errors');
+    expect(report.exitCode).toBe(ExitCode.ChecksFailed);
+    expect(output()).toContain('❌ Target directory does not exist');
+    expect(output()).toContain('Found 1 error and 1 warning.');
+  });
+
+  it('should list findings grouped by check', () => {
+    mockDiagnosticsService.runChecks.mockReturnValue([error, ok]);
+
+    new DoctorCommand().run(baseOptions);
+
+    expect(output().indexOf('Configuration')).toBeLessThan(output().indexOf('Target directory'));
+  });
+
+  it('should print only the JSON report with --json', () => {
+    mockDiagnosticsService.runChecks.mockReturnValue([ok, error]);
+
+    const report = new DoctorCommand().run({ ...baseOptions, json: true });
+
+    expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(mockConsoleLog.mock.calls[0][0])).toEqual(report);
+  });
+});
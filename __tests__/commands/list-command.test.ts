@@ -0,0 +1,198 @@
+import { ListCommand } from '../../src/commands/list-command';
+import { ConfigVersionError } from '../../src/config/config-migrations';
+import { ConfigurationManager } from '../../src/config/configuration-manager';
+import { GuideDiscoveryService } from '../../src/services/guide-discovery-service';
+import { CliOptions, GuideInfo } from '../../src/config/types';
+
+// Mock the services
+jest.mock('../../src/config/configuration-manager');
+jest.mock('../../src/services/guide-discovery-service');
+
+describe('ListCommand', () => {
+  let mockConfigManager: jest.Mocked<ConfigurationManager>;
+  let mockGuideDiscoveryService: jest.Mocked<GuideDiscoveryService>;
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+
+  const guides: GuideInfo[] = [
+    {
+      id: 'web',
+      displayName: 'Web - For TypeScript/React/Next.js development',
+      type: 'built-in',
+      folderPath: '/package/src/developmentGuides/Web',
+      hasCursorRules: true,
+      category: 'Web',
+      description: 'TypeScript, React, Next.js and modern web technologies',
+    },
+    {
+      id: 'company-react',
+      displayName: 'Company React',
+      type: 'custom',
+      folderPath: '/custom/guides/company-react',
+      hasCursorRules: false,
+      category: 'Web',
+    },
+    {
+      id: 'microservices',
+      displayName: 'Microservices',
+      type: 'custom',
+      folderPath: '/custom/guides/microservices',
+      hasCursorRules: true,
+      category: 'Backend',
+      source: { label: 'team', path: '/custom/guides', priority: 0 },
+    },
+  ];
+
+  const baseOptions: CliOptions = {
+    command: 'list',
+    yes: false,
+    help: false,
+    dryRun: false,
+    json: false,
+  };
+
+  beforeEach(() => {
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+    mockConfigManager = {
+      loadResolvedConfig: jest.fn().mockReturnValue({
+        config: {
+          version: '1.0.0',
+          customGuidesFolder: '/custom/guides',
+          menuItems: [],
+        },
+        sources: {},
+        layers: [],
+      }),
+      getDefaultConfig: jest.fn(),
+    } as any;
+
+    mockGuideDiscoveryService = {
+      getAllGuides: jest.fn().mockReturnValue(guides),
+      isGuideAccessible: jest.fn((guide: GuideInfo) => guide.id !== 'microservices'),
+      getWarnings: jest.fn().mockReturnValue([]),
+    } as any;
+
+    (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mockImplementation(() => mockConfigManager);
+    (GuideDiscoveryService as jest.MockedClass<typeof GuideDiscoveryService>).mockImplementation(() => mockGuideDiscoveryService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should list every guide with its metadata and accessibility', () => {
+    const entries = new ListCommand().run({ ...baseOptions, format: 'json' });
+
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toEqual({
+      id: 'web',
+      displayName: 'Web - For TypeScript/React/Next.js development',
+      type: 'built-in',
+      category: 'Web',
+      description: 'TypeScript, React, Next.js and modern web technologies',
+      folderPath: '/package/src/developmentGuides/Web',
+      hasCursorRules: true,
+      accessible: true,
+    });
+    expect(entries[2].accessible).toBe(false);
+    expect(entries[2].source).toBe('team');
+    expect(JSON.parse(mockConsoleLog.mock.calls[0][0])).toEqual(entries);
+  });
+
+  it('should filter by type', () => {
+    const entries = new ListCommand().run({ ...baseOptions, type: 'custom', format: 'ids' });
+
+    expect(entries.map((entry) => entry.id)).toEqual(['company-react', 'microservices']);
+  });
+
+  it('should list package guides with their package and version', () => {
+    mockGuideDiscoveryService.getAllGuides.mockReturnValue([
+      ...guides,
+      {
+        id: 'backend',
+        displayName: 'Backend',
+        type: 'package',
+        version: '1.4.0',
+        folderPath: '/repo/node_modules/@acme/backend-guide/guide',
+        hasCursorRules: false,
+        package: {
+          name: '@acme/backend-guide',
+          version: '1.4.0',
+          scope: 'project',
+          path: '/repo/node_modules/@acme/backend-guide',
+          folderPath: '/repo/node_modules/@acme/backend-guide/guide',
+        },
+      },
+    ]);
+
+    const entries = new ListCommand().run({ ...baseOptions, type: 'package', format: 'ids' });
+
+    expect(entries).toEqual([
+      expect.objectContaining({ id: 'backend', type: 'package', package: '@acme/backend-guide', version: '1.4.0' }),
+    ]);
+  });
+
+  it('should filter by category case-insensitively', () => {
+    const entries = new ListCommand().run({ ...baseOptions, category: 'web', format: 'ids' });
+
+    expect(entries.map((entry) => entry.id)).toEqual(['web', 'company-react']);
+  });
+
+  it('should print one id per line for the ids format', () => {
+    new ListCommand().run({ ...baseOptions, format: 'ids' });
+
+    expect(mockConsoleLog.mock.calls.map((call) => call[0])).toEqual([
+      'web',
+      'company-react',
+      'microservices',
+    ]);
+  });
+
+  it('should print an aligned table by default', () => {
+    new ListCommand().run(baseOptions);
+
+    const lines = mockConsoleLog.mock.calls.map((call) => call[0] as string);
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toMatch(/^ID\s+TYPE\s+CATEGORY\s+CURSORRULES\s+ACCESSIBLE\s+DESCRIPTION\s+PATH$/);
+    expect(lines[1]).toMatch(/^web\s+built-in\s+Web\s+yes\s+yes\s+TypeScript/);
+    expect(lines[3]).toMatch(/^microservices\s+custom\s+Backend\s+yes\s+no\s+-\s+\/custom\/guides\/microservices$/);
+    expect(lines[1].indexOf('built-in')).toBe(lines[0].indexOf('TYPE'));
+  });
+
+  it('should print discovery warnings to stderr in table format', () => {
+    mockGuideDiscoveryService.getWarnings.mockReturnValue(["Guide 'broken': missing developmentGuide.md"]);
+
+    new ListCommand().run(baseOptions);
+
+    expect(mockConsoleError).toHaveBeenCalledWith("   - Guide 'broken': missing developmentGuide.md");
+  });
+
+  it('should report when no guides match', () => {
+    new ListCommand().run({ ...baseOptions, category: 'Mobile' });
+
+    expect(mockConsoleLog).toHaveBeenCalledWith('No guides found.');
+  });
+
+  it('should fall back to the default configuration when loading fails', () => {
+    const defaultConfig = { version: '1.0.0', customGuidesFolder: '/default', menuItems: [] };
+    mockConfigManager.loadResolvedConfig.mockImplementation(() => {
+      throw new Error('Config error');
+    });
+    mockConfigManager.getDefaultConfig.mockReturnValue(defaultConfig);
+
+    new ListCommand().run({ ...baseOptions, format: 'ids' });
+
+    expect(mockGuideDiscoveryService.getAllGuides).toHaveBeenCalledWith(defaultConfig);
+  });
+
+  it('should not fall back to defaults for a configuration written by a newer CLI', () => {
+    mockConfigManager.loadResolvedConfig.mockImplementation(() => {
+      throw new ConfigVersionError('2.0.0');
+    });
+
+    expect(() => new ListCommand().run({ ...baseOptions, format: 'ids' })).toThrow(ConfigVersionError);
+    expect(mockGuideDiscoveryService.getAllGuides).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import * as path from 'path';
+import { SourcesCommand } from '../../src/commands/sources-command';
+import { ConfigurationManager } from '../../src/config/configuration-manager';
+import { CliOptions, GuideSource, GuideSourceStatus } from '../../src/config/types';
+import { GuideSourceService } from '../../src/services/guide-source-service';
+import { ExitCode } from '../../src/utils/errors';
+
+// Mock the configuration and the cache so nothing is fetched
+jest.mock('../../src/config/configuration-manager');
+jest.mock('../../src/services/guide-source-service');
+
+describe('SourcesCommand', () => {
+  let mockConfigManager: jest.Mocked<ConfigurationManager>;
+  let mockGuideSourceService: jest.Mocked<GuideSourceService>;
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+
+  const baseOptions: CliOptions = {
+    command: 'sources',
+    sourcesAction: 'list',
+    target: '/repo',
+    yes: false,
+    help: false,
+    dryRun: false,
+    json: false,
+  };
+
+  const config = {
+    version: '1.0.0',
+    customGuidesFolder: '/home/dev/guides',
+    guideSources: [
+      { label: 'team', git: 'https://example.com/guides.git', ref: 'main', priority: 2 },
+      { label: 'pack', archive: '/downloads/guides.tgz' },
+    ],
+    menuItems: [],
+  };
+
+  const statusOf = (source: GuideSource): GuideSourceStatus => ({
+    label: source.label,
+    kind: source.git ? 'git' : source.archive ? 'archive' : 'path',
+    location: source.git || source.archive || source.path || '',
+    ref: source.ref,
+    priority: source.priority ?? 0,
+    ...(source.git ? { cached: true, folder: '/cache/team', commit: 'abc123def4567890' } : {}),
+    ...(source.archive ? { cached: false } : {}),
+  });
+
+  const logged = () => mockConsoleLog.mock.calls.map((call) => call.join(' '));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockConfigManager = {
+      loadResolvedConfig: jest.fn().mockReturnValue({ config, sources: {}, layers: [] }),
+    } as any;
+    (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mockImplementation(() => mockConfigManager);
+    mockGuideSourceService = {
+      getStatus: jest.fn(statusOf),
+      refresh: jest.fn(),
+    } as any;
+    (GuideSourceService as jest.MockedClass<typeof GuideSourceService>).mockImplementation(() => mockGuideSourceService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should resolve the configuration from the target directory', () => {
+    new SourcesCommand('/etc/memory-bank').run(baseOptions);
+
+    expect(ConfigurationManager).toHaveBeenCalledWith('/etc/memory-bank');
+    expect(GuideSourceService).toHaveBeenCalledWith('/etc/memory-bank');
+    expect(mockConfigManager.loadResolvedConfig).toHaveBeenCalledWith({ cwd: path.resolve('/repo') });
+  });
+
+  it('should list every source by precedence without fetching', () => {
+    const report = new SourcesCommand().run(baseOptions);
+
+    expect(report.sources.map((source) => source.label)).toEqual(['team', 'customGuidesFolder', 'pack']);
+    expect(mockGuideSourceService.refresh).not.toHaveBeenCalled();
+    expect(logged()).toEqual(
+      expect.arrayContaining([
+        'team (git, priority 2)',
+        '   Location: https://example.com/guides.git#main',
+        '   Cached in: /cache/team',
+        '   Commit: abc123def4567890',
+        'customGuidesFolder (path, priority 0)',
+        '   Location: /home/dev/guides',
+        'pack (archive, priority 0)',
+        '   Not fetched yet',
+      ])
+    );
+  });
+
+  it('should refresh every git and archive source', () => {
+    const report = new SourcesCommand().run({ ...baseOptions, sourcesAction: 'refresh' });
+
+    expect(mockGuideSourceService.refresh.mock.calls.map(([source]) => source.label)).toEqual(['team', 'pack']);
+    expect(report).toMatchObject({ status: 'success', exitCode: ExitCode.Success, action: 'refresh' });
+    expect(report.sources.every((source) => source.refreshed)).toBe(true);
+    expect(logged()).toContain('✅ team is up to date (abc123def456)');
+  });
+
+  it('should only refresh the source named with --source', () => {
+    new SourcesCommand().run({ ...baseOptions, sourcesAction: 'refresh', source: 'pack' });
+
+    expect(mockGuideSourceService.refresh).toHaveBeenCalledTimes(1);
+    expect(mockGuideSourceService.refresh.mock.calls[0][0].label).toBe('pack');
+  });
+
+  it('should reject an unknown source label', () => {
+    const report = new SourcesCommand().run({ ...baseOptions, sourcesAction: 'refresh', source: 'other' });
+
+    expect(report).toMatchObject({
+      status: 'failed',
+      exitCode: ExitCode.InvalidArguments,
+      error: 'Unknown guide source: other. Expected one of: team, customGuidesFolder, pack',
+    });
+    expect(mockGuideSourceService.refresh).not.toHaveBeenCalled();
+  });
+
+  it('should keep refreshing after a source fails and report the failure', () => {
+    mockGuideSourceService.refresh.mockImplementation((source) => {
+      if (source.label === 'team') {
+        throw new Error('Could not fetch https://example.com/guides.git: network is unreachable');
+      }
+    });
+
+    const report = new SourcesCommand().run({ ...baseOptions, sourcesAction: 'refresh' });
+
+    expect(mockGuideSourceService.refresh).toHaveBeenCalledTimes(2);
+    expect(report).toMatchObject({
+      status: 'failed',
+      exitCode: ExitCode.SourceFetchFailed,
+      error: '1 guide source(s) could not be refreshed',
+    });
+    expect(report.sources[0]).toMatchObject({
+      label: 'team',
+      refreshed: false,
+      error: 'Could not fetch https://example.com/guides.git: network is unreachable',
+    });
+    expect(report.sources[1]).toMatchObject({ label: 'pack', refreshed: true });
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      '❌ team: Could not fetch https://example.com/guides.git: network is unreachable'
+    );
+  });
+
+  it('should print only the JSON report with --json', () => {
+    const report = new SourcesCommand().run({ ...baseOptions, json: true });
+
+    expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(mockConsoleLog.mock.calls[0][0])).toEqual(JSON.parse(JSON.stringify(report)));
+  });
+
+  it('should report configuration errors', () => {
+    mockConfigManager.loadResolvedConfig.mockImplementation(() => {
+      throw new Error('Invalid project configuration in /repo/.memorybankrc.json: expected an object');
+    });
+
+    const report = new SourcesCommand().run(baseOptions);
+
+    expect(report).toMatchObject({ status: 'failed', exitCode: ExitCode.GeneralError });
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      '\n❌ Error:',
+      'Invalid project configuration in /repo/.memorybankrc.json: expected an object'
+    );
+  });
+});
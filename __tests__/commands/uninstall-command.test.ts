@@ -0,0 +1,185 @@
+import * as path from 'path';
+import { UninstallCommand } from '../../src/commands/uninstall-command';
+import { FileCopyService } from '../../src/services/file-copy-service';
+import { GuideUninstallService, PendingFileUninstall } from '../../src/services/guide-uninstall-service';
+import { CliOptions, DirectoryUninstall, InstallLockfile } from '../../src/config/types';
+import { ExitCode } from '../../src/utils/errors';
+import { readInstallLockfile } from '../../src/utils/install-lockfile';
+
+// Mock inquirer
+jest.mock('inquirer', () => ({
+  prompt: jest.fn(),
+}));
+
+// Mock the services and the lockfile reader
+jest.mock('../../src/services/file-copy-service');
+jest.mock('../../src/services/guide-uninstall-service');
+jest.mock('../../src/utils/install-lockfile');
+
+import inquirer from 'inquirer';
+
+describe('UninstallCommand', () => {
+  let mockGuideUninstallService: jest.Mocked<GuideUninstallService>;
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  const mockPrompt = inquirer.prompt as unknown as jest.Mock;
+  const mockReadInstallLockfile = readInstallLockfile as jest.MockedFunction<typeof readInstallLockfile>;
+
+  const lockfile: InstallLockfile = {
+    lockfileVersion: 1,
+    guide: { id: 'web', type: 'built-in', sourcePath: '/package/src/developmentGuides/Web', contentHash: 'a'.repeat(64) },
+    files: [],
+    installedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  const baseOptions: CliOptions = {
+    command: 'uninstall',
+    target: '/project',
+    yes: false,
+    help: false,
+    dryRun: false,
+    json: false,
+  };
+
+  const uninstalls = (): PendingFileUninstall[] => [
+    {
+      path: '.memory-bank/developmentGuide.md',
+      action: 'remove',
+      modified: false,
+      targetPath: path.join('/project', '.memory-bank', 'developmentGuide.md'),
+    },
+    {
+      path: '.cursorrules',
+      action: 'restore',
+      modified: false,
+      backupPath: '.cursorrules.backup.1700000000000',
+      targetPath: path.join('/project', '.cursorrules'),
+    },
+  ];
+  const directories = (): DirectoryUninstall[] => [
+    { path: '.memory-bank', remaining: [], action: 'remove' },
+    { path: '.specs', remaining: ['.specs/feature.md'], action: 'keep' },
+  ];
+
+  const logged = () => mockConsoleLog.mock.calls.map((call) => call.join(' '));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+    (FileCopyService as jest.MockedClass<typeof FileCopyService>).mockImplementation(
+      () => ({ validateTargetDirectory: jest.fn().mockReturnValue({ isValid: true }) }) as any
+    );
+    mockGuideUninstallService = {
+      planUninstall: jest.fn().mockReturnValue(uninstalls()),
+      planDirectories: jest.fn().mockReturnValue(directories()),
+      applyUninstall: jest.fn((_target: string, planned: PendingFileUninstall[]) => {
+        planned.forEach((uninstall) => (uninstall.done = true));
+        return planned.map((uninstall) => ({ success: true, copiedFilePath: uninstall.targetPath }));
+      }),
+      removeDirectory: jest.fn((target: string, directory: string) => ({ success: true, copiedFilePath: path.join(target, directory) })),
+    } as any;
+    (GuideUninstallService as jest.MockedClass<typeof GuideUninstallService>).mockImplementation(
+      () => mockGuideUninstallService
+    );
+    mockReadInstallLockfile.mockReturnValue({ lockfile });
+    mockPrompt.mockResolvedValue({ confirm: false });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should remove installed files, restore backups and remove empty folders', async () => {
+    const report = await new UninstallCommand().run(baseOptions);
+
+    expect(mockGuideUninstallService.applyUninstall).toHaveBeenCalledWith('/project', expect.any(Array));
+    expect(mockGuideUninstallService.removeDirectory).toHaveBeenCalledTimes(1);
+    expect(mockGuideUninstallService.removeDirectory).toHaveBeenCalledWith('/project', '.memory-bank');
+    expect(report.status).toBe('success');
+    expect(report.files.every((file) => file.done)).toBe(true);
+    expect(logged()).toEqual(
+      expect.arrayContaining([
+        '   - remove   .memory-bank/developmentGuide.md',
+        '   ~ restore  .cursorrules (from .cursorrules.backup.1700000000000)',
+        '   = keep     .specs/ (1 other file)',
+        "\n✅ Uninstalled guide 'web'.",
+      ])
+    );
+  });
+
+  it('should ask before removing folders that still contain other files', async () => {
+    mockPrompt.mockResolvedValue({ confirm: true });
+
+    const report = await new UninstallCommand().run(baseOptions);
+
+    expect(mockPrompt).toHaveBeenCalledTimes(1);
+    expect(mockPrompt.mock.calls[0][0][0].message).toBe('.specs still contains 1 file that was not installed. Remove it anyway?');
+    expect(mockGuideUninstallService.removeDirectory).toHaveBeenCalledWith('/project', '.specs');
+    expect(report.directories.map((directory) => directory.action)).toEqual(['remove', 'remove']);
+  });
+
+  it('should keep non-empty folders without asking with --yes', async () => {
+    await new UninstallCommand().run({ ...baseOptions, yes: true });
+
+    expect(mockPrompt).not.toHaveBeenCalled();
+    expect(mockGuideUninstallService.removeDirectory).not.toHaveBeenCalledWith('/project', '.specs');
+  });
+
+  it('should refuse to remove modified files without --force', async () => {
+    mockGuideUninstallService.planUninstall.mockReturnValue([{ ...uninstalls()[0], modified: true }]);
+
+    const report = await new UninstallCommand().run({ ...baseOptions, yes: true });
+
+    expect(mockGuideUninstallService.applyUninstall).not.toHaveBeenCalled();
+    expect(report.exitCode).toBe(ExitCode.FilesModified);
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      '\n❌ Error:',
+      'These files changed since they were installed: .memory-bank/developmentGuide.md. Use --force to remove them anyway.'
+    );
+  });
+
+  it('should remove modified files with --force', async () => {
+    mockGuideUninstallService.planUninstall.mockReturnValue([{ ...uninstalls()[0], modified: true }]);
+
+    const report = await new UninstallCommand().run({ ...baseOptions, yes: true, force: true });
+
+    expect(mockGuideUninstallService.applyUninstall).toHaveBeenCalled();
+    expect(report.exitCode).toBe(ExitCode.Success);
+  });
+
+  it('should only show what would be removed with --dry-run', async () => {
+    const report = await new UninstallCommand().run({ ...baseOptions, dryRun: true, json: true });
+
+    expect(mockGuideUninstallService.applyUninstall).not.toHaveBeenCalled();
+    expect(mockGuideUninstallService.removeDirectory).not.toHaveBeenCalled();
+    expect(report.status).toBe('dry-run');
+    expect(JSON.parse(mockConsoleLog.mock.calls[0][0]).files[1]).toEqual({
+      path: '.cursorrules',
+      action: 'restore',
+      modified: false,
+      backupPath: '.cursorrules.backup.1700000000000',
+    });
+  });
+
+  it('should keep the folders when some files could not be removed', async () => {
+    mockGuideUninstallService.applyUninstall.mockReturnValue([{ success: false, error: 'Failed to remove .cursorrules: EACCES' }]);
+
+    const report = await new UninstallCommand().run({ ...baseOptions, yes: true });
+
+    expect(mockGuideUninstallService.removeDirectory).not.toHaveBeenCalled();
+    expect(report.exitCode).toBe(ExitCode.CopyFailed);
+    expect(mockConsoleError).toHaveBeenCalledWith('   - Failed to remove .cursorrules: EACCES');
+  });
+
+  it('should fail when no guide is installed', async () => {
+    mockReadInstallLockfile.mockReturnValue({});
+
+    const report = await new UninstallCommand().run(baseOptions);
+
+    expect(report.exitCode).toBe(ExitCode.NotInstalled);
+    expect(mockGuideUninstallService.planUninstall).not.toHaveBeenCalled();
+  });
+});
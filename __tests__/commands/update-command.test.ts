@@ -0,0 +1,294 @@
+import * as path from 'path';
+import { UpdateCommand } from '../../src/commands/update-command';
+import { ConfigVersionError } from '../../src/config/config-migrations';
+import { ConfigurationManager } from '../../src/config/configuration-manager';
+import { GuideDiscoveryService } from '../../src/services/guide-discovery-service';
+import { FileCopyService } from '../../src/services/file-copy-service';
+import { GuideUpdateService, PendingFileUpdate } from '../../src/services/guide-update-service';
+import { CliOptions, GuideInfo, InstallLockfile } from '../../src/config/types';
+import { ExitCode } from '../../src/utils/errors';
+import { readInstallLockfile } from '../../src/utils/install-lockfile';
+import { detectProjectVariables } from '../../src/utils/project-variables';
+
+// Mock inquirer
+jest.mock('inquirer', () => ({
+  prompt: jest.fn(),
+}));
+
+// Mock the services and the lockfile reader
+jest.mock('../../src/config/configuration-manager');
+jest.mock('../../src/services/guide-discovery-service');
+jest.mock('../../src/services/file-copy-service');
+jest.mock('../../src/services/guide-update-service');
+jest.mock('../../src/utils/install-lockfile');
+jest.mock('../../src/utils/project-variables');
+
+import inquirer from 'inquirer';
+
+describe('UpdateCommand', () => {
+  let mockGuideDiscoveryService: jest.Mocked<GuideDiscoveryService>;
+  let mockFileCopyService: jest.Mocked<FileCopyService>;
+  let mockGuideUpdateService: jest.Mocked<GuideUpdateService>;
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  const mockPrompt = inquirer.prompt as unknown as jest.Mock;
+  const mockReadInstallLockfile = readInstallLockfile as jest.MockedFunction<typeof readInstallLockfile>;
+
+  const guide: GuideInfo = {
+    id: 'web',
+    displayName: 'Web',
+    type: 'built-in',
+    folderPath: '/package/src/developmentGuides/Web',
+    hasCursorRules: true,
+  };
+
+  const lockfile: InstallLockfile = {
+    lockfileVersion: 1,
+    guide: { id: 'web', type: 'built-in', sourcePath: guide.folderPath, contentHash: 'a'.repeat(64) },
+    files: [],
+    installedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  const baseOptions: CliOptions = {
+    command: 'update',
+    target: '/project',
+    yes: false,
+    help: false,
+    dryRun: false,
+    json: false,
+  };
+
+  const conflict = (): PendingFileUpdate => ({
+    path: '.cursorrules',
+    source: '.cursorrules',
+    action: 'conflict',
+    conflicts: 1,
+    targetPath: path.join('/project', '.cursorrules'),
+    incoming: Buffer.from('guide\n'),
+    local: Buffer.from('local\n'),
+    content: 'intro\n<<<<<<< local\nlocal\n=======\nguide\n>>>>>>> guide\n',
+  });
+
+  const logged = () => mockConsoleLog.mock.calls.map((call) => call.join(' '));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+    (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mockImplementation(
+      () =>
+        ({
+          loadResolvedConfig: jest.fn().mockReturnValue({
+            config: { version: '1.0.0', customGuidesFolder: '/custom', menuItems: [] },
+            sources: {},
+            layers: [],
+          }),
+          getDefaultConfig: jest.fn(),
+        }) as any
+    );
+    mockGuideDiscoveryService = {
+      getAllGuides: jest.fn().mockReturnValue([guide]),
+      findGuideById: jest.fn((guides: GuideInfo[], id: string) => guides.find((item) => item.id === id)),
+    } as any;
+    (GuideDiscoveryService as jest.MockedClass<typeof GuideDiscoveryService>).mockImplementation(
+      () => mockGuideDiscoveryService
+    );
+    mockFileCopyService = {
+      validateTargetDirectory: jest.fn().mockReturnValue({ isValid: true }),
+      setAvailableGuides: jest.fn(),
+      validateComposition: jest.fn().mockReturnValue({ isValid: true }),
+    } as any;
+    (FileCopyService as jest.MockedClass<typeof FileCopyService>).mockImplementation(() => mockFileCopyService);
+    mockGuideUpdateService = {
+      setAvailableGuides: jest.fn(),
+      planUpdate: jest.fn().mockReturnValue([]),
+      applyUpdate: jest.fn().mockReturnValue([]),
+    } as any;
+    (GuideUpdateService as jest.MockedClass<typeof GuideUpdateService>).mockImplementation(
+      () => mockGuideUpdateService
+    );
+    mockReadInstallLockfile.mockReturnValue({ lockfile });
+    (detectProjectVariables as jest.Mock).mockReturnValue({ projectName: 'demo', date: '2026-03-01' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should plan and apply the update of the installed guide', async () => {
+    const updates: PendingFileUpdate[] = [
+      {
+        path: '.memory-bank/developmentGuide.md',
+        action: 'merge',
+        targetPath: path.join('/project', '.memory-bank', 'developmentGuide.md'),
+        content: 'merged',
+      },
+      { path: '.cursorrules', action: 'unchanged', targetPath: path.join('/project', '.cursorrules') },
+    ];
+    mockGuideUpdateService.planUpdate.mockReturnValue(updates);
+    mockGuideUpdateService.applyUpdate.mockImplementation((_guide, _target, _lockfile, planned) => {
+      planned[0].written = true;
+      return [{ success: true, copiedFilePath: planned[0].targetPath }];
+    });
+
+    const report = await new UpdateCommand().run(baseOptions);
+
+    expect(mockGuideUpdateService.planUpdate).toHaveBeenCalledWith(guide, '/project', lockfile, undefined);
+    expect(mockGuideUpdateService.applyUpdate).toHaveBeenCalledWith(guide, '/project', lockfile, updates, undefined);
+    expect(report.status).toBe('success');
+    expect(report.exitCode).toBe(ExitCode.Success);
+    expect(logged()).toEqual(
+      expect.arrayContaining([
+        '   ~ merge     .memory-bank/developmentGuide.md',
+        '   = unchanged .cursorrules',
+        '\n✅ Updated 1 file.',
+      ])
+    );
+  });
+
+  it('should only show the changes with --dry-run', async () => {
+    mockGuideUpdateService.planUpdate.mockReturnValue([conflict()]);
+
+    const report = await new UpdateCommand().run({ ...baseOptions, dryRun: true, json: true });
+
+    expect(mockGuideUpdateService.applyUpdate).not.toHaveBeenCalled();
+    expect(mockPrompt).not.toHaveBeenCalled();
+    expect(report.status).toBe('dry-run');
+    expect(JSON.parse(mockConsoleLog.mock.calls[0][0]).files).toEqual([
+      { path: '.cursorrules', source: '.cursorrules', action: 'conflict', conflicts: 1 },
+    ]);
+  });
+
+  it('should write conflict markers with --yes and exit with the conflict code', async () => {
+    const update = conflict();
+    mockGuideUpdateService.planUpdate.mockReturnValue([update]);
+
+    const report = await new UpdateCommand().run({ ...baseOptions, yes: true });
+
+    expect(mockPrompt).not.toHaveBeenCalled();
+    expect(update.resolution).toBe('markers');
+    expect(update.content).toContain('<<<<<<< local');
+    expect(report.status).toBe('conflicts');
+    expect(report.exitCode).toBe(ExitCode.UpdateConflicts);
+  });
+
+  it('should show each conflict and apply the chosen resolution', async () => {
+    const keepMine = conflict();
+    const useGuide = { ...conflict(), path: 'docs/adr.md' };
+    mockGuideUpdateService.planUpdate.mockReturnValue([keepMine, useGuide]);
+    mockPrompt.mockResolvedValueOnce({ resolution: 'ours' }).mockResolvedValueOnce({ resolution: 'theirs' });
+
+    const report = await new UpdateCommand().run(baseOptions);
+
+    expect(mockPrompt).toHaveBeenCalledTimes(2);
+    expect(mockPrompt.mock.calls[0][0][0].choices.map((choice: any) => choice.value)).toEqual([
+      'markers',
+      'ours',
+      'theirs',
+    ]);
+    expect(logged()).toEqual(expect.arrayContaining(['   <<<<<<< local', '   >>>>>>> guide']));
+    expect(logged()).not.toContain('   intro');
+    expect(keepMine.content).toBeUndefined();
+    expect(useGuide.content?.toString()).toBe('guide\n');
+    expect(report.exitCode).toBe(ExitCode.Success);
+  });
+
+  it('should keep the local version of binary conflicts without asking for markers', async () => {
+    const binary = { ...conflict(), content: undefined };
+    mockGuideUpdateService.planUpdate.mockReturnValue([binary]);
+
+    await new UpdateCommand().run({ ...baseOptions, yes: true });
+
+    expect(binary.resolution).toBe('ours');
+  });
+
+  it('should render templated guides with the variables recorded at install time', async () => {
+    const templated = { ...guide, manifest: { variables: [{ name: 'team', default: 'Core' }, { name: 'region', default: 'eu' }] } };
+    mockGuideDiscoveryService.getAllGuides.mockReturnValue([templated]);
+    mockReadInstallLockfile.mockReturnValue({ lockfile: { ...lockfile, variables: { team: 'Payments', date: '2026-01-01' } } });
+
+    await new UpdateCommand().run({ ...baseOptions, vars: { region: 'us' } });
+
+    expect(mockGuideUpdateService.planUpdate.mock.calls[0][3]).toEqual({
+      team: 'Payments',
+      region: 'us',
+      projectName: 'demo',
+      date: '2026-01-01',
+    });
+  });
+
+  it('should fail when the project has no lockfile', async () => {
+    mockReadInstallLockfile.mockReturnValue({});
+
+    const report = await new UpdateCommand().run(baseOptions);
+
+    expect(report.exitCode).toBe(ExitCode.NotInstalled);
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      '\n❌ Error:',
+      'No installed guide found. Run init-memory-bank to install a guide first.'
+    );
+  });
+
+  it('should fail when the installed guide is no longer available', async () => {
+    mockGuideDiscoveryService.getAllGuides.mockReturnValue([]);
+
+    const report = await new UpdateCommand().run({ ...baseOptions, json: true });
+
+    expect(report.exitCode).toBe(ExitCode.GuideNotFound);
+    expect(JSON.parse(mockConsoleLog.mock.calls[0][0])).toMatchObject({
+      status: 'failed',
+      error: "Installed guide 'web' is no longer available. Available guides: ",
+    });
+  });
+
+  it('should fail for a configuration written by a newer CLI', async () => {
+    (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mockImplementation(
+      () =>
+        ({
+          loadResolvedConfig: jest.fn(() => {
+            throw new ConfigVersionError('2.0.0');
+          }),
+          getDefaultConfig: jest.fn(),
+        }) as any
+    );
+
+    const report = await new UpdateCommand().run(baseOptions);
+
+    expect(mockGuideDiscoveryService.getAllGuides).not.toHaveBeenCalled();
+    expect(report).toMatchObject({ status: 'failed', exitCode: ExitCode.GeneralError });
+    expect(report.error).toContain('Configuration version 2.0.0 is newer than this CLI supports');
+    expect(mockConsoleError).toHaveBeenCalledWith('\n❌ Error:', report.error);
+  });
+
+  it('should compose guides that extend another guide from the available guides', async () => {
+    mockFileCopyService.validateComposition.mockReturnValue({
+      isValid: false,
+      error: "Guide 'web' extends 'base', but no guide with that id was found. Available guides: java",
+    });
+
+    const report = await new UpdateCommand().run(baseOptions);
+
+    expect(mockFileCopyService.setAvailableGuides).toHaveBeenCalledWith([guide]);
+    expect(mockGuideUpdateService.setAvailableGuides).toHaveBeenCalledWith([guide]);
+    expect(report.exitCode).toBe(ExitCode.GuideCompositionFailed);
+    expect(report.error).toBe("Guide 'web' extends 'base', but no guide with that id was found. Available guides: java");
+    expect(mockGuideUpdateService.planUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should fail with the copy code when guide files cannot be rendered or written', async () => {
+    mockGuideUpdateService.planUpdate.mockImplementationOnce(() => {
+      throw new Error('Unresolved template variables in guide.md: team');
+    });
+
+    expect((await new UpdateCommand().run(baseOptions)).exitCode).toBe(ExitCode.CopyFailed);
+
+    mockGuideUpdateService.applyUpdate.mockReturnValue([{ success: false, error: 'Failed to update .cursorrules: EACCES' }]);
+
+    const report = await new UpdateCommand().run(baseOptions);
+
+    expect(report.exitCode).toBe(ExitCode.CopyFailed);
+    expect(mockConsoleError).toHaveBeenCalledWith('   - Failed to update .cursorrules: EACCES');
+  });
+});
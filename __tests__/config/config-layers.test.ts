@@ -0,0 +1,201 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  findProjectConfig,
+  mergeConfigLayers,
+  readCliLayers,
+  readEnvLayers,
+} from '../../src/config/config-layers';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('config layers', () => {
+  let files: Record<string, string>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    files = {};
+
+    // Serve files from an in-memory filesystem
+    mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() in files);
+    mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) => {
+      const content = files[filePath.toString()];
+      if (content === undefined) {
+        throw new Error(`ENOENT: ${filePath}`);
+      }
+      return content;
+    }) as any);
+  });
+
+  describe('findProjectConfig', () => {
+    it('should find a .memorybankrc.json in a parent directory', () => {
+      files[path.resolve('/repo/.memorybankrc.json')] = JSON.stringify({ backups: { keep: 3 } });
+
+      expect(findProjectConfig('/repo/packages/app')).toEqual({
+        source: 'project',
+        origin: path.resolve('/repo/.memorybankrc.json'),
+        values: { backups: { keep: 3 } },
+      });
+    });
+
+    it('should read the memoryBank key of package.json', () => {
+      files[path.resolve('/repo/package.json')] = JSON.stringify({ name: 'repo', memoryBank: { backups: { keep: 2 } } });
+
+      expect(findProjectConfig('/repo')).toMatchObject({
+        origin: path.resolve('/repo/package.json'),
+        values: { backups: { keep: 2 } },
+      });
+    });
+
+    it('should prefer .memorybankrc.json over package.json in the same directory', () => {
+      files[path.resolve('/repo/package.json')] = JSON.stringify({ memoryBank: { backups: { keep: 2 } } });
+      files[path.resolve('/repo/.memorybankrc.json')] = JSON.stringify({ backups: { keep: 3 } });
+
+      expect(findProjectConfig('/repo')?.origin).toBe(path.resolve('/repo/.memorybankrc.json'));
+    });
+
+    it('should use the closest configuration', () => {
+      files[path.resolve('/repo/.memorybankrc.json')] = JSON.stringify({ backups: { keep: 3 } });
+      files[path.resolve('/repo/app/package.json')] = JSON.stringify({ memoryBank: { backups: { keep: 2 } } });
+
+      expect(findProjectConfig('/repo/app')?.origin).toBe(path.resolve('/repo/app/package.json'));
+    });
+
+    it('should skip package.json files without a memoryBank key or with broken JSON', () => {
+      files[path.resolve('/repo/.memorybankrc.json')] = JSON.stringify({ backups: { keep: 3 } });
+      files[path.resolve('/repo/app/package.json')] = JSON.stringify({ name: 'app' });
+      files[path.resolve('/repo/app/src/package.json')] = '{ broken';
+
+      expect(findProjectConfig('/repo/app/src')?.origin).toBe(path.resolve('/repo/.memorybankrc.json'));
+    });
+
+    it('should return undefined when no configuration is found', () => {
+      expect(findProjectConfig('/repo/app')).toBeUndefined();
+    });
+
+    it('should resolve a relative guides folder against the configuration file', () => {
+      files[path.resolve('/repo/.memorybankrc.json')] = JSON.stringify({ customGuidesFolder: 'guides' });
+
+      expect(findProjectConfig('/repo/app')?.values.customGuidesFolder).toBe(path.resolve('/repo/guides'));
+    });
+
+    it('should resolve relative guide source paths against the configuration file', () => {
+      files[path.resolve('/repo/.memorybankrc.json')] = JSON.stringify({
+        guideSources: [
+          { label: 'platform', path: 'vendor/guides', priority: 1 },
+          { label: 'shared', path: '/shared/guides' },
+        ],
+      });
+
+      expect(findProjectConfig('/repo/app')?.values.guideSources).toEqual([
+        { label: 'platform', path: path.resolve('/repo/vendor/guides'), priority: 1 },
+        { label: 'shared', path: path.resolve('/shared/guides') },
+      ]);
+    });
+
+    it('should resolve local git repositories and archives but leave URLs alone', () => {
+      files[path.resolve('/repo/.memorybankrc.json')] = JSON.stringify({
+        guideSources: [
+          { label: 'local', git: '../guides.git', ref: 'main' },
+          { label: 'remote', git: 'git@example.com:team/guides.git' },
+          { label: 'pack', archive: 'vendor/guides.tgz' },
+          { label: 'url', archive: 'file:///downloads/guides.tgz' },
+        ],
+      });
+
+      expect(findProjectConfig('/repo/app')?.values.guideSources).toEqual([
+        { label: 'local', git: path.resolve('/guides.git'), ref: 'main' },
+        { label: 'remote', git: 'git@example.com:team/guides.git' },
+        { label: 'pack', archive: path.resolve('/repo/vendor/guides.tgz') },
+        { label: 'url', archive: 'file:///downloads/guides.tgz' },
+      ]);
+    });
+
+    it('should name the file when a .memorybankrc.json cannot be parsed', () => {
+      const rcPath = path.resolve('/repo/.memorybankrc.json');
+      files[rcPath] = '{ broken';
+
+      expect(() => findProjectConfig('/repo')).toThrow(`Invalid project configuration in ${rcPath}`);
+    });
+
+    it('should reject a memoryBank key that is not an object', () => {
+      const packagePath = path.resolve('/repo/package.json');
+      files[packagePath] = JSON.stringify({ memoryBank: 'web' });
+
+      expect(() => findProjectConfig('/repo')).toThrow(
+        `Invalid project configuration in ${packagePath}: expected an object`
+      );
+    });
+  });
+
+  describe('readEnvLayers', () => {
+    it('should turn each MEMORY_BANK_* variable into its own layer', () => {
+      expect(
+        readEnvLayers({
+          MEMORY_BANK_GUIDES_FOLDER: '/env/guides',
+          MEMORY_BANK_BACKUP_KEEP: '4',
+          MEMORY_BANK_BACKUP_LOCATION: '',
+          HOME: '/home/dev',
+        })
+      ).toEqual([
+        {
+          source: 'env',
+          origin: 'MEMORY_BANK_GUIDES_FOLDER',
+          values: { customGuidesFolder: path.resolve('/env/guides') },
+        },
+        { source: 'env', origin: 'MEMORY_BANK_BACKUP_KEEP', values: { backups: { keep: 4 } } },
+      ]);
+    });
+  });
+
+  describe('readCliLayers', () => {
+    it('should turn --guides-folder into a layer', () => {
+      expect(readCliLayers({ guidesFolder: '/cli/guides' })).toEqual([
+        {
+          source: 'cli',
+          origin: '--guides-folder',
+          values: { customGuidesFolder: path.resolve('/cli/guides') },
+        },
+      ]);
+      expect(readCliLayers({})).toEqual([]);
+    });
+  });
+
+  describe('mergeConfigLayers', () => {
+    it('should let later layers win and record where each value came from', () => {
+      const resolved = mergeConfigLayers([
+        { source: 'default', values: { version: '1.0.0', customGuidesFolder: '/default', menuItems: [] } },
+        { source: 'global', origin: '/home/dev/.memory-bank/config.json', values: { backups: { keep: 5, maxAgeDays: 30 } } },
+        { source: 'project', origin: '/repo/.memorybankrc.json', values: { customGuidesFolder: '/repo/guides' } },
+        { source: 'env', origin: 'MEMORY_BANK_BACKUP_KEEP', values: { backups: { keep: 2 } } },
+      ]);
+
+      expect(resolved.config).toEqual({
+        version: '1.0.0',
+        customGuidesFolder: '/repo/guides',
+        menuItems: [],
+        backups: { keep: 2, maxAgeDays: 30 },
+      });
+      expect(resolved.sources).toEqual({
+        version: { source: 'default' },
+        customGuidesFolder: { source: 'project', origin: '/repo/.memorybankrc.json' },
+        menuItems: { source: 'default' },
+        'backups.keep': { source: 'env', origin: 'MEMORY_BANK_BACKUP_KEEP' },
+        'backups.maxAgeDays': { source: 'global', origin: '/home/dev/.memory-bank/config.json' },
+      });
+    });
+
+    it('should replace lists instead of merging them', () => {
+      const item = { id: 'team', displayName: 'Team', folderPath: 'team' };
+      const resolved = mergeConfigLayers([
+        { source: 'global', values: { menuItems: [{ ...item, id: 'other' }] } },
+        { source: 'project', values: { menuItems: [item] } },
+      ]);
+
+      expect(resolved.config.menuItems).toEqual([item]);
+      expect(resolved.sources.menuItems.source).toBe('project');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describeConfigLocation, resolveConfigLocation } from '../../src/config/config-location';
+
+// Mock fs and os modules
+jest.mock('fs');
+jest.mock('os');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+const mockedOs = os as jest.Mocked<typeof os>;
+
+describe('config location', () => {
+  let existing: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    existing = [];
+    mockedOs.homedir.mockReturnValue('/home/dev');
+    mockedFs.existsSync.mockImplementation((filePath) => existing.includes(filePath.toString()));
+  });
+
+  describe('resolveConfigLocation', () => {
+    const env = {
+      MEMORY_BANK_CONFIG: '/etc/memory-bank',
+      MEMORY_BANK_HOME: '/opt/memory-bank',
+      XDG_CONFIG_HOME: '/home/dev/.config',
+    };
+
+    it('should prefer the --config flag over every environment variable', () => {
+      expect(resolveConfigLocation('/cli/config', env)).toEqual({
+        dir: path.resolve('/cli/config'),
+        source: 'cli',
+        origin: '--config',
+      });
+    });
+
+    it('should use MEMORY_BANK_CONFIG before MEMORY_BANK_HOME', () => {
+      expect(resolveConfigLocation(undefined, env)).toEqual({
+        dir: path.resolve('/etc/memory-bank'),
+        source: 'env',
+        origin: 'MEMORY_BANK_CONFIG',
+      });
+    });
+
+    it('should use MEMORY_BANK_HOME before XDG_CONFIG_HOME', () => {
+      expect(resolveConfigLocation(undefined, { ...env, MEMORY_BANK_CONFIG: '  ' })).toEqual({
+        dir: path.resolve('/opt/memory-bank'),
+        source: 'env',
+        origin: 'MEMORY_BANK_HOME',
+      });
+    });
+
+    it('should resolve relative directories against the working directory', () => {
+      expect(resolveConfigLocation('config').dir).toBe(path.resolve('config'));
+      expect(resolveConfigLocation(undefined, { MEMORY_BANK_HOME: 'home' }).dir).toBe(path.resolve('home'));
+    });
+
+    it('should use a memory-bank folder under XDG_CONFIG_HOME', () => {
+      expect(resolveConfigLocation(undefined, { XDG_CONFIG_HOME: '/home/dev/.config' })).toEqual({
+        dir: path.join('/home/dev/.config', 'memory-bank'),
+        source: 'xdg',
+        origin: 'XDG_CONFIG_HOME',
+      });
+    });
+
+    it('should ignore a relative XDG_CONFIG_HOME', () => {
+      expect(resolveConfigLocation(undefined, { XDG_CONFIG_HOME: '.config' })).toEqual({
+        dir: path.join('/home/dev', '.memory-bank'),
+        source: 'default',
+      });
+    });
+
+    it('should keep using an existing ~/.memory-bank configuration until the XDG folder exists', () => {
+      existing.push(path.join('/home/dev', '.memory-bank', 'config.json'));
+
+      expect(resolveConfigLocation(undefined, { XDG_CONFIG_HOME: '/home/dev/.config' }).source).toBe('default');
+
+      existing.push(path.join('/home/dev/.config', 'memory-bank'));
+
+      expect(resolveConfigLocation(undefined, { XDG_CONFIG_HOME: '/home/dev/.config' }).source).toBe('xdg');
+    });
+
+    it('should default to ~/.memory-bank', () => {
+      expect(resolveConfigLocation(undefined, {})).toEqual({
+        dir: path.join('/home/dev', '.memory-bank'),
+        source: 'default',
+      });
+    });
+  });
+
+  describe('describeConfigLocation', () => {
+    it('should name the flag or variable that chose the directory', () => {
+      expect(describeConfigLocation({ dir: '/opt/memory-bank', source: 'env', origin: 'MEMORY_BANK_HOME' })).toBe(
+        '/opt/memory-bank (from MEMORY_BANK_HOME)'
+      );
+      expect(describeConfigLocation({ dir: '/home/dev/.memory-bank', source: 'default' })).toBe('/home/dev/.memory-bank');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CONFIG_VERSION,
+  ConfigMigration,
+  ConfigVersionError,
+  compareVersions,
+  migrateConfig,
+  validateConfigVersion,
+} from '../../src/config/config-migrations';
+
+describe('config migrations', () => {
+  describe('migrateConfig', () => {
+    it('should leave a configuration of the current version unchanged', () => {
+      const data = { version: CONFIG_VERSION, customGuidesFolder: '/guides', menuItems: [] };
+
+      expect(migrateConfig(data)).toEqual({
+        config: data,
+        fromVersion: CONFIG_VERSION,
+        toVersion: CONFIG_VERSION,
+        changes: [],
+      });
+    });
+
+    it('should migrate a configuration without a version and fill in missing fields', () => {
+      const data = { customGuidesFolder: '/guides' };
+
+      const result = migrateConfig(data);
+
+      expect(result).toEqual({
+        config: { customGuidesFolder: '/guides', menuItems: [], version: '1.0.0' },
+        fromVersion: '0.0.0',
+        toVersion: '1.0.0',
+        changes: ['Added version 1.0.0', 'Added an empty menuItems list'],
+      });
+      expect(data).toEqual({ customGuidesFolder: '/guides' });
+    });
+
+    it('should use the default guides folder when an unversioned configuration has none', () => {
+      expect(migrateConfig({ menuItems: [] }).config.customGuidesFolder).toBe(path.join(os.homedir(), 'custom-dev-guides'));
+    });
+
+    it('should run every step from the configuration version to the current one in order', () => {
+      const migrations: ConfigMigration[] = [
+        { from: '2.0.0', to: '3.0.0', migrate: (config) => ((config.sources = [config.folder]), ['Moved folder into sources']) },
+        { from: '1.0.0', to: '2.0.0', migrate: (config) => ((config.folder = config.customGuidesFolder), ['Renamed customGuidesFolder']) },
+      ];
+
+      const result = migrateConfig({ version: '1.0.0', customGuidesFolder: '/guides' }, migrations, '3.0.0');
+
+      expect(result.config).toEqual({ version: '3.0.0', customGuidesFolder: '/guides', folder: '/guides', sources: ['/guides'] });
+      expect(result.changes).toEqual(['Renamed customGuidesFolder', 'Moved folder into sources']);
+    });
+
+    it('should ask for a newer CLI when the configuration is newer than supported', () => {
+      expect(() => migrateConfig({ version: '1.1.0' })).toThrow(ConfigVersionError);
+      expect(() => migrateConfig({ version: '1.1.0' })).toThrow(
+        'Configuration version 1.1.0 is newer than this CLI supports (1.0.0). Upgrade the CLI with: npm install -g @zacfermanis/memory-bank@latest'
+      );
+    });
+
+    it('should reject versions no migration starts from', () => {
+      expect(() => migrateConfig({ version: '0.5.0' })).toThrow('No migration from configuration version 0.5.0');
+      expect(() => migrateConfig({ version: 'latest' })).toThrow('Invalid configuration version: latest');
+    });
+  });
+
+  describe('validateConfigVersion', () => {
+    it('should accept only the current version', () => {
+      expect(validateConfigVersion(CONFIG_VERSION)).toBeUndefined();
+      expect(validateConfigVersion('0.5.0')).toBe('Invalid version: 0.5.0. Expected: 1.0.0');
+      expect(validateConfigVersion('2.0.0')).toContain('Invalid version: 2.0.0 is newer than this CLI supports (1.0.0). Upgrade the CLI');
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should compare each number in turn', () => {
+      expect(compareVersions('1.0.0', '1.0.0')).toBe(0);
+      expect(compareVersions('1.2.0', '1.10.0')).toBeLessThan(0);
+      expect(compareVersions('2.0', '1.9.9')).toBeGreaterThan(0);
+      expect(compareVersions('1', '1.0.0')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CONFIG_SCHEMA,
+  formatValidationIssues,
+  hasConfigShape,
+  validateConfigSchema,
+} from '../../src/config/config-schema';
+
+describe('config schema', () => {
+  const config = { version: '1.0.0', customGuidesFolder: '/guides', menuItems: [] };
+
+  it('should be the JSON Schema file shipped with the package', () => {
+    const schemaPath = path.join(__dirname, '..', '..', 'src', 'config', 'config.schema.json');
+
+    expect(JSON.parse(fs.readFileSync(schemaPath, 'utf8'))).toEqual(CONFIG_SCHEMA);
+    expect(CONFIG_SCHEMA.$schema).toBe('http://json-schema.org/draft-07/schema#');
+  });
+
+  it('should accept a complete configuration that points to the schema', () => {
+    expect(
+      validateConfigSchema({
+        ...config,
+        $schema: './node_modules/@zacfermanis/memory-bank/dist/config/config.schema.json',
+        menuItems: [{ id: 'team', displayName: 'Team', folderPath: 'team', category: 'Web', description: 'Team rules' }],
+        backups: { location: 'memory-bank', keep: 3, maxAgeDays: 0 },
+      })
+    ).toEqual([]);
+  });
+
+  it('should report invalid values with JSON pointers', () => {
+    expect(validateConfigSchema({ version: 'latest', customGuidesFolder: '', menuItems: [{ id: ' ' }] })).toEqual([
+      { path: '/version', message: 'must be a version number such as 1.0.0' },
+      { path: '/customGuidesFolder', message: 'Custom guides folder path cannot be empty' },
+      { path: '/menuItems/0/displayName', message: 'is required' },
+      { path: '/menuItems/0/folderPath', message: 'is required' },
+      { path: '/menuItems/0/id', message: 'Menu item has empty ID' },
+    ]);
+  });
+
+  describe('hasConfigShape', () => {
+    it('should only require the fields loadConfig needs', () => {
+      expect(hasConfigShape({ ...config, backups: { keep: 0 } })).toBe(true);
+      expect(hasConfigShape({ ...config, customGuidesFolder: '' })).toBe(true);
+      expect(hasConfigShape({ version: '1.0.0', customGuidesFolder: '/guides' })).toBe(false);
+      expect(hasConfigShape({ ...config, menuItems: {} })).toBe(false);
+      expect(hasConfigShape(null)).toBe(false);
+    });
+  });
+
+  describe('formatValidationIssues', () => {
+    it('should join issues with their pointers', () => {
+      expect(
+        formatValidationIssues([
+          { path: '', message: 'must be an object' },
+          { path: '/backups/keep', message: 'must be at least 1' },
+        ])
+      ).toBe('must be an object; /backups/keep: must be at least 1');
+    });
+  });
+});
@@ -17,12 +17,56 @@ describe('ConfigurationManager', () => {
   const mockConfigPath = path.join(mockConfigDir, 'config.json');
   const mockBackupPath = path.join(mockConfigDir, 'config.backup.json');
 
+  const locationVariables = ['MEMORY_BANK_CONFIG', 'MEMORY_BANK_HOME', 'XDG_CONFIG_HOME'];
+  const originalEnv = { ...process.env };
+
   beforeEach(() => {
+    // Keep the developer's environment from moving the configuration
+    locationVariables.forEach((name) => delete process.env[name]);
     mockedOs.homedir.mockReturnValue(mockHomeDir);
     configManager = new ConfigurationManager();
     jest.clearAllMocks();
   });
 
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('configuration location', () => {
+    it('should keep the configuration in ~/.memory-bank by default', () => {
+      expect(configManager.getConfigLocation()).toEqual({ dir: mockConfigDir, source: 'default' });
+    });
+
+    it('should use the directory passed with --config', () => {
+      process.env.MEMORY_BANK_HOME = '/env/memory-bank';
+      const manager = new ConfigurationManager('/cli/memory-bank');
+
+      expect(manager.getConfigLocation()).toEqual({
+        dir: path.resolve('/cli/memory-bank'),
+        source: 'cli',
+        origin: '--config',
+      });
+      expect(manager.getConfigPath()).toBe(path.join(path.resolve('/cli/memory-bank'), 'config.json'));
+      expect(manager.getBackupPath()).toBe(path.join(path.resolve('/cli/memory-bank'), 'config.backup.json'));
+    });
+
+    it('should read and save the configuration in the directory from the environment', () => {
+      process.env.MEMORY_BANK_HOME = '/env/memory-bank';
+      const manager = new ConfigurationManager();
+      const configDir = path.resolve('/env/memory-bank');
+      mockedFs.existsSync.mockReturnValue(false);
+
+      manager.saveConfig(manager.getDefaultConfig());
+
+      expect(mockedFs.mkdirSync).toHaveBeenCalledWith(configDir, { recursive: true });
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+        path.join(configDir, 'config.json'),
+        expect.any(String),
+        'utf8'
+      );
+    });
+  });
+
   describe('getDefaultConfig', () => {
     it('should return default configuration', () => {
       const config = configManager.getDefaultConfig();
@@ -149,6 +193,113 @@ describe('ConfigurationManager', () => {
     });
   });
 
+  describe('loadConfig migrations', () => {
+    const legacyData = JSON.stringify({ customGuidesFolder: '/custom/guides' });
+    const legacyBackupPath = path.join(mockConfigDir, 'config.v0.0.0.backup.json');
+
+    beforeEach(() => {
+      mockedFs.existsSync.mockImplementation((filePath) => filePath === mockConfigPath || filePath === mockConfigDir);
+      mockedFs.readFileSync.mockReturnValue(legacyData);
+      mockedFs.writeFileSync.mockImplementation(() => undefined);
+    });
+
+    it('should migrate an older configuration and save it after backing up the original', () => {
+      const config = configManager.loadConfig();
+
+      expect(config).toEqual({ customGuidesFolder: '/custom/guides', menuItems: [], version: '1.0.0' });
+      expect(mockedFs.writeFileSync.mock.calls[0]).toEqual([legacyBackupPath, legacyData, 'utf8']);
+      expect(mockedFs.writeFileSync).toHaveBeenLastCalledWith(mockConfigPath, JSON.stringify(config, null, 2), 'utf8');
+      expect(configManager.getLastMigration()).toEqual({
+        fromVersion: '0.0.0',
+        toVersion: '1.0.0',
+        changes: ['Added version 1.0.0', 'Added an empty menuItems list'],
+        backupPath: legacyBackupPath,
+      });
+    });
+
+    it('should not save the migrated configuration when the original cannot be backed up', () => {
+      mockedFs.writeFileSync.mockImplementation(() => {
+        throw new Error('EACCES: permission denied');
+      });
+
+      const config = configManager.loadConfig();
+
+      expect(config.version).toBe('1.0.0');
+      expect(mockedFs.writeFileSync).toHaveBeenCalledTimes(1);
+      expect(configManager.getLastMigration()?.error).toBe(
+        'Could not save the migrated configuration: EACCES: permission denied'
+      );
+    });
+
+    it('should not report a migration for a current configuration', () => {
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify(configManager.getDefaultConfig()));
+
+      configManager.loadConfig();
+
+      expect(configManager.getLastMigration()).toBeUndefined();
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a configuration written by a newer CLI instead of replacing it', () => {
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify({ ...configManager.getDefaultConfig(), version: '2.0.0' }));
+
+      expect(() => configManager.loadConfig()).toThrow('Configuration version 2.0.0 is newer than this CLI supports (1.0.0)');
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadResolvedConfig', () => {
+    const projectPath = path.resolve('/repo/.memorybankrc.json');
+    let files: Record<string, string>;
+
+    beforeEach(() => {
+      files = {};
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() in files);
+      mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) => files[filePath.toString()]) as any);
+    });
+
+    it('should return the defaults when nothing else is configured', () => {
+      const resolved = configManager.loadResolvedConfig({ cwd: '/repo', env: {} });
+
+      expect(resolved.config).toEqual(configManager.getDefaultConfig());
+      expect(resolved.layers.map((layer) => layer.source)).toEqual(['default']);
+    });
+
+    it('should layer the global, project, environment and command line values in order', () => {
+      files[mockConfigPath] = JSON.stringify({
+        version: '1.0.0',
+        customGuidesFolder: '/global/guides',
+        menuItems: [],
+        backups: { keep: 5 },
+      });
+      files[projectPath] = JSON.stringify({ customGuidesFolder: '/project/guides', backups: { maxAgeDays: 7 } });
+
+      const resolved = configManager.loadResolvedConfig({
+        cwd: '/repo/app',
+        env: { MEMORY_BANK_BACKUP_KEEP: '2' },
+        cliLayers: [{ source: 'cli', origin: '--guides-folder', values: { customGuidesFolder: '/cli/guides' } }],
+      });
+
+      expect(resolved.layers.map((layer) => layer.source)).toEqual(['default', 'global', 'project', 'env', 'cli']);
+      expect(resolved.config).toEqual({
+        version: '1.0.0',
+        customGuidesFolder: '/cli/guides',
+        menuItems: [],
+        backups: { keep: 2, maxAgeDays: 7 },
+      });
+      expect(resolved.sources['backups.maxAgeDays']).toEqual({ source: 'project', origin: projectPath });
+      expect(resolved.sources.menuItems).toEqual({ source: 'global', origin: mockConfigPath });
+    });
+
+    it('should throw when the project configuration cannot be read', () => {
+      files[projectPath] = '{ broken';
+
+      expect(() => configManager.loadResolvedConfig({ cwd: '/repo', env: {} })).toThrow(
+        `Invalid project configuration in ${projectPath}`
+      );
+    });
+  });
+
   describe('saveConfig', () => {
     it('should save configuration with backup', () => {
       const config: CustomGuideConfig = {
@@ -413,6 +564,164 @@ describe('ConfigurationManager', () => {
       expect(result.isValid).toBe(true);
       expect(result.warnings).toContain('Menu item folder does not exist');
     });
+
+    it('should report every violation at once with JSON pointers', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => false } as any);
+
+      const result = configManager.validateConfig({
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: [{ id: 'team', displayName: '', folderPath: 'team' }, { id: 'docs' } as any],
+        backups: { keep: 0, location: 'elsewhere' as any },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues).toEqual([
+        { path: '/menuItems/0/displayName', message: 'Menu item has empty display name' },
+        { path: '/menuItems/1/displayName', message: 'is required' },
+        { path: '/menuItems/1/folderPath', message: 'is required' },
+        { path: '/backups/location', message: 'must be one of: beside, memory-bank' },
+        { path: '/backups/keep', message: 'must be at least 1' },
+        { path: '/customGuidesFolder', message: 'Custom guides folder is not a directory: /custom/guides' },
+      ]);
+      expect(result.error).toContain('/menuItems/1/folderPath: is required; /backups/location:');
+    });
+
+    it('should validate guide sources', () => {
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() !== '/missing/guides');
+      mockedFs.statSync.mockImplementation(((filePath: fs.PathLike) => ({ isDirectory: () => filePath.toString() !== '/file' })) as any);
+
+      const result = configManager.validateConfig({
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        guideSources: [
+          { label: 'team', path: '/missing/guides' },
+          { label: 'team', path: '/shared/guides' },
+          { label: 'customGuidesFolder', path: '/file' },
+          { label: '', path: '/other', priority: 'high' as any },
+        ],
+        menuItems: [],
+      });
+
+      expect(result.issues).toEqual([
+        { path: '/guideSources/3/label', message: 'Guide source has empty label' },
+        { path: '/guideSources/3/priority', message: 'must be a number' },
+      ]);
+
+      const valid = configManager.validateConfig({
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        guideSources: [
+          { label: 'team', path: '/missing/guides' },
+          { label: 'team', path: '/shared/guides' },
+          { label: 'customGuidesFolder', path: '/file' },
+        ],
+        menuItems: [],
+      });
+
+      expect(valid.issues).toEqual([
+        { path: '/guideSources/1/label', message: "Guide source label 'team' is used more than once" },
+        { path: '/guideSources/2/label', message: "Guide source label 'customGuidesFolder' is used more than once" },
+        { path: '/guideSources/2/path', message: 'Guide source folder is not a directory: /file' },
+      ]);
+    });
+
+    it('should warn about guide source folders that do not exist', () => {
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() !== '/missing/guides');
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+
+      const result = configManager.validateConfig({
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        guideSources: [{ label: 'team', path: '/missing/guides', priority: 2 }],
+        menuItems: [],
+      });
+
+      expect(result).toEqual({ isValid: true, warnings: ["Guide source 'team' folder does not exist: /missing/guides"] });
+    });
+
+    it('should validate git and archive guide sources', () => {
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString().startsWith('/custom'));
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+
+      const result = configManager.validateConfig({
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        guideSources: [
+          { label: 'remote', git: 'https://example.com/guides.git', ref: 'v2', folder: 'guides' },
+          { label: 'local', git: '/repos/guides.git' },
+          { label: 'pack', archive: 'file:///downloads/guides.tgz' },
+          { label: 'both', path: '/custom/guides', git: 'https://example.com/guides.git' },
+          { label: 'none' },
+          { label: 'tagged', path: '/custom/guides', ref: 'main', folder: 'docs' },
+        ],
+        menuItems: [],
+      });
+
+      expect(result.issues).toEqual([
+        { path: '/guideSources/3', message: 'Guide source needs exactly one of path, git or archive' },
+        { path: '/guideSources/4', message: 'Guide source needs exactly one of path, git or archive' },
+        { path: '/guideSources/5/ref', message: 'ref can only be used with git' },
+        { path: '/guideSources/5/folder', message: 'folder can only be used with git or archive' },
+      ]);
+
+      const valid = configManager.validateConfig({
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        guideSources: [
+          { label: 'remote', git: 'https://example.com/guides.git', ref: 'v2', folder: 'guides' },
+          { label: 'local', git: '/repos/guides.git' },
+          { label: 'pack', archive: 'file:///downloads/guides.tgz' },
+        ],
+        menuItems: [],
+      });
+
+      expect(valid).toEqual({
+        isValid: true,
+        warnings: [
+          "Guide source 'local' repository does not exist: /repos/guides.git",
+          "Guide source 'pack' archive does not exist: /downloads/guides.tgz",
+        ],
+      });
+    });
+
+    it('should accept backup settings', () => {
+      const config: CustomGuideConfig = {
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: [],
+        backups: { location: 'memory-bank', keep: 3, maxAgeDays: 0 },
+      };
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+
+      expect(configManager.validateConfig(config).isValid).toBe(true);
+    });
+
+    it('should reject invalid backup settings', () => {
+      const config: CustomGuideConfig = {
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: [],
+      };
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+
+      expect(configManager.validateConfig({ ...config, backups: { location: 'elsewhere' as any } }).error).toBe(
+        '/backups/location: must be one of: beside, memory-bank'
+      );
+      expect(configManager.validateConfig({ ...config, backups: { keep: 0 } }).error).toBe('/backups/keep: must be at least 1');
+      expect(configManager.validateConfig({ ...config, backups: { keep: 1.5 } }).error).toBe(
+        '/backups/keep: must be a whole number'
+      );
+      expect(configManager.validateConfig({ ...config, backups: { maxAgeDays: -1 } }).error).toBe(
+        '/backups/maxAgeDays: must be at least 0'
+      );
+      expect(configManager.validateConfig({ ...config, backups: 'daily' as any }).error).toBe(
+        '/backups: Backup settings must be an object'
+      );
+    });
   });
 
   describe('resetToDefault', () => {
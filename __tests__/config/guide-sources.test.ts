@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  describeGuideSource,
+  getGuideSourceKind,
+  getGuideSourceLocation,
+  isGitUrl,
+  resolveGuideSources,
+  resolveMenuItemFolder,
+} from '../../src/config/guide-sources';
+import { CustomGuideConfig } from '../../src/config/types';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('guide sources', () => {
+  const config: CustomGuideConfig = {
+    version: '1.0.0',
+    customGuidesFolder: '/home/dev/guides',
+    guideSources: [
+      { label: 'team', path: '/shared/team' },
+      { label: 'platform', path: '/repos/platform/guides', priority: 5 },
+      { label: 'archive', path: '/archive/guides', priority: -1 },
+    ],
+    menuItems: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolveGuideSources', () => {
+    it('should start with customGuidesFolder when there are no other sources', () => {
+      expect(resolveGuideSources({ ...config, guideSources: undefined })).toEqual([
+        { label: 'customGuidesFolder', path: '/home/dev/guides', priority: 0 },
+      ]);
+    });
+
+    it('should order sources by priority and keep the configured order for equal priorities', () => {
+      expect(resolveGuideSources(config)).toEqual([
+        { label: 'platform', path: '/repos/platform/guides', priority: 5 },
+        { label: 'customGuidesFolder', path: '/home/dev/guides', priority: 0 },
+        { label: 'team', path: '/shared/team', priority: 0 },
+        { label: 'archive', path: '/archive/guides', priority: -1 },
+      ]);
+    });
+
+    it('should not change the configured sources', () => {
+      resolveGuideSources(config);
+
+      expect(config.guideSources?.[0]).toEqual({ label: 'team', path: '/shared/team' });
+    });
+  });
+
+  describe('resolveMenuItemFolder', () => {
+    const menuItem = { id: 'react', displayName: 'React', folderPath: 'react' };
+
+    it('should use the folder under customGuidesFolder when it exists', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+
+      expect(resolveMenuItemFolder(config, menuItem)).toBe(path.resolve('/home/dev/guides', 'react'));
+    });
+
+    it('should look for the folder in the other sources by precedence', () => {
+      mockedFs.existsSync.mockImplementation(
+        (filePath) => filePath.toString() === path.resolve('/shared/team', 'react')
+      );
+
+      expect(resolveMenuItemFolder(config, menuItem)).toBe(path.resolve('/shared/team', 'react'));
+    });
+
+    it('should fall back to the path under customGuidesFolder when no source has the folder', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+
+      expect(resolveMenuItemFolder(config, menuItem)).toBe(path.resolve('/home/dev/guides', 'react'));
+    });
+
+    it('should skip git and archive sources', () => {
+      mockedFs.existsSync.mockImplementation((filePath) => !filePath.toString().startsWith('/home/dev'));
+
+      expect(
+        resolveMenuItemFolder(
+          { ...config, guideSources: [{ label: 'remote', git: 'https://example.com/guides.git' }] },
+          menuItem
+        )
+      ).toBe(path.resolve('/home/dev/guides', 'react'));
+    });
+  });
+
+  describe('getGuideSourceKind', () => {
+    it('should tell folders, git repositories and archives apart', () => {
+      expect(getGuideSourceKind({ label: 'a', path: '/guides' })).toBe('path');
+      expect(getGuideSourceKind({ label: 'b', git: 'https://example.com/guides.git' })).toBe('git');
+      expect(getGuideSourceKind({ label: 'c', archive: '/downloads/guides.tgz' })).toBe('archive');
+    });
+  });
+
+  describe('getGuideSourceLocation', () => {
+    it('should return the path, repository or archive of the source', () => {
+      expect(getGuideSourceLocation({ label: 'a', path: '/guides' })).toBe('/guides');
+      expect(getGuideSourceLocation({ label: 'b', git: 'git@example.com:team/guides.git', ref: 'v2' })).toBe(
+        'git@example.com:team/guides.git'
+      );
+      expect(getGuideSourceLocation({ label: 'c', archive: 'file:///downloads/guides.tgz' })).toBe(
+        'file:///downloads/guides.tgz'
+      );
+    });
+  });
+
+  describe('isGitUrl', () => {
+    it('should recognise URLs and scp-like addresses', () => {
+      expect(isGitUrl('https://example.com/guides.git')).toBe(true);
+      expect(isGitUrl('file:///repos/guides.git')).toBe(true);
+      expect(isGitUrl('git@example.com:team/guides.git')).toBe(true);
+    });
+
+    it('should treat local paths as paths', () => {
+      expect(isGitUrl('/repos/guides.git')).toBe(false);
+      expect(isGitUrl('../guides')).toBe(false);
+    });
+  });
+
+  describe('describeGuideSource', () => {
+    it('should name the label and the folder', () => {
+      expect(describeGuideSource({ label: 'team', path: '/shared/team' })).toBe("source 'team' (/shared/team)");
+    });
+
+    it('should name the repository and ref of a git source', () => {
+      expect(describeGuideSource({ label: 'team', git: 'https://example.com/guides.git', ref: 'main' })).toBe(
+        "source 'team' (https://example.com/guides.git#main)"
+      );
+    });
+  });
+});
@@ -13,18 +13,41 @@ jest.mock('fs', () => ({
   copyFileSync: jest.fn(),
   readFileSync: jest.fn(),
   writeFileSync: jest.fn(),
+  rmSync: jest.fn(),
 }));
 
 // Mock the services
 jest.mock('../src/config/configuration-manager');
 jest.mock('../src/services/guide-discovery-service');
 jest.mock('../src/services/file-copy-service');
+jest.mock('../src/services/memory-bank-scaffold-service');
+jest.mock('../src/services/stack-detection-service');
+jest.mock('../src/commands/update-command');
+jest.mock('../src/commands/diff-command');
+jest.mock('../src/commands/uninstall-command');
+jest.mock('../src/commands/doctor-command');
+jest.mock('../src/commands/backups-command');
+jest.mock('../src/commands/config-command');
+jest.mock('../src/commands/sources-command');
+jest.mock('../src/services/backup-service');
 
 // Import after mocking
 import inquirer from 'inquirer';
 import { ConfigurationManager } from '../src/config/configuration-manager';
 import { GuideDiscoveryService } from '../src/services/guide-discovery-service';
 import { FileCopyService } from '../src/services/file-copy-service';
+import { MemoryBankScaffoldService } from '../src/services/memory-bank-scaffold-service';
+import { InstallTransaction } from '../src/services/install-transaction';
+import { StackDetectionService } from '../src/services/stack-detection-service';
+import { UpdateCommand } from '../src/commands/update-command';
+import { DiffCommand } from '../src/commands/diff-command';
+import { UninstallCommand } from '../src/commands/uninstall-command';
+import { DoctorCommand } from '../src/commands/doctor-command';
+import { BackupsCommand } from '../src/commands/backups-command';
+import { ConfigCommand } from '../src/commands/config-command';
+import { SourcesCommand } from '../src/commands/sources-command';
+import { BackupService } from '../src/services/backup-service';
+import { ExitCode } from '../src/utils/errors';
 
 describe('Main Function Coverage Testing', () => {
   let mockPrompt: jest.MockedFunction<typeof inquirer.prompt>;
@@ -38,6 +61,8 @@ describe('Main Function Coverage Testing', () => {
   let mockConfigManager: jest.Mocked<ConfigurationManager>;
   let mockGuideDiscoveryService: jest.Mocked<GuideDiscoveryService>;
   let mockFileCopyService: jest.Mocked<FileCopyService>;
+  let mockScaffoldService: jest.Mocked<MemoryBankScaffoldService>;
+  let mockStackDetectionService: jest.Mocked<StackDetectionService>;
 
   beforeEach(() => {
     // Get mocked functions
@@ -55,23 +80,60 @@ describe('Main Function Coverage Testing', () => {
     // Mock services
     mockConfigManager = {
       loadConfig: jest.fn(),
+      loadResolvedConfig: jest.fn(() => ({ config: mockConfigManager.loadConfig(), sources: {}, layers: [] })),
+      getLastMigration: jest.fn(),
       validateConfig: jest.fn(),
       getDefaultConfig: jest.fn(),
+      getConfigPath: jest.fn(() => '/mock/home/.memory-bank/config.json'),
     } as any;
 
     mockGuideDiscoveryService = {
       discoverBuiltInGuides: jest.fn(),
       discoverCustomGuides: jest.fn(),
+      discoverPackageGuides: jest.fn(() => []),
+      findGuideById: jest.fn((guides: any[], id: string) =>
+        guides.find((guide) => guide.id === id)
+      ),
+      getWarnings: jest.fn(() => []),
+      getPackageWarnings: jest.fn(() => []),
+      resolveExtendingGuides: jest.fn(),
     } as any;
 
     mockFileCopyService = {
       copyGuideFilesWithBackup: jest.fn(),
+      validateTargetDirectory: jest.fn(),
+      planInstall: jest.fn(),
+      setTemplateVariables: jest.fn(),
+      setBackupSettings: jest.fn(),
+      setAvailableGuides: jest.fn(),
+      validateComposition: jest.fn(() => ({ isValid: true })),
+      findConflicts: jest.fn(() => []),
+      writeInstallLockfile: jest.fn(() => ({
+        success: true,
+        copiedFilePath: path.join('/test/project', '.memory-bank', '.install.json'),
+      })),
+    } as any;
+
+    mockScaffoldService = {
+      scaffold: jest.fn(() => []),
+      planScaffold: jest.fn(() => []),
+    } as any;
+
+    // Detection keeps the discovery order unless a test ranks the guides itself
+    mockStackDetectionService = {
+      rankGuides: jest.fn((guides: any[]) => guides),
     } as any;
 
     // Mock service constructors
     (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mockImplementation(() => mockConfigManager);
     (GuideDiscoveryService as jest.MockedClass<typeof GuideDiscoveryService>).mockImplementation(() => mockGuideDiscoveryService);
     (FileCopyService as jest.MockedClass<typeof FileCopyService>).mockImplementation(() => mockFileCopyService);
+    (MemoryBankScaffoldService as jest.MockedClass<typeof MemoryBankScaffoldService>).mockImplementation(
+      () => mockScaffoldService
+    );
+    (StackDetectionService as jest.MockedClass<typeof StackDetectionService>).mockImplementation(
+      () => mockStackDetectionService
+    );
 
     // Reset mocks
     jest.clearAllMocks();
@@ -280,7 +342,7 @@ describe('Main Function Coverage Testing', () => {
       await main();
 
       expect(mockConsoleError).toHaveBeenCalledWith('\n❌ Error:', 'Selected guide not found: unknown. Please try again.');
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.GuideNotFound);
     });
 
     it('should handle missing cursor rules file', async () => {
@@ -323,7 +385,7 @@ describe('Main Function Coverage Testing', () => {
 
       expect(mockConsoleError).toHaveBeenCalledWith('\n❌ Some files failed to copy:');
       expect(mockConsoleError).toHaveBeenCalledWith('   - Source file not found: /source/cursorrules/.cursorrules');
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.CopyFailed);
     });
 
     it('should handle missing development guide file', async () => {
@@ -366,7 +428,7 @@ describe('Main Function Coverage Testing', () => {
 
       expect(mockConsoleError).toHaveBeenCalledWith('\n❌ Some files failed to copy:');
       expect(mockConsoleError).toHaveBeenCalledWith('   - Source file not found: /source/developmentGuides/Web/developmentGuide.md');
-      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.CopyFailed);
     });
   });
 
@@ -420,7 +482,9 @@ describe('Main Function Coverage Testing', () => {
           id: 'lua',
           folderPath: path.join(__dirname, '..', 'src', 'developmentGuides', 'Lua'),
         }),
-        '/test/project'
+        '/test/project',
+        expect.any(InstallTransaction),
+        {}
       );
     });
 
@@ -473,7 +537,9 @@ describe('Main Function Coverage Testing', () => {
           id: 'web',
           folderPath: path.join(__dirname, '..', 'src', 'developmentGuides', 'Web'),
         }),
-        '/test/project'
+        '/test/project',
+        expect.any(InstallTransaction),
+        {}
       );
     });
   });
@@ -582,8 +648,911 @@ describe('Main Function Coverage Testing', () => {
           id: 'lua',
           folderPath: path.join(__dirname, '..', 'src', 'developmentGuides', 'Lua'),
         }),
+        '/test/project',
+        expect.any(InstallTransaction),
+        {}
+      );
+    });
+  });
+
+  describe('Non-interactive execution', () => {
+    const setupGuides = () => {
+      mockConfigManager.loadConfig.mockReturnValue({
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: []
+      });
+      mockConfigManager.validateConfig.mockReturnValue({ isValid: true });
+      mockGuideDiscoveryService.discoverBuiltInGuides.mockReturnValue([
+        {
+          id: 'web',
+          displayName: 'Web - For TypeScript/React/Next.js development',
+          type: 'built-in',
+          folderPath: path.join(__dirname, '..', 'src', 'developmentGuides', 'Web'),
+          hasCursorRules: true,
+        }
+      ]);
+      mockGuideDiscoveryService.discoverCustomGuides.mockReturnValue([
+        {
+          id: 'company-react',
+          displayName: 'Company React',
+          type: 'custom',
+          folderPath: '/custom/guides/company-react',
+          hasCursorRules: false,
+        }
+      ]);
+      mockFileCopyService.copyGuideFilesWithBackup.mockReturnValue([
+        {
+          success: true,
+          copiedFilePath: path.join('/test/project', '.memory-bank', 'developmentGuide.md'),
+          overwritten: false,
+        }
+      ]);
+    };
+
+    it('should install the guide given by --guide without prompting', async () => {
+      setupGuides();
+
+      await main(['--guide', 'company-react', '--yes']);
+
+      expect(mockPrompt).not.toHaveBeenCalled();
+      expect(mockFileCopyService.copyGuideFilesWithBackup).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'company-react', type: 'custom' }),
+        '/test/project',
+        expect.any(InstallTransaction),
+        {}
+      );
+      expect(mockProcessExit).not.toHaveBeenCalled();
+    });
+
+    it('should install into the directory given by --target', async () => {
+      setupGuides();
+      mockFileCopyService.validateTargetDirectory.mockReturnValue({ isValid: true });
+
+      await main(['--guide', 'web', '--target', '/other/project']);
+
+      const targetDir = path.resolve('/other/project');
+      expect(mockFileCopyService.validateTargetDirectory).toHaveBeenCalledWith(targetDir);
+      expect(mockMkdirSync).toHaveBeenCalledWith(
+        path.join(targetDir, '.memory-bank'),
+        { recursive: true }
+      );
+      expect(mockFileCopyService.copyGuideFilesWithBackup).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'web' }),
+        targetDir,
+        expect.any(InstallTransaction),
+        {}
+      );
+    });
+
+    it('should exit non-zero when the target directory is invalid', async () => {
+      setupGuides();
+      mockFileCopyService.validateTargetDirectory.mockReturnValue({
+        isValid: false,
+        error: 'Target directory does not exist: /missing',
+      });
+
+      await main(['--guide', 'web', '--target', '/missing']);
+
+      expect(mockConsoleError).toHaveBeenCalledWith('\n❌ Error:', 'Target directory does not exist: /missing');
+      expect(mockFileCopyService.copyGuideFilesWithBackup).not.toHaveBeenCalled();
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.InvalidTarget);
+    });
+
+    it('should exit non-zero with the available ids when the guide is unknown', async () => {
+      setupGuides();
+
+      await main(['--guide', 'rust', '--yes']);
+
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '\n❌ Error:',
+        'Unknown guide: rust. Available guides: web, company-react'
+      );
+      expect(mockFileCopyService.copyGuideFilesWithBackup).not.toHaveBeenCalled();
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.GuideNotFound);
+    });
+
+    it('should exit non-zero when the guide cannot be composed from its base guide', async () => {
+      setupGuides();
+      mockFileCopyService.validateComposition.mockReturnValue({
+        isValid: false,
+        error: 'Guides extend each other in a cycle: web -> company-react -> web',
+      });
+
+      await main(['--guide', 'web', '--yes']);
+
+      expect(mockFileCopyService.setAvailableGuides).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'web' }),
+        expect.objectContaining({ id: 'company-react' }),
+      ]);
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '\n❌ Error:',
+        'Guides extend each other in a cycle: web -> company-react -> web'
+      );
+      expect(mockFileCopyService.copyGuideFilesWithBackup).not.toHaveBeenCalled();
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.GuideCompositionFailed);
+    });
+
+    it('should refuse --yes without --guide instead of prompting', async () => {
+      setupGuides();
+
+      await main(['--yes']);
+
+      expect(mockPrompt).not.toHaveBeenCalled();
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.InvalidArguments);
+    });
+
+    it('should exit non-zero on invalid arguments', async () => {
+      await main(['--unknown']);
+
+      expect(mockConsoleError).toHaveBeenCalledWith('❌ Error:', 'Unknown option: --unknown');
+      expect(mockConfigManager.loadConfig).not.toHaveBeenCalled();
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.InvalidArguments);
+    });
+
+    it('should print the install plan for --dry-run without writing anything', async () => {
+      setupGuides();
+      mockFileCopyService.planInstall.mockReturnValue({
+        guideId: 'web',
+        guideName: 'Web',
+        targetDir: '/test/project',
+        directories: [{ path: '/test/project/.memory-bank', action: 'create' }],
+        files: [],
+        errors: [],
+      });
+
+      await main(['--guide', 'web', '--dry-run']);
+
+      expect(mockFileCopyService.planInstall).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'web' }),
+        '/test/project',
+        expect.any(Number),
+        undefined
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('📝 Install plan for Web (web)'));
+      expect(mockConsoleLog).toHaveBeenCalledWith('\n🔎 Dry run: no files or directories were changed.');
+      expect(mockMkdirSync).not.toHaveBeenCalled();
+      expect(mockFileCopyService.copyGuideFilesWithBackup).not.toHaveBeenCalled();
+      expect(mockProcessExit).not.toHaveBeenCalled();
+    });
+
+    it('should report a failing --dry-run --json plan in the JSON report', async () => {
+      setupGuides();
+      const plan = {
+        guideId: 'web',
+        guideName: 'Web',
+        targetDir: '/test/project',
+        directories: [],
+        files: [],
+        errors: ['Source file not found: /missing/.cursorrules'],
+      };
+      mockFileCopyService.planInstall.mockReturnValue(plan);
+
+      await main(['--guide', 'web', '--dry-run', '--json']);
+
+      expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+      const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(report.status).toBe('failed');
+      expect(report.exitCode).toBe(ExitCode.CopyFailed);
+      expect(report.plan).toEqual(plan);
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.CopyFailed);
+    });
+
+    it('should print a single JSON report for a successful --json install', async () => {
+      setupGuides();
+      mockGuideDiscoveryService.getWarnings.mockReturnValue(["Guide 'broken': missing developmentGuide.md"]);
+
+      await main(['--guide', 'web', '--json']);
+
+      expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+      const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(report).toEqual(
+        expect.objectContaining({
+          status: 'success',
+          exitCode: ExitCode.Success,
+          targetDir: '/test/project',
+          config: {
+            path: '/mock/home/.memory-bank/config.json',
+            loaded: true,
+            validation: { isValid: true },
+          },
+          results: [
+            {
+              success: true,
+              copiedFilePath: path.join('/test/project', '.memory-bank', 'developmentGuide.md'),
+              overwritten: false,
+            },
+          ],
+        })
+      );
+      expect(report.guides.builtIn.map((guide: any) => guide.id)).toEqual(['web']);
+      expect(report.guides.custom.map((guide: any) => guide.id)).toEqual(['company-react']);
+      expect(report.guides.warnings).toEqual(["Guide 'broken': missing developmentGuide.md"]);
+      expect(report.selectedGuide.id).toBe('web');
+      expect(mockProcessExit).not.toHaveBeenCalled();
+    });
+
+    it('should install a guide from an npm package and report package warnings', async () => {
+      setupGuides();
+      const backend = {
+        id: 'backend',
+        displayName: 'Backend',
+        type: 'package' as const,
+        folderPath: '/test/project/node_modules/@acme/memory-bank-guide-backend/guide',
+        hasCursorRules: false,
+        version: '1.4.0',
+        package: {
+          name: '@acme/memory-bank-guide-backend',
+          version: '1.4.0',
+          scope: 'project' as const,
+          path: '/test/project/node_modules/@acme/memory-bank-guide-backend',
+          folderPath: '/test/project/node_modules/@acme/memory-bank-guide-backend/guide',
+        },
+      };
+      mockGuideDiscoveryService.discoverPackageGuides.mockReturnValue([backend]);
+      mockGuideDiscoveryService.getPackageWarnings.mockReturnValue([
+        "Guide package 'old-guide' (global): guide format 2 is not supported by this version of init-memory-bank (supported: 1)",
+      ]);
+
+      await main(['--guide', 'backend', '--json']);
+
+      const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(mockGuideDiscoveryService.discoverPackageGuides).toHaveBeenCalledWith(expect.any(Object), '/test/project');
+      expect(report.guides.packages.map((guide: any) => guide.id)).toEqual(['backend']);
+      expect(report.guides.warnings).toEqual([
+        "Guide package 'old-guide' (global): guide format 2 is not supported by this version of init-memory-bank (supported: 1)",
+      ]);
+      expect(report.selectedGuide).toMatchObject({ id: 'backend', type: 'package', version: '1.4.0' });
+      expect(mockProcessExit).not.toHaveBeenCalled();
+    });
+
+    it('should load the configuration of the install target and report the project configuration', async () => {
+      setupGuides();
+      const config = mockConfigManager.loadConfig();
+      mockConfigManager.loadResolvedConfig.mockReturnValue({
+        config,
+        sources: {},
+        layers: [{ source: 'project', origin: '/test/project/.memorybankrc.json', values: {} }],
+      });
+
+      await main(['--guide', 'web', '--json', '--guides-folder', '/cli/guides']);
+
+      expect(mockConfigManager.loadResolvedConfig).toHaveBeenCalledWith({
+        cwd: '/test/project',
+        cliLayers: [expect.objectContaining({ origin: '--guides-folder' })],
+      });
+      expect(mockGuideDiscoveryService.discoverCustomGuides).toHaveBeenCalledWith(config);
+      const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(report.config.projectPath).toBe('/test/project/.memorybankrc.json');
+    });
+
+    it('should report a migrated configuration', async () => {
+      setupGuides();
+      const migration = {
+        fromVersion: '0.0.0',
+        toVersion: '1.0.0',
+        changes: ['Added version 1.0.0'],
+        backupPath: '/mock/home/.memory-bank/config.v0.0.0.backup.json',
+      };
+      mockConfigManager.getLastMigration.mockReturnValue(migration);
+
+      await main(['--guide', 'web', '--yes']);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('🔄 Migrated the configuration from version 0.0.0 to 1.0.0:');
+      expect(mockConsoleLog).toHaveBeenCalledWith('   - Added version 1.0.0');
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '   Previous version saved as /mock/home/.memory-bank/config.v0.0.0.backup.json'
+      );
+
+      mockConsoleLog.mockClear();
+      await main(['--guide', 'web', '--json']);
+
+      expect(JSON.parse(mockConsoleLog.mock.calls[0][0]).config.migration).toEqual(migration);
+    });
+
+    it('should include failed copy results and the copy exit code in the JSON report', async () => {
+      setupGuides();
+      mockFileCopyService.copyGuideFilesWithBackup.mockReturnValue([
+        {
+          success: false,
+          error: 'EACCES: permission denied',
+          backupPath: '/test/project/.cursorrules.backup.1',
+          rolledBack: false,
+          rollbackError: 'Rollback failed',
+        },
+      ]);
+
+      await main(['--guide', 'web', '--json']);
+
+      expect(mockConsoleError).not.toHaveBeenCalled();
+      const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(report.status).toBe('failed');
+      expect(report.exitCode).toBe(ExitCode.CopyFailed);
+      expect(report.results[0].rollbackError).toBe('Rollback failed');
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.CopyFailed);
+    });
+
+    it('should create the core memory bank files after copying the guide', async () => {
+      setupGuides();
+      const projectBrief = path.join('/test/project', '.memory-bank', 'projectBrief.md');
+      const progress = path.join('/test/project', '.memory-bank', 'progress.md');
+      mockScaffoldService.scaffold.mockReturnValue([
+        { success: true, copiedFilePath: projectBrief, overwritten: false },
+        { success: true, copiedFilePath: progress, skipped: true },
+      ]);
+
+      await main(['--guide', 'web', '--json']);
+
+      expect(mockScaffoldService.scaffold).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'web' }),
+        '/test/project',
+        expect.any(InstallTransaction),
+        [path.join('/test/project', '.memory-bank', 'developmentGuide.md')]
+      );
+      const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(report.results.map((result: any) => result.copiedFilePath)).toEqual([
+        path.join('/test/project', '.memory-bank', 'developmentGuide.md'),
+        projectBrief,
+        progress,
+      ]);
+      expect(report.results[2].skipped).toBe(true);
+    });
+
+    it('should exit with the copy exit code when a core file cannot be created', async () => {
+      setupGuides();
+      mockScaffoldService.scaffold.mockReturnValue([
+        { success: false, error: 'Failed to create progress.md: EACCES' },
+      ]);
+
+      await main(['--guide', 'web']);
+
+      expect(mockConsoleError).toHaveBeenCalledWith('   - Failed to create progress.md: EACCES');
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.CopyFailed);
+    });
+
+    describe('conflicting files', () => {
+      const rulesPath = path.join('/test/project', '.cursorrules');
+      const conflict = {
+        sourcePath: '/custom/guides/company-react/.cursorrules',
+        targetPath: rulesPath,
+        existing: 'our rules\n',
+        incoming: 'guide rules\n',
+      };
+
+      it('should apply the --on-conflict action to every conflicting file', async () => {
+        setupGuides();
+        mockFileCopyService.findConflicts.mockReturnValue([conflict]);
+        mockFileCopyService.copyGuideFilesWithBackup.mockReturnValue([
+          { success: true, copiedFilePath: rulesPath, skipped: true, conflictAction: 'skip' },
+        ]);
+
+        await main(['--guide', 'company-react', '--on-conflict', 'skip']);
+
+        expect(mockPrompt).not.toHaveBeenCalled();
+        expect(mockFileCopyService.copyGuideFilesWithBackup).toHaveBeenCalledWith(
+          expect.objectContaining({ id: 'company-react' }),
+          '/test/project',
+          expect.any(InstallTransaction),
+          { [rulesPath]: 'skip' }
+        );
+        expect(mockConsoleLog).toHaveBeenCalledWith('   ℹ️  Kept existing .cursorrules');
+      });
+
+      it('should overwrite conflicting files without prompts', async () => {
+        setupGuides();
+        mockFileCopyService.findConflicts.mockReturnValue([conflict]);
+
+        await main(['--guide', 'company-react', '--yes']);
+
+        expect(mockFileCopyService.copyGuideFilesWithBackup).toHaveBeenCalledWith(
+          expect.anything(),
+          '/test/project',
+          expect.any(InstallTransaction),
+          { [rulesPath]: 'overwrite' }
+        );
+      });
+
+      it('should ask about each conflicting file and show the differences on request', async () => {
+        setupGuides();
+        mockFileCopyService.findConflicts.mockReturnValue([conflict]);
+        mockFileCopyService.copyGuideFilesWithBackup.mockReturnValue([
+          { success: true, copiedFilePath: `${rulesPath}`, skipped: true, conflictAction: 'keep-both', newFilePath: `${rulesPath}.new` },
+        ]);
+        mockPrompt
+          .mockResolvedValueOnce({ action: 'show-diff' })
+          .mockResolvedValueOnce({ action: 'keep-both' });
+
+        await main(['--guide', 'company-react']);
+
+        expect(mockPrompt).toHaveBeenCalledTimes(2);
+        expect(mockConsoleLog).toHaveBeenCalledWith(
+          '\n--- project/.cursorrules\n+++ guide/.cursorrules\n@@ -1 +1 @@\n-our rules\n+guide rules\n'
+        );
+        expect(mockFileCopyService.copyGuideFilesWithBackup).toHaveBeenCalledWith(
+          expect.anything(),
+          '/test/project',
+          expect.any(InstallTransaction),
+          { [rulesPath]: 'keep-both' }
+        );
+        expect(mockConsoleLog).toHaveBeenCalledWith(
+          '   📄 Kept existing .cursorrules; wrote the guide version to .cursorrules.new'
+        );
+      });
+
+      it('should show the differences before asking with --on-conflict show-diff', async () => {
+        setupGuides();
+        mockFileCopyService.findConflicts.mockReturnValue([conflict]);
+        mockPrompt.mockResolvedValueOnce({ action: 'merge' });
+
+        await main(['--guide', 'company-react', '--on-conflict', 'show-diff']);
+
+        expect(mockConsoleLog.mock.invocationCallOrder[
+          mockConsoleLog.mock.calls.findIndex(([message]) => String(message).includes('+++ guide/.cursorrules'))
+        ]).toBeLessThan(mockPrompt.mock.invocationCallOrder[0]);
+        expect(mockFileCopyService.copyGuideFilesWithBackup).toHaveBeenCalledWith(
+          expect.anything(),
+          '/test/project',
+          expect.any(InstallTransaction),
+          { [rulesPath]: 'merge' }
+        );
+      });
+
+      it('should plan with the --on-conflict action for --dry-run', async () => {
+        setupGuides();
+        mockFileCopyService.planInstall.mockReturnValue({
+          guideId: 'web',
+          guideName: 'Web',
+          targetDir: '/test/project',
+          directories: [],
+          files: [],
+          errors: [],
+        });
+
+        await main(['--guide', 'web', '--dry-run', '--on-conflict', 'merge']);
+
+        expect(mockFileCopyService.planInstall).toHaveBeenCalledWith(
+          expect.objectContaining({ id: 'web' }),
+          '/test/project',
+          expect.any(Number),
+          'merge'
+        );
+      });
+    });
+
+    it('should roll back the folders it created when the install fails', async () => {
+      setupGuides();
+      const memoryBankDir = path.join('/test/project', '.memory-bank');
+      mockExistsSync.mockImplementation((filePath) => filePath.toString() !== memoryBankDir);
+      mockMkdirSync.mockReturnValue(memoryBankDir);
+      mockScaffoldService.scaffold.mockReturnValue([
+        { success: false, error: 'Failed to create progress.md: EACCES' },
+      ]);
+
+      await main(['--guide', 'web', '--json']);
+
+      const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(report.rolledBack).toBe(true);
+      expect(report.rollbackErrors).toBeUndefined();
+      expect(fs.rmSync).toHaveBeenCalledWith(memoryBankDir, { recursive: true, force: true });
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.CopyFailed);
+    });
+
+    it('should say when the install could not be rolled back', async () => {
+      setupGuides();
+      const memoryBankDir = path.join('/test/project', '.memory-bank');
+      mockExistsSync.mockImplementation((filePath) => filePath.toString() !== memoryBankDir);
+      mockMkdirSync.mockReturnValue(memoryBankDir);
+      (fs.rmSync as jest.Mock).mockImplementationOnce(() => {
+        throw new Error('EBUSY');
+      });
+      mockScaffoldService.scaffold.mockReturnValue([
+        { success: false, error: 'Failed to create progress.md: EACCES' },
+      ]);
+
+      await main(['--guide', 'web']);
+
+      expect(mockConsoleError).toHaveBeenCalledWith('\n⚠️  The install could not be fully rolled back:');
+      expect(mockConsoleError).toHaveBeenCalledWith(`   - Failed to remove ${memoryBankDir}: EBUSY`);
+    });
+
+    it('should record the guide files and core files in the install lockfile', async () => {
+      setupGuides();
+      const projectBrief = path.join('/test/project', '.memory-bank', 'projectBrief.md');
+      mockScaffoldService.scaffold.mockReturnValue([
+        { success: true, copiedFilePath: projectBrief, overwritten: false },
+      ]);
+
+      await main(['--guide', 'web', '--yes']);
+
+      expect(mockFileCopyService.writeInstallLockfile).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'web' }),
+        '/test/project',
+        [
+          expect.objectContaining({
+            copiedFilePath: path.join('/test/project', '.memory-bank', 'developmentGuide.md'),
+          }),
+          expect.objectContaining({ copiedFilePath: projectBrief }),
+        ],
+        expect.any(Date),
+        expect.any(InstallTransaction)
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        `   🔒 Recorded the install in ${path.join('.memory-bank', '.install.json')}`
+      );
+    });
+
+    it('should exit with the copy exit code when the lockfile cannot be written', async () => {
+      setupGuides();
+      mockFileCopyService.writeInstallLockfile.mockReturnValue({
+        success: false,
+        error: 'Failed to write .memory-bank/.install.json: EACCES',
+      });
+
+      await main(['--guide', 'web', '--yes']);
+
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '\n❌ Error:',
+        'Failed to write .memory-bank/.install.json: EACCES'
+      );
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.CopyFailed);
+    });
+
+    it('should not write a lockfile for --dry-run', async () => {
+      setupGuides();
+      mockFileCopyService.planInstall.mockReturnValue({
+        guideId: 'web',
+        guideName: 'Web',
+        targetDir: '/test/project',
+        directories: [],
+        files: [],
+        errors: [],
+      });
+
+      await main(['--guide', 'web', '--dry-run']);
+
+      expect(mockFileCopyService.writeInstallLockfile).not.toHaveBeenCalled();
+    });
+
+    it('should add the core memory bank files to the --dry-run plan', async () => {
+      setupGuides();
+      const guideFile = {
+        sourcePath: '/guides/web/developmentGuide.md',
+        targetPath: path.join('/test/project', '.memory-bank', 'developmentGuide.md'),
+        action: 'create' as const,
+      };
+      mockFileCopyService.planInstall.mockReturnValue({
+        guideId: 'web',
+        guideName: 'Web',
+        targetDir: '/test/project',
+        directories: [],
+        files: [guideFile],
+        errors: [],
+      });
+      mockScaffoldService.planScaffold.mockReturnValue([
+        { targetPath: path.join('/test/project', '.memory-bank', 'projectBrief.md'), action: 'keep' },
+      ]);
+
+      await main(['--guide', 'web', '--dry-run', '--json']);
+
+      expect(mockScaffoldService.planScaffold).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'web' }),
+        '/test/project',
+        [guideFile.targetPath]
+      );
+      const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(report.plan.files.map((file: any) => file.action)).toEqual(['create', 'keep']);
+      expect(mockScaffoldService.scaffold).not.toHaveBeenCalled();
+    });
+
+    it('should resolve template variables from --var, prompts and guide defaults', async () => {
+      setupGuides();
+      mockGuideDiscoveryService.discoverCustomGuides.mockReturnValue([
+        {
+          id: 'company-react',
+          displayName: 'Company React',
+          type: 'custom',
+          folderPath: '/custom/guides/company-react',
+          hasCursorRules: false,
+          manifest: {
+            variables: [
+              { name: 'team', prompt: 'Which team owns this project?' },
+              { name: 'repoUrl', prompt: 'Repository URL?' },
+              { name: 'region', default: 'eu-west-1' },
+            ],
+          },
+        },
+      ]);
+      mockPrompt.mockResolvedValue({ variable0: 'Payments' } as any);
+
+      await main(['--guide', 'company-react', '--var', 'repoUrl=https://git.acme.dev/app']);
+
+      expect(mockPrompt).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'input', name: 'variable0', message: 'Which team owns this project?' }),
+      ]);
+      expect(mockFileCopyService.setTemplateVariables).toHaveBeenCalledWith(
+        expect.objectContaining({
+          team: 'Payments',
+          repoUrl: 'https://git.acme.dev/app',
+          region: 'eu-west-1',
+          projectName: 'project',
+        })
+      );
+      expect(mockProcessExit).not.toHaveBeenCalled();
+    });
+
+    it('should not prompt for template variables with --yes', async () => {
+      setupGuides();
+      mockGuideDiscoveryService.discoverCustomGuides.mockReturnValue([
+        {
+          id: 'company-react',
+          displayName: 'Company React',
+          type: 'custom',
+          folderPath: '/custom/guides/company-react',
+          hasCursorRules: false,
+          manifest: { variables: [{ name: 'team', prompt: 'Which team owns this project?' }] },
+        },
+      ]);
+
+      await main(['--guide', 'company-react', '--yes']);
+
+      expect(mockPrompt).not.toHaveBeenCalled();
+      expect(mockFileCopyService.setTemplateVariables).toHaveBeenCalledWith(
+        expect.not.objectContaining({ team: expect.anything() })
+      );
+    });
+
+    it('should resolve template variables without prompting before planning a --dry-run', async () => {
+      setupGuides();
+      mockGuideDiscoveryService.discoverCustomGuides.mockReturnValue([
+        {
+          id: 'company-react',
+          displayName: 'Company React',
+          type: 'custom',
+          folderPath: '/custom/guides/company-react',
+          hasCursorRules: false,
+          manifest: { variables: [{ name: 'team', prompt: 'Which team owns this project?' }] },
+        },
+      ]);
+      mockFileCopyService.planInstall.mockReturnValue({
+        guideId: 'company-react',
+        guideName: 'Company React',
+        targetDir: '/test/project',
+        directories: [],
+        files: [],
+        errors: [],
+      });
+
+      await main(['--guide', 'company-react', '--dry-run', '--var', 'team=core']);
+
+      expect(mockPrompt).not.toHaveBeenCalled();
+      expect(mockFileCopyService.setTemplateVariables).toHaveBeenCalledWith(expect.objectContaining({ team: 'core' }));
+      expect(mockFileCopyService.setTemplateVariables.mock.invocationCallOrder[0]).toBeLessThan(
+        mockFileCopyService.planInstall.mock.invocationCallOrder[0]
+      );
+      expect(mockProcessExit).not.toHaveBeenCalled();
+    });
+
+    it('should leave templating off for guides without variables', async () => {
+      setupGuides();
+
+      await main(['--guide', 'web', '--var', 'team=Payments']);
+
+      expect(mockFileCopyService.setTemplateVariables).not.toHaveBeenCalled();
+    });
+
+    it('should install the best detected match for --guide auto', async () => {
+      setupGuides();
+      mockStackDetectionService.rankGuides.mockImplementation((guides: any[]) => [
+        { ...guides[1], confidence: 0.84 },
+        { ...guides[0], confidence: 0 },
+      ]);
+
+      await main(['--guide', 'auto', '--yes']);
+
+      expect(mockStackDetectionService.rankGuides).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ id: 'web' })]),
         '/test/project'
       );
+      expect(mockConsoleLog).toHaveBeenCalledWith('🔎 Detected Company React (84% match)');
+      expect(mockFileCopyService.copyGuideFilesWithBackup).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'company-react', confidence: 0.84 }),
+        '/test/project',
+        expect.any(InstallTransaction),
+        {}
+      );
+    });
+
+    it('should exit with the guide-not-found code when no stack is detected', async () => {
+      setupGuides();
+      mockStackDetectionService.rankGuides.mockImplementation((guides: any[]) =>
+        guides.map((guide) => ({ ...guide, confidence: 0 }))
+      );
+
+      await main(['--guide', 'auto', '--yes']);
+
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '\n❌ Error:',
+        expect.stringContaining("Could not detect the project's stack")
+      );
+      expect(mockFileCopyService.copyGuideFilesWithBackup).not.toHaveBeenCalled();
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.GuideNotFound);
+    });
+
+    it('should list the best match first and pre-select it in the prompt', async () => {
+      setupGuides();
+      mockStackDetectionService.rankGuides.mockImplementation((guides: any[]) => [
+        { ...guides[1], confidence: 0.5 },
+        { ...guides[0], confidence: 0 },
+      ]);
+      mockPrompt.mockResolvedValue({ selectedGuideId: 'company-react' });
+
+      await main();
+
+      expect(mockPrompt).toHaveBeenCalledWith([
+        expect.objectContaining({
+          default: 'company-react',
+          choices: [
+            expect.objectContaining({ name: 'Company React (Custom) (recommended, 50% match)' }),
+            expect.objectContaining({ name: 'Web - For TypeScript/React/Next.js development' }),
+          ],
+        }),
+      ]);
+    });
+
+    it('should run the update command and exit with its exit code', async () => {
+      const mockRun = jest.fn().mockResolvedValue({ status: 'conflicts', exitCode: ExitCode.UpdateConflicts, files: [] });
+      (UpdateCommand as jest.MockedClass<typeof UpdateCommand>).mockImplementation(() => ({ run: mockRun }) as any);
+
+      await main(['update', '--yes']);
+
+      expect(mockRun).toHaveBeenCalledWith(expect.objectContaining({ command: 'update', yes: true }));
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.UpdateConflicts);
+      expect(mockFileCopyService.copyGuideFilesWithBackup).not.toHaveBeenCalled();
+    });
+
+    it('should not exit with an error code after a successful update', async () => {
+      const mockRun = jest.fn().mockResolvedValue({ status: 'success', exitCode: ExitCode.Success, files: [] });
+      (UpdateCommand as jest.MockedClass<typeof UpdateCommand>).mockImplementation(() => ({ run: mockRun }) as any);
+
+      await main(['update']);
+
+      expect(mockProcessExit).not.toHaveBeenCalled();
+    });
+
+    it('should run the diff command and exit with its exit code', async () => {
+      const mockRun = jest.fn().mockResolvedValue({ status: 'drift', exitCode: 1, files: [] });
+      (DiffCommand as jest.MockedClass<typeof DiffCommand>).mockImplementation(() => ({ run: mockRun }) as any);
+
+      await main(['diff', '--exit-code']);
+
+      expect(mockRun).toHaveBeenCalledWith(expect.objectContaining({ command: 'diff', exitCode: true }));
+      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(mockFileCopyService.copyGuideFilesWithBackup).not.toHaveBeenCalled();
+    });
+
+    it('should run the uninstall command and exit with its exit code', async () => {
+      const mockRun = jest.fn().mockResolvedValue({ status: 'failed', exitCode: ExitCode.FilesModified, files: [], directories: [] });
+      (UninstallCommand as jest.MockedClass<typeof UninstallCommand>).mockImplementation(() => ({ run: mockRun }) as any);
+
+      await main(['uninstall', '--force']);
+
+      expect(mockRun).toHaveBeenCalledWith(expect.objectContaining({ command: 'uninstall', force: true }));
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.FilesModified);
+    });
+
+    it('should run the doctor command and exit with its exit code', async () => {
+      const mockRun = jest.fn().mockReturnValue({ status: 'errors', exitCode: ExitCode.ChecksFailed, findings: [] });
+      (DoctorCommand as jest.MockedClass<typeof DoctorCommand>).mockImplementation(() => ({ run: mockRun }) as any);
+
+      await main(['doctor', '--json']);
+
+      expect(mockRun).toHaveBeenCalledWith(expect.objectContaining({ command: 'doctor', json: true }));
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.ChecksFailed);
+    });
+
+    it('should run the backups command and exit with its exit code', async () => {
+      const mockRun = jest.fn().mockResolvedValue({ status: 'failed', exitCode: ExitCode.BackupNotFound, action: 'restore', backups: [] });
+      (BackupsCommand as jest.MockedClass<typeof BackupsCommand>).mockImplementation(() => ({ run: mockRun }) as any);
+
+      await main(['backups', '--restore', '.cursorrules']);
+
+      expect(mockRun).toHaveBeenCalledWith(expect.objectContaining({ command: 'backups', restore: '.cursorrules' }));
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.BackupNotFound);
+    });
+
+    it('should run the config command and exit with its exit code', async () => {
+      const mockRun = jest.fn().mockReturnValue({ status: 'failed', exitCode: ExitCode.GeneralError });
+      (ConfigCommand as jest.MockedClass<typeof ConfigCommand>).mockImplementation(() => ({ run: mockRun }) as any);
+
+      await main(['config', 'show', '--resolved']);
+
+      expect(mockRun).toHaveBeenCalledWith(expect.objectContaining({ command: 'config', configAction: 'show', resolved: true }));
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.GeneralError);
+    });
+
+    it('should run the sources command and exit with its exit code', async () => {
+      const mockRun = jest.fn().mockReturnValue({ status: 'failed', exitCode: ExitCode.SourceFetchFailed, action: 'refresh', sources: [] });
+      (SourcesCommand as jest.MockedClass<typeof SourcesCommand>).mockImplementation(() => ({ run: mockRun }) as any);
+
+      await main(['sources', 'refresh', '--source', 'team', '--config', '/etc/memory-bank']);
+
+      expect(SourcesCommand).toHaveBeenCalledWith('/etc/memory-bank');
+      expect(mockRun).toHaveBeenCalledWith(expect.objectContaining({ command: 'sources', sourcesAction: 'refresh', source: 'team' }));
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.SourceFetchFailed);
+    });
+
+    it('should pass the --config directory to the commands and the install', async () => {
+      const mockRun = jest.fn().mockReturnValue({ status: 'success', exitCode: ExitCode.Success, findings: [] });
+      (DoctorCommand as jest.MockedClass<typeof DoctorCommand>).mockImplementation(() => ({ run: mockRun }) as any);
+
+      await main(['doctor', '--config', '/etc/memory-bank']);
+
+      expect(DoctorCommand).toHaveBeenCalledWith('/etc/memory-bank');
+
+      setupGuides();
+      await main(['--guide', 'web', '--json', '--config', '/etc/memory-bank']);
+
+      expect(ConfigurationManager).toHaveBeenCalledWith('/etc/memory-bank');
+    });
+
+    it('should apply the configured backup settings and prune old backups', async () => {
+      setupGuides();
+      const backups = { location: 'memory-bank' as const, keep: 1 };
+      mockConfigManager.loadConfig.mockReturnValue({ version: '1.0.0', customGuidesFolder: '/custom/guides', menuItems: [], backups } as any);
+      const expired = { path: '.cursorrules.backup.100', file: '.cursorrules', timestamp: 100, location: 'beside' };
+      const mockBackupService = {
+        listBackups: jest.fn().mockReturnValue([expired]),
+        planPrune: jest.fn().mockReturnValue([expired]),
+        removeBackups: jest.fn().mockReturnValue([{ success: true }]),
+      };
+      (BackupService as jest.MockedClass<typeof BackupService>).mockImplementation(() => mockBackupService as any);
+
+      await main(['--guide', 'web', '--json']);
+
+      expect(mockFileCopyService.setBackupSettings).toHaveBeenCalledWith(backups);
+      expect(mockBackupService.planPrune).toHaveBeenCalledWith([expired], backups);
+      const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(report.prunedBackups).toEqual(['.cursorrules.backup.100']);
+    });
+
+    it('should ignore backup settings of an invalid configuration', async () => {
+      setupGuides();
+      mockConfigManager.loadConfig.mockReturnValue({ version: '1.0.0', customGuidesFolder: '/custom/guides', menuItems: [], backups: { keep: 0 } } as any);
+      mockConfigManager.validateConfig.mockReturnValue({ isValid: false, error: 'Invalid backups.keep: 0' });
+
+      await main(['--guide', 'web', '--json']);
+
+      expect(mockFileCopyService.setBackupSettings).toHaveBeenCalledWith(undefined);
+      expect(BackupService).not.toHaveBeenCalled();
+    });
+
+    it('should require --guide with --json', async () => {
+      setupGuides();
+
+      await main(['--json']);
+
+      const report = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(report.exitCode).toBe(ExitCode.InvalidArguments);
+      expect(mockPrompt).not.toHaveBeenCalled();
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.InvalidArguments);
+    });
+
+    it('should print invalid argument errors as JSON when --json is given', async () => {
+      await main(['--json', '--bogus']);
+
+      expect(JSON.parse(mockConsoleLog.mock.calls[0][0])).toEqual({
+        status: 'failed',
+        exitCode: ExitCode.InvalidArguments,
+        error: 'Unknown option: --bogus',
+      });
+      expect(mockProcessExit).toHaveBeenCalledWith(ExitCode.InvalidArguments);
+    });
+
+    it('should print usage for --help', async () => {
+      await main(['--help']);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Usage: init-memory-bank'));
+      expect(mockConfigManager.loadConfig).not.toHaveBeenCalled();
     });
   });
 
@@ -648,9 +1617,10 @@ describe('Main Function Coverage Testing', () => {
         '✅ File copy operations completed successfully:',
         '   📖 Copied development guide to .memory-bank directory',
         '   ⚙️  Copied .cursorrules to project root',
+        '\n🧠 Creating core memory bank files...',
         '\n🎉 Memory Bank setup complete!',
         '\n📁 Project structure:',
-        '   📂 .memory-bank/ (contains developmentGuide.md)',
+        '   📂 .memory-bank/ (core memory bank files and developmentGuide.md)',
         '   📂 .specs/ (for feature specifications)',
         '   📄 .cursorrules (project-specific rules)',
         '\n🚀 You can now start using your Memory Bank!',
@@ -59,6 +59,10 @@ describe('Custom Development Guides Integration', () => {
       // Mock existsSync to handle dynamic paths
       mockedFs.existsSync.mockImplementation((path) => {
         const pathStr = path.toString();
+        // Guides in these tests have no guide.json manifest
+        if (pathStr.endsWith('guide.json')) {
+          return false;
+        }
         // Return true for config file
         if (pathStr.includes('config.json')) {
           return true;
@@ -299,15 +303,11 @@ describe('Custom Development Guides Integration', () => {
         ],
       };
 
-      // Mock file system with valid and invalid guides
-      mockedFs.existsSync
-        .mockReturnValueOnce(true) // config file exists
-        .mockReturnValueOnce(true) // custom guides folder exists
-        .mockReturnValueOnce(true) // valid-guide is directory
-        .mockReturnValueOnce(true) // valid-guide/developmentGuide.md exists
-        .mockReturnValueOnce(true) // valid-guide/.cursorrules exists
-        .mockReturnValueOnce(true) // invalid-guide is directory
-        .mockReturnValueOnce(false); // invalid-guide/developmentGuide.md doesn't exist
+      // Mock file system with valid and invalid guides; guide folders are
+      // scanned in name order, so answer by path instead of by call order
+      mockedFs.existsSync.mockImplementation(
+        (filePath) => filePath.toString() !== path.join(mockCustomGuidesDir, 'invalid-guide', 'developmentGuide.md')
+      );
 
       mockedFs.readFileSync.mockReturnValue(JSON.stringify(config));
       mockedFs.statSync.mockReturnValue({
@@ -368,6 +368,10 @@ describe('Custom Development Guides Integration', () => {
       // Mock file system with existing files
       mockedFs.existsSync.mockImplementation((path) => {
         const pathStr = path.toString();
+        // Guides in these tests have no guide.json manifest
+        if (pathStr.endsWith('guide.json')) {
+          return false;
+        }
         // Return true for directories and existing files
         if (pathStr.includes('/target/project') || pathStr.includes('.memory-bank') || pathStr.includes('developmentGuide.md') || pathStr.includes('.cursorrules')) {
           return true;
@@ -0,0 +1,57 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { GuideDiscoveryService } from '../../src/services/guide-discovery-service';
+import { CustomGuideConfig } from '../../src/config/types';
+
+// Runs the real git against a bare repository in a temporary folder
+describe('Git Guide Source Integration', () => {
+  let tempDir: string;
+  let repository: string;
+
+  const git = (args: string[], cwd?: string) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd,
+      stdio: 'pipe',
+    });
+
+  const configFor = (location: string): CustomGuideConfig => ({
+    version: '1.0.0',
+    customGuidesFolder: path.join(tempDir, 'no-custom-guides'),
+    menuItems: [],
+    guideSources: [{ label: 'team', git: location }],
+  });
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-bank-git-source-'));
+    repository = path.join(tempDir, 'guides.git');
+    const work = path.join(tempDir, 'work');
+
+    git(['init', '--quiet', '--bare', '--initial-branch=main', repository]);
+    git(['init', '--quiet', '--initial-branch=main', work]);
+    fs.mkdirSync(path.join(work, 'team'));
+    fs.writeFileSync(path.join(work, 'team', 'developmentGuide.md'), '# Team Guide\n');
+    git(['add', '-A'], work);
+    git(['commit', '--quiet', '-m', 'Add team guide'], work);
+    git(['push', '--quiet', repository, 'main'], work);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['a file:// URL', 'url-config', () => pathToFileURL(repository).href],
+    ['a path', 'path-config', () => repository],
+  ])('should discover the guides of a clone from %s without its .git folder', (_name, configDir, location) => {
+    // Each case gets its own configuration directory, so its own cache
+    const discoveryService = new GuideDiscoveryService(true, path.join(tempDir, configDir));
+
+    const guides = discoveryService.discoverCustomGuides(configFor(location()));
+
+    expect(guides.map((guide) => guide.id)).toEqual(['team']);
+    expect(discoveryService.getWarnings()).toEqual([]);
+  });
+});
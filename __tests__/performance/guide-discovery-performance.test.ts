@@ -61,6 +61,10 @@ describe('Performance Testing', () => {
       // Mock each guide has required files - properly handle all existsSync calls
       mockedFs.existsSync.mockImplementation((path: fs.PathLike) => {
         const pathStr = path.toString();
+        // Guides in these tests have no guide.json manifest
+        if (pathStr.endsWith('guide.json')) {
+          return false;
+        }
         
         // Custom guides folder always exists
         if (pathStr === '/custom/guides') {
@@ -118,6 +122,10 @@ describe('Performance Testing', () => {
       // Set up existsSync to handle different paths correctly
       mockedFs.existsSync.mockImplementation((path: fs.PathLike) => {
         const pathStr = path.toString();
+        // Guides in these tests have no guide.json manifest
+        if (pathStr.endsWith('guide.json')) {
+          return false;
+        }
         
         // Custom guides folder always exists
         if (pathStr === '/custom/guides') {
@@ -368,6 +376,10 @@ describe('Performance Testing', () => {
         // Set up existsSync to handle different paths correctly
         mockedFs.existsSync.mockImplementation((path: fs.PathLike) => {
           const pathStr = path.toString();
+          // Guides in these tests have no guide.json manifest
+          if (pathStr.endsWith('guide.json')) {
+            return false;
+          }
           // Custom guides folder always exists
           if (pathStr === '/custom/guides') {
             return true;
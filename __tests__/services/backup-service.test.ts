@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BackupService } from '../../src/services/backup-service';
+import { BackupEntry } from '../../src/config/types';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('BackupService', () => {
+  let backupService: BackupService;
+  let files: Record<string, string>;
+
+  const targetDir = '/project';
+  const DAY = 24 * 60 * 60 * 1000;
+  const project = (...segments: string[]) => path.join(targetDir, ...segments);
+  const backup = (file: string, timestamp: number, backupPath = `${file}.backup.${timestamp}`): BackupEntry => ({
+    path: backupPath,
+    file,
+    timestamp,
+    location: 'beside',
+  });
+
+  // List the direct children of a folder in the in-memory project
+  const children = (directory: string) => {
+    const names = new Map<string, boolean>();
+    Object.keys(files)
+      .filter((file) => file.startsWith(`${directory}${path.sep}`))
+      .forEach((file) => {
+        const [name, ...rest] = file.slice(directory.length + 1).split(path.sep);
+        names.set(name, rest.length > 0 || names.get(name) === true);
+      });
+    return [...names.entries()].map(([name, isDirectory]) => ({ name, isDirectory: () => isDirectory }));
+  };
+
+  beforeEach(() => {
+    backupService = new BackupService();
+    jest.clearAllMocks();
+    files = {};
+
+    // Serve files from an in-memory project
+    mockedFs.existsSync.mockImplementation((filePath) => {
+      const name = filePath.toString();
+      return name in files || Object.keys(files).some((file) => file.startsWith(`${name}${path.sep}`));
+    });
+    mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike, encoding?: string) => {
+      const content = files[filePath.toString()];
+      if (content === undefined) {
+        throw new Error(`ENOENT: ${filePath}`);
+      }
+      return encoding ? content : Buffer.from(content);
+    }) as any);
+    mockedFs.readdirSync.mockImplementation(((directory: fs.PathLike, options?: { withFileTypes?: boolean }) => {
+      const entries = children(directory.toString());
+      return options?.withFileTypes ? entries : entries.map((entry) => entry.name);
+    }) as any);
+    mockedFs.writeFileSync.mockImplementation(((filePath: fs.PathLike, content: string | Buffer) => {
+      files[filePath.toString()] = content.toString();
+    }) as any);
+    mockedFs.unlinkSync.mockImplementation(((filePath: fs.PathLike) => {
+      if (!(filePath.toString() in files)) {
+        throw new Error(`ENOENT: ${filePath}`);
+      }
+      delete files[filePath.toString()];
+    }) as any);
+  });
+
+  describe('listBackups', () => {
+    it('should list backups beside installed files and under .memory-bank/.backups', () => {
+      files = {
+        [project('.cursorrules')]: 'rules',
+        [project('.cursorrules.backup.100')]: 'old',
+        [project('.memory-bank', 'developmentGuide.backup.200.md')]: 'old guide',
+        [project('.memory-bank', '.backups', '.cursorrules.backup.300')]: 'newer',
+        [project('.memory-bank', '.backups', 'docs', 'testing.backup.400.md')]: 'testing',
+        [project('.memory-bank', '.backups', 'docs', 'notes.txt')]: 'not a backup',
+      };
+
+      expect(backupService.listBackups(targetDir)).toEqual([
+        { path: '.memory-bank/.backups/.cursorrules.backup.300', file: '.cursorrules', timestamp: 300, location: 'memory-bank' },
+        { path: '.cursorrules.backup.100', file: '.cursorrules', timestamp: 100, location: 'beside' },
+        { path: '.memory-bank/developmentGuide.backup.200.md', file: '.memory-bank/developmentGuide.md', timestamp: 200, location: 'beside' },
+        { path: '.memory-bank/.backups/docs/testing.backup.400.md', file: 'docs/testing.md', timestamp: 400, location: 'memory-bank' },
+      ]);
+    });
+
+    it('should look for backups beside the files in the install lockfile', () => {
+      files = {
+        [project('.memory-bank', '.install.json')]: JSON.stringify({
+          lockfileVersion: 1,
+          guide: { id: 'web', type: 'built-in', sourcePath: '/guides/Web', contentHash: 'a'.repeat(64) },
+          files: [{ path: 'docs/testing.md', sha256: 'b'.repeat(64), installedAt: '2026-01-01T00:00:00.000Z' }],
+          installedAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+        }),
+        [project('docs', 'testing.backup.500.md')]: 'old testing',
+        [project('src', 'index.backup.600.ts')]: 'not installed',
+      };
+
+      expect(backupService.listBackups(targetDir)).toEqual([
+        { path: 'docs/testing.backup.500.md', file: 'docs/testing.md', timestamp: 500, location: 'beside' },
+      ]);
+    });
+
+    it('should return nothing for projects without backups', () => {
+      expect(backupService.listBackups(targetDir)).toEqual([]);
+    });
+  });
+
+  describe('planPrune', () => {
+    const now = 100 * DAY;
+    const backups = [
+      backup('.cursorrules', now - 1 * DAY),
+      backup('.cursorrules', now - 2 * DAY),
+      backup('.cursorrules', now - 40 * DAY),
+      backup('docs/testing.md', now - 50 * DAY),
+    ];
+
+    it('should keep the newest backups of each file', () => {
+      expect(backupService.planPrune(backups, { keep: 1 }, now)).toEqual([backups[1], backups[2]]);
+      expect(backupService.planPrune(backups, { keep: 3 }, now)).toEqual([]);
+    });
+
+    it('should remove backups older than the maximum age', () => {
+      expect(backupService.planPrune(backups, { maxAgeDays: 30 }, now)).toEqual([backups[2], backups[3]]);
+      expect(backupService.planPrune(backups, { maxAgeDays: 0 }, now)).toEqual(backups);
+    });
+
+    it('should remove backups outside either limit', () => {
+      expect(backupService.planPrune(backups, { keep: 2, maxAgeDays: 45 }, now)).toEqual([backups[2], backups[3]]);
+    });
+
+    it('should keep everything without a policy', () => {
+      expect(backupService.planPrune(backups, {}, now)).toEqual([]);
+    });
+  });
+
+  describe('removeBackups', () => {
+    it('should delete backups and report the ones that could not be removed', () => {
+      files = { [project('.cursorrules.backup.100')]: 'old' };
+
+      const results = backupService.removeBackups(targetDir, [backup('.cursorrules', 100), backup('.cursorrules', 200)]);
+
+      expect(results).toEqual([
+        { success: true, copiedFilePath: project('.cursorrules.backup.100') },
+        { success: false, error: expect.stringContaining('Failed to remove .cursorrules.backup.200') },
+      ]);
+      expect(files).toEqual({});
+    });
+  });
+
+  describe('restoreBackup', () => {
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(999);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should back up the current file before restoring', () => {
+      files = { [project('.cursorrules')]: 'current', [project('.cursorrules.backup.100')]: 'old' };
+
+      const result = backupService.restoreBackup(targetDir, backup('.cursorrules', 100));
+
+      expect(result).toEqual({
+        success: true,
+        copiedFilePath: project('.cursorrules'),
+        overwritten: true,
+        backupPath: project('.cursorrules.backup.999'),
+      });
+      expect(files[project('.cursorrules')]).toBe('old');
+      expect(files[project('.cursorrules.backup.999')]).toBe('current');
+    });
+
+    it('should save the current file in the configured backup location', () => {
+      files = { [project('.cursorrules')]: 'current', [project('.cursorrules.backup.100')]: 'old' };
+
+      const result = backupService.restoreBackup(targetDir, backup('.cursorrules', 100), { location: 'memory-bank' });
+
+      expect(result.backupPath).toBe(project('.memory-bank', '.backups', '.cursorrules.backup.999'));
+    });
+
+    it('should restore files that no longer exist', () => {
+      files = { [project('docs', 'testing.backup.100.md')]: 'old' };
+
+      const result = backupService.restoreBackup(targetDir, backup('docs/testing.md', 100, 'docs/testing.backup.100.md'));
+
+      expect(result).toMatchObject({ success: true, overwritten: false });
+      expect(result.backupPath).toBeUndefined();
+      expect(mockedFs.mkdirSync).toHaveBeenCalledWith(project('docs'), { recursive: true });
+      expect(files[project('docs', 'testing.md')]).toBe('old');
+    });
+
+    it('should restore the bytes of the backup without decoding them', () => {
+      files = { [project('assets', 'logo.backup.100.png')]: 'old' };
+
+      backupService.restoreBackup(targetDir, backup('assets/logo.png', 100, 'assets/logo.backup.100.png'));
+
+      expect(mockedFs.readFileSync).toHaveBeenCalledWith(project('assets', 'logo.backup.100.png'));
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(project('assets', 'logo.png'), Buffer.from('old'));
+    });
+
+    it('should report backups that cannot be read', () => {
+      const result = backupService.restoreBackup(targetDir, backup('.cursorrules', 100));
+
+      expect(result).toMatchObject({ success: false, error: expect.stringContaining('Backup file not found') });
+    });
+  });
+});
@@ -0,0 +1,522 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiagnosticsService } from '../../src/services/diagnostics-service';
+import { ConfigurationManager } from '../../src/config/configuration-manager';
+import { GuideDiscoveryService } from '../../src/services/guide-discovery-service';
+import { GuideSourceService } from '../../src/services/guide-source-service';
+import { CustomGuideConfig, DiagnosticFinding, GuideInfo, GuideSource } from '../../src/config/types';
+
+// Mock fs module and the services the checks rely on
+jest.mock('fs');
+jest.mock('../../src/config/configuration-manager');
+jest.mock('../../src/services/guide-discovery-service');
+jest.mock('../../src/services/guide-source-service');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('DiagnosticsService', () => {
+  let files: Record<string, string>;
+  let directories: Set<string>;
+  let mockConfigManager: jest.Mocked<ConfigurationManager>;
+  let mockGuideDiscoveryService: jest.Mocked<GuideDiscoveryService>;
+  let mockGuideSourceService: jest.Mocked<GuideSourceService>;
+
+  const configPath = path.join('/home/dev', '.memory-bank', 'config.json');
+  const backupPath = path.join('/home/dev', '.memory-bank', 'config.backup.json');
+  const guidesFolder = '/home/dev/guides';
+  const builtIn: GuideInfo = {
+    id: 'web',
+    displayName: 'Web',
+    type: 'built-in',
+    folderPath: '/package/src/developmentGuides/Web',
+    hasCursorRules: true,
+  };
+  const config: CustomGuideConfig = { version: '1.0.0', customGuidesFolder: guidesFolder, menuItems: [] };
+
+  const findingsFor = (check: DiagnosticFinding['check']) =>
+    new DiagnosticsService().runChecks('/project').filter((finding) => finding.check === check);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    files = {
+      [path.join(builtIn.folderPath, 'developmentGuide.md')]: '# Web',
+      [path.join(builtIn.folderPath, '.cursorrules')]: 'rules',
+      [configPath]: JSON.stringify(config),
+    };
+    directories = new Set(['/project', guidesFolder, builtIn.folderPath]);
+
+    // Serve files and folders from memory
+    mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() in files || directories.has(filePath.toString()));
+    mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) => {
+      const content = files[filePath.toString()];
+      if (content === undefined) {
+        throw new Error(`ENOENT: ${filePath}`);
+      }
+      return content;
+    }) as any);
+    mockedFs.statSync.mockImplementation(((filePath: fs.PathLike) => ({ isDirectory: () => directories.has(filePath.toString()) })) as any);
+    mockedFs.readdirSync.mockImplementation(((directory: fs.PathLike) =>
+      [...Object.keys(files), ...directories]
+        .filter((item) => path.dirname(item) === directory.toString())
+        .map((item) => path.basename(item))) as any);
+    mockedFs.accessSync.mockImplementation(() => undefined);
+
+    mockConfigManager = {
+      getConfigPath: jest.fn().mockReturnValue(configPath),
+      getBackupPath: jest.fn().mockReturnValue(backupPath),
+      getDefaultConfig: jest.fn().mockReturnValue({ version: '1.0.0', customGuidesFolder: '/home/dev/custom-dev-guides', menuItems: [] }),
+      getBackupConfig: jest.fn().mockReturnValue(null),
+      validateConfig: jest.fn().mockReturnValue({ isValid: true, warnings: [] }),
+    } as any;
+    (ConfigurationManager as jest.MockedClass<typeof ConfigurationManager>).mockImplementation(() => mockConfigManager);
+    mockGuideDiscoveryService = {
+      discoverBuiltInGuides: jest.fn().mockReturnValue([builtIn]),
+      getAllGuides: jest.fn().mockReturnValue([builtIn]),
+      getShadowedGuides: jest.fn().mockReturnValue([]),
+    } as any;
+    (GuideDiscoveryService as jest.MockedClass<typeof GuideDiscoveryService>).mockImplementation(() => mockGuideDiscoveryService);
+    // Folder sources are used as they are; nothing is cached
+    mockGuideSourceService = {
+      isCached: jest.fn().mockReturnValue(false),
+      resolveFolder: jest.fn((source: GuideSource) => source.path || ''),
+      getCachedFolder: jest.fn((source: GuideSource) => source.path),
+    } as any;
+    (GuideSourceService as jest.MockedClass<typeof GuideSourceService>).mockImplementation(() => mockGuideSourceService);
+  });
+
+  it('should only report passing checks for a healthy setup', () => {
+    const findings = new DiagnosticsService().runChecks('/project');
+
+    expect(findings.filter((finding) => finding.severity !== 'ok')).toEqual([]);
+    expect(new Set(findings.map((finding) => finding.check))).toEqual(
+      new Set(['config', 'backup-config', 'guides-folder', 'guide-structure', 'menu-items', 'duplicate-ids', 'cursor-rules', 'target'])
+    );
+  });
+
+  describe('configuration', () => {
+    it('should report configuration files that are not valid JSON', () => {
+      files[configPath] = '{ broken';
+
+      expect(findingsFor('config')).toEqual([
+        expect.objectContaining({ severity: 'error', path: configPath, message: expect.stringContaining('Configuration is not valid JSON') }),
+      ]);
+      expect(findingsFor('backup-config')).toEqual([
+        expect.objectContaining({ severity: 'warning', path: backupPath, message: 'No backup configuration to recover from; the defaults are used instead' }),
+      ]);
+    });
+
+    it('should report configurations with missing fields', () => {
+      files[configPath] = JSON.stringify({ version: '1.0.0' });
+
+      expect(findingsFor('config')[0]).toMatchObject({
+        severity: 'error',
+        message: 'Configuration must have a version, a customGuidesFolder and a menuItems list',
+      });
+    });
+
+    it('should report configurations that fail validation', () => {
+      mockConfigManager.validateConfig.mockReturnValue({ isValid: false, error: 'Invalid version: 2.0.0. Expected: 1.0.0' });
+
+      expect(findingsFor('config')[0]).toMatchObject({ severity: 'error', message: 'Configuration is invalid: Invalid version: 2.0.0. Expected: 1.0.0' });
+    });
+
+    it('should report each invalid value on its own', () => {
+      mockConfigManager.validateConfig.mockReturnValue({
+        isValid: false,
+        error: '/menuItems/0/id: Menu item has empty ID; /backups/keep: must be at least 1',
+        issues: [
+          { path: '/menuItems/0/id', message: 'Menu item has empty ID' },
+          { path: '/backups/keep', message: 'must be at least 1' },
+        ],
+      });
+
+      expect(findingsFor('config')).toEqual([
+        expect.objectContaining({ severity: 'error', path: configPath, message: 'Configuration is invalid: /menuItems/0/id: Menu item has empty ID' }),
+        expect.objectContaining({ severity: 'error', path: configPath, message: 'Configuration is invalid: /backups/keep: must be at least 1' }),
+      ]);
+    });
+
+    it('should warn about configurations that will be migrated', () => {
+      files[configPath] = JSON.stringify({ customGuidesFolder: guidesFolder, menuItems: [] });
+
+      expect(findingsFor('config')).toEqual([
+        expect.objectContaining({
+          severity: 'warning',
+          message: 'Configuration uses version 0.0.0; it is migrated to 1.0.0 the next time it is loaded',
+        }),
+      ]);
+      expect(mockConfigManager.validateConfig).toHaveBeenCalledWith(expect.objectContaining({ version: '1.0.0' }));
+    });
+
+    it('should report configurations written by a newer CLI', () => {
+      files[configPath] = JSON.stringify({ ...config, version: '9.0.0' });
+
+      expect(findingsFor('config')[0]).toMatchObject({
+        severity: 'error',
+        message: expect.stringContaining('Configuration version 9.0.0 is newer than this CLI supports (1.0.0)'),
+        fix: expect.stringContaining('Upgrade the CLI'),
+      });
+    });
+
+    it('should use the defaults when there is no configuration file', () => {
+      delete files[configPath];
+
+      expect(findingsFor('config')[0]).toMatchObject({ severity: 'ok', message: 'No configuration file; the defaults are used' });
+      expect(findingsFor('guides-folder')[0]).toMatchObject({ severity: 'warning', path: '/home/dev/custom-dev-guides' });
+    });
+
+    it('should report unreadable backup configurations', () => {
+      files[backupPath] = '{ broken';
+
+      expect(findingsFor('backup-config')[0]).toMatchObject({ severity: 'warning', path: backupPath, fix: expect.stringContaining('Delete the backup') });
+    });
+  });
+
+  describe('custom guides folder', () => {
+    it('should report a folder that cannot be read', () => {
+      mockedFs.accessSync.mockImplementation(() => {
+        throw new Error('EACCES');
+      });
+
+      expect(findingsFor('guides-folder')).toEqual([
+        { check: 'guides-folder', severity: 'error', message: 'Custom guides folder cannot be read', path: guidesFolder, fix: `Grant read access with chmod u+rx "${guidesFolder}"` },
+      ]);
+    });
+
+    it('should report a path that is not a directory', () => {
+      directories.delete(guidesFolder);
+      files[guidesFolder] = '';
+
+      expect(findingsFor('guides-folder')[0]).toMatchObject({ severity: 'error', message: 'Custom guides folder is not a directory' });
+    });
+
+    it('should check the folder of every guide source', () => {
+      files[configPath] = JSON.stringify({
+        ...config,
+        guideSources: [
+          { label: 'team', path: '/shared/guides', priority: 1 },
+          { label: 'platform', path: '/platform/guides' },
+        ],
+      });
+      directories.add('/platform/guides');
+
+      expect(findingsFor('guides-folder')).toEqual([
+        {
+          check: 'guides-folder',
+          severity: 'warning',
+          message: "Guide source 'team' folder does not exist, so no custom guides are available from it",
+          path: '/shared/guides',
+          fix: `Create it with mkdir -p "/shared/guides", or correct the path of guide source 'team'`,
+        },
+        expect.objectContaining({ severity: 'ok', message: 'Custom guides folder is readable', path: guidesFolder }),
+        expect.objectContaining({ severity: 'ok', message: "Guide source 'platform' folder is readable", path: '/platform/guides' }),
+      ]);
+    });
+
+    it('should fetch git and archive sources that are not cached yet', () => {
+      files[configPath] = JSON.stringify({
+        ...config,
+        guideSources: [
+          { label: 'team', git: 'https://example.com/guides.git', ref: 'main', priority: 1 },
+          { label: 'pack', archive: '/downloads/guides.tgz', folder: 'guides' },
+        ],
+      });
+      mockGuideSourceService.isCached.mockImplementation((source) => source.label === 'team');
+      mockGuideSourceService.resolveFolder.mockImplementation((source) => {
+        if (source.label === 'pack') {
+          throw new Error('Archive not found: /downloads/guides.tgz');
+        }
+        directories.add('/cache/team');
+        return '/cache/team';
+      });
+
+      expect(findingsFor('guides-folder')).toEqual([
+        { check: 'guides-folder', severity: 'ok', message: "Guide source 'team' is cached", path: '/cache/team' },
+        expect.objectContaining({ severity: 'ok', message: 'Custom guides folder is readable' }),
+        {
+          check: 'guides-folder',
+          severity: 'error',
+          message: "Guide source 'pack' could not be fetched: Archive not found: /downloads/guides.tgz",
+          path: '/downloads/guides.tgz',
+          fix: 'Check that /downloads/guides.tgz can be read, then run init-memory-bank sources refresh',
+        },
+      ]);
+    });
+
+    it('should report a folder that the repository does not have', () => {
+      files[configPath] = JSON.stringify({
+        ...config,
+        guideSources: [{ label: 'team', git: 'https://example.com/guides.git', folder: 'guides' }],
+      });
+      mockGuideSourceService.resolveFolder.mockReturnValue('/cache/team/guides');
+
+      expect(findingsFor('guides-folder')[1]).toEqual({
+        check: 'guides-folder',
+        severity: 'error',
+        message: "Guide source 'team' has no folder guides",
+        path: '/cache/team/guides',
+        fix: "Correct the folder of guide source 'team'",
+      });
+    });
+  });
+
+  describe('guide structure', () => {
+    it('should report custom guides that discovery skips', () => {
+      const broken = path.join(guidesFolder, 'broken');
+      directories.add(broken);
+
+      expect(findingsFor('guide-structure')).toContainEqual(
+        expect.objectContaining({ severity: 'error', path: broken, message: "Guide 'broken' is skipped: Guide is missing required file: developmentGuide.md" })
+      );
+    });
+
+    it('should check the guides of every guide source', () => {
+      files[configPath] = JSON.stringify({ ...config, guideSources: [{ label: 'team', path: '/shared/guides' }] });
+      directories.add('/shared/guides');
+      directories.add(path.join('/shared/guides', 'broken'));
+
+      expect(findingsFor('guide-structure')).toContainEqual(
+        expect.objectContaining({ severity: 'error', path: path.join('/shared/guides', 'broken') })
+      );
+    });
+
+    it('should report invalid guide manifests with the manifest path', () => {
+      const team = path.join(guidesFolder, 'team');
+      directories.add(team);
+      files[path.join(team, 'guide.json')] = '{ broken';
+
+      expect(findingsFor('guide-structure')).toContainEqual(
+        expect.objectContaining({ severity: 'error', path: path.join(team, 'guide.json') })
+      );
+    });
+
+    it('should pass on structure warnings of custom guides', () => {
+      const team = path.join(guidesFolder, 'team');
+      directories.add(team);
+      files[path.join(team, 'developmentGuide.md')] = '# Team';
+
+      expect(findingsFor('guide-structure')).toContainEqual(
+        expect.objectContaining({ severity: 'warning', path: team, message: "Guide 'team': Guide is missing optional file: .cursorrules" })
+      );
+    });
+  });
+
+  describe('guide packages', () => {
+    const nodeModules = path.join('/project', 'node_modules');
+
+    // Install a package declaring the guide in its guide folder
+    const addPackage = (name: string, packageJson: object) => {
+      const packageDir = path.join(nodeModules, name);
+      directories.add(nodeModules);
+      directories.add(packageDir);
+      files[path.join(packageDir, 'package.json')] = JSON.stringify({ name, version: '1.0.0', ...packageJson });
+      return packageDir;
+    };
+
+    it('should report packages declaring a guide format this version does not support', () => {
+      const packageDir = addPackage('future-guide', { memoryBankGuide: { format: 2 } });
+
+      expect(findingsFor('guide-structure')).toContainEqual({
+        check: 'guide-structure',
+        severity: 'error',
+        message:
+          "Guide package 'future-guide' (project) is skipped: guide format 2 is not supported by this version of init-memory-bank (supported: 1)",
+        path: path.join(packageDir, 'package.json'),
+        fix: 'Install a release of future-guide made for this version of init-memory-bank, or uninstall it',
+      });
+    });
+
+    it('should report packages whose guide folder is missing', () => {
+      const packageDir = addPackage('empty-guide', { memoryBankGuide: { path: 'guide' } });
+
+      expect(findingsFor('guide-structure')).toContainEqual(
+        expect.objectContaining({
+          severity: 'error',
+          message: "Guide package 'empty-guide' (project) is skipped: guide folder does not exist",
+          path: path.resolve(packageDir, 'guide'),
+        })
+      );
+    });
+
+    it('should check the structure of package guides', () => {
+      const packageDir = addPackage('backend-guide', { memoryBankGuide: {} });
+
+      expect(findingsFor('guide-structure')).toContainEqual(
+        expect.objectContaining({
+          severity: 'error',
+          path: path.resolve(packageDir),
+          message: "Guide 'backend-guide' is skipped: Guide is missing required file: developmentGuide.md",
+        })
+      );
+    });
+
+    it('should report package guides shadowed by another package', () => {
+      const guidePackage = (name: string, scope: 'project' | 'global') => ({
+        name,
+        version: '1.0.0',
+        scope,
+        path: `/${scope}/node_modules/${name}`,
+        folderPath: `/${scope}/node_modules/${name}`,
+      });
+      const packageGuide = (name: string, scope: 'project' | 'global'): GuideInfo => ({
+        ...builtIn,
+        id: 'backend',
+        type: 'package',
+        folderPath: guidePackage(name, scope).folderPath,
+        package: guidePackage(name, scope),
+      });
+      const project = packageGuide('backend-guide', 'project');
+      const global = packageGuide('old-backend-guide', 'global');
+      mockGuideDiscoveryService.getShadowedGuides.mockReturnValue([{ guide: global, shadowedBy: project }]);
+
+      expect(findingsFor('duplicate-ids')).toEqual([
+        expect.objectContaining({
+          message:
+            "Guide id 'backend' from package 'old-backend-guide' (global) is shadowed by the guide from package 'backend-guide' (project) at /project/node_modules/backend-guide",
+          path: '/global/node_modules/old-backend-guide',
+          fix: 'Uninstall one of the packages old-backend-guide and backend-guide',
+        }),
+      ]);
+    });
+  });
+
+  describe('guide composition', () => {
+    const companyWeb: GuideInfo = {
+      id: 'company-web',
+      displayName: 'Company Web',
+      type: 'custom',
+      folderPath: path.join(guidesFolder, 'company-web'),
+      hasCursorRules: false,
+      manifest: { extends: 'web', fragments: [{ source: 'rules.md', mode: 'append', heading: 'Security' }] },
+    };
+
+    beforeEach(() => {
+      files[path.join(builtIn.folderPath, 'developmentGuide.md')] = '# Web\n\n## Security\n\nEscape output.\n';
+      files[path.join(companyWeb.folderPath, 'rules.md')] = 'Audit dependencies.';
+    });
+
+    it('should report guides that extend another guide', () => {
+      mockGuideDiscoveryService.getAllGuides.mockReturnValue([builtIn, companyWeb]);
+
+      expect(findingsFor('guide-structure')).toContainEqual({
+        check: 'guide-structure',
+        severity: 'ok',
+        message: "Guide 'company-web' extends 'web'",
+        path: path.join(companyWeb.folderPath, 'guide.json'),
+      });
+    });
+
+    it('should report guides that cannot be composed with their base guide', () => {
+      mockGuideDiscoveryService.getAllGuides.mockReturnValue([
+        builtIn,
+        { ...companyWeb, manifest: { ...companyWeb.manifest, extends: 'java' } },
+      ]);
+
+      expect(findingsFor('guide-structure')).toContainEqual({
+        check: 'guide-structure',
+        severity: 'error',
+        message: "Guide 'company-web' cannot be installed: Guide 'company-web' extends 'java', but no guide with that id was found. Available guides: web",
+        path: path.join(companyWeb.folderPath, 'guide.json'),
+        fix: `Correct "extends" and "fragments" in ${path.join(companyWeb.folderPath, 'guide.json')}`,
+      });
+    });
+  });
+
+  describe('menu items', () => {
+    it('should report menu items pointing to missing folders', () => {
+      files[configPath] = JSON.stringify({ ...config, menuItems: [{ id: 'm1', displayName: 'Team', folderPath: 'team' }] });
+
+      expect(findingsFor('menu-items')).toEqual([
+        expect.objectContaining({
+          severity: 'warning',
+          message: "Menu item 'Team' (m1) points to a folder that does not exist",
+          path: path.resolve(guidesFolder, 'team'),
+        }),
+      ]);
+    });
+  });
+
+  describe('duplicate ids', () => {
+    it('should report guides whose id is already taken', () => {
+      mockGuideDiscoveryService.getAllGuides.mockReturnValue([builtIn, { ...builtIn, id: 'Web', type: 'custom', folderPath: '/home/dev/guides/web' }]);
+
+      expect(findingsFor('duplicate-ids')).toEqual([
+        expect.objectContaining({ severity: 'warning', path: '/home/dev/guides/web', fix: `Set a unique "id" in ${path.join('/home/dev/guides/web', 'guide.json')}` }),
+      ]);
+    });
+
+    it('should report guides shadowed by a source with more precedence', () => {
+      const personal: GuideInfo = {
+        ...builtIn,
+        id: 'react',
+        type: 'custom',
+        folderPath: '/home/dev/guides/react',
+        source: { label: 'customGuidesFolder', path: guidesFolder, priority: 0 },
+      };
+      const team: GuideInfo = {
+        ...personal,
+        folderPath: '/shared/guides/react',
+        source: { label: 'team', path: '/shared/guides', priority: 0 },
+      };
+      mockGuideDiscoveryService.getAllGuides.mockReturnValue([builtIn, personal]);
+      mockGuideDiscoveryService.getShadowedGuides.mockReturnValue([{ guide: team, shadowedBy: personal }]);
+
+      expect(findingsFor('duplicate-ids')).toEqual([
+        {
+          check: 'duplicate-ids',
+          severity: 'warning',
+          message: "Guide id 'react' from source 'team' is shadowed by the guide from source 'customGuidesFolder' at /home/dev/guides/react",
+          path: '/shared/guides/react',
+          fix: `Set a unique "id" in ${path.join('/shared/guides/react', 'guide.json')}, or change the priority of guide source 'team'`,
+        },
+      ]);
+    });
+
+    it('should report menu items that share an id', () => {
+      directories.add(path.join(guidesFolder, 'a'));
+      files[configPath] = JSON.stringify({
+        ...config,
+        menuItems: [
+          { id: 'm1', displayName: 'A', folderPath: 'a' },
+          { id: 'm1', displayName: 'B', folderPath: 'a' },
+        ],
+      });
+
+      expect(findingsFor('duplicate-ids')).toEqual([
+        expect.objectContaining({ severity: 'warning', message: "Menu item id 'm1' is used more than once", path: configPath }),
+      ]);
+    });
+  });
+
+  describe('built-in .cursorrules', () => {
+    it('should report built-in guides flagged with .cursorrules that do not ship it', () => {
+      delete files[path.join(builtIn.folderPath, '.cursorrules')];
+
+      expect(findingsFor('cursor-rules')).toEqual([
+        expect.objectContaining({ severity: 'error', path: path.join(builtIn.folderPath, '.cursorrules') }),
+      ]);
+      expect(findingsFor('guide-structure').filter((finding) => finding.severity !== 'ok')).toEqual([]);
+    });
+  });
+
+  describe('target directory', () => {
+    it('should report a missing target directory', () => {
+      directories.delete('/project');
+
+      expect(findingsFor('target')).toEqual([expect.objectContaining({ severity: 'error', path: '/project', message: 'Target directory does not exist' })]);
+    });
+
+    it('should report memory bank folders that are not writable', () => {
+      const memoryBank = path.join('/project', '.memory-bank');
+      directories.add(memoryBank);
+      mockedFs.accessSync.mockImplementation((filePath) => {
+        if (filePath === memoryBank) {
+          throw new Error('EACCES');
+        }
+      });
+
+      expect(findingsFor('target')).toEqual([
+        expect.objectContaining({ severity: 'error', path: memoryBank, fix: `Grant write access with chmod u+w "${memoryBank}"` }),
+      ]);
+    });
+  });
+});
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { FileCopyService } from '../../src/services/file-copy-service';
 import { GuideInfo, CopyResult } from '../../src/config/types';
+import { hashContent } from '../../src/utils/install-lockfile';
 
 // Mock fs module
 jest.mock('fs');
@@ -753,6 +754,172 @@ describe('FileCopyService', () => {
       expect(cursorResult.overwritten).toBe(true);
       expect(cursorResult.backupPath).toContain('.backup');
     });
+
+    it('should write no file when one of the guide files cannot be copied', () => {
+      const guide: GuideInfo = {
+        id: 'test-guide',
+        displayName: 'Test Guide',
+        type: 'custom',
+        folderPath: '/source/guide',
+        hasCursorRules: true,
+      };
+      const targetDir = '/target/directory';
+      mockedFs.existsSync.mockImplementation((filePath) => {
+        const pathStr = filePath.toString();
+        return pathStr === targetDir || pathStr === path.join('/source/guide', 'developmentGuide.md');
+      });
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readFileSync.mockReturnValue('New guide content' as any);
+
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir);
+
+      expect(results).toEqual([
+        {
+          success: false,
+          error: `${path.join('.memory-bank', 'developmentGuide.md')} was not copied because another guide file failed`,
+          copiedFilePath: path.join(targetDir, '.memory-bank', 'developmentGuide.md'),
+          rolledBack: true,
+        },
+        {
+          success: false,
+          error: `Source file not found: ${path.join('/source/guide', '.cursorrules')}`,
+          rolledBack: true,
+        },
+      ]);
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+      expect(mockedFs.renameSync).not.toHaveBeenCalled();
+    });
+
+    it('should put back the files already replaced when a later one fails', () => {
+      const guide: GuideInfo = {
+        id: 'test-guide',
+        displayName: 'Test Guide',
+        type: 'custom',
+        folderPath: '/source/guide',
+        hasCursorRules: true,
+      };
+      const targetDir = '/target/directory';
+      const guideTarget = path.join(targetDir, '.memory-bank', 'developmentGuide.md');
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readFileSync.mockImplementation((filePath) =>
+        Buffer.from(filePath.toString().startsWith(targetDir) ? 'Existing content' : 'New content')
+      );
+      mockedFs.renameSync.mockImplementation((_from, to) => {
+        if (to.toString() === path.join(targetDir, '.cursorrules')) {
+          throw new Error('EBUSY: resource busy');
+        }
+      });
+
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir);
+
+      expect(results.every((result) => !result.success && result.rolledBack)).toBe(true);
+      expect(results[1].error).toBe(`Failed to write ${path.join(targetDir, '.cursorrules')}: EBUSY: resource busy`);
+      expect(mockedFs.renameSync).toHaveBeenCalledWith(expect.stringContaining('.tmp'), guideTarget);
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(guideTarget, Buffer.from('Existing content'));
+    });
+  });
+
+  describe('planInstall', () => {
+    const guide: GuideInfo = {
+      id: 'test-guide',
+      displayName: 'Test Guide',
+      type: 'custom',
+      folderPath: '/source/guide',
+      hasCursorRules: true,
+    };
+    const targetDir = '/target/directory';
+
+    it('should plan directories, new files and overwrites with backups', () => {
+      mockedFs.existsSync.mockImplementation((filePath) => {
+        const pathStr = filePath.toString();
+        return (
+          pathStr === targetDir ||
+          pathStr === path.join(targetDir, '.memory-bank') ||
+          pathStr === path.join(targetDir, '.cursorrules') ||
+          pathStr.startsWith('/source/guide')
+        );
+      });
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+
+      const plan = fileCopyService.planInstall(guide, targetDir, 1234);
+
+      expect(plan.errors).toEqual([]);
+      expect(plan.directories).toEqual([
+        { path: path.join(targetDir, '.memory-bank'), action: 'exists' },
+        { path: path.join(targetDir, '.specs'), action: 'create' },
+      ]);
+      expect(plan.files).toEqual([
+        {
+          sourcePath: path.join('/source/guide', 'developmentGuide.md'),
+          targetPath: path.join(targetDir, '.memory-bank', 'developmentGuide.md'),
+          action: 'create',
+          backupPath: undefined,
+        },
+        {
+          sourcePath: path.join('/source/guide', '.cursorrules'),
+          targetPath: path.join(targetDir, '.cursorrules'),
+          action: 'overwrite',
+          backupPath: path.join(targetDir, '.cursorrules.backup.1234'),
+        },
+      ]);
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+      expect(mockedFs.mkdirSync).not.toHaveBeenCalled();
+    });
+
+    it('should report missing source files as errors', () => {
+      mockedFs.existsSync.mockImplementation(
+        (filePath) => filePath.toString() === targetDir
+      );
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+
+      const plan = fileCopyService.planInstall(guide, targetDir, 1234);
+
+      expect(plan.files).toEqual([]);
+      expect(plan.errors).toEqual([
+        `Source file not found: ${path.join('/source/guide', 'developmentGuide.md')}`,
+        `Source file not found: ${path.join('/source/guide', '.cursorrules')}`,
+      ]);
+    });
+
+    it('should plan the files declared in guide.json', () => {
+      const manifestGuide: GuideInfo = {
+        ...guide,
+        manifest: {
+          files: [
+            { source: 'guide.md', destination: '.memory-bank/developmentGuide.md' },
+            { source: 'docs/testing.md', destination: '.memory-bank/testing.md' },
+          ],
+        },
+      };
+      mockedFs.existsSync.mockImplementation((filePath) => {
+        const pathStr = filePath.toString();
+        return pathStr === targetDir || pathStr.startsWith('/source/guide');
+      });
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+
+      const plan = fileCopyService.planInstall(manifestGuide, targetDir, 1234);
+
+      expect(plan.files.map((file) => [file.sourcePath, file.targetPath])).toEqual([
+        [
+          path.join('/source/guide', 'guide.md'),
+          path.join(targetDir, '.memory-bank', 'developmentGuide.md'),
+        ],
+        [
+          path.join('/source/guide', 'docs', 'testing.md'),
+          path.join(targetDir, '.memory-bank', 'testing.md'),
+        ],
+      ]);
+    });
+
+    it('should report an invalid target directory', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+
+      const plan = fileCopyService.planInstall(guide, '/missing', 1234);
+
+      expect(plan.directories).toEqual([]);
+      expect(plan.errors).toEqual(['Target directory does not exist: /missing']);
+    });
   });
 
   describe('conflict resolution', () => {
@@ -788,6 +955,67 @@ describe('FileCopyService', () => {
       expect(backupPath).not.toBe(originalPath);
     });
 
+    it('should find the most recent backup of a file', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readdirSync.mockReturnValue([
+        'file.txt',
+        'file.backup.100.txt',
+        'file.backup.900.txt',
+        'file.backup.old.txt',
+        'other.backup.999.txt',
+      ] as any);
+
+      expect(fileCopyService.findLatestBackup('/target/file.txt')).toBe(path.join('/target', 'file.backup.900.txt'));
+    });
+
+    it('should find backups of files without an extension', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readdirSync.mockReturnValue(['.cursorrules', '.cursorrules.backup.42'] as any);
+
+      expect(fileCopyService.findLatestBackup('/target/.cursorrules')).toBe(path.join('/target', '.cursorrules.backup.42'));
+    });
+
+    it('should return undefined when a file has no backup', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readdirSync.mockReturnValue(['file.txt'] as any);
+
+      expect(fileCopyService.findLatestBackup('/target/file.txt')).toBeUndefined();
+    });
+
+    it('should collect backups under .memory-bank/.backups when configured', () => {
+      fileCopyService.setBackupSettings({ location: 'memory-bank' });
+
+      expect(fileCopyService.generateBackupPath('/target/docs/file.txt', 42, '/target')).toBe(
+        path.join('/target', '.memory-bank', '.backups', 'docs', 'file.backup.42.txt')
+      );
+      expect(fileCopyService.generateBackupPath('/target/.cursorrules', 42, '/target')).toBe(
+        path.join('/target', '.memory-bank', '.backups', '.cursorrules.backup.42')
+      );
+      // Without the project directory backups stay beside the file
+      expect(fileCopyService.generateBackupPath('/target/docs/file.txt', 42)).toBe(path.join('/target', 'docs', 'file.backup.42.txt'));
+    });
+
+    it('should find the most recent backup in either location', () => {
+      const collected = path.join('/target', '.memory-bank', '.backups', 'docs');
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readdirSync.mockImplementation(((dir: fs.PathLike) =>
+        dir === collected ? ['file.backup.500.txt'] : ['file.txt', 'file.backup.100.txt']) as any);
+
+      expect(fileCopyService.findLatestBackup('/target/docs/file.txt')).toBe(path.join('/target', 'docs', 'file.backup.100.txt'));
+      expect(fileCopyService.findLatestBackup('/target/docs/file.txt', '/target')).toBe(path.join(collected, 'file.backup.500.txt'));
+    });
+
+    it('should copy a file to a new backup', () => {
+      fileCopyService.setBackupSettings({ location: 'memory-bank' });
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('Current content'));
+
+      const backupPath = fileCopyService.createBackup('/target/.cursorrules', '/target', 42);
+
+      expect(backupPath).toBe(path.join('/target', '.memory-bank', '.backups', '.cursorrules.backup.42'));
+      expect(mockedFs.mkdirSync).toHaveBeenCalledWith(path.join('/target', '.memory-bank', '.backups'), { recursive: true });
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(backupPath, Buffer.from('Current content'));
+    });
+
     it('should restore from backup successfully', () => {
       const originalPath = '/target/file.txt';
       const backupPath = '/target/file.backup.123.txt';
@@ -800,8 +1028,29 @@ describe('FileCopyService', () => {
       const result = fileCopyService.restoreFromBackup(originalPath, backupPath);
 
       expect(result.success).toBe(true);
-      expect(mockedFs.readFileSync).toHaveBeenCalledWith(backupPath, 'utf8');
-      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(originalPath, content, 'utf8');
+      expect(mockedFs.readFileSync).toHaveBeenCalledWith(backupPath);
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(originalPath, content);
+    });
+
+    it('should restore binary files byte for byte', () => {
+      const originalPath = '/target/assets/logo.png';
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0x00]);
+      const files: Record<string, Buffer> = {};
+
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike, encoding?: string) => {
+        const content = files[filePath.toString()] || png;
+        return encoding ? content.toString(encoding as BufferEncoding) : content;
+      }) as any);
+      mockedFs.writeFileSync.mockImplementation(((filePath: fs.PathLike, content: string | Buffer, encoding?: string) => {
+        files[filePath.toString()] = Buffer.isBuffer(content) ? content : Buffer.from(content, encoding as BufferEncoding);
+      }) as any);
+
+      const backupPath = fileCopyService.createBackup(originalPath, '/target', 123);
+      const result = fileCopyService.restoreFromBackup(originalPath, backupPath);
+
+      expect(result.success).toBe(true);
+      expect(files[originalPath].equals(png)).toBe(true);
     });
 
     it('should handle backup restoration failure', () => {
@@ -831,4 +1080,772 @@ describe('FileCopyService', () => {
       expect(result.error).toContain('Backup file not found');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('conflict actions', () => {
+    const guide: GuideInfo = {
+      id: 'test-guide',
+      displayName: 'Test Guide',
+      type: 'custom',
+      folderPath: '/source/guide',
+      hasCursorRules: true,
+    };
+    const targetDir = '/target/directory';
+    const guideTarget = path.join(targetDir, '.memory-bank', 'developmentGuide.md');
+    const rulesTarget = path.join(targetDir, '.cursorrules');
+    let files: Record<string, string>;
+
+    // Written files, read back from the temporary file they were staged in
+    const written = (filePath: string) => {
+      const rename = mockedFs.renameSync.mock.calls.find(([, to]) => to === filePath);
+      const write = rename && mockedFs.writeFileSync.mock.calls.find(([tempPath]) => tempPath === rename[0]);
+      return write?.[1]?.toString();
+    };
+
+    beforeEach(() => {
+      files = {
+        [path.join('/source/guide', 'developmentGuide.md')]: '# Guide\n\n## Testing\n\nWrite tests.\n',
+        [path.join('/source/guide', '.cursorrules')]: 'guide rules\n',
+        [guideTarget]: '# Guide\n\nOur notes\n',
+        [rulesTarget]: 'guide rules\n',
+      };
+      mockedFs.existsSync.mockImplementation(
+        (filePath) => filePath.toString() in files || [targetDir, path.join(targetDir, '.memory-bank')].includes(filePath.toString())
+      );
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike, encoding?: string) => {
+        const content = files[filePath.toString()];
+        return encoding ? content : Buffer.from(content);
+      }) as any);
+      mockedFs.renameSync.mockReset();
+    });
+
+    it('should only treat existing files with different content as conflicts', () => {
+      expect(fileCopyService.detectConflict(guideTarget, files[path.join('/source/guide', 'developmentGuide.md')])).toBe(true);
+      expect(fileCopyService.detectConflict(rulesTarget, 'guide rules\n')).toBe(false);
+      expect(fileCopyService.detectConflict(path.join(targetDir, 'missing.md'), 'content')).toBe(false);
+    });
+
+    it('should find the files that differ from the guide', () => {
+      expect(fileCopyService.findConflicts(guide, targetDir)).toEqual([
+        {
+          sourcePath: path.join('/source/guide', 'developmentGuide.md'),
+          targetPath: guideTarget,
+          existing: '# Guide\n\nOur notes\n',
+          incoming: '# Guide\n\n## Testing\n\nWrite tests.\n',
+        },
+      ]);
+    });
+
+    it('should neither write nor back up files that already match the guide', () => {
+      files[rulesTarget] = files[path.join('/source/guide', '.cursorrules')];
+
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir, undefined, { [rulesTarget]: 'skip' });
+
+      expect(results[1]).toEqual({ success: true, copiedFilePath: rulesTarget, skipped: true, unchanged: true });
+      expect(written(rulesTarget)).toBeUndefined();
+      expect(mockedFs.writeFileSync.mock.calls.some(([filePath]) => filePath.toString().includes('.cursorrules.backup.'))).toBe(
+        false
+      );
+      expect(fileCopyService.planInstall(guide, targetDir, 1234).files[1]).toEqual({
+        sourcePath: path.join('/source/guide', '.cursorrules'),
+        targetPath: rulesTarget,
+        action: 'keep',
+      });
+    });
+
+    it('should leave files with unresolved variables to the copy to report', () => {
+      fileCopyService.setTemplateVariables({ projectName: 'billing-api' });
+      files[path.join('/source/guide', 'developmentGuide.md')] = '# {{projectName}} by {{team}}\n';
+
+      expect(fileCopyService.findConflicts(guide, targetDir)).toEqual([]);
+      expect(fileCopyService.copyGuideFilesWithBackup(guide, targetDir)[0]).toEqual(
+        expect.objectContaining({
+          success: false,
+          error: `Unresolved template variables in ${path.join('/source/guide', 'developmentGuide.md')}: team`,
+        })
+      );
+    });
+
+    it('should overwrite conflicting files when no action is given', () => {
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir);
+
+      expect(results[0]).toMatchObject({ success: true, overwritten: true, conflictAction: 'overwrite' });
+      expect(results[0].backupPath).toContain('.backup.');
+      expect(results[1].conflictAction).toBeUndefined();
+      expect(written(guideTarget)).toBe('# Guide\n\n## Testing\n\nWrite tests.\n');
+    });
+
+    it('should keep the existing file when skipping', () => {
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir, undefined, { [guideTarget]: 'skip' });
+
+      expect(results[0]).toEqual({ success: true, copiedFilePath: guideTarget, skipped: true, conflictAction: 'skip' });
+      expect(written(guideTarget)).toBeUndefined();
+    });
+
+    it('should write the guide version beside the existing file for keep-both', () => {
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir, undefined, { [guideTarget]: 'keep-both' });
+
+      expect(results[0]).toEqual({
+        success: true,
+        copiedFilePath: guideTarget,
+        skipped: true,
+        conflictAction: 'keep-both',
+        newFilePath: `${guideTarget}.new`,
+      });
+      expect(written(`${guideTarget}.new`)).toBe('# Guide\n\n## Testing\n\nWrite tests.\n');
+      expect(written(guideTarget)).toBeUndefined();
+    });
+
+    it('should append the missing guide sections when merging', () => {
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir, undefined, { [guideTarget]: 'merge' });
+
+      expect(results[0]).toMatchObject({ success: true, overwritten: true, conflictAction: 'merge' });
+      expect(results[0].backupPath).toContain('.backup.');
+      expect(written(guideTarget)).toBe('# Guide\n\nOur notes\n\n## Testing\n\nWrite tests.\n');
+    });
+
+    it('should leave a file alone when merging adds nothing', () => {
+      files[guideTarget] = '# Guide\n\n## Testing\n\nWe test everything.\n';
+
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir, undefined, { [guideTarget]: 'merge' });
+
+      expect(results[0]).toEqual({ success: true, copiedFilePath: guideTarget, skipped: true, conflictAction: 'merge' });
+      expect(written(guideTarget)).toBeUndefined();
+    });
+
+    it('should plan files the way the --on-conflict action handles them', () => {
+      expect(fileCopyService.planInstall(guide, targetDir, 1234, 'skip').files[0]).toEqual({
+        sourcePath: path.join('/source/guide', 'developmentGuide.md'),
+        targetPath: guideTarget,
+        action: 'keep',
+        conflictAction: 'skip',
+      });
+      expect(fileCopyService.planInstall(guide, targetDir, 1234, 'keep-both').files[0]).toEqual({
+        sourcePath: path.join('/source/guide', 'developmentGuide.md'),
+        targetPath: `${guideTarget}.new`,
+        action: 'create',
+        conflictAction: 'keep-both',
+      });
+      expect(fileCopyService.planInstall(guide, targetDir, 1234, 'merge').files[1]).toEqual({
+        sourcePath: path.join('/source/guide', '.cursorrules'),
+        targetPath: rulesTarget,
+        action: 'keep',
+      });
+    });
+  });
+
+  describe('guide.json file lists', () => {
+    const guide: GuideInfo = {
+      id: 'company-react',
+      displayName: 'Company React',
+      type: 'custom',
+      folderPath: '/source/guide',
+      hasCursorRules: false,
+      manifest: {
+        files: [
+          { source: 'guide.md', destination: '.memory-bank/developmentGuide.md' },
+          { source: 'docs/testing.md', destination: 'docs/testing.md' },
+        ],
+      },
+    };
+    const targetDir = '/target/directory';
+
+    it('should copy every declared file to its destination', () => {
+      mockedFs.existsSync.mockImplementation((filePath) => {
+        const pathStr = filePath.toString();
+        return pathStr === targetDir || pathStr.startsWith('/source/guide');
+      });
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readFileSync.mockReturnValue('File content' as any);
+
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir);
+
+      expect(results.map((result) => result.copiedFilePath)).toEqual([
+        path.join(targetDir, '.memory-bank', 'developmentGuide.md'),
+        path.join(targetDir, 'docs', 'testing.md'),
+      ]);
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(mockedFs.mkdirSync).toHaveBeenCalledWith(path.join(targetDir, 'docs'), {
+        recursive: true,
+      });
+      expect(mockedFs.readFileSync).toHaveBeenCalledWith(
+        path.join('/source/guide', 'docs', 'testing.md')
+      );
+    });
+
+    it('should back up files that already exist', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) =>
+        Buffer.from(filePath.toString().startsWith(targetDir) ? 'Existing content' : 'New content')) as any);
+
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir);
+
+      expect(results.every((result) => result.success && result.overwritten)).toBe(true);
+      expect(results[1].backupPath).toMatch(/testing\.backup\.\d+\.md$/);
+      expect(path.dirname(results[1].backupPath!)).toBe(path.join(targetDir, 'docs'));
+    });
+
+    it('should write backups to .memory-bank/.backups when configured', () => {
+      fileCopyService.setBackupSettings({ location: 'memory-bank' });
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) =>
+        Buffer.from(filePath.toString().startsWith(targetDir) ? 'Existing content' : 'New content')) as any);
+
+      const results = fileCopyService.copyGuideFilesWithBackup(guide, targetDir);
+
+      expect(results[1].success).toBe(true);
+      expect(path.dirname(results[1].backupPath!)).toBe(path.join(targetDir, '.memory-bank', '.backups', 'docs'));
+    });
+
+    it('should report missing source files', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+
+      const result = fileCopyService.copyFile('/source/guide/missing.md', '/target/missing.md');
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Source file not found: /source/guide/missing.md',
+      });
+    });
+  });
+
+  describe('template variables', () => {
+    const guide: GuideInfo = {
+      id: 'company-react',
+      displayName: 'Company React',
+      type: 'custom',
+      folderPath: '/source/guide',
+      hasCursorRules: false,
+    };
+
+    it('should copy files verbatim when templating is not enabled', () => {
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString().startsWith('/source'));
+      mockedFs.readFileSync.mockReturnValue('# {{projectName}}' as any);
+
+      const result = fileCopyService.copyGuide(guide, '/target');
+
+      expect(result.success).toBe(true);
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+        path.join('/target', '.memory-bank', 'developmentGuide.md'),
+        '# {{projectName}}',
+        'utf8'
+      );
+    });
+
+    it('should substitute variables in copied files', () => {
+      fileCopyService.setTemplateVariables({ projectName: 'billing-api', team: 'Payments' });
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString().startsWith('/source'));
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# {{projectName}} ({{team}})') as any);
+
+      const result = fileCopyService.copyFile('/source/guide/README.md', '/target/README.md');
+
+      expect(result.success).toBe(true);
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith('/target/README.md', '# billing-api (Payments)');
+    });
+
+    it('should report unresolved variables as copy errors without writing the file', () => {
+      fileCopyService.setTemplateVariables({ projectName: 'billing-api' });
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString().startsWith('/source'));
+      mockedFs.readFileSync.mockReturnValue('{{projectName}} by {{team}} at {{repoUrl}}' as any);
+
+      const result = fileCopyService.copyGuideWithBackup(guide, '/target');
+
+      expect(result).toEqual({
+        success: false,
+        error: `Unresolved template variables in ${path.join('/source/guide', 'developmentGuide.md')}: team, repoUrl`,
+      });
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should render guide files without writing them', () => {
+      fileCopyService.setTemplateVariables({ team: 'Payments' });
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('Owned by {{team}}') as any);
+
+      expect(fileCopyService.renderGuideFile('/source/guide/README.md')).toBe('Owned by Payments');
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should plan unresolved variables as install errors', () => {
+      fileCopyService.setTemplateVariables({ projectName: 'billing-api' });
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString().startsWith('/source') || filePath.toString() === '/target');
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# {{projectName}} by {{team}}') as any);
+
+      expect(fileCopyService.planInstall(guide, '/target').errors).toEqual([
+        `Unresolved template variables in ${path.join('/source/guide', 'developmentGuide.md')}: team`,
+      ]);
+    });
+
+    it('should compare existing files with the rendered guide files when planning', () => {
+      const guideTarget = path.join('/target', '.memory-bank', 'developmentGuide.md');
+      fileCopyService.setTemplateVariables({ team: 'core' });
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) =>
+        Buffer.from(filePath.toString() === guideTarget ? 'Owned by core' : 'Owned by {{team}}')) as any);
+
+      expect(fileCopyService.planInstall(guide, '/target', 1234, 'skip').files[0].conflictAction).toBeUndefined();
+    });
+
+    it('should leave binary files untouched', () => {
+      fileCopyService.setTemplateVariables({});
+      const image = Buffer.from([0x89, 0x50, 0x00, 0x7b, 0x7b]);
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString().startsWith('/source'));
+      mockedFs.readFileSync.mockReturnValue(image as any);
+
+      const result = fileCopyService.copyFile('/source/guide/logo.png', '/target/logo.png');
+
+      expect(result.success).toBe(true);
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith('/target/logo.png', image);
+    });
+  });
+
+  describe('install lockfile', () => {
+    const guide: GuideInfo = {
+      id: 'web',
+      displayName: 'Web',
+      type: 'built-in',
+      folderPath: '/source/Web',
+      hasCursorRules: true,
+      version: '2.0.0',
+    };
+    const lockfilePath = path.join('/target', '.memory-bank', '.install.json');
+    const guideFile = path.join('/target', '.memory-bank', 'developmentGuide.md');
+    const cursorRules = path.join('/target', '.cursorrules');
+    const projectBrief = path.join('/target', '.memory-bank', 'projectBrief.md');
+    const now = new Date('2026-03-01T12:00:00.000Z');
+
+    // Serve files from an in-memory project and guide
+    const mockFiles = (files: Record<string, string>) => {
+      mockedFs.existsSync.mockImplementation((filePath) => {
+        const name = filePath.toString();
+        return name in files || Object.keys(files).some((file) => file.startsWith(`${name}${path.sep}`));
+      });
+      mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) => {
+        const content = files[filePath.toString()];
+        if (content === undefined) {
+          throw new Error(`ENOENT: ${filePath}`);
+        }
+        return Buffer.from(content);
+      }) as any);
+    };
+
+    const writtenLockfile = () => {
+      const call = mockedFs.writeFileSync.mock.calls.find(([filePath]) => filePath === lockfilePath);
+      return JSON.parse(call?.[1] as string);
+    };
+
+    it('should record the guide and the hash of every written file', () => {
+      mockFiles({
+        [path.join('/source/Web', 'developmentGuide.md')]: '# Web',
+        [path.join('/source/Web', '.cursorrules')]: 'rules',
+        [guideFile]: '# Web',
+        [cursorRules]: 'rules',
+        [projectBrief]: '# Project Brief',
+      });
+
+      const result = fileCopyService.writeInstallLockfile(
+        guide,
+        '/target',
+        [
+          { success: true, copiedFilePath: guideFile },
+          { success: true, copiedFilePath: cursorRules },
+          { success: true, copiedFilePath: projectBrief },
+        ],
+        now
+      );
+
+      expect(result).toEqual({ success: true, copiedFilePath: lockfilePath, overwritten: false });
+      expect(writtenLockfile()).toEqual({
+        lockfileVersion: 1,
+        guide: {
+          id: 'web',
+          type: 'built-in',
+          sourcePath: '/source/Web',
+          version: '2.0.0',
+          contentHash: fileCopyService.hashGuide(guide),
+        },
+        files: [
+          {
+            path: '.memory-bank/developmentGuide.md',
+            source: 'developmentGuide.md',
+            sha256: hashContent('# Web'),
+            installedAt: '2026-03-01T12:00:00.000Z',
+          },
+          {
+            path: '.cursorrules',
+            source: '.cursorrules',
+            sha256: hashContent('rules'),
+            installedAt: '2026-03-01T12:00:00.000Z',
+          },
+          {
+            path: '.memory-bank/projectBrief.md',
+            sha256: hashContent('# Project Brief'),
+            installedAt: '2026-03-01T12:00:00.000Z',
+          },
+        ],
+        installedAt: '2026-03-01T12:00:00.000Z',
+        updatedAt: '2026-03-01T12:00:00.000Z',
+      });
+    });
+
+    it('should keep the guide version of guide files as the base for updates', () => {
+      const baseDir = path.join('/target', '.memory-bank', '.install-base');
+      mockFiles({ [guideFile]: '# Web', [projectBrief]: '# Project Brief' });
+
+      fileCopyService.writeInstallLockfile(
+        guide,
+        '/target',
+        [
+          { success: true, copiedFilePath: guideFile },
+          { success: true, copiedFilePath: projectBrief },
+        ],
+        now
+      );
+
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+        path.join(baseDir, '.memory-bank', 'developmentGuide.md'),
+        Buffer.from('# Web')
+      );
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalledWith(
+        path.join(baseDir, '.memory-bank', 'projectBrief.md'),
+        expect.anything()
+      );
+    });
+
+    it('should record the template variables used for the install', () => {
+      fileCopyService.setTemplateVariables({ team: 'Payments' });
+      mockFiles({ [guideFile]: '# Payments' });
+
+      fileCopyService.writeInstallLockfile(guide, '/target', [{ success: true, copiedFilePath: guideFile }], now);
+
+      expect(writtenLockfile().variables).toEqual({ team: 'Payments' });
+    });
+
+    it('should keep earlier entries for kept files and the first install time', () => {
+      const previousEntry = {
+        path: '.memory-bank/projectBrief.md',
+        sha256: hashContent('# Project Brief'),
+        installedAt: '2026-01-01T00:00:00.000Z',
+      };
+      mockFiles({
+        [guideFile]: '# Web v2',
+        [projectBrief]: '# Edited brief',
+        [lockfilePath]: JSON.stringify({
+          lockfileVersion: 1,
+          guide: { id: 'web', type: 'built-in', sourcePath: '/source/Web', contentHash: 'abc' },
+          files: [previousEntry],
+          installedAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+        }),
+      });
+
+      const result = fileCopyService.writeInstallLockfile(
+        guide,
+        '/target',
+        [
+          { success: true, copiedFilePath: guideFile, overwritten: true },
+          { success: true, copiedFilePath: projectBrief, skipped: true },
+        ],
+        now
+      );
+
+      const lockfile = writtenLockfile();
+      expect(result.overwritten).toBe(true);
+      expect(lockfile.installedAt).toBe('2026-01-01T00:00:00.000Z');
+      expect(lockfile.updatedAt).toBe('2026-03-01T12:00:00.000Z');
+      expect(lockfile.files).toEqual([
+        expect.objectContaining({ path: '.memory-bank/developmentGuide.md', sha256: hashContent('# Web v2') }),
+        previousEntry,
+      ]);
+    });
+
+    it('should record a file the guide installs over a kept core file only once', () => {
+      const progress = path.join('/target', '.memory-bank', 'progress.md');
+      mockFiles({
+        [progress]: '# Progress v2',
+        [lockfilePath]: JSON.stringify({
+          lockfileVersion: 1,
+          guide: { id: 'web', type: 'built-in', sourcePath: '/source/Web', contentHash: 'abc' },
+          files: [{ path: '.memory-bank/progress.md', sha256: hashContent('# Progress'), installedAt: '2026-01-01T00:00:00.000Z' }],
+          installedAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+        }),
+      });
+
+      fileCopyService.writeInstallLockfile(
+        guide,
+        '/target',
+        [
+          { success: true, copiedFilePath: progress, overwritten: true },
+          { success: true, copiedFilePath: progress, skipped: true },
+        ],
+        now
+      );
+
+      expect(writtenLockfile().files).toEqual([
+        expect.objectContaining({ path: '.memory-bank/progress.md', sha256: hashContent('# Progress v2') }),
+      ]);
+    });
+
+    it('should record files that already matched the guide like written ones', () => {
+      mockFiles({ [guideFile]: '# Web' });
+
+      fileCopyService.writeInstallLockfile(
+        guide,
+        '/target',
+        [{ success: true, copiedFilePath: guideFile, skipped: true, unchanged: true }],
+        now
+      );
+
+      expect(writtenLockfile().files).toEqual([
+        expect.objectContaining({ path: '.memory-bank/developmentGuide.md', sha256: hashContent('# Web') }),
+      ]);
+    });
+
+    it('should leave out failed results and kept files it has no record of', () => {
+      mockFiles({ [guideFile]: '# Web', [projectBrief]: '# Mine' });
+
+      fileCopyService.writeInstallLockfile(
+        guide,
+        '/target',
+        [
+          { success: true, copiedFilePath: guideFile },
+          { success: false, error: 'Source file not found' },
+          { success: true, copiedFilePath: projectBrief, skipped: true },
+        ],
+        now
+      );
+
+      expect(writtenLockfile().files.map((file: any) => file.path)).toEqual(['.memory-bank/developmentGuide.md']);
+    });
+
+    it('should report a lockfile that cannot be written', () => {
+      mockFiles({ [guideFile]: '# Web' });
+      mockedFs.writeFileSync.mockImplementation(() => {
+        throw new Error('EACCES: permission denied');
+      });
+
+      const result = fileCopyService.writeInstallLockfile(
+        guide,
+        '/target',
+        [{ success: true, copiedFilePath: guideFile }],
+        now
+      );
+
+      expect(result).toEqual({
+        success: false,
+        error: `Failed to write ${path.join('.memory-bank', '.install.json')}: EACCES: permission denied`,
+      });
+    });
+
+    it('should change the guide hash when a guide file changes', () => {
+      const files = {
+        [path.join('/source/Web', 'developmentGuide.md')]: '# Web',
+        [path.join('/source/Web', '.cursorrules')]: 'rules',
+      };
+      mockFiles(files);
+      const before = fileCopyService.hashGuide(guide);
+
+      mockFiles({ ...files, [path.join('/source/Web', '.cursorrules')]: 'new rules' });
+
+      expect(fileCopyService.hashGuide(guide)).toMatch(/^[0-9a-f]{64}$/);
+      expect(fileCopyService.hashGuide(guide)).not.toBe(before);
+    });
+  });
+
+  describe('guide composition', () => {
+    const web: GuideInfo = {
+      id: 'web',
+      displayName: 'Web',
+      type: 'built-in',
+      folderPath: '/source/Web',
+      hasCursorRules: true,
+    };
+    const companyWeb: GuideInfo = {
+      id: 'company-web',
+      displayName: 'Company Web',
+      type: 'custom',
+      folderPath: '/custom/company-web',
+      hasCursorRules: false,
+      manifest: {
+        extends: 'web',
+        fragments: [
+          { source: 'rules.md', mode: 'append' },
+          { source: 'testing.md', mode: 'replace', heading: 'Testing' },
+          { source: 'cursor.md', target: '.cursorrules', mode: 'prepend' },
+        ],
+      },
+    };
+    const targetDir = '/target';
+    const guideFile = path.join(targetDir, '.memory-bank', 'developmentGuide.md');
+    let files: Record<string, string>;
+
+    // Serve the guides and the project from memory
+    const mockFiles = () => {
+      mockedFs.existsSync.mockImplementation((filePath) => {
+        const name = filePath.toString();
+        return name === targetDir || name in files;
+      });
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike, encoding?: string) => {
+        const content = files[filePath.toString()];
+        if (content === undefined) {
+          throw new Error(`ENOENT: ${filePath}`);
+        }
+        return encoding ? content : Buffer.from(content);
+      }) as any);
+    };
+
+    const written = (filePath: string) =>
+      mockedFs.writeFileSync.mock.calls.find(([name]) => name === filePath)?.[1]?.toString();
+
+    beforeEach(() => {
+      files = {
+        [path.join('/source/Web', 'developmentGuide.md')]: '# Web\n\n## Testing\n\nUse Jest.\n\n## Security\n\nEscape output.\n',
+        [path.join('/source/Web', '.cursorrules')]: 'web rules\n',
+        [path.join('/custom/company-web', 'rules.md')]: '## Company Rules\n\nFollow them.\n',
+        [path.join('/custom/company-web', 'testing.md')]: '## Testing\n\nUse Vitest.\n',
+        [path.join('/custom/company-web', 'cursor.md')]: 'company rules\n',
+      };
+      mockFiles();
+      fileCopyService.setAvailableGuides([web, companyWeb]);
+    });
+
+    it('should install the files of the base guide with the fragments attached', () => {
+      expect(fileCopyService.getGuideFilePairs(companyWeb, targetDir)).toEqual([
+        {
+          sourcePath: path.join('/source/Web', 'developmentGuide.md'),
+          targetPath: guideFile,
+          source: 'developmentGuide.md',
+          fragments: [
+            expect.objectContaining({ source: 'rules.md', sourcePath: path.join('/custom/company-web', 'rules.md'), guideId: 'company-web' }),
+            expect.objectContaining({ source: 'testing.md', heading: 'Testing' }),
+          ],
+        },
+        {
+          sourcePath: path.join('/source/Web', '.cursorrules'),
+          targetPath: path.join(targetDir, '.cursorrules'),
+          source: '.cursorrules',
+          fragments: [expect.objectContaining({ source: 'cursor.md', mode: 'prepend' })],
+        },
+      ]);
+    });
+
+    it('should write the composed content of every file', () => {
+      const results = fileCopyService.copyGuideFiles(companyWeb, targetDir);
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(written(guideFile)).toBe(
+        '# Web\n\n## Testing\n\nUse Vitest.\n\n## Security\n\nEscape output.\n\n## Company Rules\n\nFollow them.\n'
+      );
+      expect(written(path.join(targetDir, '.cursorrules'))).toBe('company rules\n\nweb rules\n');
+    });
+
+    it('should install its own developmentGuide.md in place of the base one', () => {
+      files[path.join('/custom/company-web', 'developmentGuide.md')] = '# Company\n\n## Testing\n\nUse Mocha.\n';
+
+      const pairs = fileCopyService.getGuideFilePairs({ ...companyWeb, manifest: { extends: 'web' } }, targetDir);
+
+      expect(pairs.map((file) => file.sourcePath)).toEqual([
+        path.join('/custom/company-web', 'developmentGuide.md'),
+        path.join('/source/Web', '.cursorrules'),
+      ]);
+    });
+
+    it('should not look for a .cursorrules an extending guide takes from its base', () => {
+      const pairs = fileCopyService.getGuideFilePairs({ ...companyWeb, hasCursorRules: true }, targetDir);
+
+      expect(pairs.map((file) => file.sourcePath)).toEqual([
+        path.join('/source/Web', 'developmentGuide.md'),
+        path.join('/source/Web', '.cursorrules'),
+      ]);
+    });
+
+    it('should compose guides that extend a guide which extends another', () => {
+      const security: GuideInfo = {
+        id: 'company-web-secure',
+        displayName: 'Company Web Secure',
+        type: 'custom',
+        folderPath: '/custom/secure',
+        hasCursorRules: false,
+        manifest: { extends: 'company-web', fragments: [{ source: 'security.md', mode: 'append', heading: 'Security' }] },
+      };
+      files[path.join('/custom/secure', 'security.md')] = 'Audit dependencies.\n';
+      fileCopyService.setAvailableGuides([web, companyWeb, security]);
+
+      expect(fileCopyService.renderGuideFile(
+        path.join('/source/Web', 'developmentGuide.md'),
+        fileCopyService.getGuideFilePairs(security, targetDir)[0].fragments
+      ).toString()).toBe(
+        '# Web\n\n## Testing\n\nUse Vitest.\n\n## Security\n\nEscape output.\n\nAudit dependencies.\n\n## Company Rules\n\nFollow them.\n'
+      );
+    });
+
+    it('should fail when the base guide is not available', () => {
+      fileCopyService.setAvailableGuides([companyWeb]);
+
+      expect(() => fileCopyService.getGuideFilePairs(companyWeb, targetDir)).toThrow(
+        "Guide 'company-web' extends 'web', but no guide with that id was found"
+      );
+      expect(fileCopyService.copyGuideFiles(companyWeb, targetDir)).toEqual([
+        { success: false, error: "Guide 'company-web' extends 'web', but no guide with that id was found" },
+      ]);
+    });
+
+    it('should fail when guides extend each other in a cycle', () => {
+      const a: GuideInfo = { ...web, id: 'a', type: 'custom', folderPath: '/custom/a', manifest: { extends: 'b' } };
+      const b: GuideInfo = { ...web, id: 'b', type: 'custom', folderPath: '/custom/b', manifest: { extends: 'a' } };
+      fileCopyService.setAvailableGuides([a, b]);
+
+      expect(() => fileCopyService.getGuideFilePairs(a, targetDir)).toThrow(
+        'Guides extend each other in a cycle: a -> b -> a'
+      );
+    });
+
+    it('should fail when a fragment changes a file the base guide does not install', () => {
+      const guide = {
+        ...companyWeb,
+        manifest: { extends: 'web', fragments: [{ source: 'rules.md', target: 'docs/rules.md', mode: 'append' as const }] },
+      };
+
+      expect(() => fileCopyService.getGuideFilePairs(guide, targetDir)).toThrow(
+        "Fragment rules.md of guide 'company-web' changes docs/rules.md, which guide 'web' does not install"
+      );
+    });
+
+    it('should report a heading the base guide does not have before installing', () => {
+      const guide = {
+        ...companyWeb,
+        manifest: { extends: 'web', fragments: [{ source: 'testing.md', mode: 'replace' as const, heading: 'Deployment' }] },
+      };
+
+      expect(fileCopyService.validateComposition(guide)).toEqual({
+        isValid: false,
+        error: `Fragment testing.md of guide 'company-web' needs the heading 'Deployment', which ${path.join('/source/Web', 'developmentGuide.md')} does not have`,
+      });
+      expect(fileCopyService.planInstall(guide, targetDir).errors).toEqual([
+        expect.stringContaining("needs the heading 'Deployment'"),
+      ]);
+    });
+
+    it('should plan the composed files', () => {
+      const plan = fileCopyService.planInstall(companyWeb, targetDir);
+
+      expect(plan.errors).toEqual([]);
+      expect(plan.files.map((file) => [file.sourcePath, file.targetPath])).toEqual(
+        expect.arrayContaining([[path.join('/source/Web', 'developmentGuide.md'), guideFile]])
+      );
+    });
+
+    it('should change the guide hash when a fragment changes', () => {
+      const before = fileCopyService.hashGuide(companyWeb);
+
+      files[path.join('/custom/company-web', 'rules.md')] = '## Company Rules\n\nFollow them all.\n';
+
+      expect(fileCopyService.hashGuide(companyWeb)).not.toBe(before);
+    });
+  });
+});
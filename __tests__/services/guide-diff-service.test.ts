@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GuideDiffService } from '../../src/services/guide-diff-service';
+import { GuideInfo } from '../../src/config/types';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('GuideDiffService', () => {
+  let guideDiffService: GuideDiffService;
+  let files: Record<string, string>;
+
+  const targetDir = '/project';
+  const guide: GuideInfo = {
+    id: 'team',
+    displayName: 'Team',
+    type: 'custom',
+    folderPath: '/guides/team',
+    hasCursorRules: true,
+  };
+  const guideFile = path.join('/guides/team', 'developmentGuide.md');
+  const guideRules = path.join('/guides/team', '.cursorrules');
+  const projectFile = path.join(targetDir, '.memory-bank', 'developmentGuide.md');
+  const projectRules = path.join(targetDir, '.cursorrules');
+
+  beforeEach(() => {
+    guideDiffService = new GuideDiffService();
+    jest.clearAllMocks();
+    files = {};
+
+    // Serve files from an in-memory guide and project
+    mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() in files);
+    mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike, encoding?: string) => {
+      const content = files[filePath.toString()];
+      if (content === undefined) {
+        throw new Error(`ENOENT: ${filePath}`);
+      }
+      return encoding ? content : Buffer.from(content);
+    }) as any);
+  });
+
+  it('should report files that match the guide as identical', () => {
+    files = { [guideFile]: 'v1\n', [guideRules]: 'rules\n', [projectFile]: 'v1\n', [projectRules]: 'rules\n' };
+
+    expect(guideDiffService.compareGuide(guide, targetDir)).toEqual([
+      { path: '.memory-bank/developmentGuide.md', source: 'developmentGuide.md', status: 'identical', added: 0, removed: 0 },
+      { path: '.cursorrules', source: '.cursorrules', status: 'identical', added: 0, removed: 0 },
+    ]);
+  });
+
+  it('should show a unified diff from the guide version to the project version', () => {
+    files = { [guideFile]: 'title\nguide line\n', [guideRules]: 'rules\n', [projectFile]: 'title\nlocal line\nextra\n', [projectRules]: 'rules\n' };
+
+    const [fileDiff] = guideDiffService.compareGuide(guide, targetDir);
+
+    expect(fileDiff).toMatchObject({ status: 'modified', added: 2, removed: 1 });
+    expect(fileDiff.diff).toBe(
+      [
+        '--- guide/.memory-bank/developmentGuide.md',
+        '+++ project/.memory-bank/developmentGuide.md',
+        '@@ -1,2 +1,3 @@',
+        ' title',
+        '-guide line',
+        '+local line',
+        '+extra',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should report guide files the project does not have as missing', () => {
+    files = { [guideFile]: 'v1\n', [guideRules]: 'one\ntwo\n', [projectFile]: 'v1\n' };
+
+    const [, rules] = guideDiffService.compareGuide(guide, targetDir);
+
+    expect(rules).toMatchObject({ path: '.cursorrules', status: 'missing', added: 0, removed: 2 });
+    expect(rules.diff).toContain('+++ /dev/null');
+  });
+
+  it('should not compare binary files line by line', () => {
+    files = { [guideFile]: 'v1\n', [guideRules]: 'a\0b', [projectFile]: 'v1\n', [projectRules]: 'a\0c' };
+
+    const [, rules] = guideDiffService.compareGuide(guide, targetDir);
+
+    expect(rules).toMatchObject({ status: 'modified', added: 0, removed: 0 });
+    expect(rules.diff).toBe('Binary files guide/.cursorrules and project/.cursorrules differ\n');
+  });
+
+  it('should render templated guide files before comparing', () => {
+    const templated = { ...guide, hasCursorRules: false, manifest: { variables: [{ name: 'team' }] } };
+    files = { [guideFile]: 'Team: {{team}}\n', [projectFile]: 'Team: Payments\n' };
+
+    expect(guideDiffService.compareGuide(templated, targetDir, { team: 'Payments' })[0].status).toBe('identical');
+    expect(() => guideDiffService.compareGuide(templated, targetDir, {})).toThrow('team');
+  });
+
+  it('should skip guide files that do not exist', () => {
+    files = { [guideFile]: 'v1\n', [projectFile]: 'v1\n' };
+
+    expect(guideDiffService.compareGuide(guide, targetDir).map((file) => file.path)).toEqual(['.memory-bank/developmentGuide.md']);
+  });
+});
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { GuideDiscoveryService } from '../../src/services/guide-discovery-service';
+import { GuideSourceService } from '../../src/services/guide-source-service';
 import { CustomGuideConfig, GuideInfo } from '../../src/config/types';
 
 // Mock fs module
@@ -35,6 +36,21 @@ describe('GuideDiscoveryService', () => {
       expect(guides[2].id).toBe('lua');
       expect(guides[2].type).toBe('built-in');
     });
+
+    it('should declare detection rules for every built-in guide', () => {
+      const guides = guideDiscoveryService.discoverBuiltInGuides();
+
+      expect(guides[0].detection?.packages).toContain('react');
+      expect(guides[1].detection?.files).toContain('pom.xml');
+      expect(guides[2].detection?.files).toContain('main.lua');
+    });
+
+    it('should describe built-in guides with a category and description', () => {
+      const guides = guideDiscoveryService.discoverBuiltInGuides();
+
+      expect(guides.map((guide) => guide.category)).toEqual(['Web', 'Backend', 'Game Development']);
+      expect(guides.every((guide) => !!guide.description)).toBe(true);
+    });
   });
 
   describe('discoverCustomGuides', () => {
@@ -79,6 +95,28 @@ describe('GuideDiscoveryService', () => {
       expect(guides[0].hasCursorRules).toBe(true);
     });
 
+    it('should skip hidden folders such as .git', () => {
+      const config: CustomGuideConfig = {
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: [],
+      };
+
+      mockedFs.existsSync.mockImplementation((path) => {
+        const pathStr = path.toString();
+        return pathStr === '/custom/guides' || pathStr === '/custom/guides/test-guide/developmentGuide.md';
+      });
+      mockedFs.statSync.mockReturnValue({
+        isDirectory: () => true,
+      } as any);
+      mockedFs.readdirSync.mockReturnValue(['.git', 'test-guide'] as any);
+
+      const guides = guideDiscoveryService.discoverCustomGuides(config);
+
+      expect(guides.map((guide) => guide.id)).toEqual(['test-guide']);
+      expect(guideDiscoveryService.getWarnings()).toEqual([]);
+    });
+
     it('should return empty array when custom guides folder does not exist', () => {
       const config: CustomGuideConfig = {
         version: '1.0.0',
@@ -174,6 +212,432 @@ describe('GuideDiscoveryService', () => {
 
       expect(guides).toHaveLength(0);
     });
+
+    it('should read metadata and files from guide.json', () => {
+      const config: CustomGuideConfig = {
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: [],
+      };
+      const manifest = {
+        id: 'company-react',
+        displayName: 'Company React',
+        category: 'Frontend',
+        version: '2.1.0',
+        author: 'Platform Team',
+        tags: ['react'],
+        files: [
+          { source: 'guide.md', destination: '.memory-bank/developmentGuide.md' },
+          { source: 'rules/cursor.txt', destination: '.cursorrules' },
+        ],
+      };
+
+      // The guide folder has no developmentGuide.md, only the manifest files
+      mockedFs.existsSync.mockImplementation(
+        (filePath) => !filePath.toString().endsWith('developmentGuide.md')
+      );
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readdirSync.mockReturnValue(['react-guide'] as any);
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify(manifest));
+
+      const guides = guideDiscoveryService.discoverCustomGuides(config);
+
+      expect(guides).toHaveLength(1);
+      expect(guides[0]).toMatchObject({
+        id: 'company-react',
+        displayName: 'Company React',
+        category: 'Frontend',
+        version: '2.1.0',
+        author: 'Platform Team',
+        tags: ['react'],
+        hasCursorRules: true,
+        folderPath: path.join('/custom/guides', 'react-guide'),
+      });
+      expect(guides[0].manifest).toEqual(manifest);
+      expect(guides[0].detection).toBeUndefined();
+    });
+
+    it('should discover guides that extend another guide without a developmentGuide.md', () => {
+      const config: CustomGuideConfig = {
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: [],
+      };
+      const manifest = {
+        id: 'company-web',
+        extends: 'web',
+        fragments: [{ source: 'rules.md', mode: 'append' }],
+      };
+
+      // The guide folder only has guide.json and its fragment
+      mockedFs.existsSync.mockImplementation(
+        (filePath) => !/developmentGuide\.md$|\.cursorrules$/.test(filePath.toString())
+      );
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readdirSync.mockReturnValue(['company-web'] as any);
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify(manifest));
+
+      const guides = guideDiscoveryService.discoverCustomGuides(config);
+
+      expect(guides).toHaveLength(1);
+      expect(guides[0]).toMatchObject({ id: 'company-web', hasCursorRules: false, manifest });
+    });
+
+    it('should let menu items override guide.json metadata', () => {
+      const config: CustomGuideConfig = {
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: [
+          {
+            id: 'company-react',
+            displayName: 'React (company)',
+            folderPath: 'react-guide',
+          },
+        ],
+      };
+
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readdirSync.mockReturnValue(['react-guide'] as any);
+      mockedFs.readFileSync.mockReturnValue(
+        JSON.stringify({ id: 'company-react', displayName: 'Company React' })
+      );
+
+      const guides = guideDiscoveryService.discoverCustomGuides(config);
+
+      expect(guides[0].displayName).toBe('React (company)');
+    });
+
+    it('should skip guides whose include patterns match no files', () => {
+      const silentService = new GuideDiscoveryService(true);
+      const config: CustomGuideConfig = {
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: [],
+      };
+
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.statSync.mockImplementation(
+        (filePath: fs.PathLike) =>
+          ({ isDirectory: () => !filePath.toString().endsWith('.json') }) as any
+      );
+      mockedFs.readdirSync.mockImplementation(((dirPath: fs.PathLike) =>
+        dirPath.toString() === '/custom/guides' ? ['empty-guide'] : ['guide.json']) as any);
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify({ include: ['**/*.md'] }));
+
+      const guides = silentService.discoverCustomGuides(config);
+
+      expect(guides).toHaveLength(0);
+      expect(silentService.getWarnings()).toEqual([
+        "Guide 'empty-guide': guide.json does not match any files",
+      ]);
+    });
+
+    it('should skip guides with an invalid guide.json', () => {
+      const silentService = new GuideDiscoveryService(true);
+      const config: CustomGuideConfig = {
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: [],
+      };
+
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.statSync.mockReturnValue({ isDirectory: () => true } as any);
+      mockedFs.readdirSync.mockReturnValue(['broken-guide'] as any);
+      mockedFs.readFileSync.mockReturnValue('{ "version": 2 }');
+
+      const guides = silentService.discoverCustomGuides(config);
+
+      expect(guides).toHaveLength(0);
+      expect(silentService.getWarnings()).toEqual([
+        "Guide 'broken-guide': Invalid guide.json: Field 'version' must be a non-empty string",
+      ]);
+    });
+
+    it('should collect warnings without printing them when silent', () => {
+      const silentService = new GuideDiscoveryService(true);
+      const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+      const config: CustomGuideConfig = {
+        version: '1.0.0',
+        customGuidesFolder: '/custom/guides',
+        menuItems: [],
+      };
+
+      mockedFs.existsSync.mockReturnValueOnce(true);
+      mockedFs.statSync
+        .mockReturnValueOnce({
+          isDirectory: () => true,
+        } as any)
+        .mockImplementation(() => {
+          throw new Error('Permission denied');
+        });
+      mockedFs.readdirSync.mockReturnValue(['problematic-guide'] as any);
+
+      silentService.discoverCustomGuides(config);
+
+      expect(silentService.getWarnings()).toEqual([
+        "Error processing guide 'problematic-guide': Permission denied",
+      ]);
+      expect(consoleWarn).not.toHaveBeenCalled();
+      consoleWarn.mockRestore();
+    });
+  });
+
+  describe('guide sources', () => {
+    let directories: Set<string>;
+    let files: Record<string, string>;
+
+    // Create a guide folder with a developmentGuide.md and an optional guide.json
+    const addGuide = (folder: string, manifest?: object) => {
+      directories.add(folder);
+      files[path.join(folder, 'developmentGuide.md')] = '# Guide';
+      if (manifest) {
+        files[path.join(folder, 'guide.json')] = JSON.stringify(manifest);
+      }
+    };
+
+    const config: CustomGuideConfig = {
+      version: '1.0.0',
+      customGuidesFolder: '/home/dev/guides',
+      guideSources: [
+        { label: 'team', path: '/shared/team' },
+        { label: 'platform', path: '/repos/platform/guides', priority: 10 },
+      ],
+      menuItems: [],
+    };
+
+    beforeEach(() => {
+      directories = new Set(['/home/dev/guides', '/shared/team', '/repos/platform/guides']);
+      files = {};
+
+      // Serve files and folders from memory
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() in files || directories.has(filePath.toString()));
+      mockedFs.statSync.mockImplementation(((filePath: fs.PathLike) => ({ isDirectory: () => directories.has(filePath.toString()) })) as any);
+      mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) => files[filePath.toString()]) as any);
+      mockedFs.readdirSync.mockImplementation(((directory: fs.PathLike) =>
+        [...Object.keys(files), ...directories]
+          .filter((item) => path.dirname(item) === directory.toString())
+          .map((item) => path.basename(item))
+          .reverse()) as any);
+    });
+
+    it('should discover guides from every source and tag each with its source', () => {
+      addGuide('/home/dev/guides/personal');
+      addGuide('/shared/team/react');
+      addGuide('/repos/platform/guides/service');
+
+      const guides = new GuideDiscoveryService(true).discoverCustomGuides(config);
+
+      expect(guides.map((guide) => [guide.id, guide.source])).toEqual([
+        ['service', { label: 'platform', path: '/repos/platform/guides', priority: 10 }],
+        ['personal', { label: 'customGuidesFolder', path: '/home/dev/guides', priority: 0 }],
+        ['react', { label: 'team', path: '/shared/team', priority: 0 }],
+      ]);
+    });
+
+    it('should keep the guide of the source with the highest priority and warn about the others', () => {
+      addGuide('/home/dev/guides/react');
+      addGuide('/shared/team/react');
+      addGuide('/repos/platform/guides/react-platform', { id: 'react' });
+      const service = new GuideDiscoveryService(true);
+
+      const guides = service.discoverCustomGuides(config);
+
+      expect(guides).toHaveLength(1);
+      expect(guides[0].folderPath).toBe('/repos/platform/guides/react-platform');
+      expect(service.getShadowedGuides().map(({ guide, shadowedBy }) => [guide.folderPath, shadowedBy.folderPath])).toEqual([
+        [path.join('/home/dev/guides', 'react'), '/repos/platform/guides/react-platform'],
+        [path.join('/shared/team', 'react'), '/repos/platform/guides/react-platform'],
+      ]);
+      expect(service.getWarnings()).toEqual([
+        "Guide 'react' from source 'customGuidesFolder' (/home/dev/guides/react) is ignored: the guide from source 'platform' (/repos/platform/guides/react-platform) has the same id and takes precedence",
+        "Guide 'react' from source 'team' (/shared/team/react) is ignored: the guide from source 'platform' (/repos/platform/guides/react-platform) has the same id and takes precedence",
+      ]);
+    });
+
+    it('should prefer the source listed first when priorities are equal', () => {
+      addGuide('/home/dev/guides/react');
+      addGuide('/shared/team/react');
+
+      const guides = new GuideDiscoveryService(true).discoverCustomGuides(config);
+
+      expect(guides.map((guide) => guide.folderPath)).toEqual([path.join('/home/dev/guides', 'react')]);
+    });
+
+    it('should resolve duplicates inside one source by folder name', () => {
+      addGuide('/shared/team/b-react', { id: 'react' });
+      addGuide('/shared/team/a-react', { id: 'react' });
+      const service = new GuideDiscoveryService(true);
+
+      const guides = service.discoverCustomGuides(config);
+
+      expect(guides.map((guide) => guide.folderPath)).toEqual([path.join('/shared/team', 'a-react')]);
+      expect(service.getShadowedGuides()[0].guide.folderPath).toBe(path.join('/shared/team', 'b-react'));
+    });
+
+    it('should skip sources whose folder does not exist', () => {
+      directories.delete('/shared/team');
+      addGuide('/home/dev/guides/personal');
+
+      const service = new GuideDiscoveryService(true);
+      const guides = service.discoverCustomGuides(config);
+
+      expect(guides.map((guide) => guide.id)).toEqual(['personal']);
+      expect(service.getWarnings()).toEqual([]);
+    });
+
+    it('should discover guides from the cache of a git source', () => {
+      const gitSource = { label: 'remote', git: 'https://example.com/guides.git', ref: 'v2', folder: 'guides' };
+      const cachePath = new GuideSourceService('/config').getCachePath(gitSource);
+      directories.add(cachePath);
+      directories.add(path.join(cachePath, 'guides'));
+      addGuide(path.join(cachePath, 'guides', 'service'));
+
+      const guides = new GuideDiscoveryService(true, '/config').discoverCustomGuides({
+        ...config,
+        guideSources: [gitSource],
+      });
+
+      expect(guides.map((guide) => [guide.id, guide.folderPath, guide.source?.label])).toEqual([
+        ['service', path.join(cachePath, 'guides', 'service'), 'remote'],
+      ]);
+    });
+
+    it('should warn about sources that cannot be fetched', () => {
+      addGuide('/home/dev/guides/personal');
+      const service = new GuideDiscoveryService(true, '/config');
+
+      const guides = service.discoverCustomGuides({
+        ...config,
+        guideSources: [{ label: 'pack', archive: '/downloads/guides.tgz' }],
+      });
+
+      expect(guides.map((guide) => guide.id)).toEqual(['personal']);
+      expect(service.getWarnings()).toEqual([
+        "Custom guides discovery failed for source 'pack' (/downloads/guides.tgz): Archive not found: /downloads/guides.tgz",
+      ]);
+    });
+  });
+
+  describe('package guides', () => {
+    let directories: Set<string>;
+    let files: Record<string, string>;
+    const originalPrefix = process.env.npm_config_prefix;
+    const projectModules = path.resolve('/repo/node_modules');
+    const globalModules = path.join('/global-npm', 'lib', 'node_modules');
+    const config: CustomGuideConfig = { version: '1.0.0', customGuidesFolder: '/home/dev/guides', menuItems: [] };
+
+    // Install a package whose guide lives in its guide folder
+    const addPackage = (nodeModules: string, name: string, packageJson: object, guideFiles = true) => {
+      const packageDir = path.join(nodeModules, ...name.split('/'));
+      directories.add(nodeModules);
+      directories.add(path.dirname(packageDir));
+      directories.add(packageDir);
+      files[path.join(packageDir, 'package.json')] = JSON.stringify({ name, ...packageJson });
+      if (guideFiles) {
+        directories.add(path.join(packageDir, 'guide'));
+        files[path.join(packageDir, 'guide', 'developmentGuide.md')] = '# Guide';
+      }
+      return packageDir;
+    };
+
+    beforeEach(() => {
+      process.env.npm_config_prefix = '/global-npm';
+      directories = new Set();
+      files = {};
+
+      // Serve files and folders from memory
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() in files || directories.has(filePath.toString()));
+      mockedFs.statSync.mockImplementation(((filePath: fs.PathLike) => ({ isDirectory: () => directories.has(filePath.toString()) })) as any);
+      mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) => files[filePath.toString()]) as any);
+      mockedFs.readdirSync.mockImplementation(((directory: fs.PathLike) =>
+        [...Object.keys(files), ...directories]
+          .filter((item) => path.dirname(item) === directory.toString())
+          .map((item) => path.basename(item))) as any);
+    });
+
+    afterEach(() => {
+      if (originalPrefix === undefined) {
+        delete process.env.npm_config_prefix;
+      } else {
+        process.env.npm_config_prefix = originalPrefix;
+      }
+    });
+
+    it('should register guides from project and global packages with the package version', () => {
+      const backend = addPackage(projectModules, '@acme/memory-bank-guide-backend', {
+        version: '1.4.0',
+        memoryBankGuide: { path: 'guide' },
+      });
+      addPackage(globalModules, 'lodash', { version: '4.17.21' }, false);
+      addPackage(globalModules, 'team-guide', { version: '0.2.0', memoryBankGuide: { path: 'guide' } });
+
+      const guides = new GuideDiscoveryService(true).discoverPackageGuides(config, '/repo');
+
+      expect(guides.map((guide) => [guide.id, guide.type, guide.version, guide.package?.scope])).toEqual([
+        ['@acme/memory-bank-guide-backend', 'package', '1.4.0', 'project'],
+        ['team-guide', 'package', '0.2.0', 'global'],
+      ]);
+      expect(guides[0].folderPath).toBe(path.resolve(backend, 'guide'));
+      expect(guides[0].package).toEqual({
+        name: '@acme/memory-bank-guide-backend',
+        version: '1.4.0',
+        scope: 'project',
+        path: backend,
+        folderPath: path.resolve(backend, 'guide'),
+      });
+    });
+
+    it('should use the id and display settings of guide.json', () => {
+      const packageDir = addPackage(projectModules, 'backend-guide', { version: '1.0.0', memoryBankGuide: { path: 'guide' } });
+      files[path.join(packageDir, 'guide', 'guide.json')] = JSON.stringify({ id: 'backend', displayName: 'Backend', version: '9.9.9' });
+
+      const [guide] = new GuideDiscoveryService(true).discoverPackageGuides(config, '/repo');
+
+      expect(guide).toMatchObject({ id: 'backend', displayName: 'Backend', version: '1.0.0' });
+    });
+
+    it('should report incompatible and invalid packages as warnings', () => {
+      addPackage(projectModules, 'future-guide', { version: '3.0.0', memoryBankGuide: { path: 'guide', format: 2 } });
+      addPackage(projectModules, 'empty-guide', { version: '1.0.0', memoryBankGuide: { path: 'docs' } }, false);
+      const broken = addPackage(projectModules, 'broken-guide', { version: '1.0.0', memoryBankGuide: { path: 'guide' } });
+      delete files[path.join(broken, 'guide', 'developmentGuide.md')];
+      const service = new GuideDiscoveryService(true);
+
+      expect(service.discoverPackageGuides(config, '/repo')).toEqual([]);
+      expect(service.getPackageWarnings()).toEqual([
+        "Guide package 'broken-guide' (project): Guide is missing required file: developmentGuide.md",
+        `Guide package 'empty-guide' (project): guide folder does not exist: ${path.resolve(projectModules, 'empty-guide', 'docs')}`,
+        "Guide package 'future-guide' (project): guide format 2 is not supported by this version of init-memory-bank (supported: 1)",
+      ]);
+      expect(service.getWarnings()).toEqual(service.getPackageWarnings());
+    });
+
+    it('should prefer project packages over global ones', () => {
+      addPackage(projectModules, 'backend-guide', { version: '2.0.0', memoryBankGuide: { path: 'guide' } });
+      addPackage(globalModules, 'backend-guide', { version: '1.0.0', memoryBankGuide: { path: 'guide' } });
+      const other = addPackage(globalModules, 'other-guide', { version: '1.0.0', memoryBankGuide: { path: 'guide' } });
+      files[path.join(other, 'guide', 'guide.json')] = JSON.stringify({ id: 'backend-guide' });
+      const service = new GuideDiscoveryService(true);
+
+      const guides = service.discoverPackageGuides(config, '/repo');
+
+      expect(guides.map((guide) => [guide.id, guide.version])).toEqual([['backend-guide', '2.0.0']]);
+      expect(service.getShadowedGuides().map(({ guide, shadowedBy }) => [guide.package?.name, shadowedBy.package?.name])).toEqual([
+        ['other-guide', 'backend-guide'],
+      ]);
+      expect(service.getPackageWarnings()).toEqual([
+        "Guide package 'other-guide' (global) is ignored: package 'backend-guide' (project) has a guide with the same id 'backend-guide' and takes precedence",
+      ]);
+    });
+
+    it('should list package guides after custom guides', () => {
+      addPackage(projectModules, 'backend-guide', { version: '2.0.0', memoryBankGuide: { path: 'guide' } });
+
+      const guides = new GuideDiscoveryService(true).getAllGuides(config, '/repo');
+
+      expect(guides.map((guide) => guide.type)).toEqual(['built-in', 'built-in', 'built-in', 'package']);
+    });
   });
 
   describe('validateGuide', () => {
@@ -206,6 +670,77 @@ describe('GuideDiscoveryService', () => {
     });
   });
 
+  describe('resolveExtendingGuides', () => {
+    const web: GuideInfo = {
+      id: 'web',
+      displayName: 'Web',
+      type: 'built-in',
+      folderPath: '/builtin/Web',
+      hasCursorRules: true,
+    };
+    const extending = (id: string, base: string): GuideInfo => ({
+      id,
+      displayName: id,
+      type: 'custom',
+      folderPath: `/custom/guides/${id}`,
+      hasCursorRules: false,
+      manifest: { extends: base },
+    });
+
+    it('should report the .cursorrules an extending guide installs from its base', () => {
+      const guides = [web, extending('acme-web', 'web'), extending('acme-web-secure', 'acme-web')];
+      mockedFs.existsSync.mockReturnValue(false);
+
+      guideDiscoveryService.resolveExtendingGuides(guides);
+
+      expect(guides.map((guide) => guide.hasCursorRules)).toEqual([true, true, true]);
+    });
+
+    it('should keep the flag of guides that cannot be composed', () => {
+      const guides = [web, extending('acme-java', 'java')];
+      mockedFs.existsSync.mockReturnValue(false);
+
+      guideDiscoveryService.resolveExtendingGuides(guides);
+
+      expect(guides[1].hasCursorRules).toBe(false);
+    });
+  });
+
+  describe('findGuideById', () => {
+    const guides: GuideInfo[] = [
+      {
+        id: 'web',
+        displayName: 'Web',
+        type: 'built-in',
+        folderPath: '/built-in/Web',
+        hasCursorRules: true,
+      },
+      {
+        id: 'Company-React',
+        displayName: 'Company React',
+        type: 'custom',
+        folderPath: '/custom/guides/Company-React',
+        hasCursorRules: false,
+      },
+    ];
+
+    it('should find a guide by exact id', () => {
+      const guide = guideDiscoveryService.findGuideById(guides, 'web');
+
+      expect(guide?.folderPath).toBe('/built-in/Web');
+    });
+
+    it('should fall back to a case-insensitive match', () => {
+      const guide = guideDiscoveryService.findGuideById(guides, 'company-react');
+
+      expect(guide?.id).toBe('Company-React');
+    });
+
+    it('should return undefined for unknown ids', () => {
+      expect(guideDiscoveryService.findGuideById(guides, 'rust')).toBeUndefined();
+    });
+  });
+
   describe('isGuideAccessible', () => {
     it('should return true for accessible guide', () => {
       const guide: GuideInfo = {
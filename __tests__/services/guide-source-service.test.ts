@@ -0,0 +1,235 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GuideSourceError, GuideSourceService } from '../../src/services/guide-source-service';
+import { GuideSource } from '../../src/config/types';
+
+// Mock fs and child_process modules
+jest.mock('fs');
+jest.mock('child_process');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+const mockedExecFileSync = execFileSync as jest.MockedFunction<typeof execFileSync>;
+
+describe('GuideSourceService', () => {
+  const configDir = path.resolve('/config');
+  const cacheDir = path.join(configDir, 'cache', 'guide-sources');
+  const gitSource: GuideSource = {
+    label: 'Team Guides',
+    git: 'https://example.com/team/guides.git',
+    ref: 'main',
+    folder: 'guides',
+  };
+  const archiveSource: GuideSource = { label: 'pack', archive: '/downloads/guides.tgz' };
+  let service: GuideSourceService;
+  let existing: Set<string>;
+
+  // Answer git commands: rev-parse finds origin/<ref> unless told otherwise
+  const mockCommands = (refs: Record<string, string> = { 'origin/main^{commit}': 'abc123\n' }) => {
+    mockedExecFileSync.mockImplementation(((command: string, args: string[]) => {
+      if (command === 'git' && args[0] === 'rev-parse') {
+        const found = refs[args[args.length - 1]];
+        if (found === undefined) {
+          throw Object.assign(new Error('Command failed'), { stderr: '' });
+        }
+        return found;
+      }
+      return '';
+    }) as unknown as typeof execFileSync);
+  };
+
+  const gitCalls = () =>
+    mockedExecFileSync.mock.calls.map(([command, args]) => [command, ...((args as string[]) || [])].join(' '));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    existing = new Set<string>();
+    mockedFs.existsSync.mockImplementation((filePath) => existing.has(filePath.toString()));
+    mockedFs.rmSync.mockImplementation(() => undefined);
+    mockedFs.mkdirSync.mockImplementation(() => undefined);
+    mockedFs.renameSync.mockImplementation(() => undefined);
+    mockCommands();
+    service = new GuideSourceService(configDir);
+  });
+
+  describe('getCachePath', () => {
+    it('should name the cache folder after the label under the configuration directory', () => {
+      const cachePath = service.getCachePath(gitSource);
+
+      expect(path.dirname(cachePath)).toBe(cacheDir);
+      expect(path.basename(cachePath)).toMatch(/^team-guides-[0-9a-f]{12}$/);
+    });
+
+    it('should use a new folder when the ref changes', () => {
+      expect(service.getCachePath({ ...gitSource, ref: 'v2' })).not.toBe(service.getCachePath(gitSource));
+    });
+
+    it('should keep the folder when only the folder inside the repository changes', () => {
+      expect(service.getCachePath({ ...gitSource, folder: 'docs' })).toBe(service.getCachePath(gitSource));
+    });
+  });
+
+  describe('resolveFolder', () => {
+    it('should use a folder source as it is', () => {
+      expect(service.resolveFolder({ label: 'local', path: '/guides' })).toBe('/guides');
+      expect(mockedExecFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should clone an uncached git source, check out its ref and move it into the cache', () => {
+      const cachePath = service.getCachePath(gitSource);
+      const tempPath = `${cachePath}.tmp-${process.pid}`;
+
+      expect(service.resolveFolder(gitSource)).toBe(path.join(cachePath, 'guides'));
+      expect(gitCalls()).toEqual([
+        `git clone --quiet --no-checkout https://example.com/team/guides.git ${tempPath}`,
+        'git rev-parse --verify --quiet origin/main^{commit}',
+        'git checkout --quiet --force --detach abc123',
+      ]);
+      expect(mockedExecFileSync.mock.calls[2][2]).toEqual(expect.objectContaining({ cwd: tempPath }));
+      expect(mockedFs.renameSync).toHaveBeenCalledWith(tempPath, cachePath);
+    });
+
+    it('should not fetch a git source that is cached', () => {
+      existing.add(service.getCachePath(gitSource));
+
+      expect(service.resolveFolder(gitSource)).toBe(path.join(service.getCachePath(gitSource), 'guides'));
+      expect(mockedExecFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should check out a tag or commit that is not a branch on origin', () => {
+      mockCommands({ 'v1.2^{commit}': 'def456\n' });
+
+      service.resolveFolder({ ...gitSource, ref: 'v1.2' });
+
+      expect(gitCalls()).toContain('git checkout --quiet --force --detach def456');
+    });
+
+    it('should check out the default branch when no ref is given', () => {
+      mockCommands({ 'origin/HEAD^{commit}': 'fff000\n' });
+
+      service.resolveFolder({ label: 'team', git: '/repos/guides.git' });
+
+      expect(gitCalls()[0]).toBe(
+        `git clone --quiet --no-checkout ${path.resolve('/repos/guides.git')} ${service.getCachePath({ label: 'team', git: '/repos/guides.git' })}.tmp-${process.pid}`
+      );
+      expect(gitCalls()).toContain('git checkout --quiet --force --detach fff000');
+    });
+
+    it('should fail when the ref does not exist and leave no temporary folder behind', () => {
+      mockCommands({});
+      const tempPath = `${service.getCachePath(gitSource)}.tmp-${process.pid}`;
+
+      expect(() => service.resolveFolder(gitSource)).toThrow(
+        new GuideSourceError('Ref main not found in https://example.com/team/guides.git')
+      );
+      expect(mockedFs.rmSync).toHaveBeenLastCalledWith(tempPath, { recursive: true, force: true });
+      expect(mockedFs.renameSync).not.toHaveBeenCalled();
+    });
+
+    it('should include the error output of git when cloning fails', () => {
+      mockedExecFileSync.mockImplementation(() => {
+        throw Object.assign(new Error('Command failed'), {
+          stderr: "fatal: repository 'https://example.com/team/guides.git' not found\n",
+        });
+      });
+
+      expect(() => service.resolveFolder(gitSource)).toThrow(
+        "Could not clone https://example.com/team/guides.git: fatal: repository 'https://example.com/team/guides.git' not found"
+      );
+    });
+
+    it('should extract an archive into the cache', () => {
+      existing.add('/downloads/guides.tgz');
+      const cachePath = service.getCachePath(archiveSource);
+      const tempPath = `${cachePath}.tmp-${process.pid}`;
+
+      expect(service.resolveFolder(archiveSource)).toBe(cachePath);
+      expect(gitCalls()).toEqual([`tar -xzf /downloads/guides.tgz -C ${tempPath}`]);
+      expect(mockedFs.renameSync).toHaveBeenCalledWith(tempPath, cachePath);
+    });
+
+    it('should read an archive given as a file:// URL', () => {
+      existing.add('/downloads/guides.tgz');
+
+      service.resolveFolder({ label: 'pack', archive: 'file:///downloads/guides.tgz' });
+
+      expect(gitCalls()[0]).toMatch(/^tar -xzf \/downloads\/guides\.tgz -C /);
+    });
+
+    it('should fail when the archive does not exist', () => {
+      expect(() => service.resolveFolder(archiveSource)).toThrow(
+        new GuideSourceError('Archive not found: /downloads/guides.tgz')
+      );
+      expect(mockedExecFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCachedFolder', () => {
+    it('should not fetch a source that is not cached', () => {
+      expect(service.getCachedFolder(gitSource)).toBeUndefined();
+      expect(mockedExecFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should fetch a cached git repository in place and check out the ref again', () => {
+      const cachePath = service.getCachePath(gitSource);
+      existing.add(cachePath);
+
+      service.refresh(gitSource);
+
+      expect(gitCalls()).toEqual([
+        'git fetch --quiet --force --tags origin',
+        'git rev-parse --verify --quiet origin/main^{commit}',
+        'git checkout --quiet --force --detach abc123',
+      ]);
+      expect(mockedExecFileSync.mock.calls[0][2]).toEqual(expect.objectContaining({ cwd: cachePath }));
+      expect(mockedFs.renameSync).not.toHaveBeenCalled();
+    });
+
+    it('should extract an archive again', () => {
+      existing.add('/downloads/guides.tgz');
+      existing.add(service.getCachePath(archiveSource));
+
+      service.refresh(archiveSource);
+
+      expect(gitCalls()).toHaveLength(1);
+      expect(mockedFs.renameSync).toHaveBeenCalled();
+    });
+
+    it('should leave folder sources alone', () => {
+      service.refresh({ label: 'local', path: '/guides' });
+
+      expect(mockedExecFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report the checked out commit of a cached git source', () => {
+      existing.add(service.getCachePath(gitSource));
+      mockCommands({ HEAD: 'abc123\n' });
+
+      expect(service.getStatus(gitSource)).toEqual({
+        label: 'Team Guides',
+        kind: 'git',
+        location: 'https://example.com/team/guides.git',
+        ref: 'main',
+        priority: 0,
+        folder: path.join(service.getCachePath(gitSource), 'guides'),
+        cached: true,
+        commit: 'abc123',
+      });
+    });
+
+    it('should report a source that has not been fetched', () => {
+      expect(service.getStatus({ ...archiveSource, priority: 3 })).toEqual({
+        label: 'pack',
+        kind: 'archive',
+        location: '/downloads/guides.tgz',
+        ref: undefined,
+        priority: 3,
+        folder: undefined,
+        cached: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GuideUninstallService } from '../../src/services/guide-uninstall-service';
+import { InstallLockfile } from '../../src/config/types';
+import { hashContent } from '../../src/utils/install-lockfile';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('GuideUninstallService', () => {
+  let guideUninstallService: GuideUninstallService;
+  let files: Record<string, string>;
+
+  const targetDir = '/project';
+  const projectFile = path.join(targetDir, '.memory-bank', 'developmentGuide.md');
+  const projectRules = path.join(targetDir, '.cursorrules');
+  const rulesBackup = path.join(targetDir, '.cursorrules.backup.1700000000000');
+
+  const lockfileFor = (installed: Record<string, string>): InstallLockfile => ({
+    lockfileVersion: 1,
+    guide: { id: 'web', type: 'built-in', sourcePath: '/guides/Web', contentHash: hashContent('v1') },
+    files: Object.entries(installed).map(([filePath, content]) => ({
+      path: filePath,
+      sha256: hashContent(content),
+      installedAt: '2026-01-01T00:00:00.000Z',
+    })),
+    installedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  // List the direct children of a folder in the in-memory project
+  const children = (directory: string) => {
+    const names = new Map<string, boolean>();
+    Object.keys(files)
+      .filter((file) => file.startsWith(`${directory}${path.sep}`))
+      .forEach((file) => {
+        const [name, ...rest] = file.slice(directory.length + 1).split(path.sep);
+        names.set(name, rest.length > 0 || names.get(name) === true);
+      });
+    return [...names.entries()].map(([name, isDirectory]) => ({ name, isDirectory: () => isDirectory }));
+  };
+
+  beforeEach(() => {
+    guideUninstallService = new GuideUninstallService();
+    jest.clearAllMocks();
+    files = {};
+
+    // Serve files from an in-memory project
+    mockedFs.existsSync.mockImplementation((filePath) => {
+      const name = filePath.toString();
+      return name in files || Object.keys(files).some((file) => file.startsWith(`${name}${path.sep}`));
+    });
+    mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike, encoding?: string) => {
+      const content = files[filePath.toString()];
+      if (content === undefined) {
+        throw new Error(`ENOENT: ${filePath}`);
+      }
+      return encoding ? content : Buffer.from(content);
+    }) as any);
+    mockedFs.readdirSync.mockImplementation(((directory: fs.PathLike, options?: { withFileTypes?: boolean }) => {
+      const entries = children(directory.toString());
+      return options?.withFileTypes ? entries : entries.map((entry) => entry.name);
+    }) as any);
+    mockedFs.writeFileSync.mockImplementation(((filePath: fs.PathLike, content: string | Buffer) => {
+      files[filePath.toString()] = content.toString();
+    }) as any);
+    mockedFs.unlinkSync.mockImplementation(((filePath: fs.PathLike) => {
+      delete files[filePath.toString()];
+    }) as any);
+    mockedFs.rmSync.mockImplementation(((filePath: fs.PathLike) => {
+      const name = filePath.toString();
+      Object.keys(files)
+        .filter((file) => file === name || file.startsWith(`${name}${path.sep}`))
+        .forEach((file) => delete files[file]);
+    }) as any);
+  });
+
+  describe('planUninstall', () => {
+    it('should remove installed files and restore the ones that have a backup', () => {
+      files = { [projectFile]: 'guide\n', [projectRules]: 'rules\n', [rulesBackup]: 'old rules\n' };
+
+      const uninstalls = guideUninstallService.planUninstall(
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': 'guide\n', '.cursorrules': 'rules\n' })
+      );
+
+      expect(uninstalls).toEqual([
+        { path: '.memory-bank/developmentGuide.md', action: 'remove', modified: false, backupPath: undefined, targetPath: projectFile },
+        { path: '.cursorrules', action: 'restore', modified: false, backupPath: '.cursorrules.backup.1700000000000', targetPath: projectRules },
+      ]);
+    });
+
+    it('should restore backups collected under .memory-bank/.backups', () => {
+      const collectedBackup = path.join(targetDir, '.memory-bank', '.backups', '.cursorrules.backup.1800000000000');
+      files = { [projectRules]: 'rules\n', [rulesBackup]: 'old rules\n', [collectedBackup]: 'newer rules\n' };
+
+      const [uninstall] = guideUninstallService.planUninstall(targetDir, lockfileFor({ '.cursorrules': 'rules\n' }));
+
+      expect(uninstall.backupPath).toBe('.memory-bank/.backups/.cursorrules.backup.1800000000000');
+    });
+
+    it('should flag files that changed since install', () => {
+      files = { [projectFile]: 'edited\n' };
+
+      const [uninstall] = guideUninstallService.planUninstall(targetDir, lockfileFor({ '.memory-bank/developmentGuide.md': 'guide\n' }));
+
+      expect(uninstall.modified).toBe(true);
+    });
+
+    it('should report files that were already deleted as missing', () => {
+      const [uninstall] = guideUninstallService.planUninstall(targetDir, lockfileFor({ '.cursorrules': 'rules\n' }));
+
+      expect(uninstall).toEqual({ path: '.cursorrules', action: 'missing', targetPath: projectRules });
+    });
+  });
+
+  describe('planDirectories', () => {
+    it('should remove folders that only hold installed files and keep the others', () => {
+      files = {
+        [projectFile]: 'guide\n',
+        [path.join(targetDir, '.memory-bank', '.install.json')]: '{}',
+        [path.join(targetDir, '.memory-bank', '.install-base', '.cursorrules')]: 'rules\n',
+        [path.join(targetDir, '.specs', 'feature', 'requirements.md')]: 'spec\n',
+      };
+      const uninstalls = guideUninstallService.planUninstall(targetDir, lockfileFor({ '.memory-bank/developmentGuide.md': 'guide\n' }));
+
+      expect(guideUninstallService.planDirectories(targetDir, uninstalls)).toEqual([
+        { path: '.memory-bank', remaining: [], action: 'remove' },
+        { path: '.specs', remaining: ['.specs/feature/requirements.md'], action: 'keep' },
+      ]);
+    });
+
+    it('should keep folders with files that are restored rather than removed', () => {
+      const notes = path.join(targetDir, '.memory-bank', 'notes.md');
+      files = { [notes]: 'installed\n', [`${notes.slice(0, -3)}.backup.1.md`]: 'mine\n' };
+      const uninstalls = guideUninstallService.planUninstall(targetDir, lockfileFor({ '.memory-bank/notes.md': 'installed\n' }));
+
+      expect(guideUninstallService.planDirectories(targetDir, uninstalls)[0]).toMatchObject({ path: '.memory-bank', action: 'keep' });
+    });
+  });
+
+  describe('applyUninstall', () => {
+    it('should remove files, restore backups and delete the install record', () => {
+      const lockfilePath = path.join(targetDir, '.memory-bank', '.install.json');
+      const basePath = path.join(targetDir, '.memory-bank', '.install-base', '.cursorrules');
+      files = { [projectFile]: 'guide\n', [projectRules]: 'rules\n', [rulesBackup]: 'old rules\n', [lockfilePath]: '{}', [basePath]: 'rules\n' };
+      const uninstalls = guideUninstallService.planUninstall(
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': 'guide\n', '.cursorrules': 'rules\n', '.memory-bank/progress.md': 'gone' })
+      );
+
+      const results = guideUninstallService.applyUninstall(targetDir, uninstalls);
+
+      expect(results).toEqual([
+        { success: true, copiedFilePath: projectFile },
+        { success: true, copiedFilePath: projectRules },
+      ]);
+      expect(files).toEqual({ [projectRules]: 'old rules\n' });
+      expect(uninstalls.map((uninstall) => uninstall.done)).toEqual([true, true, undefined]);
+    });
+
+    it('should keep the install record when a file cannot be removed', () => {
+      const lockfilePath = path.join(targetDir, '.memory-bank', '.install.json');
+      files = { [projectFile]: 'guide\n', [lockfilePath]: '{}' };
+      mockedFs.unlinkSync.mockImplementation(() => {
+        throw new Error('EACCES: permission denied');
+      });
+      const uninstalls = guideUninstallService.planUninstall(targetDir, lockfileFor({ '.memory-bank/developmentGuide.md': 'guide\n' }));
+
+      const results = guideUninstallService.applyUninstall(targetDir, uninstalls);
+
+      expect(results).toEqual([
+        { success: false, error: 'Failed to remove .memory-bank/developmentGuide.md: EACCES: permission denied' },
+      ]);
+      expect(files[lockfilePath]).toBe('{}');
+    });
+  });
+
+  describe('removeDirectory', () => {
+    it('should delete a folder with everything in it', () => {
+      files = { [path.join(targetDir, '.specs', 'notes.md')]: 'notes' };
+
+      expect(guideUninstallService.removeDirectory(targetDir, '.specs')).toEqual({
+        success: true,
+        copiedFilePath: path.join(targetDir, '.specs'),
+      });
+      expect(files).toEqual({});
+    });
+
+    it('should report folders that cannot be removed', () => {
+      mockedFs.rmSync.mockImplementation(() => {
+        throw new Error('EBUSY');
+      });
+
+      expect(guideUninstallService.removeDirectory(targetDir, '.specs')).toEqual({
+        success: false,
+        error: 'Failed to remove .specs: EBUSY',
+      });
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GuideUpdateService } from '../../src/services/guide-update-service';
+import { GuideInfo, InstallLockfile } from '../../src/config/types';
+import { hashContent } from '../../src/utils/install-lockfile';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('GuideUpdateService', () => {
+  let guideUpdateService: GuideUpdateService;
+  let files: Record<string, string>;
+
+  const targetDir = '/project';
+  const guide: GuideInfo = {
+    id: 'team',
+    displayName: 'Team',
+    type: 'custom',
+    folderPath: '/guides/team',
+    hasCursorRules: true,
+  };
+  const guideFile = path.join('/guides/team', 'developmentGuide.md');
+  const guideRules = path.join('/guides/team', '.cursorrules');
+  const projectFile = path.join(targetDir, '.memory-bank', 'developmentGuide.md');
+  const projectRules = path.join(targetDir, '.cursorrules');
+  const baseFile = path.join(targetDir, '.memory-bank', '.install-base', '.memory-bank', 'developmentGuide.md');
+  const baseRules = path.join(targetDir, '.memory-bank', '.install-base', '.cursorrules');
+  const lockfilePath = path.join(targetDir, '.memory-bank', '.install.json');
+
+  const lockfileFor = (installed: Record<string, string>): InstallLockfile => ({
+    lockfileVersion: 1,
+    guide: { id: 'team', type: 'custom', sourcePath: '/guides/team', contentHash: hashContent('v1') },
+    files: Object.entries(installed).map(([filePath, content]) => ({
+      path: filePath,
+      source: path.basename(filePath),
+      sha256: hashContent(content),
+      installedAt: '2026-01-01T00:00:00.000Z',
+    })),
+    installedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    guideUpdateService = new GuideUpdateService();
+    jest.clearAllMocks();
+    files = {};
+
+    // Serve files from an in-memory guide and project
+    mockedFs.existsSync.mockImplementation((filePath) => {
+      const name = filePath.toString();
+      return name in files || Object.keys(files).some((file) => file.startsWith(`${name}${path.sep}`));
+    });
+    mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike, encoding?: string) => {
+      const content = files[filePath.toString()];
+      if (content === undefined) {
+        throw new Error(`ENOENT: ${filePath}`);
+      }
+      return encoding ? content : Buffer.from(content);
+    }) as any);
+    mockedFs.writeFileSync.mockImplementation(((filePath: fs.PathLike, content: Buffer | string) => {
+      files[filePath.toString()] = content.toString();
+    }) as any);
+    mockedFs.mkdirSync.mockImplementation(() => undefined);
+  });
+
+  describe('planUpdate', () => {
+    it('should leave files that already match the guide unchanged', () => {
+      files = { [guideFile]: 'v1\n', [guideRules]: 'rules\n', [projectFile]: 'v1\n', [projectRules]: 'rules\n' };
+
+      const updates = guideUpdateService.planUpdate(
+        guide,
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': 'v1\n', '.cursorrules': 'rules\n' })
+      );
+
+      expect(updates.map((update) => [update.path, update.action, update.content])).toEqual([
+        ['.memory-bank/developmentGuide.md', 'unchanged', undefined],
+        ['.cursorrules', 'unchanged', undefined],
+      ]);
+    });
+
+    it('should update files without local edits to the new guide version', () => {
+      files = { [guideFile]: 'v2\n', [guideRules]: 'rules\n', [projectFile]: 'v1\n', [projectRules]: 'rules\n' };
+
+      const [update] = guideUpdateService.planUpdate(
+        guide,
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': 'v1\n', '.cursorrules': 'rules\n' })
+      );
+
+      expect(update.action).toBe('update');
+      expect(update.content?.toString()).toBe('v2\n');
+    });
+
+    it('should merge local edits with guide changes', () => {
+      files = {
+        [guideFile]: 'title\nbody\nfooter (v2)\n',
+        [guideRules]: 'rules\n',
+        [projectFile]: 'title (ours)\nbody\nfooter\n',
+        [projectRules]: 'rules\n',
+        [baseFile]: 'title\nbody\nfooter\n',
+      };
+
+      const [update] = guideUpdateService.planUpdate(
+        guide,
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': 'title\nbody\nfooter\n', '.cursorrules': 'rules\n' })
+      );
+
+      expect(update.action).toBe('merge');
+      expect(update.content).toBe('title (ours)\nbody\nfooter (v2)\n');
+    });
+
+    it('should keep local edits when the guide file did not change', () => {
+      files = {
+        [guideFile]: 'title\nbody\n',
+        [guideRules]: 'rules\n',
+        [projectFile]: 'title\nbody\nmy notes\n',
+        [projectRules]: 'rules\n',
+        [baseFile]: 'title\nbody\n',
+      };
+
+      const [update] = guideUpdateService.planUpdate(
+        guide,
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': 'title\nbody\n', '.cursorrules': 'rules\n' })
+      );
+
+      expect(update.action).toBe('unchanged');
+      expect(update.content).toBeUndefined();
+    });
+
+    it('should report conflicts with the merged content and markers', () => {
+      files = {
+        [guideFile]: 'title\nguide line\n',
+        [guideRules]: 'rules\n',
+        [projectFile]: 'title\nlocal line\n',
+        [projectRules]: 'rules\n',
+        [baseFile]: 'title\nline\n',
+      };
+
+      const [update] = guideUpdateService.planUpdate(
+        guide,
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': 'title\nline\n', '.cursorrules': 'rules\n' })
+      );
+
+      expect(update.action).toBe('conflict');
+      expect(update.conflicts).toBe(1);
+      expect(update.content).toBe('title\n<<<<<<< local\nlocal line\n=======\nguide line\n>>>>>>> guide\n');
+    });
+
+    it('should create new guide files and leave locally deleted ones deleted', () => {
+      files = { [guideFile]: 'v2\n', [guideRules]: 'rules\n' };
+
+      const updates = guideUpdateService.planUpdate(
+        guide,
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': 'v1\n' })
+      );
+
+      expect(updates.map((update) => [update.path, update.action])).toEqual([
+        ['.memory-bank/developmentGuide.md', 'deleted'],
+        ['.cursorrules', 'create'],
+      ]);
+      expect(updates[0].content).toBeUndefined();
+      expect(updates[1].content?.toString()).toBe('rules\n');
+    });
+
+    it('should report installed files the guide no longer ships', () => {
+      files = { [guideFile]: 'v1\n', [projectFile]: 'v1\n' };
+
+      const updates = guideUpdateService.planUpdate(
+        { ...guide, hasCursorRules: false },
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': 'v1\n', '.cursorrules': 'rules\n' })
+      );
+
+      expect(updates[1]).toEqual({
+        path: '.cursorrules',
+        source: '.cursorrules',
+        action: 'removed',
+        targetPath: projectRules,
+      });
+    });
+
+    it('should not merge binary files', () => {
+      files = {
+        [guideFile]: 'v1\n',
+        [projectFile]: 'v1\n',
+        [guideRules]: 'guide\u0000',
+        [projectRules]: 'local\u0000',
+        [baseRules]: 'base\u0000',
+      };
+
+      const updates = guideUpdateService.planUpdate(
+        guide,
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': 'v1\n', '.cursorrules': 'base\u0000' })
+      );
+
+      expect(updates[1]).toMatchObject({ action: 'conflict', conflicts: 1 });
+      expect(updates[1].content).toBeUndefined();
+    });
+
+    it('should render guide files with the given template variables', () => {
+      files = { [guideFile]: '# {{team}}\n', [projectFile]: '# Payments\n' };
+
+      const [update] = guideUpdateService.planUpdate(
+        { ...guide, hasCursorRules: false },
+        targetDir,
+        lockfileFor({ '.memory-bank/developmentGuide.md': '# Payments\n' }),
+        { team: 'Payments' }
+      );
+
+      expect(update.action).toBe('unchanged');
+    });
+  });
+
+  describe('applyUpdate', () => {
+    const now = new Date('2026-03-01T12:00:00.000Z');
+
+    it('should write changed files and record the new guide version', () => {
+      files = {
+        [guideFile]: 'title\nbody\nfooter (v2)\n',
+        [guideRules]: 'rules\n',
+        [projectFile]: 'title (ours)\nbody\nfooter\n',
+        [projectRules]: 'rules\n',
+        [baseFile]: 'title\nbody\nfooter\n',
+      };
+      const lockfile = lockfileFor({
+        '.memory-bank/developmentGuide.md': 'title\nbody\nfooter\n',
+        '.cursorrules': 'rules\n',
+      });
+      const updates = guideUpdateService.planUpdate(guide, targetDir, lockfile);
+
+      const results = guideUpdateService.applyUpdate(guide, targetDir, lockfile, updates, undefined, now);
+
+      expect(results).toEqual([{ success: true, copiedFilePath: projectFile, overwritten: true }]);
+      expect(files[projectFile]).toBe('title (ours)\nbody\nfooter (v2)\n');
+      expect(files[baseFile]).toBe('title\nbody\nfooter (v2)\n');
+      expect(updates[0].written).toBe(true);
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalledWith(projectRules, expect.anything());
+
+      const written = JSON.parse(files[lockfilePath]);
+      expect(written.updatedAt).toBe('2026-03-01T12:00:00.000Z');
+      expect(written.installedAt).toBe('2026-01-01T00:00:00.000Z');
+      expect(written.guide.contentHash).not.toBe(lockfile.guide.contentHash);
+      expect(written.files).toEqual([
+        {
+          path: '.memory-bank/developmentGuide.md',
+          source: 'developmentGuide.md',
+          sha256: hashContent('title\nbody\nfooter (v2)\n'),
+          installedAt: '2026-03-01T12:00:00.000Z',
+        },
+        lockfile.files[1],
+      ]);
+    });
+
+    it('should add files that are new in the guide to the lockfile', () => {
+      files = { [guideFile]: 'v1\n', [projectFile]: 'v1\n', [guideRules]: 'rules\n' };
+      const lockfile = lockfileFor({ '.memory-bank/developmentGuide.md': 'v1\n' });
+      const updates = guideUpdateService.planUpdate(guide, targetDir, lockfile);
+
+      guideUpdateService.applyUpdate(guide, targetDir, lockfile, updates, undefined, now);
+
+      expect(files[projectRules]).toBe('rules\n');
+      expect(JSON.parse(files[lockfilePath]).files.map((file: any) => file.path)).toEqual([
+        '.memory-bank/developmentGuide.md',
+        '.cursorrules',
+      ]);
+    });
+
+    it('should use the guide version as the next base when the local version is kept', () => {
+      files = {
+        [guideFile]: 'title\nguide line\n',
+        [projectFile]: 'title\nlocal line\n',
+        [baseFile]: 'title\nline\n',
+      };
+      const lockfile = lockfileFor({ '.memory-bank/developmentGuide.md': 'title\nline\n' });
+      const [update] = guideUpdateService.planUpdate({ ...guide, hasCursorRules: false }, targetDir, lockfile);
+      update.resolution = 'ours';
+      update.content = undefined;
+
+      const results = guideUpdateService.applyUpdate(guide, targetDir, lockfile, [update], undefined, now);
+
+      expect(results).toEqual([]);
+      expect(files[projectFile]).toBe('title\nlocal line\n');
+      expect(files[baseFile]).toBe('title\nguide line\n');
+    });
+
+    it('should report files that cannot be written', () => {
+      files = { [guideFile]: 'v2\n', [projectFile]: 'v1\n' };
+      const lockfile = lockfileFor({ '.memory-bank/developmentGuide.md': 'v1\n' });
+      const updates = guideUpdateService.planUpdate({ ...guide, hasCursorRules: false }, targetDir, lockfile);
+      mockedFs.writeFileSync.mockImplementationOnce(() => {
+        throw new Error('EACCES: permission denied');
+      });
+
+      const results = guideUpdateService.applyUpdate(guide, targetDir, lockfile, updates, undefined, now);
+
+      expect(results[0]).toEqual({
+        success: false,
+        error: 'Failed to update .memory-bank/developmentGuide.md: EACCES: permission denied',
+      });
+      expect(updates[0].written).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { InstallTransaction } from '../../src/services/install-transaction';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('InstallTransaction', () => {
+  let transaction: InstallTransaction;
+  let files: Record<string, string>;
+  let directories: Set<string>;
+
+  const targetDir = '/project';
+  const project = (...segments: string[]) => path.join(targetDir, ...segments);
+
+  beforeEach(() => {
+    transaction = new InstallTransaction();
+    jest.clearAllMocks();
+    files = {};
+    directories = new Set([targetDir]);
+
+    // Serve files and folders from an in-memory project
+    mockedFs.existsSync.mockImplementation((filePath) => {
+      const name = filePath.toString();
+      return name in files || directories.has(name);
+    });
+    mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) => {
+      const content = files[filePath.toString()];
+      if (content === undefined) {
+        throw new Error(`ENOENT: ${filePath}`);
+      }
+      return Buffer.from(content);
+    }) as any);
+    mockedFs.writeFileSync.mockImplementation(((filePath: fs.PathLike, content: string | Buffer) => {
+      files[filePath.toString()] = content.toString();
+    }) as any);
+    mockedFs.mkdirSync.mockImplementation(((directory: fs.PathLike) => {
+      let created: string | undefined;
+      for (let current = directory.toString(); !directories.has(current); current = path.dirname(current)) {
+        created = current;
+      }
+      for (let current = directory.toString(); !directories.has(current); current = path.dirname(current)) {
+        directories.add(current);
+      }
+      return created;
+    }) as any);
+    mockedFs.renameSync.mockImplementation(((from: fs.PathLike, to: fs.PathLike) => {
+      files[to.toString()] = files[from.toString()];
+      delete files[from.toString()];
+    }) as any);
+    mockedFs.rmSync.mockImplementation(((filePath: fs.PathLike) => {
+      const name = filePath.toString();
+      delete files[name];
+      Object.keys(files)
+        .filter((file) => file.startsWith(`${name}${path.sep}`))
+        .forEach((file) => delete files[file]);
+      [...directories]
+        .filter((directory) => directory === name || directory.startsWith(`${name}${path.sep}`))
+        .forEach((directory) => directories.delete(directory));
+    }) as any);
+  });
+
+  describe('writeFiles', () => {
+    it('should stage every file before renaming it into place', () => {
+      transaction.writeFiles([
+        { path: project('.cursorrules'), content: 'rules' },
+        { path: project('.memory-bank', 'developmentGuide.md'), content: 'guide' },
+      ]);
+
+      expect(files).toEqual({
+        [project('.cursorrules')]: 'rules',
+        [project('.memory-bank', 'developmentGuide.md')]: 'guide',
+      });
+      expect(mockedFs.writeFileSync.mock.calls.map(([filePath]) => filePath)).toEqual([
+        project(`..cursorrules.${process.pid}-0.tmp`),
+        project('.memory-bank', `.developmentGuide.md.${process.pid}-1.tmp`),
+      ]);
+      expect(mockedFs.writeFileSync.mock.invocationCallOrder[1]).toBeLessThan(
+        mockedFs.renameSync.mock.invocationCallOrder[0]
+      );
+      expect(transaction.hasChanges()).toBe(true);
+    });
+
+    it('should leave every file untouched when a file cannot be staged', () => {
+      files[project('.cursorrules')] = 'old rules';
+      mockedFs.writeFileSync.mockImplementation(((filePath: fs.PathLike, content: string | Buffer) => {
+        if (filePath.toString().includes('developmentGuide.md')) {
+          throw new Error('ENOSPC: no space left on device');
+        }
+        files[filePath.toString()] = content.toString();
+      }) as any);
+
+      expect(() =>
+        transaction.writeFiles([
+          { path: project('.cursorrules'), content: 'rules' },
+          { path: project('developmentGuide.md'), content: 'guide' },
+        ])
+      ).toThrow(`Failed to write ${project('developmentGuide.md')}: ENOSPC: no space left on device`);
+
+      expect(files).toEqual({ [project('.cursorrules')]: 'old rules' });
+      expect(mockedFs.renameSync).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to write after a rollback', () => {
+      transaction.rollback();
+
+      expect(() => transaction.writeFiles([{ path: project('.cursorrules'), content: 'rules' }])).toThrow(
+        'The install was already rolled back'
+      );
+    });
+  });
+
+  describe('rollback', () => {
+    it('should restore replaced files, remove new ones and remove created folders', () => {
+      files[project('.cursorrules')] = 'old rules';
+      transaction.createDirectory(project('.memory-bank'));
+      transaction.writeFiles([
+        { path: project('.cursorrules'), content: 'rules' },
+        { path: project('.memory-bank', 'developmentGuide.md'), content: 'guide' },
+        { path: project('docs', 'testing.md'), content: 'testing' },
+      ]);
+
+      expect(transaction.rollback()).toEqual([]);
+
+      expect(files).toEqual({ [project('.cursorrules')]: 'old rules' });
+      expect([...directories]).toEqual([targetDir]);
+    });
+
+    it('should restore the first content of a file written more than once', () => {
+      files[project('.cursorrules')] = 'old rules';
+      transaction.writeFiles([{ path: project('.cursorrules'), content: 'rules' }]);
+      transaction.writeFiles([{ path: project('.cursorrules'), content: 'newer rules' }]);
+
+      transaction.rollback();
+
+      expect(files[project('.cursorrules')]).toBe('old rules');
+    });
+
+    it('should restore files changed outside writeFiles once they are tracked', () => {
+      const lockfilePath = project('.memory-bank', '.install.json');
+      directories.add(project('.memory-bank'));
+      files[lockfilePath] = '{"guide":"web"}';
+
+      transaction.track(lockfilePath);
+      files[lockfilePath] = '{"guide":"java"}';
+      transaction.rollback();
+
+      expect(files[lockfilePath]).toBe('{"guide":"web"}');
+    });
+
+    it('should report files it cannot restore and only roll back once', () => {
+      files[project('.cursorrules')] = 'old rules';
+      transaction.writeFiles([{ path: project('.cursorrules'), content: 'rules' }]);
+      mockedFs.writeFileSync.mockImplementation(() => {
+        throw new Error('EACCES: permission denied');
+      });
+
+      const errors = transaction.rollback();
+
+      expect(errors).toEqual([`Failed to restore ${project('.cursorrules')}: EACCES: permission denied`]);
+      expect(transaction.rollback()).toBe(errors);
+      expect(mockedFs.writeFileSync).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('hasChanges', () => {
+    it('should be false until something was written or created', () => {
+      expect(transaction.hasChanges()).toBe(false);
+
+      transaction.createDirectory(targetDir);
+      expect(transaction.hasChanges()).toBe(false);
+
+      transaction.createDirectory(project('.specs'));
+      expect(transaction.hasChanges()).toBe(true);
+    });
+  });
+});
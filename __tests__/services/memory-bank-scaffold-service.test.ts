@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MemoryBankScaffoldService } from '../../src/services/memory-bank-scaffold-service';
+import { InstallTransaction } from '../../src/services/install-transaction';
+import { GuideInfo } from '../../src/config/types';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('MemoryBankScaffoldService', () => {
+  let scaffoldService: MemoryBankScaffoldService;
+  const guide: GuideInfo = {
+    id: 'company-react',
+    displayName: 'Company React',
+    type: 'custom',
+    folderPath: '/guides/company-react',
+    hasCursorRules: false,
+  };
+  const targetDir = '/target/project';
+  const memoryBankPath = (fileName: string) => path.join(targetDir, '.memory-bank', fileName);
+  const overridePath = path.join('/guides/company-react', 'memory-bank-templates', 'techContext.md');
+
+  // Files are staged in a temporary file and renamed into place
+  const writtenContent = (filePath: string) => {
+    const rename = mockedFs.renameSync.mock.calls.find(([, to]) => to === filePath);
+    return rename && mockedFs.writeFileSync.mock.calls.find(([tempPath]) => tempPath === rename[0])?.[1];
+  };
+
+  beforeEach(() => {
+    scaffoldService = new MemoryBankScaffoldService();
+    jest.clearAllMocks();
+    mockedFs.existsSync.mockReset();
+    mockedFs.readFileSync.mockReset();
+    mockedFs.writeFileSync.mockReset();
+    mockedFs.mkdirSync.mockReset();
+    mockedFs.renameSync.mockReset();
+    mockedFs.rmSync.mockReset();
+  });
+
+  describe('scaffold', () => {
+    it('should create every missing core file from the built-in templates', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+
+      const results = scaffoldService.scaffold(guide, targetDir);
+
+      expect(results).toHaveLength(6);
+      expect(results.every((result) => result.success && !result.skipped)).toBe(true);
+      expect(mockedFs.mkdirSync).toHaveBeenCalledWith(path.join(targetDir, '.memory-bank'), {
+        recursive: true,
+      });
+      expect(writtenContent(memoryBankPath('projectBrief.md'))).toContain('# Project Brief');
+      expect(mockedFs.renameSync).toHaveBeenCalledTimes(6);
+    });
+
+    it('should never overwrite existing files', () => {
+      mockedFs.existsSync.mockImplementation(
+        (filePath) =>
+          filePath.toString().startsWith(targetDir) && filePath.toString() !== memoryBankPath('progress.md')
+      );
+
+      const results = scaffoldService.scaffold(guide, targetDir);
+
+      expect(mockedFs.writeFileSync).toHaveBeenCalledTimes(1);
+      expect(writtenContent(memoryBankPath('progress.md'))).toContain('# Progress');
+      expect(results.filter((result) => result.skipped)).toHaveLength(5);
+    });
+
+    it('should use templates shipped by the guide', () => {
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() === overridePath);
+      mockedFs.readFileSync.mockReturnValue('# Our Tech Stack\n');
+
+      scaffoldService.scaffold(guide, targetDir);
+
+      expect(mockedFs.readFileSync).toHaveBeenCalledWith(overridePath, 'utf8');
+      expect(writtenContent(memoryBankPath('techContext.md'))).toBe('# Our Tech Stack\n');
+    });
+
+    it('should report files that cannot be written', () => {
+      mockedFs.existsSync.mockImplementation(
+        (filePath) =>
+          filePath.toString().startsWith(targetDir) && filePath.toString() !== memoryBankPath('progress.md')
+      );
+      mockedFs.writeFileSync.mockImplementation(() => {
+        throw new Error('EACCES: permission denied');
+      });
+
+      const results = scaffoldService.scaffold(guide, targetDir);
+
+      expect(results.filter((result) => !result.success)).toEqual([
+        {
+          success: false,
+          error: `Failed to write ${memoryBankPath('progress.md')}: EACCES: permission denied`,
+          copiedFilePath: memoryBankPath('progress.md'),
+          rolledBack: true,
+        },
+      ]);
+      expect(mockedFs.renameSync).not.toHaveBeenCalled();
+    });
+
+    it('should create none of the files when one of them cannot be written', () => {
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() === targetDir);
+      mockedFs.mkdirSync.mockReturnValue(path.join(targetDir, '.memory-bank'));
+      mockedFs.renameSync.mockImplementation((from) => {
+        if (from.toString().includes('techContext.md')) {
+          throw new Error('EACCES: permission denied');
+        }
+      });
+
+      const results = scaffoldService.scaffold(guide, targetDir);
+
+      expect(results.every((result) => !result.success && result.rolledBack)).toBe(true);
+      expect(results.find((result) => result.copiedFilePath === memoryBankPath('projectBrief.md'))?.error).toBe(
+        `Failed to write ${memoryBankPath('techContext.md')}: EACCES: permission denied`
+      );
+      expect(mockedFs.rmSync).toHaveBeenCalledWith(memoryBankPath('projectBrief.md'), { force: true });
+      expect(mockedFs.rmSync).toHaveBeenCalledWith(path.join(targetDir, '.memory-bank'), {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it('should leave files the guide installed itself to the guide', () => {
+      mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() === memoryBankPath('progress.md'));
+
+      const results = scaffoldService.scaffold(guide, targetDir, new InstallTransaction(), [memoryBankPath('progress.md')]);
+
+      expect(results).toHaveLength(5);
+      expect(results.map((result) => result.copiedFilePath)).not.toContain(memoryBankPath('progress.md'));
+      expect(results.some((result) => result.skipped)).toBe(false);
+    });
+
+    it('should create the files through the given transaction', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      const transaction = new InstallTransaction();
+
+      scaffoldService.scaffold(guide, targetDir, transaction);
+
+      expect(transaction.hasChanges()).toBe(true);
+      transaction.rollback();
+      expect(mockedFs.rmSync).toHaveBeenCalledWith(memoryBankPath('progress.md'), { force: true });
+    });
+  });
+
+  describe('planScaffold', () => {
+    it('should plan created and kept files without writing anything', () => {
+      mockedFs.existsSync.mockImplementation(
+        (filePath) =>
+          filePath.toString() === overridePath || filePath.toString() === memoryBankPath('progress.md')
+      );
+
+      const files = scaffoldService.planScaffold(guide, targetDir);
+
+      expect(files).toContainEqual({
+        sourcePath: overridePath,
+        targetPath: memoryBankPath('techContext.md'),
+        action: 'create',
+      });
+      expect(files).toContainEqual({
+        sourcePath: undefined,
+        targetPath: memoryBankPath('progress.md'),
+        action: 'keep',
+      });
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should leave out files the guide installs itself', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+
+      const files = scaffoldService.planScaffold(guide, targetDir, [memoryBankPath('activeContext.md')]);
+
+      expect(files).toHaveLength(5);
+      expect(files.map((file) => file.targetPath)).not.toContain(memoryBankPath('activeContext.md'));
+    });
+  });
+});
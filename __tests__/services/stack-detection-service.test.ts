@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StackDetectionService } from '../../src/services/stack-detection-service';
+import { GuideDiscoveryService } from '../../src/services/guide-discovery-service';
+import { GuideInfo } from '../../src/config/types';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('StackDetectionService', () => {
+  let stackDetectionService: StackDetectionService;
+  const targetDir = '/work/project';
+  const builtInGuides = new GuideDiscoveryService().discoverBuiltInGuides();
+
+  // Serve a project with the given root files and contents
+  const mockProject = (files: Record<string, string>) => {
+    mockedFs.readdirSync.mockReturnValue(Object.keys(files) as any);
+    mockedFs.existsSync.mockImplementation((filePath) =>
+      Object.keys(files).some(
+        (name) => path.join(targetDir, name) === filePath.toString()
+      )
+    );
+    mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) => {
+      const name = path.relative(targetDir, filePath.toString());
+      return files[name];
+    }) as any);
+  };
+
+  const confidences = (guides: GuideInfo[]) =>
+    Object.fromEntries(guides.map((guide) => [guide.id, guide.confidence]));
+
+  beforeEach(() => {
+    stackDetectionService = new StackDetectionService();
+    jest.clearAllMocks();
+    mockedFs.existsSync.mockReset();
+    mockedFs.readFileSync.mockReset();
+    mockedFs.readdirSync.mockReset();
+  });
+
+  it('should rank Web first for a React and Next.js project', () => {
+    mockProject({
+      'package.json': JSON.stringify({
+        dependencies: { react: '^18.0.0', next: '^14.0.0' },
+      }),
+      'tsconfig.json': '{}',
+    });
+
+    const ranked = stackDetectionService.rankGuides(builtInGuides, targetDir);
+
+    expect(ranked.map((guide) => guide.id)).toEqual(['web', 'java', 'lua']);
+    expect(confidences(ranked)).toEqual({ web: 0.92, java: 0, lua: 0 });
+  });
+
+  it('should rank Java first for a Spring Boot Maven project', () => {
+    mockProject({
+      'pom.xml':
+        '<project><parent><artifactId>spring-boot-starter-parent</artifactId></parent></project>',
+    });
+
+    const ranked = stackDetectionService.rankGuides(builtInGuides, targetDir);
+
+    expect(ranked[0].id).toBe('java');
+    expect(ranked[0].confidence).toBe(0.85);
+  });
+
+  it('should rank Lua first for a Love2D project', () => {
+    mockProject({
+      'main.lua': 'function love.draw() end',
+      'conf.lua': 'function love.conf(t) end',
+    });
+
+    const ranked = stackDetectionService.rankGuides(builtInGuides, targetDir);
+
+    expect(ranked[0].id).toBe('lua');
+    expect(ranked[0].confidence).toBe(0.93);
+  });
+
+  it('should keep the original order when nothing matches', () => {
+    mockProject({ 'README.md': '# Notes' });
+
+    const ranked = stackDetectionService.rankGuides(builtInGuides, targetDir);
+
+    expect(ranked.map((guide) => guide.id)).toEqual(['web', 'java', 'lua']);
+    expect(ranked.every((guide) => guide.confidence === 0)).toBe(true);
+  });
+
+  it('should apply detection rules declared by custom guides', () => {
+    const customGuide: GuideInfo = {
+      id: 'company-nest',
+      displayName: 'Company NestJS',
+      type: 'custom',
+      folderPath: '/guides/company-nest',
+      hasCursorRules: false,
+      detection: { packages: ['@nestjs/*'], files: ['nest-cli.json'] },
+    };
+    mockProject({
+      'package.json': JSON.stringify({
+        dependencies: { '@nestjs/core': '^10.0.0' },
+      }),
+      'nest-cli.json': '{}',
+    });
+
+    const ranked = stackDetectionService.rankGuides(
+      [...builtInGuides, customGuide],
+      targetDir
+    );
+
+    expect(ranked[0]).toEqual({ ...customGuide, confidence: 0.8 });
+  });
+
+  it('should not modify the guides it ranks', () => {
+    mockProject({ 'main.lua': '' });
+
+    stackDetectionService.rankGuides(builtInGuides, targetDir);
+
+    expect(builtInGuides.every((guide) => guide.confidence === undefined)).toBe(
+      true
+    );
+  });
+
+  it('should treat an unreadable project as matching nothing', () => {
+    mockedFs.readdirSync.mockImplementation(() => {
+      throw new Error('EACCES');
+    });
+    mockedFs.existsSync.mockReturnValue(false);
+
+    const ranked = stackDetectionService.rankGuides(builtInGuides, targetDir);
+
+    expect(ranked.every((guide) => guide.confidence === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  CORE_MEMORY_BANK_TEMPLATES,
+  renderMemoryBankTemplate,
+} from '../../src/templates/memory-bank-templates';
+
+describe('Memory bank templates', () => {
+  it('should provide the six core files required by the cursor rules', () => {
+    expect(CORE_MEMORY_BANK_TEMPLATES.map((template) => template.fileName)).toEqual([
+      'projectBrief.md',
+      'productContext.md',
+      'activeContext.md',
+      'systemPatterns.md',
+      'techContext.md',
+      'progress.md',
+    ]);
+  });
+
+  it('should render the title, summary and section headings as Markdown', () => {
+    const output = renderMemoryBankTemplate({
+      fileName: 'progress.md',
+      title: 'Progress',
+      summary: 'What is done.',
+      sections: [
+        { heading: 'What Works', prompt: 'List working features.' },
+        { heading: 'Known Issues', prompt: 'List known bugs.' },
+      ],
+    });
+
+    expect(output).toBe(
+      [
+        '# Progress',
+        '',
+        '> What is done.',
+        '',
+        '## What Works',
+        '',
+        '<!-- List working features. -->',
+        '',
+        '## Known Issues',
+        '',
+        '<!-- List known bugs. -->',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should use the responsibilities from the cursor rules as headings', () => {
+    const progress = CORE_MEMORY_BANK_TEMPLATES.find((template) => template.fileName === 'progress.md');
+
+    expect(progress?.sections.map((section) => section.heading)).toEqual([
+      'What Works',
+      "What's Left to Build",
+      'Current Status',
+      'Known Issues',
+      'Evolution of Project Decisions',
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import { parseBackupName } from '../../src/utils/backup-files';
+
+describe('parseBackupName', () => {
+  it('should split backups of files with an extension', () => {
+    expect(parseBackupName('developmentGuide.backup.1700000000000.md')).toEqual({
+      originalName: 'developmentGuide.md',
+      timestamp: 1700000000000,
+    });
+    expect(parseBackupName('app.test.backup.42.ts')).toEqual({ originalName: 'app.test.ts', timestamp: 42 });
+  });
+
+  it('should split backups of files without an extension', () => {
+    expect(parseBackupName('.cursorrules.backup.42')).toEqual({ originalName: '.cursorrules', timestamp: 42 });
+    expect(parseBackupName('Makefile.backup.7')).toEqual({ originalName: 'Makefile', timestamp: 7 });
+  });
+
+  it('should ignore names that are not backups', () => {
+    expect(parseBackupName('developmentGuide.md')).toBeUndefined();
+    expect(parseBackupName('notes.backup.old.md')).toBeUndefined();
+    expect(parseBackupName('.backup.42')).toBeUndefined();
+  });
+});
@@ -0,0 +1,310 @@
+import { CONFIGURE_USAGE, parseCliArgs, parseConfigureArgs, USAGE } from '../../src/utils/cli-args';
+
+describe('CLI argument parsing', () => {
+  describe('parseCliArgs', () => {
+    it('should return defaults when no arguments are given', () => {
+      const options = parseCliArgs([]);
+
+      expect(options).toEqual({
+        command: 'install',
+        yes: false,
+        help: false,
+        dryRun: false,
+        json: false,
+      });
+    });
+
+    it('should parse long options with separate values', () => {
+      const options = parseCliArgs(['--guide', 'web', '--target', './app', '--yes']);
+
+      expect(options.guide).toBe('web');
+      expect(options.target).toBe('./app');
+      expect(options.yes).toBe(true);
+    });
+
+    it('should parse long options with inline values', () => {
+      const options = parseCliArgs(['--guide=company-react', '--target=/tmp/project']);
+
+      expect(options.guide).toBe('company-react');
+      expect(options.target).toBe('/tmp/project');
+    });
+
+    it('should parse short aliases', () => {
+      const options = parseCliArgs(['-g', 'lua', '-t', 'game', '-y', '-h']);
+
+      expect(options.guide).toBe('lua');
+      expect(options.target).toBe('game');
+      expect(options.yes).toBe(true);
+      expect(options.help).toBe(true);
+    });
+
+    it('should parse dry-run and JSON options', () => {
+      expect(parseCliArgs(['-n']).dryRun).toBe(true);
+
+      const options = parseCliArgs(['--dry-run', '--json']);
+      expect(options.dryRun).toBe(true);
+      expect(options.json).toBe(true);
+    });
+
+    it('should collect repeated --var options', () => {
+      const options = parseCliArgs(['--var', 'team=Payments', '--var=repoUrl=https://x.dev/a?b=c', '--var', 'empty=']);
+
+      expect(options.vars).toEqual({
+        team: 'Payments',
+        repoUrl: 'https://x.dev/a?b=c',
+        empty: '',
+      });
+    });
+
+    it('should reject --var values without a valid name', () => {
+      expect(() => parseCliArgs(['--var', 'team'])).toThrow(
+        'Invalid value for --var: team. Expected name=value'
+      );
+      expect(() => parseCliArgs(['--var', 'my team=x'])).toThrow(
+        'Invalid value for --var: my team=x. Expected name=value'
+      );
+    });
+
+    it('should parse the list command and its filters', () => {
+      const options = parseCliArgs(['list', '--type', 'custom', '--category=Backend', '--format', 'ids']);
+
+      expect(options.command).toBe('list');
+      expect(options.type).toBe('custom');
+      expect(options.category).toBe('Backend');
+      expect(options.format).toBe('ids');
+    });
+
+    it('should accept package as a guide type', () => {
+      expect(parseCliArgs(['list', '--type', 'package']).type).toBe('package');
+    });
+
+    it('should accept an explicit install command', () => {
+      expect(parseCliArgs(['install', '--guide', 'web']).command).toBe('install');
+    });
+
+    it('should parse the update command and its options', () => {
+      const options = parseCliArgs(['update', '-t', './api', '--yes', '--dry-run', '--var', 'team=Core']);
+
+      expect(options).toMatchObject({
+        command: 'update',
+        target: './api',
+        yes: true,
+        dryRun: true,
+        vars: { team: 'Core' },
+      });
+      expect(() => parseCliArgs(['update', '--guide', 'web'])).toThrow(
+        'Option --guide is not valid for the update command'
+      );
+    });
+
+    it('should parse the diff command and its options', () => {
+      const options = parseCliArgs(['diff', '-t', './api', '--guide', 'web', '--summary', '--exit-code', '--json']);
+
+      expect(options).toMatchObject({
+        command: 'diff',
+        target: './api',
+        guide: 'web',
+        summary: true,
+        exitCode: true,
+        json: true,
+      });
+      expect(() => parseCliArgs(['--summary'])).toThrow('Option --summary is not valid for the install command');
+      expect(() => parseCliArgs(['diff', '--yes'])).toThrow('Option --yes is not valid for the diff command');
+    });
+
+    it('should parse the uninstall command and its options', () => {
+      const options = parseCliArgs(['uninstall', '-t', './api', '--yes', '--dry-run', '--force', '--json']);
+
+      expect(options).toMatchObject({
+        command: 'uninstall',
+        target: './api',
+        yes: true,
+        dryRun: true,
+        force: true,
+        json: true,
+      });
+      expect(() => parseCliArgs(['--force'])).toThrow('Option --force is not valid for the install command');
+    });
+
+    it('should parse the doctor command and its options', () => {
+      expect(parseCliArgs(['doctor', '--target', './api', '--json'])).toMatchObject({
+        command: 'doctor',
+        target: './api',
+        json: true,
+      });
+      expect(() => parseCliArgs(['doctor', '--yes'])).toThrow('Option --yes is not valid for the doctor command');
+    });
+
+    it('should parse the backups command and its options', () => {
+      expect(parseCliArgs(['backups', '-t', './api', '--json'])).toMatchObject({ command: 'backups', target: './api', json: true });
+      expect(parseCliArgs(['backups', '--restore', '.cursorrules', '--dry-run'])).toMatchObject({ restore: '.cursorrules', dryRun: true });
+      expect(parseCliArgs(['backups', '--prune', '--keep', '3', '--older-than=0'])).toMatchObject({ prune: true, keep: 3, olderThan: 0 });
+      expect(() => parseCliArgs(['--prune'])).toThrow('Option --prune is not valid for the install command');
+    });
+
+    it('should reject invalid backups options', () => {
+      expect(() => parseCliArgs(['backups', '--prune', '--keep', '0'])).toThrow(
+        'Invalid value for --keep: 0. Expected a whole number of at least 1'
+      );
+      expect(() => parseCliArgs(['backups', '--prune', '--older-than', '1.5'])).toThrow(
+        'Invalid value for --older-than: 1.5. Expected a whole number of at least 0'
+      );
+      expect(() => parseCliArgs(['backups', '--keep', '2'])).toThrow('Option --keep requires --prune');
+      expect(() => parseCliArgs(['backups', '--older-than', '2'])).toThrow('Option --older-than requires --prune');
+      expect(() => parseCliArgs(['backups', '--prune', '--restore', '.cursorrules'])).toThrow(
+        'Option --restore cannot be combined with --prune'
+      );
+    });
+
+    it('should parse --on-conflict for the install command', () => {
+      expect(parseCliArgs(['--guide', 'web', '--on-conflict', 'keep-both']).onConflict).toBe('keep-both');
+      expect(parseCliArgs(['--on-conflict=show-diff']).onConflict).toBe('show-diff');
+      expect(() => parseCliArgs(['--on-conflict', 'replace'])).toThrow(
+        'Invalid value for --on-conflict: replace. Expected one of: overwrite, skip, keep-both, merge, show-diff'
+      );
+      expect(() => parseCliArgs(['update', '--on-conflict', 'skip'])).toThrow(
+        'Option --on-conflict is not valid for the update command'
+      );
+    });
+
+    it('should reject --on-conflict show-diff without prompts', () => {
+      expect(() => parseCliArgs(['--guide', 'web', '--yes', '--on-conflict', 'show-diff'])).toThrow(
+        'Option --on-conflict show-diff asks about each file and cannot be combined with --yes'
+      );
+      expect(() => parseCliArgs(['--guide', 'web', '--json', '--on-conflict', 'show-diff'])).toThrow(
+        'Option --on-conflict show-diff asks about each file and cannot be combined with --json'
+      );
+    });
+
+    it('should parse the config command and its action', () => {
+      expect(parseCliArgs(['config'])).toMatchObject({ command: 'config', configAction: 'show' });
+      expect(parseCliArgs(['config', 'show', '--resolved', '--target', '/repo'])).toMatchObject({
+        configAction: 'show',
+        resolved: true,
+        target: '/repo',
+      });
+      expect(() => parseCliArgs(['config', 'edit'])).toThrow('Unknown config action: edit. Expected one of: show');
+      expect(() => parseCliArgs(['config', 'show', 'show'])).toThrow('Unexpected argument: show');
+      expect(() => parseCliArgs(['list', '--resolved'])).toThrow('Option --resolved is not valid for the list command');
+    });
+
+    it('should parse the sources command and its action', () => {
+      expect(parseCliArgs(['sources'])).toMatchObject({ command: 'sources', sourcesAction: 'list' });
+      expect(parseCliArgs(['sources', 'refresh', '--source', 'team', '--target', '/repo'])).toMatchObject({
+        sourcesAction: 'refresh',
+        source: 'team',
+        target: '/repo',
+      });
+      expect(() => parseCliArgs(['sources', 'pull'])).toThrow(
+        'Unknown sources action: pull. Expected one of: list, refresh'
+      );
+      expect(() => parseCliArgs(['sources', '--source', 'team'])).toThrow(
+        'Option --source requires the refresh action'
+      );
+      expect(() => parseCliArgs(['list', '--source', 'team'])).toThrow(
+        'Option --source is not valid for the list command'
+      );
+    });
+
+    it('should parse --guides-folder for commands that look up guides', () => {
+      expect(parseCliArgs(['--guides-folder', '/guides']).guidesFolder).toBe('/guides');
+      expect(parseCliArgs(['list', '--guides-folder=/guides']).guidesFolder).toBe('/guides');
+      expect(() => parseCliArgs(['doctor', '--guides-folder', '/guides'])).toThrow(
+        'Option --guides-folder is not valid for the doctor command'
+      );
+    });
+
+    it('should parse --config for every command', () => {
+      expect(parseCliArgs(['--config', '/etc/memory-bank']).config).toBe('/etc/memory-bank');
+      expect(parseCliArgs(['doctor', '--config=/etc/memory-bank']).config).toBe('/etc/memory-bank');
+      expect(parseCliArgs(['config', 'show', '--config', 'dir']).config).toBe('dir');
+      expect(() => parseCliArgs(['list', '--config'])).toThrow('Option --config requires a value');
+    });
+
+    it('should treat --json as --format json for the list command', () => {
+      expect(parseCliArgs(['list', '--json']).format).toBe('json');
+      expect(() => parseCliArgs(['list', '--json', '--format', 'table'])).toThrow(
+        'Option --json cannot be combined with --format'
+      );
+    });
+
+    it('should reject invalid choices', () => {
+      expect(() => parseCliArgs(['list', '--type', 'remote'])).toThrow(
+        'Invalid value for --type: remote. Expected one of: built-in, custom, package'
+      );
+      expect(() => parseCliArgs(['list', '--format', 'csv'])).toThrow(
+        'Invalid value for --format: csv. Expected one of: table, json, ids'
+      );
+    });
+
+    it('should reject options that belong to another command', () => {
+      expect(() => parseCliArgs(['list', '--guide', 'web'])).toThrow(
+        'Option --guide is not valid for the list command'
+      );
+      expect(() => parseCliArgs(['--category', 'Web'])).toThrow(
+        'Option --category is not valid for the install command'
+      );
+    });
+
+    it('should reject options that are missing a value', () => {
+      expect(() => parseCliArgs(['--guide'])).toThrow('Option --guide requires a value');
+      expect(() => parseCliArgs(['--guide', '--yes'])).toThrow('Option --guide requires a value');
+      expect(() => parseCliArgs(['--target='])).toThrow('Option --target requires a value');
+    });
+
+    it('should reject unknown options and positional arguments', () => {
+      expect(() => parseCliArgs(['--overwrite'])).toThrow('Unknown option: --overwrite');
+      expect(() => parseCliArgs(['web'])).toThrow('Unexpected argument: web');
+    });
+  });
+
+  describe('USAGE', () => {
+    it('should document every supported option', () => {
+      expect(USAGE).toContain('--guide');
+      expect(USAGE).toContain('--target');
+      expect(USAGE).toContain('--yes');
+      expect(USAGE).toContain('--dry-run');
+      expect(USAGE).toContain('--json');
+      expect(USAGE).toContain('--help');
+      expect(USAGE).toContain('list');
+      expect(USAGE).toContain('update');
+      expect(USAGE).toContain('--exit-code');
+      expect(USAGE).toContain('uninstall');
+      expect(USAGE).toContain('doctor');
+      expect(USAGE).toContain('--prune');
+      expect(USAGE).toContain('--on-conflict');
+      expect(USAGE).toContain('config show');
+      expect(USAGE).toContain('--resolved');
+      expect(USAGE).toContain('--guides-folder');
+      expect(USAGE).toContain('--category');
+      expect(USAGE).toContain('--var');
+      expect(USAGE).toContain('auto');
+      expect(USAGE).toContain('--config <dir>');
+    });
+  });
+
+  describe('parseConfigureArgs', () => {
+    it('should default to no options', () => {
+      expect(parseConfigureArgs([])).toEqual({ help: false });
+    });
+
+    it('should parse --config and --help', () => {
+      expect(parseConfigureArgs(['--config', '/etc/memory-bank'])).toEqual({ config: '/etc/memory-bank', help: false });
+      expect(parseConfigureArgs(['--config=dir', '-h'])).toEqual({ config: 'dir', help: true });
+      expect(parseConfigureArgs(['--help']).help).toBe(true);
+    });
+
+    it('should reject a missing value and unknown arguments', () => {
+      expect(() => parseConfigureArgs(['--config'])).toThrow('Option --config requires a value');
+      expect(() => parseConfigureArgs(['--config', '--help'])).toThrow('Option --config requires a value');
+      expect(() => parseConfigureArgs(['--config='])).toThrow('Option --config requires a value');
+      expect(() => parseConfigureArgs(['--guide', 'web'])).toThrow('Unknown option: --guide');
+      expect(() => parseConfigureArgs(['web'])).toThrow('Unexpected argument: web');
+    });
+
+    it('should describe the options in CONFIGURE_USAGE', () => {
+      expect(CONFIGURE_USAGE).toContain('memory-bank-configure');
+      expect(CONFIGURE_USAGE).toContain('--config <dir>');
+    });
+  });
+});
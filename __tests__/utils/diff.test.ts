@@ -0,0 +1,87 @@
+import { countLineChanges, formatUnifiedDiff, matchLines, splitLines } from '../../src/utils/diff';
+
+describe('splitLines', () => {
+  it('should keep a trailing newline as an empty last line', () => {
+    expect(splitLines('a\nb\n')).toEqual(['a', 'b', '']);
+    expect(splitLines('a\nb\n').join('\n')).toBe('a\nb\n');
+  });
+});
+
+describe('matchLines', () => {
+  it('should match every line of identical texts', () => {
+    expect(matchLines(['a', 'b'], ['a', 'b'])).toEqual([
+      [0, 0],
+      [1, 1],
+    ]);
+  });
+
+  it('should match the longest common subsequence around changes', () => {
+    const a = ['title', 'one', 'two', 'three', 'end'];
+    const b = ['title', 'one', 'inserted', 'three', 'end', 'extra'];
+
+    expect(matchLines(a, b)).toEqual([
+      [0, 0],
+      [1, 1],
+      [3, 3],
+      [4, 4],
+    ]);
+  });
+
+  it('should match common trailing lines after changed ones', () => {
+    expect(matchLines(['x', 'same', 'tail'], ['y', 'z', 'same', 'tail'])).toEqual([
+      [1, 2],
+      [2, 3],
+    ]);
+  });
+
+  it('should return no matches for texts without common lines', () => {
+    expect(matchLines(['a'], ['b', 'c'])).toEqual([]);
+    expect(matchLines([], ['b'])).toEqual([]);
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  const lines = (count: number) => Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+  it('should return an empty string for identical texts', () => {
+    expect(formatUnifiedDiff('a\nb\n', 'a\nb\n', 'old', 'new')).toBe('');
+  });
+
+  it('should show changes with three lines of context', () => {
+    const oldContent = `${lines(10).join('\n')}\n`;
+    const newContent = oldContent.replace('line 5\n', 'line five\n');
+
+    expect(formatUnifiedDiff(oldContent, newContent, 'guide/a.md', 'project/a.md')).toBe(
+      ['--- guide/a.md', '+++ project/a.md', '@@ -2,7 +2,7 @@', ' line 2', ' line 3', ' line 4', '-line 5', '+line five', ' line 6', ' line 7', ' line 8', ''].join('\n')
+    );
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const oldLines = lines(20);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines.splice(17, 1);
+
+    const diff = formatUnifiedDiff(`${oldLines.join('\n')}\n`, `${newLines.join('\n')}\n`, 'a', 'b');
+
+    expect(diff.split('\n').filter((line) => line.startsWith('@@'))).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,5 @@']);
+  });
+
+  it('should show added and removed files against an empty side', () => {
+    expect(formatUnifiedDiff('a\nb\n', '', 'guide/x', '/dev/null')).toBe('--- guide/x\n+++ /dev/null\n@@ -1,2 +0,0 @@\n-a\n-b\n');
+    expect(formatUnifiedDiff('', 'a\n', 'old', 'new')).toBe('--- old\n+++ new\n@@ -0,0 +1 @@\n+a\n');
+  });
+
+  it('should mark a last line without a trailing newline', () => {
+    expect(formatUnifiedDiff('a\n', 'a', 'old', 'new')).toBe(
+      '--- old\n+++ new\n@@ -1 +1 @@\n-a\n+a\n\\ No newline at end of file\n'
+    );
+  });
+});
+
+describe('countLineChanges', () => {
+  it('should count added and removed lines', () => {
+    expect(countLineChanges('a\nb\nc\n', 'a\nx\ny\nc\n')).toEqual({ added: 2, removed: 1 });
+    expect(countLineChanges('same\n', 'same\n')).toEqual({ added: 0, removed: 0 });
+  });
+});
@@ -0,0 +1,36 @@
+import { CliError, ExitCode } from '../../src/utils/errors';
+
+describe('CliError', () => {
+  it('should carry the exit code for its failure category', () => {
+    const error = new CliError('Unknown guide: rust', ExitCode.GuideNotFound);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('CliError');
+    expect(error.message).toBe('Unknown guide: rust');
+    expect(error.exitCode).toBe(4);
+  });
+
+  it('should default to the general error exit code', () => {
+    expect(new CliError('Unexpected').exitCode).toBe(ExitCode.GeneralError);
+  });
+
+  it('should keep exit codes stable', () => {
+    expect(ExitCode).toMatchObject({
+      Success: 0,
+      GeneralError: 1,
+      InvalidArguments: 2,
+      NoGuidesAvailable: 3,
+      GuideNotFound: 4,
+      InvalidTarget: 5,
+      DirectoryCreationFailed: 6,
+      CopyFailed: 7,
+      NotInstalled: 8,
+      UpdateConflicts: 9,
+      FilesModified: 10,
+      ChecksFailed: 11,
+      BackupNotFound: 12,
+      SourceFetchFailed: 13,
+      GuideCompositionFailed: 14,
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { globToRegExp, matchesGlob } from '../../src/utils/glob';
+
+describe('Glob matching', () => {
+  describe('globToRegExp', () => {
+    it('should match single path segments with *', () => {
+      const pattern = globToRegExp('*.md');
+
+      expect(pattern.test('README.md')).toBe(true);
+      expect(pattern.test('docs/README.md')).toBe(false);
+    });
+
+    it('should match any number of folders with **', () => {
+      const pattern = globToRegExp('**/*.md');
+
+      expect(pattern.test('README.md')).toBe(true);
+      expect(pattern.test('docs/adr/0001-record.md')).toBe(true);
+      expect(pattern.test('docs/adr/0001-record.txt')).toBe(false);
+    });
+
+    it('should match everything below a folder with a trailing **', () => {
+      const pattern = globToRegExp('.specs/**');
+
+      expect(pattern.test('.specs/_template/requirements.md')).toBe(true);
+      expect(pattern.test('.specs')).toBe(false);
+      expect(pattern.test('specs/file.md')).toBe(false);
+    });
+
+    it('should match single characters with ? and escape regex characters', () => {
+      expect(globToRegExp('adr-?.md').test('adr-1.md')).toBe(true);
+      expect(globToRegExp('adr-?.md').test('adr-10.md')).toBe(false);
+      expect(globToRegExp('a+b.md').test('a+b.md')).toBe(true);
+      expect(globToRegExp('a+b.md').test('aab.md')).toBe(false);
+    });
+  });
+
+  describe('matchesGlob', () => {
+    it('should match when any pattern matches', () => {
+      expect(matchesGlob('.editorconfig', ['*.md', '.editorconfig'])).toBe(true);
+      expect(matchesGlob('notes.txt', ['*.md', '.editorconfig'])).toBe(false);
+      expect(matchesGlob('notes.txt', [])).toBe(false);
+    });
+  });
+});
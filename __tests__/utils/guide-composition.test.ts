@@ -0,0 +1,96 @@
+import { applyGuideFragment } from '../../src/utils/guide-composition';
+
+describe('applyGuideFragment', () => {
+  const guide = [
+    '# Web Guide',
+    '',
+    'Intro.',
+    '',
+    '## Testing',
+    '',
+    'Use Jest.',
+    '',
+    '### Coverage',
+    '',
+    'Aim for 80%.',
+    '',
+    '## Security',
+    '',
+    'Escape output.',
+    '',
+  ].join('\n');
+
+  describe('without a heading', () => {
+    it('should append the fragment after the content', () => {
+      expect(applyGuideFragment('# Guide\n', '\nCompany rules.\n\n', { mode: 'append' })).toBe(
+        '# Guide\n\nCompany rules.\n'
+      );
+    });
+
+    it('should prepend the fragment before the content', () => {
+      expect(applyGuideFragment('# Guide\n', 'Read this first.', { mode: 'prepend' })).toBe(
+        'Read this first.\n\n# Guide\n'
+      );
+    });
+
+    it('should replace the whole content', () => {
+      expect(applyGuideFragment(guide, '# Our Guide', { mode: 'replace' })).toBe('# Our Guide\n');
+    });
+  });
+
+  describe('with a heading', () => {
+    it('should append to the end of the section, after its subsections', () => {
+      const result = applyGuideFragment(guide, 'Run tests in CI.', { mode: 'append', heading: 'Testing' });
+
+      expect(result).toBe(guide.replace('Aim for 80%.\n', 'Aim for 80%.\n\nRun tests in CI.\n'));
+    });
+
+    it('should prepend before the heading of the section', () => {
+      const result = applyGuideFragment(guide, '## Linting\n\nUse ESLint.', { mode: 'prepend', heading: 'Security' });
+
+      expect(result).toBe(guide.replace('## Security', '## Linting\n\nUse ESLint.\n\n## Security'));
+    });
+
+    it('should replace the section including its heading and subsections', () => {
+      const result = applyGuideFragment(guide, '## Testing\n\nUse Vitest.', { mode: 'replace', heading: 'Testing' });
+
+      expect(result).toBe(
+        ['# Web Guide', '', 'Intro.', '', '## Testing', '', 'Use Vitest.', '', '## Security', '', 'Escape output.', ''].join(
+          '\n'
+        )
+      );
+    });
+
+    it('should run the last section to the end of the content', () => {
+      const result = applyGuideFragment(guide, 'Audit dependencies.', { mode: 'append', heading: 'Security' });
+
+      expect(result).toBe(`${guide}\nAudit dependencies.\n`);
+    });
+
+    it('should match headings ignoring case and extra spaces', () => {
+      expect(applyGuideFragment(guide, 'New.', { mode: 'replace', heading: '  security ' })).toContain('New.');
+      expect(applyGuideFragment(guide, 'New.', { mode: 'replace', heading: '###   COVERAGE' })).toContain('New.');
+    });
+
+    it('should only match the level of a heading written with #', () => {
+      expect(applyGuideFragment(guide, 'New.', { mode: 'replace', heading: '## Coverage' })).toBeUndefined();
+      expect(applyGuideFragment(guide, 'New.', { mode: 'replace', heading: '### Coverage' })).toBe(
+        guide.replace('### Coverage\n\nAim for 80%.\n', 'New.\n')
+      );
+    });
+
+    it('should ignore headings in fenced code blocks', () => {
+      const content = ['## Examples', '', '```md', '## Security', '```', '', '## Security', '', 'Escape output.', ''].join(
+        '\n'
+      );
+
+      expect(applyGuideFragment(content, 'Sanitize input.', { mode: 'replace', heading: 'Security' })).toBe(
+        ['## Examples', '', '```md', '## Security', '```', '', 'Sanitize input.', ''].join('\n')
+      );
+    });
+
+    it('should return undefined when the content has no such heading', () => {
+      expect(applyGuideFragment(guide, 'New.', { mode: 'append', heading: 'Deployment' })).toBeUndefined();
+    });
+  });
+});
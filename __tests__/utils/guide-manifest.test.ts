@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  mapGuidePath,
+  readGuideManifest,
+  resolveGuideFiles,
+  usesFileList,
+} from '../../src/utils/guide-manifest';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('readGuideManifest', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return an empty result when the guide has no guide.json', () => {
+    mockedFs.existsSync.mockReturnValue(false);
+
+    expect(readGuideManifest('/guides/react')).toEqual({});
+    expect(mockedFs.existsSync).toHaveBeenCalledWith(
+      path.join('/guides/react', 'guide.json')
+    );
+    expect(mockedFs.readFileSync).not.toHaveBeenCalled();
+  });
+
+  it('should return the parsed manifest', () => {
+    const manifest = {
+      id: 'company-react',
+      version: '2.0.0',
+      files: [{ source: 'guide.md', destination: '.memory-bank/developmentGuide.md' }],
+    };
+    mockedFs.existsSync.mockReturnValue(true);
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify(manifest));
+
+    expect(readGuideManifest('/guides/react')).toEqual({ manifest });
+  });
+
+  it('should report malformed JSON', () => {
+    mockedFs.existsSync.mockReturnValue(true);
+    mockedFs.readFileSync.mockReturnValue('{ not json');
+
+    const result = readGuideManifest('/guides/react');
+
+    expect(result.manifest).toBeUndefined();
+    expect(result.error).toMatch(/^Invalid guide\.json: /);
+  });
+
+  it('should report manifests that fail validation', () => {
+    mockedFs.existsSync.mockReturnValue(true);
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify({ tags: 'react' }));
+
+    expect(readGuideManifest('/guides/react')).toEqual({
+      error: "Invalid guide.json: Field 'tags' must be an array of strings",
+    });
+  });
+});
+
+describe('resolveGuideFiles', () => {
+  // A guide folder with nested folders, keyed by absolute path
+  const tree: Record<string, string[]> = {
+    '/guides/react': ['.cursorrules', '.git', '.specs', 'developmentGuide.md', 'drafts', 'guide.json', 'memory'],
+    [path.join('/guides/react', '.git')]: ['HEAD'],
+    [path.join('/guides/react', '.specs')]: ['_template'],
+    [path.join('/guides/react', '.specs/_template')]: ['design.md', 'requirements.md'],
+    [path.join('/guides/react', 'drafts')]: ['ideas.md'],
+    [path.join('/guides/react', 'memory')]: ['techContext.md'],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedFs.readdirSync.mockImplementation(((dirPath: fs.PathLike) => tree[dirPath.toString()]) as any);
+    mockedFs.statSync.mockImplementation(
+      (filePath: fs.PathLike) =>
+        ({ isDirectory: () => filePath.toString() in tree }) as any
+    );
+  });
+
+  it('should install included files with mappings applied', () => {
+    const files = resolveGuideFiles('/guides/react', {
+      include: ['**/*'],
+      exclude: ['drafts/**'],
+      mappings: [{ from: 'memory/', to: '.memory-bank/' }],
+    });
+
+    expect(files).toEqual([
+      { source: '.cursorrules', destination: '.cursorrules' },
+      { source: '.specs/_template/design.md', destination: '.specs/_template/design.md' },
+      { source: '.specs/_template/requirements.md', destination: '.specs/_template/requirements.md' },
+      { source: 'developmentGuide.md', destination: '.memory-bank/developmentGuide.md' },
+      { source: 'memory/techContext.md', destination: '.memory-bank/techContext.md' },
+    ]);
+  });
+
+  it('should keep explicit files and skip them during the tree walk', () => {
+    const files = resolveGuideFiles('/guides/react', {
+      files: [{ source: 'developmentGuide.md', destination: 'docs/guide.md' }],
+      include: ['*.md'],
+    });
+
+    expect(files).toEqual([{ source: 'developmentGuide.md', destination: 'docs/guide.md' }]);
+  });
+
+  it('should only return explicit files when no include patterns are set', () => {
+    const files = resolveGuideFiles('/guides/react', {
+      files: [{ source: 'guide.md', destination: '.memory-bank/developmentGuide.md' }],
+    });
+
+    expect(files).toHaveLength(1);
+    expect(mockedFs.readdirSync).not.toHaveBeenCalled();
+  });
+});
+
+describe('mapGuidePath', () => {
+  it('should apply the first matching file or folder rule', () => {
+    const mappings = [
+      { from: 'adr/template.md', to: 'docs/adr/0000-template.md' },
+      { from: 'adr/', to: 'docs/adr/' },
+    ];
+
+    expect(mapGuidePath('adr/template.md', mappings)).toBe('docs/adr/0000-template.md');
+    expect(mapGuidePath('adr/README.md', mappings)).toBe('docs/adr/README.md');
+    expect(mapGuidePath('.editorconfig', mappings)).toBe('.editorconfig');
+  });
+
+  it('should let manifest rules override the developmentGuide.md default', () => {
+    expect(mapGuidePath('developmentGuide.md', [])).toBe('.memory-bank/developmentGuide.md');
+    expect(mapGuidePath('developmentGuide.md', [{ from: 'developmentGuide.md', to: 'GUIDE.md' }])).toBe(
+      'GUIDE.md'
+    );
+  });
+});
+
+describe('usesFileList', () => {
+  it('should detect manifests that list their own files', () => {
+    expect(usesFileList(undefined)).toBe(false);
+    expect(usesFileList({ version: '1.0.0' })).toBe(false);
+    expect(usesFileList({ include: ['**/*'] })).toBe(true);
+    expect(usesFileList({ files: [{ source: 'a.md', destination: 'a.md' }] })).toBe(true);
+  });
+});
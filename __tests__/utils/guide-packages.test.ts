@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  findGuidePackages,
+  findProjectNodeModules,
+  listPackageFolders,
+  readGuidePackage,
+  resolveGlobalNodeModules,
+} from '../../src/utils/guide-packages';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('guide packages', () => {
+  let files: Record<string, string>;
+  let directories: Set<string>;
+
+  // Install a package with the given package.json
+  const addPackage = (packageDir: string, packageJson: object | string) => {
+    directories.add(packageDir);
+    files[path.join(packageDir, 'package.json')] =
+      typeof packageJson === 'string' ? packageJson : JSON.stringify(packageJson);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    files = {};
+    directories = new Set();
+
+    // Serve files and folders from memory
+    mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() in files || directories.has(filePath.toString()));
+    mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) => {
+      const content = files[filePath.toString()];
+      if (content === undefined) {
+        throw new Error(`ENOENT: ${filePath}`);
+      }
+      return content;
+    }) as any);
+    mockedFs.readdirSync.mockImplementation(((directory: fs.PathLike) => {
+      if (!directories.has(directory.toString())) {
+        throw new Error(`ENOENT: ${directory}`);
+      }
+      return [...Object.keys(files), ...directories]
+        .filter((item) => path.dirname(item) === directory.toString())
+        .map((item) => path.basename(item));
+    }) as any);
+  });
+
+  describe('findProjectNodeModules', () => {
+    it('should find node_modules in the project or the nearest parent', () => {
+      directories.add(path.resolve('/repo/node_modules'));
+
+      expect(findProjectNodeModules('/repo')).toBe(path.resolve('/repo/node_modules'));
+      expect(findProjectNodeModules('/repo/packages/app')).toBe(path.resolve('/repo/node_modules'));
+    });
+
+    it('should return undefined when no folder up to the root has node_modules', () => {
+      expect(findProjectNodeModules('/repo')).toBeUndefined();
+    });
+  });
+
+  describe('resolveGlobalNodeModules', () => {
+    it('should use the npm prefix when npm provides it', () => {
+      expect(resolveGlobalNodeModules({ npm_config_prefix: '/opt/npm' }, '/usr/bin/node', 'linux')).toBe(
+        path.join('/opt/npm', 'lib', 'node_modules')
+      );
+    });
+
+    it('should derive the prefix from the Node binary', () => {
+      expect(resolveGlobalNodeModules({}, '/usr/local/bin/node', 'linux')).toBe(
+        path.join('/usr/local', 'lib', 'node_modules')
+      );
+      expect(resolveGlobalNodeModules({}, path.join('/nodejs', 'node.exe'), 'win32')).toBe(
+        path.join('/nodejs', 'node_modules')
+      );
+    });
+  });
+
+  describe('listPackageFolders', () => {
+    it('should list packages and scoped packages in name order, skipping hidden folders', () => {
+      directories.add('/nm');
+      directories.add('/nm/zod');
+      directories.add('/nm/.bin');
+      directories.add('/nm/@acme');
+      directories.add('/nm/@acme/guide-b');
+      directories.add('/nm/@acme/guide-a');
+
+      expect(listPackageFolders('/nm')).toEqual([
+        path.join('/nm', '@acme', 'guide-a'),
+        path.join('/nm', '@acme', 'guide-b'),
+        path.join('/nm', 'zod'),
+      ]);
+    });
+
+    it('should return no packages for a missing folder', () => {
+      expect(listPackageFolders('/missing')).toEqual([]);
+    });
+  });
+
+  describe('readGuidePackage', () => {
+    it('should read the guide folder and version of a guide package', () => {
+      addPackage('/nm/backend', {
+        name: '@acme/backend',
+        version: '1.4.0',
+        memoryBankGuide: { path: 'guide', format: 1 },
+      });
+
+      expect(readGuidePackage('/nm/backend', 'project')).toEqual({
+        guidePackage: {
+          name: '@acme/backend',
+          version: '1.4.0',
+          scope: 'project',
+          path: '/nm/backend',
+          folderPath: path.resolve('/nm/backend', 'guide'),
+        },
+      });
+    });
+
+    it('should default to the package root and format 1', () => {
+      addPackage('/nm/backend', { name: 'backend', version: '2.0.0', memoryBankGuide: {} });
+
+      expect(readGuidePackage('/nm/backend', 'global')?.guidePackage?.folderPath).toBe(path.resolve('/nm/backend'));
+    });
+
+    it('should skip packages that do not declare a guide', () => {
+      addPackage('/nm/zod', { name: 'zod', version: '3.0.0' });
+      addPackage('/nm/mentions', { name: 'mentions', version: '1.0.0', description: 'Not a memoryBankGuide' });
+
+      expect(readGuidePackage('/nm/zod', 'project')).toBeUndefined();
+      expect(readGuidePackage('/nm/mentions', 'project')).toBeUndefined();
+      expect(readGuidePackage('/nm/missing', 'project')).toBeUndefined();
+    });
+
+    it('should reject guide formats this version does not support', () => {
+      addPackage('/nm/next', { name: 'next-guide', version: '3.0.0', memoryBankGuide: { format: 2 } });
+
+      expect(readGuidePackage('/nm/next', 'project')).toEqual({
+        error: 'guide format 2 is not supported by this version of init-memory-bank (supported: 1)',
+      });
+    });
+
+    it.each([
+      ['{ "memoryBankGuide": ', /^Invalid package\.json: /],
+      [{ version: '1.0.0', memoryBankGuide: {} }, 'package.json has no name'],
+      [{ name: 'guide', memoryBankGuide: {} }, 'package.json has no version'],
+      [{ name: 'guide', version: '1.0.0', memoryBankGuide: 'guide' }, '"memoryBankGuide" must be an object'],
+      [{ name: 'guide', version: '1.0.0', memoryBankGuide: { path: '' } }, '"memoryBankGuide.path" must be a folder path'],
+      [
+        { name: 'guide', version: '1.0.0', memoryBankGuide: { path: '../other' } },
+        '"memoryBankGuide.path" must stay inside the package: ../other',
+      ],
+      [{ name: 'guide', version: '1.0.0', memoryBankGuide: { format: '1' } }, '"memoryBankGuide.format" must be a whole number'],
+    ])('should report an invalid declaration: %j', (packageJson, error) => {
+      addPackage('/nm/guide', packageJson);
+
+      expect(readGuidePackage('/nm/guide', 'project')?.error).toEqual(
+        typeof error === 'string' ? error : expect.stringMatching(error)
+      );
+    });
+  });
+
+  describe('findGuidePackages', () => {
+    it('should find guide packages in the project before the global ones', () => {
+      const projectModules = path.resolve('/repo/node_modules');
+      directories.add(projectModules);
+      directories.add(path.join(projectModules, '@acme'));
+      addPackage(path.join(projectModules, '@acme', 'backend'), {
+        name: '@acme/backend',
+        version: '1.0.0',
+        memoryBankGuide: {},
+      });
+      addPackage(path.join(projectModules, 'zod'), { name: 'zod', version: '3.0.0' });
+      directories.add('/global');
+      addPackage('/global/old', { name: 'old', version: '0.1.0', memoryBankGuide: { format: 9 } });
+
+      expect(findGuidePackages('/repo', '/global')).toEqual([
+        expect.objectContaining({ name: '@acme/backend', scope: 'project', guidePackage: expect.any(Object) }),
+        expect.objectContaining({ name: 'old', scope: 'global', packageDir: '/global/old', error: expect.any(String) }),
+      ]);
+    });
+
+    it('should scan a folder only once when the project uses the global node_modules', () => {
+      const nodeModules = path.resolve('/usr/lib/node_modules');
+      directories.add(nodeModules);
+      addPackage(path.join(nodeModules, 'backend'), { name: 'backend', version: '1.0.0', memoryBankGuide: {} });
+
+      expect(findGuidePackages('/usr/lib', nodeModules).map((candidate) => candidate.scope)).toEqual(['project']);
+    });
+  });
+});
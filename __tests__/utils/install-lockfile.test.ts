@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  INSTALL_LOCKFILE_PATH,
+  hashContent,
+  readInstallBase,
+  readInstallLockfile,
+  removeInstallRecord,
+  saveInstallBase,
+  saveInstallLockfile,
+  toLockfilePath,
+} from '../../src/utils/install-lockfile';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+const lockfile = {
+  lockfileVersion: 1,
+  guide: {
+    id: 'web',
+    type: 'built-in',
+    sourcePath: '/guides/Web',
+    contentHash: hashContent('guide'),
+  },
+  files: [
+    {
+      path: '.memory-bank/developmentGuide.md',
+      source: 'developmentGuide.md',
+      sha256: hashContent('# Web'),
+      installedAt: '2026-03-01T12:00:00.000Z',
+    },
+  ],
+  installedAt: '2026-03-01T12:00:00.000Z',
+  updatedAt: '2026-03-01T12:00:00.000Z',
+};
+
+describe('readInstallLockfile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return an empty result when the project has no lockfile', () => {
+    mockedFs.existsSync.mockReturnValue(false);
+
+    expect(readInstallLockfile('/project')).toEqual({});
+    expect(mockedFs.existsSync).toHaveBeenCalledWith(
+      path.join('/project', '.memory-bank', '.install.json')
+    );
+  });
+
+  it('should return the parsed lockfile', () => {
+    mockedFs.existsSync.mockReturnValue(true);
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify(lockfile));
+
+    expect(readInstallLockfile('/project')).toEqual({ lockfile });
+  });
+
+  it('should report malformed JSON', () => {
+    mockedFs.existsSync.mockReturnValue(true);
+    mockedFs.readFileSync.mockReturnValue('{ not json');
+
+    const result = readInstallLockfile('/project');
+
+    expect(result.lockfile).toBeUndefined();
+    expect(result.error).toMatch(/^Invalid .*\.install\.json: /);
+  });
+
+  it('should report lockfiles that fail validation', () => {
+    mockedFs.existsSync.mockReturnValue(true);
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify({ ...lockfile, files: {} }));
+
+    expect(readInstallLockfile('/project')).toEqual({
+      error: `Invalid ${INSTALL_LOCKFILE_PATH}: Field 'files' must be an array`,
+    });
+  });
+});
+
+describe('hashContent', () => {
+  it('should return the SHA-256 hex digest of strings and buffers', () => {
+    const digest = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+    expect(hashContent('')).toBe(digest);
+    expect(hashContent(Buffer.alloc(0))).toBe(digest);
+    expect(hashContent('# Web')).toBe(hashContent(Buffer.from('# Web')));
+  });
+});
+
+describe('toLockfilePath', () => {
+  it('should use "/" separators', () => {
+    expect(toLockfilePath(path.join('.memory-bank', 'developmentGuide.md'))).toBe(
+      '.memory-bank/developmentGuide.md'
+    );
+  });
+});
+
+describe('saveInstallLockfile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should write the lockfile as formatted JSON, creating .memory-bank if needed', () => {
+    mockedFs.existsSync.mockReturnValue(false);
+
+    saveInstallLockfile('/project', lockfile as any);
+
+    expect(mockedFs.mkdirSync).toHaveBeenCalledWith(path.join('/project', '.memory-bank'), { recursive: true });
+    expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+      path.join('/project', '.memory-bank', '.install.json'),
+      `${JSON.stringify(lockfile, null, 2)}\n`,
+      'utf8'
+    );
+  });
+});
+
+describe('install base copies', () => {
+  const basePath = path.join('/project', '.memory-bank', '.install-base', '.cursorrules');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should store and read the guide version of a file', () => {
+    mockedFs.existsSync.mockReturnValue(true);
+    mockedFs.readFileSync.mockReturnValue(Buffer.from('rules'));
+
+    saveInstallBase('/project', '.cursorrules', 'rules');
+
+    expect(mockedFs.writeFileSync).toHaveBeenCalledWith(basePath, 'rules');
+    expect(readInstallBase('/project', '.cursorrules')).toEqual(Buffer.from('rules'));
+    expect(mockedFs.readFileSync).toHaveBeenCalledWith(basePath);
+  });
+
+  it('should return undefined when no copy was kept', () => {
+    mockedFs.existsSync.mockReturnValue(false);
+
+    expect(readInstallBase('/project', '.cursorrules')).toBeUndefined();
+  });
+});
+
+describe('removeInstallRecord', () => {
+  it('should delete the lockfile and the base copies', () => {
+    removeInstallRecord('/project');
+
+    expect(mockedFs.rmSync).toHaveBeenCalledWith(path.join('/project', '.memory-bank', '.install-base'), { recursive: true, force: true });
+    expect(mockedFs.rmSync).toHaveBeenCalledWith(path.join('/project', INSTALL_LOCKFILE_PATH), { force: true });
+  });
+});
@@ -0,0 +1,112 @@
+import * as path from 'path';
+import { formatInstallPlan } from '../../src/utils/install-plan';
+import { InstallPlan } from '../../src/config/types';
+
+describe('formatInstallPlan', () => {
+  const targetDir = path.join('/projects', 'app');
+
+  it('should list directories, files and backups relative to the target', () => {
+    const plan: InstallPlan = {
+      guideId: 'web',
+      guideName: 'Web',
+      targetDir,
+      directories: [
+        { path: path.join(targetDir, '.memory-bank'), action: 'create' },
+        { path: path.join(targetDir, '.specs'), action: 'exists' },
+      ],
+      files: [
+        {
+          sourcePath: '/guides/Web/developmentGuide.md',
+          targetPath: path.join(targetDir, '.memory-bank', 'developmentGuide.md'),
+          action: 'create',
+        },
+        {
+          sourcePath: '/guides/Web/.cursorrules',
+          targetPath: path.join(targetDir, '.cursorrules'),
+          action: 'overwrite',
+          backupPath: path.join(targetDir, '.cursorrules.backup.42'),
+        },
+      ],
+      errors: [],
+    };
+
+    const output = formatInstallPlan(plan);
+
+    expect(output).toContain('📝 Install plan for Web (web)');
+    expect(output).toContain(`Target: ${targetDir}`);
+    expect(output).toContain(`+ create   ${path.join('.memory-bank')}/`);
+    expect(output).toContain('= exists   .specs/');
+    expect(output).toContain(`+ create    ${path.join('.memory-bank', 'developmentGuide.md')}`);
+    expect(output).toContain('~ overwrite .cursorrules');
+    expect(output).toContain('backup .cursorrules.backup.42');
+    expect(output).not.toContain('Problems');
+  });
+
+  it('should show generated and kept memory bank files', () => {
+    const plan: InstallPlan = {
+      guideId: 'web',
+      guideName: 'Web',
+      targetDir,
+      directories: [],
+      files: [
+        { targetPath: path.join(targetDir, '.memory-bank', 'projectBrief.md'), action: 'create' },
+        { targetPath: path.join(targetDir, '.memory-bank', 'progress.md'), action: 'keep' },
+      ],
+      errors: [],
+    };
+
+    const output = formatInstallPlan(plan);
+
+    expect(output).toContain(`+ create    ${path.join('.memory-bank', 'projectBrief.md')}`);
+    expect(output).toContain('from built-in template');
+    expect(output).toContain(`= keep      ${path.join('.memory-bank', 'progress.md')}`);
+    expect(output.match(/from /g)).toHaveLength(1);
+  });
+
+  it('should describe how existing files are handled with --on-conflict', () => {
+    const plan: InstallPlan = {
+      guideId: 'web',
+      guideName: 'Web',
+      targetDir,
+      directories: [],
+      files: [
+        {
+          sourcePath: '/guides/Web/.cursorrules',
+          targetPath: path.join(targetDir, '.cursorrules.new'),
+          action: 'create',
+          conflictAction: 'keep-both',
+        },
+        {
+          sourcePath: '/guides/Web/developmentGuide.md',
+          targetPath: path.join(targetDir, '.memory-bank', 'developmentGuide.md'),
+          action: 'keep',
+          conflictAction: 'skip',
+        },
+      ],
+      errors: [],
+    };
+
+    const output = formatInstallPlan(plan);
+
+    expect(output).toContain('+ create    .cursorrules.new');
+    expect(output).toContain('conflict keeps the existing file and writes the guide version beside it');
+    expect(output).toContain(`= keep      ${path.join('.memory-bank', 'developmentGuide.md')}`);
+    expect(output).toMatch(/conflict keeps the existing file$/m);
+  });
+
+  it('should list problems that would stop the install', () => {
+    const plan: InstallPlan = {
+      guideId: 'custom',
+      guideName: 'Custom',
+      targetDir,
+      directories: [],
+      files: [],
+      errors: ['Source file not found: /guides/custom/developmentGuide.md'],
+    };
+
+    const output = formatInstallPlan(plan);
+
+    expect(output).toContain('❌ Problems that would stop the install:');
+    expect(output).toContain('   - Source file not found: /guides/custom/developmentGuide.md');
+  });
+});
@@ -0,0 +1,59 @@
+import { JsonSchema, validateJsonSchema } from '../../src/utils/json-schema';
+
+describe('validateJsonSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['name', 'items'],
+    properties: {
+      name: { type: 'string', pattern: '\\S', errorMessage: 'Name cannot be empty' },
+      count: { type: 'integer', minimum: 1 },
+      mode: { enum: ['fast', 'safe'] },
+      items: { type: 'array', items: { $ref: '#/definitions/item' } },
+      'a/b~c': { type: 'boolean' },
+    },
+    definitions: {
+      item: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } },
+    },
+  };
+
+  it('should accept data that matches the schema', () => {
+    expect(validateJsonSchema({ name: 'demo', count: 2, mode: 'fast', items: [{ id: 'a' }] }, schema)).toEqual([]);
+  });
+
+  it('should report every violation with its JSON pointer', () => {
+    expect(validateJsonSchema({ name: ' ', count: 0, mode: 'slow', items: [{ id: 'a' }, {}, 'b'] }, schema)).toEqual([
+      { path: '/name', message: 'Name cannot be empty' },
+      { path: '/count', message: 'must be at least 1' },
+      { path: '/mode', message: 'must be one of: fast, safe' },
+      { path: '/items/1/id', message: 'is required' },
+      { path: '/items/2', message: 'must be an object' },
+    ]);
+  });
+
+  it('should report missing required properties', () => {
+    expect(validateJsonSchema({}, schema)).toEqual([
+      { path: '/name', message: 'is required' },
+      { path: '/items', message: 'is required' },
+    ]);
+  });
+
+  it('should report a value of the wrong type without checking its contents', () => {
+    expect(validateJsonSchema([], schema)).toEqual([{ path: '', message: 'must be an object' }]);
+    expect(validateJsonSchema({ name: 'demo', count: 1.5, items: {} }, schema)).toEqual([
+      { path: '/count', message: 'must be a whole number' },
+      { path: '/items', message: 'must be a list' },
+    ]);
+  });
+
+  it('should escape ~ and / in property names', () => {
+    expect(validateJsonSchema({ name: 'demo', items: [], 'a/b~c': 'yes' }, schema)).toEqual([
+      { path: '/a~1b~0c', message: 'must be true or false' },
+    ]);
+  });
+
+  it('should reject references outside the definitions', () => {
+    expect(() => validateJsonSchema({}, { $ref: 'https://example.com/schema.json' })).toThrow(
+      'Unsupported schema reference: https://example.com/schema.json'
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { appendMissingSections, mergeThreeWay } from '../../src/utils/merge';
+
+const labels = { ours: 'local', theirs: 'guide' };
+const base = 'title\none\ntwo\nthree\nfour\n';
+
+describe('mergeThreeWay', () => {
+  it('should take changes made on only one side', () => {
+    const ours = 'title (ours)\none\ntwo\nthree\nfour\n';
+    const theirs = 'title\none\ntwo\nthree\nfour (guide)\nfive\n';
+
+    expect(mergeThreeWay(base, ours, theirs, labels)).toEqual({
+      content: 'title (ours)\none\ntwo\nthree\nfour (guide)\nfive\n',
+      conflicts: 0,
+    });
+  });
+
+  it('should take identical changes once', () => {
+    const changed = 'title\none\n2\nthree\nfour\n';
+
+    expect(mergeThreeWay(base, changed, changed, labels)).toEqual({
+      content: changed,
+      conflicts: 0,
+    });
+  });
+
+  it('should keep deletions from either side', () => {
+    const ours = 'title\none\nthree\nfour\n';
+    const theirs = 'title\none\ntwo\nthree\n';
+
+    expect(mergeThreeWay(base, ours, theirs, labels).content).toBe('title\none\nthree\n');
+  });
+
+  it('should write conflict markers where both sides changed the same lines', () => {
+    const ours = 'title\none\nmine\nthree\nfour\n';
+    const theirs = 'title\none\nyours\nthree\nfour\n';
+
+    expect(mergeThreeWay(base, ours, theirs, labels)).toEqual({
+      content: 'title\none\n<<<<<<< local\nmine\n=======\nyours\n>>>>>>> guide\nthree\nfour\n',
+      conflicts: 1,
+    });
+  });
+
+  it('should count every conflicting region', () => {
+    const ours = 'A\none\ntwo\nthree\nD\n';
+    const theirs = 'B\none\ntwo\nthree\nE\n';
+
+    expect(mergeThreeWay(base, ours, theirs, labels).conflicts).toBe(2);
+  });
+
+  it('should treat differing files without a common base as one conflict', () => {
+    expect(mergeThreeWay('', 'mine', 'guide', labels)).toEqual({
+      content: '<<<<<<< local\nmine\n=======\nguide\n>>>>>>> guide',
+      conflicts: 1,
+    });
+  });
+});
+
+describe('appendMissingSections', () => {
+  const guide = '# Guide\n\nIntro\n\n## Testing\n\nWrite tests.\n\n## Style\n\nUse prettier.\n';
+
+  it('should append the sections the existing file does not have', () => {
+    const existing = '# Guide\n\nOur intro\n\n## Testing\n\nWe test a lot.\n';
+
+    expect(appendMissingSections(existing, guide)).toBe(
+      '# Guide\n\nOur intro\n\n## Testing\n\nWe test a lot.\n\n## Style\n\nUse prettier.\n'
+    );
+  });
+
+  it('should match headings regardless of case, spacing and level', () => {
+    const existing = '# guide\n\n### TESTING\n\n#  Style\n';
+
+    expect(appendMissingSections(existing, guide)).toBe(existing);
+  });
+
+  it('should ignore headings inside fenced code blocks', () => {
+    const existing = '# Guide\n\n```sh\n## Testing\n## Style\n```\n';
+
+    expect(appendMissingSections(existing, guide)).toBe(
+      '# Guide\n\n```sh\n## Testing\n## Style\n```\n\n## Testing\n\nWrite tests.\n\n## Style\n\nUse prettier.\n'
+    );
+  });
+
+  it('should only take text before the first heading when the existing file is empty', () => {
+    expect(appendMissingSections('Notes\n', 'Preamble\n')).toBe('Notes\n');
+    expect(appendMissingSections('', 'Preamble\n\n# Guide\n')).toBe('Preamble\n\n# Guide\n');
+  });
+});
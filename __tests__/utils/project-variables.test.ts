@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { detectProjectVariables } from '../../src/utils/project-variables';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('detectProjectVariables', () => {
+  const targetDir = '/work/billing-api';
+  const now = new Date('2026-03-04T12:00:00Z');
+
+  // Serve the given files from the mocked filesystem
+  const mockFiles = (files: Record<string, string>) => {
+    mockedFs.existsSync.mockImplementation((filePath) => filePath.toString() in files);
+    mockedFs.readFileSync.mockImplementation(((filePath: fs.PathLike) => files[filePath.toString()]) as any);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should read values from package.json', () => {
+    mockFiles({
+      [path.join(targetDir, 'package.json')]: JSON.stringify({
+        name: '@acme/billing',
+        description: 'Billing service',
+        version: '1.4.0',
+        author: { name: 'Payments Team' },
+        repository: { type: 'git', url: 'https://github.com/acme/billing.git' },
+        devDependencies: { typescript: '^5.0.0' },
+      }),
+    });
+
+    expect(detectProjectVariables(targetDir, now)).toEqual({
+      date: '2026-03-04',
+      year: '2026',
+      projectName: '@acme/billing',
+      projectDescription: 'Billing service',
+      projectVersion: '1.4.0',
+      author: 'Payments Team',
+      repoUrl: 'https://github.com/acme/billing.git',
+      primaryLanguage: 'TypeScript',
+    });
+  });
+
+  it('should read the project values from pom.xml and ignore nested blocks', () => {
+    mockFiles({
+      [path.join(targetDir, 'pom.xml')]: `
+        <project>
+          <parent><artifactId>spring-boot-starter-parent</artifactId><version>3.2.0</version></parent>
+          <artifactId>billing</artifactId>
+          <version>2.0.1</version>
+          <description>Billing service</description>
+          <licenses><license><name>MIT</name></license></licenses>
+          <scm><url>https://git.acme.dev/billing</url></scm>
+        </project>`,
+    });
+
+    expect(detectProjectVariables(targetDir, now)).toEqual(
+      expect.objectContaining({
+        projectName: 'billing',
+        projectVersion: '2.0.1',
+        projectDescription: 'Billing service',
+        repoUrl: 'https://git.acme.dev/billing',
+        primaryLanguage: 'Java',
+      })
+    );
+  });
+
+  it('should fall back to the git remote and the folder name', () => {
+    mockFiles({
+      [path.join(targetDir, '.git', 'config')]: [
+        '[core]',
+        '\tbare = false',
+        '[remote "upstream"]',
+        '\turl = git@github.com:other/fork.git',
+        '[remote "origin"]',
+        '\turl = git@github.com:acme/billing.git',
+        '\tfetch = +refs/heads/*:refs/remotes/origin/*',
+      ].join('\n'),
+    });
+
+    expect(detectProjectVariables(targetDir, now)).toEqual({
+      date: '2026-03-04',
+      year: '2026',
+      repoUrl: 'git@github.com:acme/billing.git',
+      projectName: 'billing-api',
+    });
+  });
+
+  it('should ignore metadata files that cannot be parsed', () => {
+    mockFiles({ [path.join(targetDir, 'package.json')]: '{ broken' });
+
+    expect(detectProjectVariables(targetDir, now).projectName).toBe('billing-api');
+  });
+});
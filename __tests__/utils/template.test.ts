@@ -0,0 +1,35 @@
+import { renderTemplate } from '../../src/utils/template';
+
+describe('renderTemplate', () => {
+  it('should replace placeholders with variable values', () => {
+    const result = renderTemplate('# {{projectName}}\nOwned by {{ team }} since {{year}}.', {
+      projectName: 'billing-api',
+      team: 'Payments',
+      year: '2026',
+    });
+
+    expect(result).toEqual({
+      content: '# billing-api\nOwned by Payments since 2026.',
+      unresolved: [],
+    });
+  });
+
+  it('should report each unresolved placeholder once and leave it in place', () => {
+    const result = renderTemplate('{{team}} / {{repoUrl}} / {{team}}', {});
+
+    expect(result.unresolved).toEqual(['team', 'repoUrl']);
+    expect(result.content).toBe('{{team}} / {{repoUrl}} / {{team}}');
+  });
+
+  it('should keep escaped placeholders literally', () => {
+    const result = renderTemplate('Use \\{{name}} for {{name}}', { name: 'Ada' });
+
+    expect(result).toEqual({ content: 'Use {{name}} for Ada', unresolved: [] });
+  });
+
+  it('should ignore braces that are not placeholders', () => {
+    const content = 'style={{ margin: 0 }} and {{}}';
+
+    expect(renderTemplate(content, {})).toEqual({ content, unresolved: [] });
+  });
+});
@@ -4,6 +4,8 @@ import {
   validateFilePath,
   validateGuideStructure,
   validateConfiguration,
+  validateGuideManifest,
+  validateInstallLockfile,
 } from '../../src/utils/validation';
 import { CustomGuideConfig, ValidationResult } from '../../src/config/types';
 
@@ -121,6 +123,40 @@ describe('Validation Utilities', () => {
       expect(result.warnings).toBeUndefined();
     });
 
+    it('should check the files declared in a manifest instead of developmentGuide.md', () => {
+      mockedFs.existsSync.mockImplementation(
+        (filePath) => filePath.toString() !== path.join('/path/to/guide', 'rules.txt')
+      );
+
+      const result = validateGuideStructure('/path/to/guide', {
+        files: [
+          { source: 'guide.md', destination: '.memory-bank/developmentGuide.md' },
+          { source: 'rules.txt', destination: '.cursorrules' },
+        ],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Guide is missing file declared in guide.json: rules.txt');
+      expect(mockedFs.existsSync).not.toHaveBeenCalledWith(
+        path.join('/path/to/guide', 'developmentGuide.md')
+      );
+    });
+
+    it('should only need the fragments of a guide that extends another guide', () => {
+      mockedFs.existsSync.mockImplementation(
+        (filePath) => filePath.toString() !== path.join('/path/to/guide', 'testing.md')
+      );
+
+      expect(validateGuideStructure('/path/to/guide', { extends: 'web' })).toEqual({ isValid: true });
+      expect(mockedFs.existsSync).not.toHaveBeenCalledWith(path.join('/path/to/guide', 'developmentGuide.md'));
+      expect(
+        validateGuideStructure('/path/to/guide', {
+          extends: 'web',
+          fragments: [{ source: 'testing.md', mode: 'append' }],
+        }).error
+      ).toBe('Guide is missing fragment declared in guide.json: testing.md');
+    });
+
     it('should handle file system errors gracefully', () => {
       mockedFs.existsSync.mockImplementation(() => {
         throw new Error('Permission denied');
@@ -133,6 +169,194 @@ describe('Validation Utilities', () => {
     });
   });
 
+  describe('validateGuideManifest', () => {
+    it('should accept a complete manifest', () => {
+      const result = validateGuideManifest({
+        id: 'company-react',
+        displayName: 'Company React',
+        version: '1.2.0',
+        author: 'Platform Team',
+        tags: ['react', 'frontend'],
+        files: [
+          { source: 'guide.md', destination: '.memory-bank/developmentGuide.md' },
+        ],
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should accept an empty manifest', () => {
+      expect(validateGuideManifest({}).isValid).toBe(true);
+    });
+
+    it('should reject values that are not objects', () => {
+      expect(validateGuideManifest([]).error).toBe('Manifest must be a JSON object');
+      expect(validateGuideManifest('guide').error).toBe('Manifest must be a JSON object');
+    });
+
+    it('should reject empty or non-string metadata fields', () => {
+      expect(validateGuideManifest({ version: '' }).error).toBe(
+        "Field 'version' must be a non-empty string"
+      );
+      expect(validateGuideManifest({ author: 42 }).error).toBe(
+        "Field 'author' must be a non-empty string"
+      );
+      expect(validateGuideManifest({ tags: ['ok', 1] }).error).toBe(
+        "Field 'tags' must be an array of strings"
+      );
+    });
+
+    it('should validate include, exclude and mappings', () => {
+      expect(
+        validateGuideManifest({
+          include: ['**/*'],
+          exclude: ['drafts/**'],
+          mappings: [{ from: 'memory/', to: '.memory-bank/' }],
+        }).isValid
+      ).toBe(true);
+      expect(validateGuideManifest({ include: [] }).error).toBe(
+        "Field 'include' must be a non-empty array of glob patterns"
+      );
+      expect(validateGuideManifest({ exclude: [''] }).error).toBe(
+        "Field 'exclude' must be a non-empty array of glob patterns"
+      );
+      expect(validateGuideManifest({ mappings: [{ from: 'memory/' }] }).error).toBe(
+        "Mapping 0 is missing 'to'"
+      );
+      expect(
+        validateGuideManifest({ mappings: [{ from: 'memory/', to: '../elsewhere/' }] }).error
+      ).toBe('Mapping 0 has an invalid to: ../elsewhere/');
+    });
+
+    it('should validate template variable declarations', () => {
+      expect(
+        validateGuideManifest({
+          variables: [{ name: 'team', prompt: 'Which team owns this project?', default: 'Platform' }],
+        }).isValid
+      ).toBe(true);
+      expect(validateGuideManifest({ variables: {} }).error).toBe("Field 'variables' must be an array");
+      expect(validateGuideManifest({ variables: [{ name: 'my team' }] }).error).toBe(
+        "Variable 0 must have a name made of letters, digits, '_', '.' or '-'"
+      );
+      expect(validateGuideManifest({ variables: [{ name: 'team', prompt: '' }] }).error).toBe(
+        "Variable 'team' has an invalid prompt"
+      );
+      expect(validateGuideManifest({ variables: [{ name: 'team', default: 1 }] }).error).toBe(
+        "Variable 'team' has a default that is not a string"
+      );
+    });
+
+    it('should validate detection rules', () => {
+      expect(
+        validateGuideManifest({
+          detection: {
+            files: ['nest-cli.json'],
+            packages: ['@nestjs/*'],
+            contents: [{ file: 'package.json', text: '"@nestjs/core"' }],
+          },
+        }).isValid
+      ).toBe(true);
+      expect(validateGuideManifest({ detection: [] }).error).toBe("Field 'detection' must be an object");
+      expect(validateGuideManifest({ detection: { packages: 'react' } }).error).toBe(
+        "Field 'detection.packages' must be an array of patterns"
+      );
+      expect(
+        validateGuideManifest({ detection: { contents: [{ file: '../pom.xml', text: 'spring' }] } }).error
+      ).toBe('Content rule 0 has an invalid file');
+      expect(validateGuideManifest({ detection: { contents: [{ file: 'pom.xml' }] } }).error).toBe(
+        'Content rule 0 must have non-empty text'
+      );
+    });
+
+    it('should reject invalid file entries', () => {
+      expect(validateGuideManifest({ files: [] }).error).toBe(
+        "Field 'files' must be a non-empty array"
+      );
+      expect(validateGuideManifest({ files: [{ source: 'a.md' }] }).error).toBe(
+        "File entry 0 is missing 'destination'"
+      );
+      expect(
+        validateGuideManifest({
+          files: [{ source: 'a.md', destination: '../outside.md' }],
+        }).error
+      ).toBe('File entry 0 has an invalid destination: ../outside.md');
+      expect(
+        validateGuideManifest({
+          files: [{ source: '/etc/passwd', destination: 'a.md' }],
+        }).error
+      ).toBe('File entry 0 has an invalid source: /etc/passwd');
+    });
+
+    it('should validate the base guide and fragments', () => {
+      expect(
+        validateGuideManifest({
+          extends: 'web',
+          fragments: [
+            { source: 'rules.md', mode: 'append' },
+            { source: 'testing.md', target: 'developmentGuide.md', mode: 'replace', heading: '## Testing' },
+          ],
+        })
+      ).toEqual({ isValid: true });
+      expect(validateGuideManifest({ extends: '' }).error).toBe("Field 'extends' must be a non-empty string");
+      expect(validateGuideManifest({ fragments: [] }).error).toBe(
+        "Field 'fragments' requires 'extends' to name a base guide"
+      );
+      expect(validateGuideManifest({ extends: 'web', fragments: {} }).error).toBe("Field 'fragments' must be an array");
+      expect(validateGuideManifest({ extends: 'web', fragments: ['rules.md'] }).error).toBe(
+        'Fragment 0 must be an object'
+      );
+      expect(validateGuideManifest({ extends: 'web', fragments: [{ mode: 'append' }] }).error).toBe(
+        "Fragment 0 is missing 'source'"
+      );
+      expect(
+        validateGuideManifest({ extends: 'web', fragments: [{ source: 'a.md', target: '../b.md', mode: 'append' }] })
+          .error
+      ).toBe('Fragment 0 has an invalid target: ../b.md');
+      expect(validateGuideManifest({ extends: 'web', fragments: [{ source: 'a.md', mode: 'insert' }] }).error).toBe(
+        'Fragment 0 has an invalid mode: insert. Expected one of: append, prepend, replace'
+      );
+      expect(
+        validateGuideManifest({ extends: 'web', fragments: [{ source: 'a.md', mode: 'replace', heading: ' ' }] }).error
+      ).toBe('Fragment 0 has an invalid heading');
+    });
+  });
+
+  describe('validateInstallLockfile', () => {
+    const lockfile = {
+      lockfileVersion: 1,
+      guide: { id: 'web', type: 'built-in', sourcePath: '/guides/Web', contentHash: 'a'.repeat(64) },
+      files: [{ path: '.memory-bank/developmentGuide.md', sha256: 'b'.repeat(64), installedAt: '2026-03-01T12:00:00.000Z' }],
+      installedAt: '2026-03-01T12:00:00.000Z',
+      updatedAt: '2026-03-01T12:00:00.000Z',
+    };
+
+    it('should accept a complete lockfile', () => {
+      expect(validateInstallLockfile(lockfile)).toEqual({ isValid: true });
+    });
+
+    it('should reject lockfiles with missing or invalid fields', () => {
+      expect(validateInstallLockfile([]).error).toBe('Lockfile must be a JSON object');
+      expect(validateInstallLockfile({ ...lockfile, lockfileVersion: '1' }).error).toBe(
+        "Field 'lockfileVersion' must be a positive integer"
+      );
+      expect(validateInstallLockfile({ ...lockfile, guide: { ...lockfile.guide, id: '' } }).error).toBe(
+        "Field 'guide.id' must be a non-empty string"
+      );
+      expect(validateInstallLockfile({ ...lockfile, updatedAt: 1 }).error).toBe(
+        "Field 'updatedAt' must be a timestamp"
+      );
+    });
+
+    it('should reject file entries with unsafe paths or invalid hashes', () => {
+      expect(
+        validateInstallLockfile({ ...lockfile, files: [{ ...lockfile.files[0], path: '../outside.md' }] }).error
+      ).toBe('File entry 0 has an invalid path');
+      expect(
+        validateInstallLockfile({ ...lockfile, files: [{ ...lockfile.files[0], sha256: 'abc' }] }).error
+      ).toBe('File entry 0 has an invalid sha256');
+    });
+  });
+
   describe('validateConfiguration', () => {
     it('should validate a correct configuration', () => {
       const config: CustomGuideConfig = {
@@ -251,7 +475,7 @@ describe('Validation Utilities', () => {
       const result = validateConfiguration(config);
 
       expect(result.isValid).toBe(false);
-      expect(result.error).toContain('Menu item \'test-guide\' has empty folder path');
+      expect(result.error).toContain('/menuItems/0/folderPath: Menu item has empty folder path');
     });
 
     it('should reject configuration with menu items having non-existent folder paths', () => {
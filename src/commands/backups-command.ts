@@ -0,0 +1,253 @@
+import * as path from 'path';
+import { ConfigurationManager } from '../config/configuration-manager';
+import { BackupService } from '../services/backup-service';
+import { FileCopyService } from '../services/file-copy-service';
+import {
+  BackupEntry,
+  BackupSettings,
+  BackupsReport,
+  CliOptions,
+} from '../config/types';
+import { CliError, ExitCode } from '../utils/errors';
+import { toLockfilePath } from '../utils/install-lockfile';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command for listing, restoring and pruning backups of overwritten files
+ */
+export class BackupsCommand {
+  private configManager: ConfigurationManager;
+  private fileCopyService: FileCopyService;
+  private backupService: BackupService;
+
+  constructor(configDir?: string) {
+    this.configManager = new ConfigurationManager(configDir);
+    this.fileCopyService = new FileCopyService();
+    this.backupService = new BackupService();
+  }
+
+  /**
+   * Run the backups command and return its report
+   *
+   * Errors are reported on the console (or in the JSON report) and reflected
+   * in the report's exit code instead of being thrown.
+   */
+  async run(options: CliOptions): Promise<BackupsReport> {
+    const logger = new Logger(options.json);
+    const report: BackupsReport = {
+      status: 'success',
+      exitCode: ExitCode.Success,
+      action: options.restore ? 'restore' : options.prune ? 'prune' : 'list',
+      backups: [],
+    };
+
+    try {
+      const targetDir = options.target
+        ? path.resolve(options.target)
+        : process.cwd();
+      report.targetDir = targetDir;
+
+      const targetValidation =
+        this.fileCopyService.validateTargetDirectory(targetDir);
+      if (!targetValidation.isValid) {
+        throw new CliError(
+          targetValidation.error || 'Target directory validation failed',
+          ExitCode.InvalidTarget
+        );
+      }
+
+      const settings = this.loadBackupSettings(targetDir);
+      report.backups = this.backupService.listBackups(targetDir);
+
+      if (options.restore) {
+        this.restore(targetDir, options.restore, settings, report, options);
+      } else if (options.prune) {
+        this.prune(targetDir, settings, report, options);
+      } else {
+        this.list(targetDir, report.backups, logger);
+      }
+
+      return this.finish(report, options);
+    } catch (error) {
+      report.status = 'failed';
+      report.exitCode =
+        error instanceof CliError ? error.exitCode : ExitCode.GeneralError;
+      report.error = error instanceof Error ? error.message : String(error);
+
+      if (!options.json) {
+        console.error('\n❌ Error:', report.error);
+      }
+      return this.finish(report, options);
+    }
+  }
+
+  /**
+   * Print every backup, grouped by the file it belongs to
+   */
+  private list(
+    targetDir: string,
+    backups: BackupEntry[],
+    logger: Logger
+  ): void {
+    if (backups.length === 0) {
+      logger.info(`ℹ️  No backups found in ${targetDir}`);
+      return;
+    }
+
+    logger.info(`💾 Backups in ${targetDir}`);
+    let file: string | undefined;
+    backups.forEach((backup) => {
+      if (backup.file !== file) {
+        file = backup.file;
+        logger.info(`\n${file}`);
+      }
+      logger.info(`   ${formatBackup(backup)}`);
+    });
+  }
+
+  /**
+   * Restore the requested backup, or the latest backup of the requested file
+   */
+  private restore(
+    targetDir: string,
+    requested: string,
+    settings: BackupSettings | undefined,
+    report: BackupsReport,
+    options: CliOptions
+  ): void {
+    const logger = new Logger(options.json);
+    const requestedPath = toLockfilePath(
+      path.relative(targetDir, path.resolve(targetDir, requested))
+    );
+    const backup =
+      report.backups.find((entry) => entry.path === requestedPath) ||
+      report.backups.find((entry) => entry.file === requestedPath);
+    if (!backup) {
+      throw new CliError(
+        `No backup found for ${requestedPath}. Run "init-memory-bank backups" to list them.`,
+        ExitCode.BackupNotFound
+      );
+    }
+    report.restored = backup;
+
+    logger.info(`~ restore  ${backup.file} from ${backup.path}`);
+    if (options.dryRun) {
+      report.status = 'dry-run';
+      logger.info('\n🔎 Dry run: no files were changed.');
+      return;
+    }
+
+    const result = this.backupService.restoreBackup(
+      targetDir,
+      backup,
+      settings
+    );
+    if (!result.success) {
+      throw new CliError(
+        result.error || `Failed to restore ${backup.file}`,
+        ExitCode.CopyFailed
+      );
+    }
+
+    if (result.backupPath) {
+      report.backupPath = toLockfilePath(
+        path.relative(targetDir, result.backupPath)
+      );
+      logger.info(`   💾 Saved the current file as ${report.backupPath}`);
+    }
+    logger.info(`\n✅ Restored ${backup.file}.`);
+  }
+
+  /**
+   * Remove the backups outside the retention policy
+   *
+   * --keep and --older-than replace the configured policy when either is
+   * given.
+   */
+  private prune(
+    targetDir: string,
+    settings: BackupSettings | undefined,
+    report: BackupsReport,
+    options: CliOptions
+  ): void {
+    const logger = new Logger(options.json);
+    const policy: BackupSettings =
+      options.keep !== undefined || options.olderThan !== undefined
+        ? { keep: options.keep, maxAgeDays: options.olderThan }
+        : { keep: settings?.keep, maxAgeDays: settings?.maxAgeDays };
+    if (policy.keep === undefined && policy.maxAgeDays === undefined) {
+      throw new CliError(
+        'No retention policy to prune with. Use --keep or --older-than, or set backups.keep or backups.maxAgeDays in the configuration.',
+        ExitCode.InvalidArguments
+      );
+    }
+
+    const removed = this.backupService.planPrune(report.backups, policy);
+    report.removed = removed;
+    if (removed.length === 0) {
+      logger.info('✅ No backups to remove.');
+      return;
+    }
+
+    removed.forEach((backup) => {
+      logger.info(`- remove   ${formatBackup(backup)}`);
+    });
+    if (options.dryRun) {
+      report.status = 'dry-run';
+      logger.info('\n🔎 Dry run: no files were changed.');
+      return;
+    }
+
+    const failures = this.backupService
+      .removeBackups(targetDir, removed)
+      .filter((result) => !result.success);
+    if (failures.length > 0) {
+      logger.error('\n❌ Some backups could not be removed:');
+      failures.forEach((result) => logger.error(`   - ${result.error}`));
+      throw new CliError(
+        'Failed to remove some backups. See error details above.',
+        ExitCode.CopyFailed
+      );
+    }
+
+    logger.info(
+      `\n🧹 Removed ${removed.length} backup${removed.length === 1 ? '' : 's'}.`
+    );
+  }
+
+  /**
+   * Read the backup settings from the configuration
+   *
+   * A configuration that cannot be loaded or fails validation contributes
+   * no settings, so a broken policy never removes backups.
+   */
+  private loadBackupSettings(targetDir: string): BackupSettings | undefined {
+    try {
+      const { config } = this.configManager.loadResolvedConfig({
+        cwd: targetDir,
+      });
+      return this.configManager.validateConfig(config).isValid
+        ? config.backups
+        : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Print the JSON report when requested and hand the report back
+   */
+  private finish(report: BackupsReport, options: CliOptions): BackupsReport {
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    }
+    return report;
+  }
+}
+
+/**
+ * Describe one backup for console output
+ */
+function formatBackup(backup: BackupEntry): string {
+  return `${backup.path} (${new Date(backup.timestamp).toISOString()})`;
+}
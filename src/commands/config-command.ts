@@ -0,0 +1,153 @@
+import * as path from 'path';
+import { readCliLayers } from '../config/config-layers';
+import { describeConfigLocation } from '../config/config-location';
+import { ConfigurationManager } from '../config/configuration-manager';
+import {
+  CliOptions,
+  ConfigLayer,
+  ConfigReport,
+  ConfigValueSource,
+  ResolvedConfig,
+  ResolvedConfigValue,
+} from '../config/types';
+import { ExitCode } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command for showing the configuration and where its values come from
+ */
+export class ConfigCommand {
+  private configManager: ConfigurationManager;
+
+  constructor(configDir?: string) {
+    this.configManager = new ConfigurationManager(configDir);
+  }
+
+  /**
+   * Run the config command and return its report
+   *
+   * Without --resolved every layer is shown with the values it sets; with
+   * --resolved each effective value is shown with the layer it came from.
+   * Errors are reported on the console (or in the JSON report) and
+   * reflected in the report's exit code instead of being thrown.
+   */
+  run(options: CliOptions): ConfigReport {
+    const logger = new Logger(options.json);
+    const targetDir = options.target
+      ? path.resolve(options.target)
+      : process.cwd();
+    const report: ConfigReport = {
+      status: 'success',
+      exitCode: ExitCode.Success,
+      targetDir,
+    };
+
+    try {
+      report.configLocation = this.configManager.getConfigLocation();
+      const resolved = this.configManager.loadResolvedConfig({
+        cwd: targetDir,
+        cliLayers: readCliLayers(options),
+      });
+
+      if (options.resolved) {
+        report.config = resolved.config;
+        report.values = listResolvedValues(resolved);
+        this.printValues(targetDir, report.values, logger);
+      } else {
+        report.layers = resolved.layers;
+        this.printLayers(targetDir, resolved.layers, logger);
+      }
+
+      return this.finish(report, options);
+    } catch (error) {
+      report.status = 'failed';
+      report.exitCode = ExitCode.GeneralError;
+      report.error = error instanceof Error ? error.message : String(error);
+
+      if (!options.json) {
+        console.error('\n❌ Error:', report.error);
+      }
+      return this.finish(report, options);
+    }
+  }
+
+  /**
+   * Print every layer and the values it sets, lowest precedence first
+   */
+  private printLayers(
+    targetDir: string,
+    layers: ConfigLayer[],
+    logger: Logger
+  ): void {
+    logger.info(`⚙️  Configuration layers for ${targetDir}`);
+    logger.info(
+      `   Global configuration directory: ${describeConfigLocation(this.configManager.getConfigLocation())}`
+    );
+    logger.info('   Later layers override earlier ones.');
+    layers.forEach((layer) => {
+      logger.info(`\n${describeSource(layer)}`);
+      JSON.stringify(layer.values, null, 2)
+        .split('\n')
+        .forEach((line) => logger.info(`   ${line}`));
+    });
+  }
+
+  /**
+   * Print each effective value as an aligned table with its source
+   */
+  private printValues(
+    targetDir: string,
+    values: ResolvedConfigValue[],
+    logger: Logger
+  ): void {
+    logger.info(`⚙️  Resolved configuration for ${targetDir}\n`);
+    const rows = values.map((value) => [
+      value.name,
+      JSON.stringify(value.value),
+      describeSource(value),
+    ]);
+    const widths = [0, 1].map((column) =>
+      Math.max(...rows.map((row) => row[column].length))
+    );
+    rows.forEach((row) => {
+      logger.info(
+        `${row[0].padEnd(widths[0])}  ${row[1].padEnd(widths[1])}  (${row[2]})`
+      );
+    });
+  }
+
+  /**
+   * Print the JSON report when requested and hand the report back
+   */
+  private finish(report: ConfigReport, options: CliOptions): ConfigReport {
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    }
+    return report;
+  }
+}
+
+/**
+ * List every effective value with its source, sorted by name
+ */
+function listResolvedValues(resolved: ResolvedConfig): ResolvedConfigValue[] {
+  return Object.keys(resolved.sources)
+    .sort()
+    .map((name) => ({
+      name,
+      value: name
+        .split('.')
+        .reduce<unknown>(
+          (value, key) => (value as Record<string, unknown>)[key],
+          resolved.config
+        ),
+      ...resolved.sources[name],
+    }));
+}
+
+/**
+ * Describe a layer such as "project: /repo/.memorybankrc.json"
+ */
+function describeSource(source: ConfigValueSource): string {
+  return source.origin ? `${source.source}: ${source.origin}` : source.source;
+}
@@ -1,4 +1,7 @@
+import { describeConfigLocation } from '../config/config-location';
+import { ConfigVersionError } from '../config/config-migrations';
 import { ConfigurationManager } from '../config/configuration-manager';
+import { getGuideSourceLocation } from '../config/guide-sources';
 import { CustomGuideConfig, CustomMenuItem } from '../config/types';
 
 /**
@@ -7,8 +10,8 @@ import { CustomGuideConfig, CustomMenuItem } from '../config/types';
 export class ConfigureCommand {
   private configManager: ConfigurationManager;
 
-  constructor() {
-    this.configManager = new ConfigurationManager();
+  constructor(configDir?: string) {
+    this.configManager = new ConfigurationManager(configDir);
   }
 
   /**
@@ -17,14 +20,41 @@ export class ConfigureCommand {
   async run(): Promise<void> {
     try {
       const config = await this.configManager.loadConfig();
+      this.showMigration();
       await this.showMainMenu(config);
     } catch (error) {
+      // Editing defaults would overwrite the newer configuration on save
+      if (error instanceof ConfigVersionError) {
+        throw error;
+      }
       console.error('Error loading configuration:', error);
       const defaultConfig = this.configManager.getDefaultConfig();
       await this.showMainMenu(defaultConfig);
     }
   }
 
+  /**
+   * Tell the user when loading the configuration migrated it
+   */
+  private showMigration(): void {
+    const migration = this.configManager.getLastMigration();
+    if (!migration) {
+      return;
+    }
+
+    console.log(
+      `🔄 Migrated the configuration from version ${migration.fromVersion} to ${migration.toVersion}:`
+    );
+    migration.changes.forEach((change) => console.log(`   - ${change}`));
+    if (migration.backupPath) {
+      console.log(`   Previous version saved as ${migration.backupPath}`);
+    }
+    if (migration.error) {
+      console.log(`⚠️  ${migration.error}`);
+    }
+    console.log('');
+  }
+
   /**
    * Show the main configuration menu
    */
@@ -294,7 +324,15 @@ export class ConfigureCommand {
    */
   private async showCurrentConfig(config: CustomGuideConfig): Promise<void> {
     console.log('Current Configuration:');
+    console.log(
+      `Configuration Directory: ${describeConfigLocation(this.configManager.getConfigLocation())}`
+    );
     console.log(`Custom Guides Folder: ${config.customGuidesFolder}`);
+    (config.guideSources || []).forEach((source) => {
+      console.log(
+        `Guide Source: ${source.label} (${getGuideSourceLocation(source)}${source.ref ? `#${source.ref}` : ''}, priority ${source.priority ?? 0})`
+      );
+    });
     console.log('Menu Items:');
 
     if (config.menuItems.length === 0) {
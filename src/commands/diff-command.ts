@@ -0,0 +1,258 @@
+import * as path from 'path';
+import { readCliLayers } from '../config/config-layers';
+import { ConfigVersionError } from '../config/config-migrations';
+import { ConfigurationManager } from '../config/configuration-manager';
+import { GuideDiscoveryService } from '../services/guide-discovery-service';
+import { FileCopyService } from '../services/file-copy-service';
+import { GuideDiffService } from '../services/guide-diff-service';
+import {
+  CliOptions,
+  CustomGuideConfig,
+  DiffReport,
+  FileDiff,
+  FileDiffStatus,
+  GuideInfo,
+  InstallLockfile,
+} from '../config/types';
+import { CliError, ExitCode } from '../utils/errors';
+import { readInstallLockfile } from '../utils/install-lockfile';
+import { Logger } from '../utils/logger';
+import { detectProjectVariables } from '../utils/project-variables';
+
+/**
+ * Exit code for --exit-code when the project differs from the guide,
+ * matching `git diff --exit-code`
+ */
+const DRIFT_EXIT_CODE = 1;
+
+const DIFF_MARKERS: Record<FileDiffStatus, string> = {
+  identical: '= identical',
+  modified: '~ modified ',
+  missing: '- missing  ',
+};
+
+/**
+ * Command for showing how a project's memory bank drifted from its guide
+ */
+export class DiffCommand {
+  private configManager: ConfigurationManager;
+  private guideDiscoveryService: GuideDiscoveryService;
+  private fileCopyService: FileCopyService;
+  private guideDiffService: GuideDiffService;
+
+  constructor(configDir?: string) {
+    this.configManager = new ConfigurationManager(configDir);
+    this.guideDiscoveryService = new GuideDiscoveryService(true, configDir);
+    this.fileCopyService = new FileCopyService();
+    this.guideDiffService = new GuideDiffService();
+  }
+
+  /**
+   * Run the diff command and return its report
+   *
+   * Errors are reported on the console (or in the JSON report) and reflected
+   * in the report's exit code instead of being thrown. Drift only changes
+   * the exit code when --exit-code is given.
+   */
+  async run(options: CliOptions): Promise<DiffReport> {
+    const logger = new Logger(options.json);
+    const report: DiffReport = {
+      status: 'identical',
+      exitCode: ExitCode.Success,
+      files: [],
+    };
+
+    try {
+      const targetDir = options.target
+        ? path.resolve(options.target)
+        : process.cwd();
+      report.targetDir = targetDir;
+
+      const targetValidation =
+        this.fileCopyService.validateTargetDirectory(targetDir);
+      if (!targetValidation.isValid) {
+        throw new CliError(
+          targetValidation.error || 'Target directory validation failed',
+          ExitCode.InvalidTarget
+        );
+      }
+
+      const { lockfile, error } = readInstallLockfile(targetDir);
+      if (error && !options.guide) {
+        throw new CliError(error, ExitCode.NotInstalled);
+      }
+
+      const guideId = options.guide || lockfile?.guide.id;
+      if (!guideId) {
+        throw new CliError(
+          'No installed guide found. Use --guide to choose the guide to compare against.',
+          ExitCode.NotInstalled
+        );
+      }
+
+      const guide = this.findGuide(guideId, targetDir, options);
+      report.guide = guide.id;
+      const variables = this.resolveVariables(
+        guide,
+        targetDir,
+        lockfile?.guide.id === guide.id ? lockfile : undefined,
+        options
+      );
+
+      logger.info(
+        `🔍 Comparing ${targetDir} with ${guide.displayName} (${guide.id})\n`
+      );
+
+      report.files = this.guideDiffService.compareGuide(
+        guide,
+        targetDir,
+        variables
+      );
+
+      const drifted = report.files.filter(
+        (file) => file.status !== 'identical'
+      );
+      if (options.summary) {
+        report.files.forEach((file) =>
+          logger.info(`   ${DIFF_MARKERS[file.status]} ${formatSummary(file)}`)
+        );
+      } else {
+        drifted.forEach((file) => logger.info(file.diff));
+      }
+
+      if (drifted.length === 0) {
+        logger.info(
+          `${options.summary ? '\n' : ''}✅ The memory bank matches the guide.`
+        );
+        return this.finish(report, options);
+      }
+
+      logger.info(
+        `\n📊 ${drifted.length} of ${report.files.length} file${report.files.length === 1 ? '' : 's'} differ from the guide.`
+      );
+      report.status = 'drift';
+      if (options.exitCode) {
+        report.exitCode = DRIFT_EXIT_CODE;
+      }
+      return this.finish(report, options);
+    } catch (error) {
+      report.status = 'failed';
+      report.exitCode =
+        error instanceof CliError ? error.exitCode : ExitCode.GeneralError;
+      report.error = error instanceof Error ? error.message : String(error);
+
+      if (!options.json) {
+        console.error('\n❌ Error:', report.error);
+      }
+      return this.finish(report, options);
+    }
+  }
+
+  /**
+   * Find the guide to compare against among the available guides
+   */
+  private findGuide(
+    guideId: string,
+    targetDir: string,
+    options: CliOptions
+  ): GuideInfo {
+    const guides = this.guideDiscoveryService.getAllGuides(
+      this.loadConfig(targetDir, options),
+      targetDir
+    );
+    const guide = this.guideDiscoveryService.findGuideById(guides, guideId);
+    if (!guide) {
+      throw new CliError(
+        `Guide '${guideId}' is not available. Available guides: ${guides
+          .map((available) => available.id)
+          .join(', ')}`,
+        ExitCode.GuideNotFound
+      );
+    }
+
+    // Guides that extend another guide are composed from the available guides
+    this.fileCopyService.setAvailableGuides(guides);
+    this.guideDiffService.setAvailableGuides(guides);
+    const composition = this.fileCopyService.validateComposition(guide);
+    if (!composition.isValid) {
+      throw new CliError(
+        composition.error || 'Guide composition failed',
+        ExitCode.GuideCompositionFailed
+      );
+    }
+    return guide;
+  }
+
+  /**
+   * Collect template variable values for a guide that declares variables
+   *
+   * Values recorded at install time win over detected values and guide
+   * defaults, so files render the way they were installed.
+   */
+  private resolveVariables(
+    guide: GuideInfo,
+    targetDir: string,
+    lockfile: InstallLockfile | undefined,
+    options: CliOptions
+  ): Record<string, string> | undefined {
+    const declared = guide.manifest?.variables;
+    if (!declared) {
+      return undefined;
+    }
+
+    const defaults: Record<string, string> = {};
+    declared.forEach((variable) => {
+      if (variable.default !== undefined) {
+        defaults[variable.name] = variable.default;
+      }
+    });
+
+    return {
+      ...defaults,
+      ...detectProjectVariables(targetDir),
+      ...lockfile?.variables,
+      ...options.vars,
+    };
+  }
+
+  /**
+   * Print the JSON report when requested and hand the report back
+   */
+  private finish(report: DiffReport, options: CliOptions): DiffReport {
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    }
+    return report;
+  }
+
+  /**
+   * Load the configuration for the target project, falling back to
+   * defaults so built-in guides still compare, but not past a configuration
+   * written by a newer CLI
+   */
+  private loadConfig(
+    targetDir: string,
+    options: CliOptions
+  ): CustomGuideConfig {
+    try {
+      return this.configManager.loadResolvedConfig({
+        cwd: targetDir,
+        cliLayers: readCliLayers(options),
+      }).config;
+    } catch (error) {
+      if (error instanceof ConfigVersionError) {
+        throw error;
+      }
+      return this.configManager.getDefaultConfig();
+    }
+  }
+}
+
+/**
+ * Describe one file for summary output, with its changed line counts
+ */
+function formatSummary(file: FileDiff): string {
+  return file.status === 'modified'
+    ? `${file.path} (+${file.added} -${file.removed})`
+    : file.path;
+}
@@ -0,0 +1,123 @@
+import * as path from 'path';
+import { DiagnosticsService } from '../services/diagnostics-service';
+import {
+  CliOptions,
+  DiagnosticCheck,
+  DiagnosticFinding,
+  DoctorReport,
+} from '../config/types';
+import { ExitCode } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+const CHECK_TITLES: Record<DiagnosticCheck, string> = {
+  config: 'Configuration',
+  'backup-config': 'Backup configuration',
+  'guides-folder': 'Custom guides folder',
+  'guide-structure': 'Guide structure',
+  'menu-items': 'Menu items',
+  'duplicate-ids': 'Guide ids',
+  'cursor-rules': 'Built-in .cursorrules',
+  target: 'Target directory',
+};
+
+const SEVERITY_ICONS: Record<DiagnosticFinding['severity'], string> = {
+  ok: '✅',
+  warning: '⚠️ ',
+  error: '❌',
+};
+
+/**
+ * Command for diagnosing the configuration, the guides and a project
+ */
+export class DoctorCommand {
+  private diagnosticsService: DiagnosticsService;
+
+  constructor(configDir?: string) {
+    this.diagnosticsService = new DiagnosticsService(configDir);
+  }
+
+  /**
+   * Run every check, print the findings and return the report
+   *
+   * Warnings keep the exit code at 0; any error exits with ChecksFailed.
+   */
+  run(options: CliOptions): DoctorReport {
+    const logger = new Logger(options.json);
+    const targetDir = options.target
+      ? path.resolve(options.target)
+      : process.cwd();
+
+    const findings = this.diagnosticsService.runChecks(targetDir);
+    const errors = findings.filter((finding) => finding.severity === 'error');
+    const warnings = findings.filter(
+      (finding) => finding.severity === 'warning'
+    );
+    const report: DoctorReport = {
+      status:
+        errors.length > 0
+          ? 'errors'
+          : warnings.length > 0
+            ? 'warnings'
+            : 'healthy',
+      exitCode: errors.length > 0 ? ExitCode.ChecksFailed : ExitCode.Success,
+      findings,
+    };
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return report;
+    }
+
+    logger.info('🩺 Memory Bank doctor');
+    (Object.keys(CHECK_TITLES) as DiagnosticCheck[]).forEach((check) => {
+      const checkFindings = findings.filter(
+        (finding) => finding.check === check
+      );
+      if (checkFindings.length === 0) {
+        return;
+      }
+
+      logger.info(`\n${CHECK_TITLES[check]}`);
+      checkFindings.forEach((finding) => {
+        formatFinding(finding).forEach((line) => logger.info(line));
+      });
+    });
+
+    logger.info(
+      report.status === 'healthy'
+        ? '\n✅ No problems found.'
+        : `\n🩺 Found ${pluralize(errors.length, 'error')} and ${pluralize(warnings.length, 'warning')}.`
+    );
+    return report;
+  }
+}
+
+/**
+ * Format a finding as console lines, with its path and fix for problems
+ */
+function formatFinding(finding: DiagnosticFinding): string[] {
+  const icon = SEVERITY_ICONS[finding.severity];
+  if (finding.severity === 'ok') {
+    return [
+      finding.path
+        ? `   ${icon} ${finding.message} (${finding.path})`
+        : `   ${icon} ${finding.message}`,
+    ];
+  }
+
+  const lines = [`   ${icon} ${finding.message}`];
+  if (finding.path) {
+    lines.push(`      Path: ${finding.path}`);
+  }
+  if (finding.fix) {
+    lines.push(`      Fix:  ${finding.fix}`);
+  }
+  return lines;
+}
+
+/**
+ * Format a count with a singular or plural noun
+ */
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,137 @@
+import { readCliLayers } from '../config/config-layers';
+import { ConfigVersionError } from '../config/config-migrations';
+import { ConfigurationManager } from '../config/configuration-manager';
+import { GuideDiscoveryService } from '../services/guide-discovery-service';
+import { CliOptions, CustomGuideConfig, GuideListEntry } from '../config/types';
+
+/**
+ * Command for listing available development guides
+ */
+export class ListCommand {
+  private configManager: ConfigurationManager;
+  private guideDiscoveryService: GuideDiscoveryService;
+
+  constructor(configDir?: string) {
+    this.configManager = new ConfigurationManager(configDir);
+    this.guideDiscoveryService = new GuideDiscoveryService(true, configDir);
+  }
+
+  /**
+   * Run the list command and return the guides that were listed
+   */
+  run(options: CliOptions): GuideListEntry[] {
+    const entries = this.getEntries(options);
+    const format = options.format || 'table';
+
+    if (format === 'json') {
+      console.log(JSON.stringify(entries, null, 2));
+    } else if (format === 'ids') {
+      entries.forEach((entry) => console.log(entry.id));
+    } else {
+      this.printTable(entries);
+
+      const warnings = this.guideDiscoveryService.getWarnings();
+      if (warnings.length > 0) {
+        console.error('\n⚠️  Guide discovery warnings:');
+        warnings.forEach((warning) => console.error(`   - ${warning}`));
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Discover all guides and apply the type and category filters
+   */
+  getEntries(
+    options: Pick<CliOptions, 'type' | 'category' | 'guidesFolder'>
+  ): GuideListEntry[] {
+    const config = this.loadConfig(options);
+    const category = options.category?.toLowerCase();
+
+    return this.guideDiscoveryService
+      .getAllGuides(config)
+      .filter((guide) => !options.type || guide.type === options.type)
+      .filter(
+        (guide) => !category || guide.category?.toLowerCase() === category
+      )
+      .map((guide) => ({
+        id: guide.id,
+        displayName: guide.displayName,
+        type: guide.type,
+        category: guide.category,
+        description: guide.description,
+        folderPath: guide.folderPath,
+        hasCursorRules: guide.hasCursorRules,
+        accessible: this.guideDiscoveryService.isGuideAccessible(guide),
+        source: guide.source?.label,
+        package: guide.package?.name,
+        version: guide.version,
+      }));
+  }
+
+  /**
+   * Load the configuration for the working directory, falling back to
+   * defaults so built-in guides still list. A configuration written by a
+   * newer CLI is reported instead, since defaults would hide its guides
+   */
+  private loadConfig(
+    options: Pick<CliOptions, 'guidesFolder'>
+  ): CustomGuideConfig {
+    try {
+      return this.configManager.loadResolvedConfig({
+        cliLayers: readCliLayers(options),
+      }).config;
+    } catch (error) {
+      if (error instanceof ConfigVersionError) {
+        throw error;
+      }
+      return this.configManager.getDefaultConfig();
+    }
+  }
+
+  /**
+   * Print guides as an aligned table
+   */
+  private printTable(entries: GuideListEntry[]): void {
+    if (entries.length === 0) {
+      console.log('No guides found.');
+      return;
+    }
+
+    const rows = [
+      [
+        'ID',
+        'TYPE',
+        'CATEGORY',
+        'CURSORRULES',
+        'ACCESSIBLE',
+        'DESCRIPTION',
+        'PATH',
+      ],
+      ...entries.map((entry) => [
+        entry.id,
+        entry.type,
+        entry.category || '-',
+        entry.hasCursorRules ? 'yes' : 'no',
+        entry.accessible ? 'yes' : 'no',
+        entry.description || '-',
+        entry.folderPath,
+      ]),
+    ];
+
+    const widths = rows[0].map((_, column) =>
+      Math.max(...rows.map((row) => row[column].length))
+    );
+
+    rows.forEach((row) => {
+      console.log(
+        row
+          .map((cell, column) =>
+            column === row.length - 1 ? cell : cell.padEnd(widths[column])
+          )
+          .join('  ')
+      );
+    });
+  }
+}
@@ -0,0 +1,175 @@
+import * as path from 'path';
+import { ConfigurationManager } from '../config/configuration-manager';
+import {
+  getGuideSourceKind,
+  resolveGuideSources,
+} from '../config/guide-sources';
+import {
+  CliOptions,
+  GuideSource,
+  GuideSourceStatus,
+  SourcesReport,
+} from '../config/types';
+import { GuideSourceService } from '../services/guide-source-service';
+import { CliError, ExitCode } from '../utils/errors';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command for listing guide sources and refreshing the cached git and
+ * archive sources
+ */
+export class SourcesCommand {
+  private configManager: ConfigurationManager;
+  private guideSourceService: GuideSourceService;
+
+  constructor(configDir?: string) {
+    this.configManager = new ConfigurationManager(configDir);
+    this.guideSourceService = new GuideSourceService(configDir);
+  }
+
+  /**
+   * Run the sources command and return its report
+   *
+   * Refreshing continues past a source that fails so the others are still
+   * updated; the run then fails with SourceFetchFailed. Errors are reported
+   * on the console (or in the JSON report) and reflected in the report's
+   * exit code instead of being thrown.
+   */
+  run(options: CliOptions): SourcesReport {
+    const logger = new Logger(options.json);
+    const action = options.sourcesAction || 'list';
+    const targetDir = options.target
+      ? path.resolve(options.target)
+      : process.cwd();
+    const report: SourcesReport = {
+      status: 'success',
+      exitCode: ExitCode.Success,
+      action,
+      targetDir,
+      sources: [],
+    };
+
+    try {
+      const config = this.configManager.loadResolvedConfig({
+        cwd: targetDir,
+      }).config;
+      const sources = resolveGuideSources(config);
+
+      if (action === 'refresh') {
+        report.sources = this.refresh(
+          selectSources(sources, options.source),
+          logger
+        );
+        const failed = report.sources.filter((status) => status.error);
+        if (failed.length > 0) {
+          throw new CliError(
+            `${failed.length} guide source(s) could not be refreshed`,
+            ExitCode.SourceFetchFailed
+          );
+        }
+      } else {
+        report.sources = sources.map((source) =>
+          this.guideSourceService.getStatus(source)
+        );
+        this.printSources(report.sources, logger);
+      }
+
+      return this.finish(report, options);
+    } catch (error) {
+      report.status = 'failed';
+      report.exitCode =
+        error instanceof CliError ? error.exitCode : ExitCode.GeneralError;
+      report.error = error instanceof Error ? error.message : String(error);
+
+      if (!options.json) {
+        console.error('\n❌ Error:', report.error);
+      }
+      return this.finish(report, options);
+    }
+  }
+
+  /**
+   * Fetch every git and archive source again, recording failures in their
+   * status instead of stopping
+   */
+  private refresh(sources: GuideSource[], logger: Logger): GuideSourceStatus[] {
+    const fetched = sources.filter(
+      (source) => getGuideSourceKind(source) !== 'path'
+    );
+    if (fetched.length === 0) {
+      logger.info('ℹ️  No git or archive guide sources to refresh');
+    }
+
+    return fetched.map((source) => {
+      logger.info(`🔄 Refreshing ${source.label}...`);
+      try {
+        this.guideSourceService.refresh(source);
+        const status = this.guideSourceService.getStatus(source);
+        status.refreshed = true;
+        logger.info(
+          `✅ ${source.label} is up to date${status.commit ? ` (${status.commit.slice(0, 12)})` : ''}`
+        );
+        return status;
+      } catch (error) {
+        const status = this.guideSourceService.getStatus(source);
+        status.refreshed = false;
+        status.error = error instanceof Error ? error.message : String(error);
+        logger.error(`❌ ${source.label}: ${status.error}`);
+        return status;
+      }
+    });
+  }
+
+  /**
+   * Print every source with where it comes from and its cache state
+   */
+  private printSources(sources: GuideSourceStatus[], logger: Logger): void {
+    logger.info('📚 Guide sources, highest precedence first:\n');
+    sources.forEach((source) => {
+      const ref = source.ref ? `#${source.ref}` : '';
+      logger.info(
+        `${source.label} (${source.kind}, priority ${source.priority})`
+      );
+      logger.info(`   Location: ${source.location}${ref}`);
+      if (source.kind === 'path') {
+        return;
+      }
+      if (source.cached) {
+        logger.info(`   Cached in: ${source.folder}`);
+        if (source.commit) {
+          logger.info(`   Commit: ${source.commit}`);
+        }
+      } else {
+        logger.info('   Not fetched yet');
+      }
+    });
+  }
+
+  /**
+   * Print the JSON report when requested and hand the report back
+   */
+  private finish(report: SourcesReport, options: CliOptions): SourcesReport {
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    }
+    return report;
+  }
+}
+
+/**
+ * Pick the source named by --source, or every source without it
+ */
+function selectSources(sources: GuideSource[], label?: string): GuideSource[] {
+  if (!label) {
+    return sources;
+  }
+
+  const source = sources.find((candidate) => candidate.label === label);
+  if (!source) {
+    throw new CliError(
+      `Unknown guide source: ${label}. Expected one of: ${sources.map((candidate) => candidate.label).join(', ')}`,
+      ExitCode.InvalidArguments
+    );
+  }
+  return [source];
+}
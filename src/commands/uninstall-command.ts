@@ -0,0 +1,247 @@
+import * as path from 'path';
+import { FileCopyService } from '../services/file-copy-service';
+import {
+  GuideUninstallService,
+  PendingFileUninstall,
+} from '../services/guide-uninstall-service';
+import {
+  CliOptions,
+  DirectoryUninstall,
+  FileUninstall,
+  FileUninstallAction,
+  UninstallReport,
+} from '../config/types';
+import { CliError, ExitCode } from '../utils/errors';
+import { readInstallLockfile } from '../utils/install-lockfile';
+import { Logger } from '../utils/logger';
+
+const UNINSTALL_MARKERS: Record<FileUninstallAction, string> = {
+  remove: '- remove  ',
+  restore: '~ restore ',
+  missing: '= missing ',
+};
+
+/**
+ * Command for removing the installed guide from a project
+ */
+export class UninstallCommand {
+  private fileCopyService: FileCopyService;
+  private guideUninstallService: GuideUninstallService;
+
+  constructor() {
+    this.fileCopyService = new FileCopyService();
+    this.guideUninstallService = new GuideUninstallService();
+  }
+
+  /**
+   * Run the uninstall command and return its report
+   *
+   * Errors are reported on the console (or in the JSON report) and reflected
+   * in the report's exit code instead of being thrown.
+   */
+  async run(options: CliOptions): Promise<UninstallReport> {
+    const logger = new Logger(options.json);
+    const report: UninstallReport = {
+      status: 'success',
+      exitCode: ExitCode.Success,
+      files: [],
+      directories: [],
+    };
+
+    try {
+      const targetDir = options.target
+        ? path.resolve(options.target)
+        : process.cwd();
+      report.targetDir = targetDir;
+
+      const targetValidation =
+        this.fileCopyService.validateTargetDirectory(targetDir);
+      if (!targetValidation.isValid) {
+        throw new CliError(
+          targetValidation.error || 'Target directory validation failed',
+          ExitCode.InvalidTarget
+        );
+      }
+
+      const { lockfile, error } = readInstallLockfile(targetDir);
+      if (error) {
+        throw new CliError(error, ExitCode.NotInstalled);
+      }
+      if (!lockfile) {
+        throw new CliError(
+          'No installed guide found. Only guides installed with a lockfile can be uninstalled.',
+          ExitCode.NotInstalled
+        );
+      }
+      report.guide = lockfile.guide;
+
+      logger.info(
+        `🗑️  Uninstalling guide '${lockfile.guide.id}' from ${targetDir}\n`
+      );
+
+      const uninstalls = this.guideUninstallService.planUninstall(
+        targetDir,
+        lockfile
+      );
+      report.files = uninstalls.map(toFileUninstall);
+      report.directories = this.guideUninstallService.planDirectories(
+        targetDir,
+        uninstalls
+      );
+
+      uninstalls.forEach((uninstall) => {
+        logger.info(
+          `   ${UNINSTALL_MARKERS[uninstall.action]} ${formatFile(uninstall)}`
+        );
+      });
+      report.directories.forEach((directory) => {
+        logger.info(`   ${formatDirectory(directory)}`);
+      });
+
+      if (options.dryRun) {
+        report.status = 'dry-run';
+        logger.info('\n🔎 Dry run: no files were changed.');
+        return this.finish(report, options);
+      }
+
+      const modified = uninstalls.filter((uninstall) => uninstall.modified);
+      if (modified.length > 0 && !options.force) {
+        throw new CliError(
+          `These files changed since they were installed: ${modified
+            .map((uninstall) => uninstall.path)
+            .join(', ')}. Use --force to remove them anyway.`,
+          ExitCode.FilesModified
+        );
+      }
+
+      const results = this.guideUninstallService.applyUninstall(
+        targetDir,
+        uninstalls
+      );
+      report.files = uninstalls.map(toFileUninstall);
+
+      // A folder is only removed once everything installed in it is gone
+      const filesRemoved = results.every((result) => result.success);
+      for (const directory of filesRemoved ? report.directories : []) {
+        if (
+          directory.action === 'keep' &&
+          !options.yes &&
+          !options.json &&
+          (await confirmDirectoryRemoval(directory))
+        ) {
+          directory.action = 'remove';
+        }
+        if (directory.action === 'remove') {
+          results.push(
+            this.guideUninstallService.removeDirectory(
+              targetDir,
+              directory.path
+            )
+          );
+        }
+      }
+
+      const failures = results.filter((result) => !result.success);
+      if (failures.length > 0) {
+        logger.error('\n❌ Some files could not be removed:');
+        failures.forEach((result) => logger.error(`   - ${result.error}`));
+        throw new CliError(
+          'Failed to uninstall some guide files. See error details above.',
+          ExitCode.CopyFailed
+        );
+      }
+
+      const kept = report.directories.filter(
+        (directory) => directory.action === 'keep'
+      );
+      if (kept.length > 0) {
+        logger.info(
+          `\n📁 Kept ${kept.map((directory) => directory.path).join(' and ')} because ${kept.length === 1 ? 'it still contains' : 'they still contain'} other files.`
+        );
+      }
+      logger.info(`\n✅ Uninstalled guide '${lockfile.guide.id}'.`);
+      return this.finish(report, options);
+    } catch (error) {
+      report.status = 'failed';
+      report.exitCode =
+        error instanceof CliError ? error.exitCode : ExitCode.GeneralError;
+      report.error = error instanceof Error ? error.message : String(error);
+
+      if (!options.json) {
+        console.error('\n❌ Error:', report.error);
+      }
+      return this.finish(report, options);
+    }
+  }
+
+  /**
+   * Print the JSON report when requested and hand the report back
+   */
+  private finish(
+    report: UninstallReport,
+    options: CliOptions
+  ): UninstallReport {
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    }
+    return report;
+  }
+}
+
+/**
+ * Ask whether a memory bank folder should be removed with the files left in it
+ */
+async function confirmDirectoryRemoval(
+  directory: DirectoryUninstall
+): Promise<boolean> {
+  // Dynamically import ESM-only inquirer to support CommonJS bundle
+  const { default: inquirer } = await import('inquirer');
+
+  const { confirm } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'confirm',
+      message: `${directory.path} still contains ${directory.remaining.length} file${directory.remaining.length === 1 ? '' : 's'} that ${directory.remaining.length === 1 ? 'was' : 'were'} not installed. Remove it anyway?`,
+      default: false,
+    },
+  ]);
+  return confirm;
+}
+
+/**
+ * Describe one installed file for console output
+ */
+function formatFile(uninstall: PendingFileUninstall): string {
+  const notes: string[] = [];
+  if (uninstall.backupPath) {
+    notes.push(`from ${uninstall.backupPath}`);
+  }
+  if (uninstall.modified) {
+    notes.push('modified since install');
+  }
+  return notes.length > 0
+    ? `${uninstall.path} (${notes.join(', ')})`
+    : uninstall.path;
+}
+
+/**
+ * Describe what happens to a memory bank folder for console output
+ */
+function formatDirectory(directory: DirectoryUninstall): string {
+  return directory.action === 'remove'
+    ? `- remove   ${directory.path}/`
+    : `= keep     ${directory.path}/ (${directory.remaining.length} other file${directory.remaining.length === 1 ? '' : 's'})`;
+}
+
+/**
+ * Strip absolute paths from a planned removal for reporting
+ */
+function toFileUninstall(uninstall: PendingFileUninstall): FileUninstall {
+  return {
+    path: uninstall.path,
+    action: uninstall.action,
+    modified: uninstall.modified,
+    backupPath: uninstall.backupPath,
+    done: uninstall.done,
+  };
+}
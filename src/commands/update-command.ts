@@ -0,0 +1,397 @@
+import * as path from 'path';
+import { readCliLayers } from '../config/config-layers';
+import { ConfigVersionError } from '../config/config-migrations';
+import { ConfigurationManager } from '../config/configuration-manager';
+import { GuideDiscoveryService } from '../services/guide-discovery-service';
+import { FileCopyService } from '../services/file-copy-service';
+import {
+  GuideUpdateService,
+  PendingFileUpdate,
+} from '../services/guide-update-service';
+import {
+  CliOptions,
+  ConflictResolution,
+  CustomGuideConfig,
+  FileUpdate,
+  FileUpdateAction,
+  GuideInfo,
+  InstallLockfile,
+  UpdateReport,
+} from '../config/types';
+import { CliError, ExitCode } from '../utils/errors';
+import { readInstallLockfile } from '../utils/install-lockfile';
+import { Logger } from '../utils/logger';
+import { detectProjectVariables } from '../utils/project-variables';
+
+const UPDATE_MARKERS: Record<FileUpdateAction, string> = {
+  unchanged: '= unchanged',
+  update: '~ update   ',
+  merge: '~ merge    ',
+  conflict: '! conflict ',
+  create: '+ create   ',
+  deleted: '- deleted  ',
+  removed: '- removed  ',
+};
+
+/**
+ * Command for upgrading the installed guide while keeping local edits
+ */
+export class UpdateCommand {
+  private configManager: ConfigurationManager;
+  private guideDiscoveryService: GuideDiscoveryService;
+  private fileCopyService: FileCopyService;
+  private guideUpdateService: GuideUpdateService;
+
+  constructor(configDir?: string) {
+    this.configManager = new ConfigurationManager(configDir);
+    this.guideDiscoveryService = new GuideDiscoveryService(true, configDir);
+    this.fileCopyService = new FileCopyService();
+    this.guideUpdateService = new GuideUpdateService();
+  }
+
+  /**
+   * Run the update command and return its report
+   *
+   * Errors are reported on the console (or in the JSON report) and reflected
+   * in the report's exit code instead of being thrown.
+   */
+  async run(options: CliOptions): Promise<UpdateReport> {
+    const logger = new Logger(options.json);
+    const report: UpdateReport = {
+      status: 'success',
+      exitCode: ExitCode.Success,
+      files: [],
+    };
+
+    try {
+      const targetDir = options.target
+        ? path.resolve(options.target)
+        : process.cwd();
+      report.targetDir = targetDir;
+
+      const targetValidation =
+        this.fileCopyService.validateTargetDirectory(targetDir);
+      if (!targetValidation.isValid) {
+        throw new CliError(
+          targetValidation.error || 'Target directory validation failed',
+          ExitCode.InvalidTarget
+        );
+      }
+
+      const { lockfile, error } = readInstallLockfile(targetDir);
+      if (error) {
+        throw new CliError(error, ExitCode.NotInstalled);
+      }
+      if (!lockfile) {
+        throw new CliError(
+          'No installed guide found. Run init-memory-bank to install a guide first.',
+          ExitCode.NotInstalled
+        );
+      }
+
+      const guide = this.findInstalledGuide(lockfile, targetDir, options);
+      const variables = this.resolveVariables(
+        guide,
+        targetDir,
+        lockfile,
+        options
+      );
+
+      logger.info(
+        `🔄 Updating ${guide.displayName} (${guide.id}) in ${targetDir}\n`
+      );
+
+      let updates: PendingFileUpdate[];
+      try {
+        updates = this.guideUpdateService.planUpdate(
+          guide,
+          targetDir,
+          lockfile,
+          variables
+        );
+      } catch (planError) {
+        throw new CliError(
+          planError instanceof Error ? planError.message : String(planError),
+          ExitCode.CopyFailed
+        );
+      }
+
+      updates.forEach((update) => {
+        logger.info(`   ${UPDATE_MARKERS[update.action]} ${update.path}`);
+      });
+
+      if (options.dryRun) {
+        report.status = 'dry-run';
+        report.files = updates.map(toFileUpdate);
+        logger.info('\n🔎 Dry run: no files were changed.');
+        return this.finish(report, options);
+      }
+
+      await this.resolveConflicts(updates, options, logger);
+
+      const results = this.guideUpdateService.applyUpdate(
+        guide,
+        targetDir,
+        lockfile,
+        updates,
+        variables
+      );
+      report.files = updates.map(toFileUpdate);
+      report.guide = readInstallLockfile(targetDir).lockfile?.guide;
+
+      const failures = results.filter((result) => !result.success);
+      if (failures.length > 0) {
+        logger.error('\n❌ Some files could not be updated:');
+        failures.forEach((result) => logger.error(`   - ${result.error}`));
+        throw new CliError(
+          'Failed to update some guide files. See error details above.',
+          ExitCode.CopyFailed
+        );
+      }
+
+      const conflicted = updates.filter(
+        (update) => update.resolution === 'markers'
+      );
+      if (conflicted.length > 0) {
+        logger.info('\n⚠️  Conflict markers were written to:');
+        conflicted.forEach((update) => logger.info(`   - ${update.path}`));
+        logger.info(
+          '   Resolve the regions between <<<<<<< and >>>>>>> before committing.'
+        );
+        report.status = 'conflicts';
+        report.exitCode = ExitCode.UpdateConflicts;
+        return this.finish(report, options);
+      }
+
+      const written = updates.filter((update) => update.written).length;
+      logger.info(
+        written > 0
+          ? `\n✅ Updated ${written} file${written === 1 ? '' : 's'}.`
+          : '\n✅ Everything is up to date.'
+      );
+      return this.finish(report, options);
+    } catch (error) {
+      report.status = 'failed';
+      report.exitCode =
+        error instanceof CliError ? error.exitCode : ExitCode.GeneralError;
+      report.error = error instanceof Error ? error.message : String(error);
+
+      if (!options.json) {
+        console.error('\n❌ Error:', report.error);
+      }
+      return this.finish(report, options);
+    }
+  }
+
+  /**
+   * Find the installed guide among the available guides
+   */
+  private findInstalledGuide(
+    lockfile: InstallLockfile,
+    targetDir: string,
+    options: CliOptions
+  ): GuideInfo {
+    const guides = this.guideDiscoveryService.getAllGuides(
+      this.loadConfig(targetDir, options),
+      targetDir
+    );
+    const guide = this.guideDiscoveryService.findGuideById(
+      guides,
+      lockfile.guide.id
+    );
+    if (!guide) {
+      throw new CliError(
+        `Installed guide '${lockfile.guide.id}' is no longer available. Available guides: ${guides
+          .map((available) => available.id)
+          .join(', ')}`,
+        ExitCode.GuideNotFound
+      );
+    }
+
+    // Guides that extend another guide are composed from the available guides
+    this.fileCopyService.setAvailableGuides(guides);
+    this.guideUpdateService.setAvailableGuides(guides);
+    const composition = this.fileCopyService.validateComposition(guide);
+    if (!composition.isValid) {
+      throw new CliError(
+        composition.error || 'Guide composition failed',
+        ExitCode.GuideCompositionFailed
+      );
+    }
+    return guide;
+  }
+
+  /**
+   * Collect template variable values for a guide that declares variables
+   *
+   * Values recorded at install time win over detected values and guide
+   * defaults, so files render the same way unless --var overrides them.
+   */
+  private resolveVariables(
+    guide: GuideInfo,
+    targetDir: string,
+    lockfile: InstallLockfile,
+    options: CliOptions
+  ): Record<string, string> | undefined {
+    const declared = guide.manifest?.variables;
+    if (!declared) {
+      return undefined;
+    }
+
+    const defaults: Record<string, string> = {};
+    declared.forEach((variable) => {
+      if (variable.default !== undefined) {
+        defaults[variable.name] = variable.default;
+      }
+    });
+
+    return {
+      ...defaults,
+      ...detectProjectVariables(targetDir),
+      ...lockfile.variables,
+      ...options.vars,
+    };
+  }
+
+  /**
+   * Decide how to resolve every conflicting file
+   *
+   * Interactive runs ask per file; --yes and --json write conflict markers.
+   * Binary files cannot hold markers, so they keep the local version unless
+   * the guide version is chosen.
+   */
+  private async resolveConflicts(
+    updates: PendingFileUpdate[],
+    options: CliOptions,
+    logger: Logger
+  ): Promise<void> {
+    const conflicts = updates.filter((update) => update.action === 'conflict');
+    if (conflicts.length === 0) {
+      return;
+    }
+
+    const interactive = !options.yes && !options.json;
+    for (const update of conflicts) {
+      let resolution: ConflictResolution =
+        update.content === undefined ? 'ours' : 'markers';
+
+      if (interactive) {
+        logger.info(
+          `\n⚠️  ${update.path} has ${update.conflicts} conflicting region${update.conflicts === 1 ? '' : 's'}:`
+        );
+        if (typeof update.content === 'string') {
+          formatConflicts(update.content).forEach((line) =>
+            logger.info(`   ${line}`)
+          );
+        }
+        resolution = await promptForResolution(update);
+      }
+
+      update.resolution = resolution;
+      if (resolution === 'ours') {
+        update.content = undefined;
+      } else if (resolution === 'theirs') {
+        update.content = update.incoming;
+      }
+    }
+  }
+
+  /**
+   * Print the JSON report when requested and hand the report back
+   */
+  private finish(report: UpdateReport, options: CliOptions): UpdateReport {
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    }
+    return report;
+  }
+
+  /**
+   * Load the configuration for the target project, falling back to
+   * defaults so built-in guides still update. A configuration written by a
+   * newer CLI is an error, not a reason to report its guides as removed
+   */
+  private loadConfig(
+    targetDir: string,
+    options: CliOptions
+  ): CustomGuideConfig {
+    try {
+      return this.configManager.loadResolvedConfig({
+        cwd: targetDir,
+        cliLayers: readCliLayers(options),
+      }).config;
+    } catch (error) {
+      if (error instanceof ConfigVersionError) {
+        throw error;
+      }
+      return this.configManager.getDefaultConfig();
+    }
+  }
+}
+
+/**
+ * Ask how to resolve a conflicting file
+ */
+async function promptForResolution(
+  update: PendingFileUpdate
+): Promise<ConflictResolution> {
+  // Dynamically import ESM-only inquirer to support CommonJS bundle
+  const { default: inquirer } = await import('inquirer');
+
+  const choices = [
+    { name: 'Keep my version', value: 'ours' },
+    { name: 'Use the guide version', value: 'theirs' },
+  ];
+  if (update.content !== undefined) {
+    choices.unshift({
+      name: 'Write both versions with conflict markers',
+      value: 'markers',
+    });
+  }
+
+  const { resolution } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'resolution',
+      message: `How do you want to resolve ${update.path}?`,
+      choices,
+    },
+  ]);
+  return resolution;
+}
+
+/**
+ * Extract the conflicting regions, with their markers, from merged content
+ */
+function formatConflicts(content: string): string[] {
+  const lines: string[] = [];
+  let inConflict = false;
+
+  content.split('\n').forEach((line) => {
+    if (line.startsWith('<<<<<<< ')) {
+      inConflict = true;
+    }
+    if (inConflict) {
+      lines.push(line);
+    }
+    if (line.startsWith('>>>>>>> ')) {
+      inConflict = false;
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Strip file contents from a planned update for reporting
+ */
+function toFileUpdate(update: PendingFileUpdate): FileUpdate {
+  return {
+    path: update.path,
+    source: update.source,
+    action: update.action,
+    conflicts: update.conflicts,
+    resolution: update.resolution,
+    written: update.written,
+  };
+}
@@ -0,0 +1,268 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isGitUrl } from './guide-sources';
+import {
+  BackupLocation,
+  CliOptions,
+  ConfigLayer,
+  ConfigValueSource,
+  CustomGuideConfig,
+  GuideSource,
+  ResolvedConfig,
+} from './types';
+
+/**
+ * File name of a project configuration
+ */
+export const PROJECT_CONFIG_FILE = '.memorybankrc.json';
+
+/**
+ * package.json key that holds a project configuration
+ */
+export const PACKAGE_JSON_KEY = 'memoryBank';
+
+/**
+ * Environment variables that override configuration values
+ */
+const ENV_VARIABLES: Record<
+  string,
+  (value: string) => Partial<CustomGuideConfig>
+> = {
+  MEMORY_BANK_GUIDES_FOLDER: (value) => ({
+    customGuidesFolder: path.resolve(value),
+  }),
+  MEMORY_BANK_BACKUP_LOCATION: (value) => ({
+    backups: { location: value as BackupLocation },
+  }),
+  MEMORY_BANK_BACKUP_KEEP: (value) => ({
+    backups: { keep: Number(value) },
+  }),
+  MEMORY_BANK_BACKUP_MAX_AGE_DAYS: (value) => ({
+    backups: { maxAgeDays: Number(value) },
+  }),
+};
+
+/**
+ * Find the project configuration closest to a directory
+ *
+ * Each directory from startDir up to the filesystem root is checked for a
+ * .memorybankrc.json, then for a package.json with a memoryBank key; the
+ * first one found is used. A relative customGuidesFolder or guide source
+ * path is resolved against the folder of the file it is written in. Throws
+ * when the configuration found cannot be read.
+ */
+export function findProjectConfig(startDir: string): ConfigLayer | undefined {
+  for (let dir = path.resolve(startDir); ; dir = path.dirname(dir)) {
+    const rcPath = path.join(dir, PROJECT_CONFIG_FILE);
+    if (fs.existsSync(rcPath)) {
+      return toProjectLayer(rcPath, readJson(rcPath));
+    }
+
+    const packagePath = path.join(dir, 'package.json');
+    if (fs.existsSync(packagePath)) {
+      const packageJson = readPackageJson(packagePath);
+      if (packageJson && PACKAGE_JSON_KEY in packageJson) {
+        return toProjectLayer(packagePath, packageJson[PACKAGE_JSON_KEY]);
+      }
+    }
+
+    if (path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Read the configuration values set by MEMORY_BANK_* environment variables
+ *
+ * Every variable becomes its own layer, so each value can be traced to the
+ * variable that set it.
+ */
+export function readEnvLayers(
+  env: Record<string, string | undefined>
+): ConfigLayer[] {
+  return Object.entries(ENV_VARIABLES)
+    .filter(([name]) => env[name] !== undefined && env[name] !== '')
+    .map(([name, toValues]) => ({
+      source: 'env' as const,
+      origin: name,
+      values: toValues(env[name] as string),
+    }));
+}
+
+/**
+ * Read the configuration values set by command line flags
+ */
+export function readCliLayers(
+  options: Pick<CliOptions, 'guidesFolder'>
+): ConfigLayer[] {
+  if (!options.guidesFolder) {
+    return [];
+  }
+
+  return [
+    {
+      source: 'cli',
+      origin: '--guides-folder',
+      values: { customGuidesFolder: path.resolve(options.guidesFolder) },
+    },
+  ];
+}
+
+/**
+ * Merge configuration layers, later layers winning over earlier ones
+ *
+ * Objects such as backups are merged key by key; lists such as menuItems
+ * and every other value are replaced as a whole.
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): ResolvedConfig {
+  const sources: Record<string, ConfigValueSource> = {};
+  const config = layers.reduce<Record<string, unknown>>(
+    (merged, layer) =>
+      mergeValues(
+        merged,
+        layer.values as Record<string, unknown>,
+        '',
+        { source: layer.source, origin: layer.origin },
+        sources
+      ),
+    {}
+  );
+
+  return {
+    config: config as unknown as CustomGuideConfig,
+    sources,
+    layers,
+  };
+}
+
+/**
+ * Merge one layer's values into the values merged so far
+ */
+function mergeValues(
+  merged: Record<string, unknown>,
+  values: Record<string, unknown>,
+  prefix: string,
+  source: ConfigValueSource,
+  sources: Record<string, ConfigValueSource>
+): Record<string, unknown> {
+  const result = { ...merged };
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === undefined) {
+      return;
+    }
+
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      result[key] = mergeValues(
+        isPlainObject(result[key]) ? result[key] : {},
+        value,
+        name,
+        source,
+        sources
+      );
+      return;
+    }
+
+    // A replaced value no longer has the nested values it may have had
+    Object.keys(sources)
+      .filter((sourceName) => sourceName.startsWith(`${name}.`))
+      .forEach((sourceName) => delete sources[sourceName]);
+    result[key] = value;
+    sources[name] = source;
+  });
+
+  return result;
+}
+
+/**
+ * Turn the data of a project configuration file into a layer
+ */
+function toProjectLayer(filePath: string, data: unknown): ConfigLayer {
+  if (!isPlainObject(data)) {
+    throw new Error(
+      `Invalid project configuration in ${filePath}: expected an object`
+    );
+  }
+
+  const values = { ...data } as Partial<CustomGuideConfig>;
+  if (typeof values.customGuidesFolder === 'string') {
+    values.customGuidesFolder = path.resolve(
+      path.dirname(filePath),
+      values.customGuidesFolder
+    );
+  }
+  if (Array.isArray(values.guideSources)) {
+    values.guideSources = values.guideSources.map((source) =>
+      resolveGuideSourcePaths(source, path.dirname(filePath))
+    );
+  }
+
+  return { source: 'project', origin: filePath, values };
+}
+
+/**
+ * Resolve the local paths of a guide source against the folder of the
+ * project file that declares it; URLs are left as they are
+ */
+function resolveGuideSourcePaths(
+  source: GuideSource,
+  baseDir: string
+): GuideSource {
+  if (!isPlainObject(source)) {
+    return source;
+  }
+
+  const resolved = { ...source };
+  if (typeof source.path === 'string') {
+    resolved.path = path.resolve(baseDir, source.path);
+  }
+  if (typeof source.git === 'string' && !isGitUrl(source.git)) {
+    resolved.git = path.resolve(baseDir, source.git);
+  }
+  if (
+    typeof source.archive === 'string' &&
+    !source.archive.startsWith('file://')
+  ) {
+    resolved.archive = path.resolve(baseDir, source.archive);
+  }
+  return resolved;
+}
+
+/**
+ * Parse a JSON configuration file, naming the file in errors
+ */
+function readJson(filePath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid project configuration in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Parse a package.json, ignoring files that are not valid JSON objects
+ *
+ * A broken package.json is the project's business; it only means there is
+ * no configuration in it.
+ */
+function readPackageJson(
+  filePath: string
+): Record<string, unknown> | undefined {
+  try {
+    const data: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return isPlainObject(data) ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a value is a plain object rather than a list or primitive
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
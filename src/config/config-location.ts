@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigLocation } from './types';
+
+/**
+ * Environment variables that set the configuration directory, highest
+ * precedence first
+ */
+export const CONFIG_DIR_ENV_VARIABLES = [
+  'MEMORY_BANK_CONFIG',
+  'MEMORY_BANK_HOME',
+];
+
+/**
+ * Name of the configuration directory under $XDG_CONFIG_HOME
+ */
+const XDG_CONFIG_DIR_NAME = 'memory-bank';
+
+/**
+ * Find the directory the global configuration lives in
+ *
+ * The --config flag wins, then MEMORY_BANK_CONFIG, then MEMORY_BANK_HOME,
+ * then $XDG_CONFIG_HOME/memory-bank and finally ~/.memory-bank. Relative
+ * paths are resolved against the working directory. A relative
+ * XDG_CONFIG_HOME is ignored, as the XDG specification requires, and an
+ * existing ~/.memory-bank/config.json keeps being used until the XDG
+ * directory is created, so setting XDG_CONFIG_HOME does not lose it.
+ */
+export function resolveConfigLocation(
+  flag?: string,
+  env: Record<string, string | undefined> = process.env
+): ConfigLocation {
+  if (flag) {
+    return { dir: path.resolve(flag), source: 'cli', origin: '--config' };
+  }
+
+  for (const name of CONFIG_DIR_ENV_VARIABLES) {
+    const value = env[name];
+    if (value && value.trim() !== '') {
+      return { dir: path.resolve(value), source: 'env', origin: name };
+    }
+  }
+
+  const defaultDir = path.join(os.homedir(), '.memory-bank');
+  const xdgConfigHome = env.XDG_CONFIG_HOME;
+  if (xdgConfigHome && path.isAbsolute(xdgConfigHome)) {
+    const xdgDir = path.join(xdgConfigHome, XDG_CONFIG_DIR_NAME);
+    if (
+      fs.existsSync(xdgDir) ||
+      !fs.existsSync(path.join(defaultDir, 'config.json'))
+    ) {
+      return { dir: xdgDir, source: 'xdg', origin: 'XDG_CONFIG_HOME' };
+    }
+  }
+
+  return { dir: defaultDir, source: 'default' };
+}
+
+/**
+ * Describe where the configuration directory came from, such as
+ * "/etc/memory-bank (from MEMORY_BANK_HOME)"
+ */
+export function describeConfigLocation(location: ConfigLocation): string {
+  return location.origin
+    ? `${location.dir} (from ${location.origin})`
+    : location.dir;
+}
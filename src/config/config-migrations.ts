@@ -0,0 +1,164 @@
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Configuration format version written by this version of the CLI
+ */
+export const CONFIG_VERSION = '1.0.0';
+
+/**
+ * Version assumed for configurations written before the version field existed
+ */
+export const LEGACY_CONFIG_VERSION = '0.0.0';
+
+/**
+ * How to get a CLI that understands newer configurations
+ */
+const UPGRADE_HINT =
+  'Upgrade the CLI with: npm install -g @zacfermanis/memory-bank@latest';
+
+/**
+ * One step that upgrades a configuration from one version to the next
+ */
+export interface ConfigMigration {
+  /** Version the step upgrades from */
+  from: string;
+  /** Version the step upgrades to */
+  to: string;
+  /** Change the configuration in place and describe every change made */
+  migrate(config: Record<string, unknown>): string[];
+}
+
+/**
+ * Configuration after migrating it to the current version
+ */
+export interface ConfigMigrationResult {
+  /** Migrated configuration */
+  config: Record<string, unknown>;
+  /** Version the configuration had before migrating */
+  fromVersion: string;
+  /** Version the configuration has now */
+  toVersion: string;
+  /** Description of every change, oldest step first */
+  changes: string[];
+}
+
+/**
+ * Error raised for a configuration written by a newer version of the CLI
+ */
+export class ConfigVersionError extends Error {
+  constructor(
+    public readonly version: string,
+    public readonly supportedVersion: string = CONFIG_VERSION
+  ) {
+    super(
+      `Configuration version ${version} is newer than this CLI supports (${supportedVersion}). ${UPGRADE_HINT}`
+    );
+    this.name = 'ConfigVersionError';
+  }
+}
+
+/**
+ * Every migration step, oldest first
+ *
+ * A format change adds a step here and bumps CONFIG_VERSION; loadConfig
+ * runs the steps a configuration needs one after another.
+ */
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    from: LEGACY_CONFIG_VERSION,
+    to: '1.0.0',
+    migrate: (config) => {
+      const changes = ['Added version 1.0.0'];
+      if (config.customGuidesFolder === undefined) {
+        config.customGuidesFolder = path.join(
+          os.homedir(),
+          'custom-dev-guides'
+        );
+        changes.push(
+          `Set customGuidesFolder to the default ${config.customGuidesFolder}`
+        );
+      }
+      if (config.menuItems === undefined) {
+        config.menuItems = [];
+        changes.push('Added an empty menuItems list');
+      }
+      return changes;
+    },
+  },
+];
+
+/**
+ * Upgrade configuration data to CONFIG_VERSION, one step at a time
+ *
+ * The data passed in is left unchanged. Throws ConfigVersionError for a
+ * configuration written by a newer CLI, and an Error for a version no
+ * migration starts from.
+ */
+export function migrateConfig(
+  data: Record<string, unknown>,
+  migrations: ConfigMigration[] = CONFIG_MIGRATIONS,
+  currentVersion: string = CONFIG_VERSION
+): ConfigMigrationResult {
+  const fromVersion =
+    data.version === undefined ? LEGACY_CONFIG_VERSION : String(data.version);
+  if (compareVersions(fromVersion, currentVersion) > 0) {
+    throw new ConfigVersionError(fromVersion, currentVersion);
+  }
+
+  const config: Record<string, unknown> = JSON.parse(JSON.stringify(data));
+  const changes: string[] = [];
+  let version = fromVersion;
+  while (version !== currentVersion) {
+    const migration = migrations.find((step) => step.from === version);
+    if (!migration) {
+      throw new Error(`No migration from configuration version ${version}`);
+    }
+
+    changes.push(...migration.migrate(config));
+    config.version = migration.to;
+    version = migration.to;
+  }
+
+  return { config, fromVersion, toVersion: version, changes };
+}
+
+/**
+ * Check that a configuration has the current version, returning the problem
+ */
+export function validateConfigVersion(version: unknown): string | undefined {
+  if (version === CONFIG_VERSION) {
+    return undefined;
+  }
+  if (
+    typeof version === 'string' &&
+    /^\d+(\.\d+)*$/.test(version) &&
+    compareVersions(version, CONFIG_VERSION) > 0
+  ) {
+    return `Invalid version: ${version} is newer than this CLI supports (${CONFIG_VERSION}). ${UPGRADE_HINT}`;
+  }
+  return `Invalid version: ${version}. Expected: ${CONFIG_VERSION}`;
+}
+
+/**
+ * Compare two dotted version numbers such as 1.0.0
+ *
+ * Returns a negative number when a is older, 0 when equal and a positive
+ * number when a is newer. Throws for a version that is not dotted numbers.
+ */
+export function compareVersions(a: string, b: string): number {
+  const [partsA, partsB] = [a, b].map((version) => {
+    if (!/^\d+(\.\d+)*$/.test(version)) {
+      throw new Error(`Invalid configuration version: ${version}`);
+    }
+    return version.split('.').map(Number);
+  });
+
+  for (let index = 0; index < Math.max(partsA.length, partsB.length); index++) {
+    const difference = (partsA[index] || 0) - (partsB[index] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
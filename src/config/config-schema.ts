@@ -0,0 +1,51 @@
+import { JsonSchema, validateJsonSchema } from '../utils/json-schema';
+import configSchema from './config.schema.json';
+import { CustomGuideConfig, ValidationIssue } from './types';
+
+/**
+ * JSON Schema of config.json, shipped as dist/config/config.schema.json
+ */
+export const CONFIG_SCHEMA = configSchema as JsonSchema;
+
+/**
+ * The fields loadConfig cannot work without, with their schema types
+ *
+ * Derived from CONFIG_SCHEMA so a configuration with, say, an invalid
+ * backup setting still loads and is reported by validation instead of
+ * being replaced by the defaults.
+ */
+const CONFIG_SHAPE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: CONFIG_SCHEMA.required,
+  properties: Object.fromEntries(
+    (CONFIG_SCHEMA.required || []).map((name) => [
+      name,
+      { type: CONFIG_SCHEMA.properties?.[name].type },
+    ])
+  ),
+};
+
+/**
+ * Validate configuration data against the schema, returning every violation
+ */
+export function validateConfigSchema(data: unknown): ValidationIssue[] {
+  return validateJsonSchema(data, CONFIG_SCHEMA);
+}
+
+/**
+ * Check that parsed configuration data has the fields loadConfig requires
+ */
+export function hasConfigShape(data: unknown): data is CustomGuideConfig {
+  return validateJsonSchema(data, CONFIG_SHAPE_SCHEMA).length === 0;
+}
+
+/**
+ * Join validation issues into one message, each prefixed with its pointer
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.path ? `${issue.path}: ${issue.message}` : issue.message
+    )
+    .join('; ');
+}
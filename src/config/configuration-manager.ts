@@ -1,18 +1,71 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { CustomGuideConfig, ValidationResult } from './types';
+import { fileURLToPath } from 'url';
+import {
+  formatValidationIssues,
+  hasConfigShape,
+  validateConfigSchema,
+} from './config-schema';
+import { resolveConfigLocation } from './config-location';
+import {
+  DEFAULT_GUIDE_SOURCE_LABEL,
+  getGuideSourceKind,
+  isGitUrl,
+  resolveMenuItemFolder,
+} from './guide-sources';
+import {
+  findProjectConfig,
+  mergeConfigLayers,
+  readEnvLayers,
+} from './config-layers';
+import {
+  CONFIG_VERSION,
+  ConfigMigrationResult,
+  ConfigVersionError,
+  migrateConfig,
+  validateConfigVersion,
+} from './config-migrations';
+import {
+  ConfigLayer,
+  ConfigLocation,
+  ConfigMigrationReport,
+  CustomGuideConfig,
+  GuideSource,
+  ResolvedConfig,
+  ValidationIssue,
+  ValidationResult,
+} from './types';
+
+/**
+ * Where loadResolvedConfig looks for configuration besides the global file
+ */
+export interface ConfigResolveOptions {
+  /** Directory the project configuration is searched upward from (defaults to the working directory) */
+  cwd?: string;
+  /** Environment variables to read overrides from (defaults to process.env) */
+  env?: Record<string, string | undefined>;
+  /** Values set by command line flags, which win over everything else */
+  cliLayers?: ConfigLayer[];
+}
 
 /**
  * Manages configuration for custom development guides
  */
 export class ConfigurationManager {
+  private readonly configLocation: ConfigLocation;
   private readonly configDir: string;
   private readonly configPath: string;
   private readonly backupPath: string;
+  private lastMigration?: ConfigMigrationReport;
 
-  constructor() {
-    this.configDir = path.join(os.homedir(), '.memory-bank');
+  /**
+   * @param configDir Directory of the global configuration, as given with
+   *   --config; when omitted it is resolved from the environment
+   */
+  constructor(configDir?: string) {
+    this.configLocation = resolveConfigLocation(configDir);
+    this.configDir = this.configLocation.dir;
     this.configPath = path.join(this.configDir, 'config.json');
     this.backupPath = path.join(this.configDir, 'config.backup.json');
   }
@@ -22,7 +75,7 @@ export class ConfigurationManager {
    */
   getDefaultConfig(): CustomGuideConfig {
     return {
-      version: '1.0.0',
+      version: CONFIG_VERSION,
       customGuidesFolder: path.join(os.homedir(), 'custom-dev-guides'),
       menuItems: [],
     };
@@ -30,75 +83,78 @@ export class ConfigurationManager {
 
   /**
    * Load configuration from file or return default if file doesn't exist
+   *
+   * A configuration in an older format is migrated step by step to
+   * CONFIG_VERSION and saved, after copying the old file to
+   * config.v<version>.backup.json; getLastMigration describes what changed.
+   * Throws ConfigVersionError for a configuration written by a newer CLI.
    */
   loadConfig(): CustomGuideConfig {
+    this.lastMigration = undefined;
     if (!fs.existsSync(this.configPath)) {
       return this.getDefaultConfig();
     }
 
     try {
       const configData = fs.readFileSync(this.configPath, 'utf8');
-      const config = JSON.parse(configData) as CustomGuideConfig;
+      const migration = parseAndMigrate(configData);
 
       // Validate the loaded config has the required structure
-      if (
-        typeof config === 'object' &&
-        config !== null &&
-        typeof config.version === 'string' &&
-        typeof config.customGuidesFolder === 'string' &&
-        Array.isArray(config.menuItems)
-      ) {
-        return config;
-      }
-
-      // If config structure is invalid, try to recover from backup
-      if (fs.existsSync(this.backupPath)) {
-        try {
-          const backupData = fs.readFileSync(this.backupPath, 'utf8');
-          const backupConfig = JSON.parse(backupData) as CustomGuideConfig;
-
-          if (
-            typeof backupConfig === 'object' &&
-            backupConfig !== null &&
-            typeof backupConfig.version === 'string' &&
-            typeof backupConfig.customGuidesFolder === 'string' &&
-            Array.isArray(backupConfig.menuItems)
-          ) {
-            // Restore from backup
-            this.saveConfig(backupConfig);
-            return backupConfig;
-          }
-        } catch (backupError) {
-          // Backup is also corrupted, continue to default
+      if (migration && hasConfigShape(migration.config)) {
+        if (migration.fromVersion !== migration.toVersion) {
+          this.saveMigratedConfig(configData, migration);
         }
+        return migration.config;
       }
-
-      return this.getDefaultConfig();
     } catch (error) {
-      // If there's any error reading or parsing the file, try backup
-      if (fs.existsSync(this.backupPath)) {
-        try {
-          const backupData = fs.readFileSync(this.backupPath, 'utf8');
-          const backupConfig = JSON.parse(backupData) as CustomGuideConfig;
-
-          if (
-            typeof backupConfig === 'object' &&
-            backupConfig !== null &&
-            typeof backupConfig.version === 'string' &&
-            typeof backupConfig.customGuidesFolder === 'string' &&
-            Array.isArray(backupConfig.menuItems)
-          ) {
-            // Restore from backup
-            this.saveConfig(backupConfig);
-            return backupConfig;
-          }
-        } catch (backupError) {
-          // Backup is also corrupted, continue to default
-        }
+      // A newer configuration must not be replaced by an older one
+      if (error instanceof ConfigVersionError) {
+        throw error;
       }
+      // Any other error reading or parsing the file falls back to the backup
+    }
 
-      return this.getDefaultConfig();
+    // If config structure is invalid, try to recover from backup
+    return this.recoverFromBackup();
+  }
+
+  /**
+   * Describe the migration done by the last loadConfig call, if any
+   */
+  getLastMigration(): ConfigMigrationReport | undefined {
+    return this.lastMigration;
+  }
+
+  /**
+   * Load the effective configuration from every layer
+   *
+   * Built-in defaults are overridden by the global configuration file, then
+   * by the project configuration, then by environment variables and then
+   * by command line flags. Throws when the project configuration cannot be
+   * read.
+   */
+  loadResolvedConfig(options: ConfigResolveOptions = {}): ResolvedConfig {
+    const layers: ConfigLayer[] = [
+      { source: 'default', values: this.getDefaultConfig() },
+    ];
+    if (fs.existsSync(this.configPath)) {
+      layers.push({
+        source: 'global',
+        origin: this.configPath,
+        values: this.loadConfig(),
+      });
+    }
+
+    const projectLayer = findProjectConfig(options.cwd || process.cwd());
+    if (projectLayer) {
+      layers.push(projectLayer);
     }
+
+    layers.push(
+      ...readEnvLayers(options.env || process.env),
+      ...(options.cliLayers || [])
+    );
+    return mergeConfigLayers(layers);
   }
 
   /**
@@ -125,77 +181,70 @@ export class ConfigurationManager {
   }
 
   /**
-   * Validate configuration with detailed error reporting
+   * Validate configuration against the schema and the filesystem
+   *
+   * Every problem is reported at once: result.issues names each invalid
+   * value by its JSON pointer, and result.error joins them into one message.
+   * A missing custom guides folder, guide source folder or menu item folder
+   * is only a warning.
    */
   validateConfig(config: CustomGuideConfig): ValidationResult {
     const warnings: string[] = [];
+    const issues = validateConfigSchema(config);
+    const hasIssue = (pointer: string) =>
+      issues.some(
+        (issue) =>
+          issue.path === pointer || issue.path.startsWith(`${pointer}/`)
+      );
 
     // Validate version
-    if (config.version !== '1.0.0') {
-      return {
-        isValid: false,
-        error: `Invalid version: ${config.version}. Expected: 1.0.0`,
-      };
-    }
-
-    // Validate custom guides folder path
-    if (!config.customGuidesFolder || config.customGuidesFolder.trim() === '') {
-      return {
-        isValid: false,
-        error: 'Custom guides folder path cannot be empty',
-      };
+    if (!hasIssue('/version')) {
+      const versionError = validateConfigVersion(config.version);
+      if (versionError) {
+        issues.push({ path: '/version', message: versionError });
+      }
     }
 
-    // Check if custom guides folder exists
-    if (!fs.existsSync(config.customGuidesFolder)) {
-      warnings.push('Custom guides folder does not exist');
-    } else {
-      // Check if custom guides folder is a directory
-      try {
-        const stats = fs.statSync(config.customGuidesFolder);
-        if (!stats.isDirectory()) {
-          return {
-            isValid: false,
-            error: `Custom guides folder is not a directory: ${config.customGuidesFolder}`,
-          };
+    // Check the custom guides folder once its path is valid
+    let folderExists = false;
+    if (!hasIssue('/customGuidesFolder')) {
+      folderExists = fs.existsSync(config.customGuidesFolder);
+      if (!folderExists) {
+        warnings.push('Custom guides folder does not exist');
+      } else {
+        // Check if custom guides folder is a directory
+        try {
+          const stats = fs.statSync(config.customGuidesFolder);
+          if (!stats.isDirectory()) {
+            issues.push({
+              path: '/customGuidesFolder',
+              message: `Custom guides folder is not a directory: ${config.customGuidesFolder}`,
+            });
+          }
+        } catch (error) {
+          issues.push({
+            path: '/customGuidesFolder',
+            message: `Cannot access custom guides folder: ${config.customGuidesFolder}`,
+          });
         }
-      } catch (error) {
-        return {
-          isValid: false,
-          error: `Cannot access custom guides folder: ${config.customGuidesFolder}`,
-        };
       }
     }
 
-    // Validate menu items
-    for (const menuItem of config.menuItems) {
-      if (!menuItem.id || menuItem.id.trim() === '') {
-        return {
-          isValid: false,
-          error: `Menu item has empty ID`,
-        };
-      }
-
-      if (!menuItem.displayName || menuItem.displayName.trim() === '') {
-        return {
-          isValid: false,
-          error: `Menu item '${menuItem.id}' has empty display name`,
-        };
+    // Check the other guide sources once the list is valid
+    if (Array.isArray(config.guideSources) && !hasIssue('/guideSources')) {
+      if (checkGuideSources(config.guideSources, issues, warnings)) {
+        folderExists = true;
       }
+    }
 
-      if (!menuItem.folderPath || menuItem.folderPath.trim() === '') {
-        return {
-          isValid: false,
-          error: `Menu item '${menuItem.id}' has empty folder path`,
-        };
-      }
+    // Check menu item folders (only if a guides folder exists)
+    if (folderExists && Array.isArray(config.menuItems)) {
+      config.menuItems.forEach((menuItem, index) => {
+        if (hasIssue(`/menuItems/${index}`) || hasIssue('/guideSources')) {
+          return;
+        }
 
-      // Check if menu item folder exists (only if custom guides folder exists)
-      if (fs.existsSync(config.customGuidesFolder)) {
-        const menuItemPath = path.join(
-          config.customGuidesFolder,
-          menuItem.folderPath
-        );
+        const menuItemPath = resolveMenuItemFolder(config, menuItem);
         if (!fs.existsSync(menuItemPath)) {
           warnings.push('Menu item folder does not exist');
         } else {
@@ -210,7 +259,15 @@ export class ConfigurationManager {
             );
           }
         }
-      }
+      });
+    }
+
+    if (issues.length > 0) {
+      return {
+        isValid: false,
+        error: formatValidationIssues(issues),
+        issues,
+      };
     }
 
     return {
@@ -219,6 +276,63 @@ export class ConfigurationManager {
     };
   }
 
+  /**
+   * Recover the configuration from the backup file, or use the defaults
+   */
+  private recoverFromBackup(): CustomGuideConfig {
+    if (fs.existsSync(this.backupPath)) {
+      try {
+        const backupData = fs.readFileSync(this.backupPath, 'utf8');
+        const migration = parseAndMigrate(backupData);
+
+        if (migration && hasConfigShape(migration.config)) {
+          // Restore from backup
+          if (migration.fromVersion !== migration.toVersion) {
+            this.saveMigratedConfig(backupData, migration);
+          } else {
+            this.saveConfig(migration.config);
+          }
+          return migration.config;
+        }
+      } catch (backupError) {
+        // Backup is also corrupted, continue to default
+      }
+    }
+
+    return this.getDefaultConfig();
+  }
+
+  /**
+   * Keep a copy of the old file, then save the migrated configuration
+   *
+   * When the copy cannot be written the migrated configuration is not
+   * saved either; it is migrated again the next time it is loaded.
+   */
+  private saveMigratedConfig(
+    originalData: string,
+    migration: ConfigMigrationResult
+  ): void {
+    const report: ConfigMigrationReport = {
+      fromVersion: migration.fromVersion,
+      toVersion: migration.toVersion,
+      changes: migration.changes,
+    };
+
+    try {
+      const backupPath = path.join(
+        this.configDir,
+        `config.v${migration.fromVersion}.backup.json`
+      );
+      fs.writeFileSync(backupPath, originalData, 'utf8');
+      report.backupPath = backupPath;
+      this.saveConfig(migration.config as unknown as CustomGuideConfig);
+    } catch (error) {
+      report.error = `Could not save the migrated configuration: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+
+    this.lastMigration = report;
+  }
+
   /**
    * Reset configuration to default values
    */
@@ -237,15 +351,9 @@ export class ConfigurationManager {
 
     try {
       const backupData = fs.readFileSync(this.backupPath, 'utf8');
-      const backupConfig = JSON.parse(backupData) as CustomGuideConfig;
-
-      if (
-        typeof backupConfig === 'object' &&
-        backupConfig !== null &&
-        typeof backupConfig.version === 'string' &&
-        typeof backupConfig.customGuidesFolder === 'string' &&
-        Array.isArray(backupConfig.menuItems)
-      ) {
+      const backupConfig: unknown = JSON.parse(backupData);
+
+      if (hasConfigShape(backupConfig)) {
         return backupConfig;
       }
     } catch (error) {
@@ -267,6 +375,13 @@ export class ConfigurationManager {
     return false;
   }
 
+  /**
+   * Get the configuration directory and what decided it
+   */
+  getConfigLocation(): ConfigLocation {
+    return this.configLocation;
+  }
+
   /**
    * Get configuration file path for debugging
    */
@@ -281,3 +396,116 @@ export class ConfigurationManager {
     return this.backupPath;
   }
 }
+
+/**
+ * Parse configuration file data and migrate it to the current version
+ *
+ * Returns undefined when the data is not a JSON object.
+ */
+function parseAndMigrate(data: string): ConfigMigrationResult | undefined {
+  const parsed: unknown = JSON.parse(data);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return undefined;
+  }
+  return migrateConfig(parsed as Record<string, unknown>);
+}
+
+/**
+ * Check every guide source, adding problems to issues and warnings
+ *
+ * Labels must be unique and each source must set exactly one of path, git
+ * or archive. A local folder, repository or archive that does not exist is
+ * only a warning. Returns whether any folder source exists.
+ */
+function checkGuideSources(
+  sources: GuideSource[],
+  issues: ValidationIssue[],
+  warnings: string[]
+): boolean {
+  let folderExists = false;
+  const labels = new Set([DEFAULT_GUIDE_SOURCE_LABEL]);
+
+  sources.forEach((source, index) => {
+    const pointer = `/guideSources/${index}`;
+    if (labels.has(source.label)) {
+      issues.push({
+        path: `${pointer}/label`,
+        message: `Guide source label '${source.label}' is used more than once`,
+      });
+    }
+    labels.add(source.label);
+
+    const locations = [source.path, source.git, source.archive].filter(
+      (location) => location !== undefined
+    );
+    if (locations.length !== 1) {
+      issues.push({
+        path: pointer,
+        message: 'Guide source needs exactly one of path, git or archive',
+      });
+      return;
+    }
+
+    const kind = getGuideSourceKind(source);
+    if (source.ref !== undefined && kind !== 'git') {
+      issues.push({
+        path: `${pointer}/ref`,
+        message: 'ref can only be used with git',
+      });
+    }
+    if (source.folder !== undefined && kind === 'path') {
+      issues.push({
+        path: `${pointer}/folder`,
+        message: 'folder can only be used with git or archive',
+      });
+    }
+
+    if (kind === 'git') {
+      const repository = source.git || '';
+      if (!isGitUrl(repository) && !fs.existsSync(repository)) {
+        warnings.push(
+          `Guide source '${source.label}' repository does not exist: ${repository}`
+        );
+      }
+      return;
+    }
+
+    if (kind === 'archive') {
+      const archive = source.archive || '';
+      const archivePath = archive.startsWith('file://')
+        ? fileURLToPath(archive)
+        : archive;
+      if (!fs.existsSync(archivePath)) {
+        warnings.push(
+          `Guide source '${source.label}' archive does not exist: ${archivePath}`
+        );
+      }
+      return;
+    }
+
+    const folder = source.path || '';
+    if (!fs.existsSync(folder)) {
+      warnings.push(
+        `Guide source '${source.label}' folder does not exist: ${folder}`
+      );
+      return;
+    }
+
+    folderExists = true;
+    try {
+      if (!fs.statSync(folder).isDirectory()) {
+        issues.push({
+          path: `${pointer}/path`,
+          message: `Guide source folder is not a directory: ${folder}`,
+        });
+      }
+    } catch (error) {
+      issues.push({
+        path: `${pointer}/path`,
+        message: `Cannot access guide source folder: ${folder}`,
+      });
+    }
+  });
+
+  return folderExists;
+}
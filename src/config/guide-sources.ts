@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CustomGuideConfig,
+  CustomMenuItem,
+  GuideSource,
+  GuideSourceKind,
+} from './types';
+
+/**
+ * Label of the source made from customGuidesFolder
+ */
+export const DEFAULT_GUIDE_SOURCE_LABEL = 'customGuidesFolder';
+
+/**
+ * List every folder to discover custom guides in, highest precedence first
+ *
+ * customGuidesFolder comes first with priority 0, followed by guideSources.
+ * Sources are ordered by priority, highest first; sources with the same
+ * priority keep the order they are configured in. Every source returned
+ * has its priority set.
+ */
+export function resolveGuideSources(config: CustomGuideConfig): GuideSource[] {
+  const sources: GuideSource[] = [
+    {
+      label: DEFAULT_GUIDE_SOURCE_LABEL,
+      path: config.customGuidesFolder,
+      priority: 0,
+    },
+    ...(config.guideSources || []).map((source) => ({
+      ...source,
+      priority: source.priority ?? 0,
+    })),
+  ];
+
+  // Array.prototype.sort is stable, so equal priorities keep their order
+  return sources.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+/**
+ * Find the folder a menu item points to
+ *
+ * folderPath is relative to customGuidesFolder. When nothing exists there,
+ * the other folder sources are tried in order of precedence, so a menu
+ * item can rename a guide from any of them. Returns the path under
+ * customGuidesFolder when no source has the folder.
+ */
+export function resolveMenuItemFolder(
+  config: CustomGuideConfig,
+  menuItem: CustomMenuItem
+): string {
+  const defaultPath = path.resolve(
+    config.customGuidesFolder,
+    menuItem.folderPath || ''
+  );
+  if (fs.existsSync(defaultPath)) {
+    return defaultPath;
+  }
+
+  const found = resolveGuideSources(config)
+    .filter((source) => getGuideSourceKind(source) === 'path')
+    .map((source) => path.resolve(source.path || '', menuItem.folderPath || ''))
+    .find((folderPath) => fs.existsSync(folderPath));
+  return found || defaultPath;
+}
+
+/**
+ * Tell which kind of source a guide source is
+ */
+export function getGuideSourceKind(source: GuideSource): GuideSourceKind {
+  if (source.git !== undefined) {
+    return 'git';
+  }
+  return source.archive !== undefined ? 'archive' : 'path';
+}
+
+/**
+ * Get the folder, repository or archive a source points to
+ */
+export function getGuideSourceLocation(source: GuideSource): string {
+  return source.git ?? source.archive ?? source.path ?? '';
+}
+
+/**
+ * Describe a source for messages, such as "source 'team' (/shared/guides)"
+ * or "source 'platform' (file:///srv/guides.git#v2)"
+ */
+export function describeGuideSource(source: GuideSource): string {
+  const ref = source.git !== undefined && source.ref ? `#${source.ref}` : '';
+  return `source '${source.label}' (${getGuideSourceLocation(source)}${ref})`;
+}
+
+/**
+ * Check whether a git location is a URL rather than a local path
+ *
+ * Covers scheme URLs such as https:// and file:// and the scp-like
+ * git@host:owner/repo form.
+ */
+export function isGitUrl(location: string): boolean {
+  return (
+    /^[a-z][a-z0-9+.-]*:\/\//i.test(location) ||
+    /^[^/\\]+@[^/\\]+:/.test(location)
+  );
+}
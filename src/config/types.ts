@@ -6,8 +6,184 @@ export interface CustomGuideConfig {
   version: string;
   /** Path to the folder containing custom development guides */
   customGuidesFolder: string;
+  /** Further folders to discover custom guides in (see GuideSource) */
+  guideSources?: GuideSource[];
   /** Custom menu item configurations */
   menuItems: CustomMenuItem[];
+  /** Where backups are written and how long they are kept */
+  backups?: BackupSettings;
+}
+
+/**
+ * How loadConfig upgraded a configuration written in an older format
+ */
+export interface ConfigMigrationReport {
+  /** Version the configuration file had */
+  fromVersion: string;
+  /** Version the configuration was migrated to */
+  toVersion: string;
+  /** Description of every change, oldest migration step first */
+  changes: string[];
+  /** Copy of the file as it was before the migration */
+  backupPath?: string;
+  /** Why the migrated configuration could not be saved */
+  error?: string;
+}
+
+/**
+ * Places configuration values come from, lowest precedence first
+ *
+ * - default: built-in defaults
+ * - global: the user's config.json (see ConfigLocation)
+ * - project: .memorybankrc.json or the memoryBank key of package.json,
+ *   found by searching upward from the project directory
+ * - env: MEMORY_BANK_* environment variables
+ * - cli: command line flags
+ */
+export type ConfigSource = 'default' | 'global' | 'project' | 'env' | 'cli';
+
+/**
+ * What decided the global configuration directory, highest precedence first
+ *
+ * - cli: the --config flag
+ * - env: MEMORY_BANK_CONFIG or MEMORY_BANK_HOME
+ * - xdg: $XDG_CONFIG_HOME/memory-bank
+ * - default: ~/.memory-bank
+ */
+export type ConfigDirSource = 'cli' | 'env' | 'xdg' | 'default';
+
+/**
+ * Directory the global configuration is read from and saved to
+ */
+export interface ConfigLocation {
+  /** Absolute path of the directory holding config.json */
+  dir: string;
+  /** What decided the directory */
+  source: ConfigDirSource;
+  /** Flag or environment variable that set the directory */
+  origin?: string;
+}
+
+/**
+ * Configuration values from one source
+ */
+export interface ConfigLayer {
+  /** Kind of source */
+  source: ConfigSource;
+  /** File, environment variable or flag the values came from */
+  origin?: string;
+  /** Values the source sets */
+  values: Partial<CustomGuideConfig>;
+}
+
+/**
+ * Where one effective configuration value came from
+ */
+export interface ConfigValueSource {
+  /** Kind of source */
+  source: ConfigSource;
+  /** File, environment variable or flag the value came from */
+  origin?: string;
+}
+
+/**
+ * Configuration merged from every layer
+ */
+export interface ResolvedConfig {
+  /** Effective configuration */
+  config: CustomGuideConfig;
+  /** Source of each value, keyed by its dotted name such as backups.keep */
+  sources: Record<string, ConfigValueSource>;
+  /** Layers that were merged, lowest precedence first */
+  layers: ConfigLayer[];
+}
+
+/**
+ * One effective configuration value and where it came from
+ */
+export interface ResolvedConfigValue extends ConfigValueSource {
+  /** Dotted name of the value, such as backups.keep */
+  name: string;
+  /** Effective value */
+  value: unknown;
+}
+
+/**
+ * Where backups of overwritten files are written
+ *
+ * "beside" puts them next to the original file; "memory-bank" collects them
+ * under .memory-bank/.backups in the same layout as the project.
+ */
+export type BackupLocation = 'beside' | 'memory-bank';
+
+/**
+ * Backup location and retention policy
+ */
+export interface BackupSettings {
+  /** Where new backups are written (defaults to beside) */
+  location?: BackupLocation;
+  /** Number of backups to keep per file */
+  keep?: number;
+  /** Remove backups older than this many days */
+  maxAgeDays?: number;
+}
+
+/**
+ * A place custom guides are discovered in, such as a shared team folder
+ *
+ * A source sets exactly one of path, git or archive. Git repositories and
+ * archives are cloned or extracted into a cache under the configuration
+ * directory and read from there. customGuidesFolder is a source too,
+ * labelled customGuidesFolder with priority 0. When two sources hold a
+ * guide with the same id, the one with the higher priority wins; with
+ * equal priorities the one listed first wins.
+ */
+export interface GuideSource {
+  /** Name used in listings and warnings, unique among the sources */
+  label: string;
+  /** Folder holding one sub-folder per guide */
+  path?: string;
+  /** Git repository: a URL, a file:// URL or the path of a local or bare repository */
+  git?: string;
+  /** Branch, tag or commit to check out (defaults to the repository's default branch) */
+  ref?: string;
+  /** .tgz archive to extract, as a path or file:// URL */
+  archive?: string;
+  /** Folder inside the repository or archive that holds the guides */
+  folder?: string;
+  /** Precedence over other sources, higher wins (defaults to 0) */
+  priority?: number;
+}
+
+/**
+ * Kinds of guide source, named after the field that sets them
+ */
+export type GuideSourceKind = 'path' | 'git' | 'archive';
+
+/**
+ * State of one guide source as shown by the sources command
+ */
+export interface GuideSourceStatus {
+  /** Label of the source */
+  label: string;
+  /** Kind of source */
+  kind: GuideSourceKind;
+  /** Folder, repository or archive the source points to */
+  location: string;
+  /** Ref checked out for git sources */
+  ref?: string;
+  /** Precedence over other sources */
+  priority: number;
+  /** Local folder the guides are read from, once available */
+  folder?: string;
+  /** Whether a git or archive source has been fetched into the cache */
+  cached?: boolean;
+  /** Commit checked out in the cache of a git source */
+  commit?: string;
+  /** Whether the source was fetched again by this run */
+  refreshed?: boolean;
+  /** Why the source could not be fetched */
+  error?: string;
 }
 
 /**
@@ -27,15 +203,21 @@ export interface CustomMenuItem {
 }
 
 /**
- * Information about a development guide (built-in or custom)
+ * Where a guide comes from: shipped with the CLI, a custom guide folder or
+ * an npm package
+ */
+export type GuideType = 'built-in' | 'custom' | 'package';
+
+/**
+ * Information about a development guide (built-in, custom or package)
  */
 export interface GuideInfo {
   /** Unique identifier for the guide */
   id: string;
   /** Display name shown in the menu */
   displayName: string;
-  /** Type of guide (built-in or custom) */
-  type: 'built-in' | 'custom';
+  /** Type of guide (built-in, custom or package) */
+  type: GuideType;
   /** Path to the guide folder */
   folderPath: string;
   /** Whether the guide has associated cursor rules */
@@ -44,6 +226,192 @@ export interface GuideInfo {
   category?: string;
   /** Optional description for the guide */
   description?: string;
+  /** Guide version: the package version for package guides, otherwise the one declared in guide.json */
+  version?: string;
+  /** Guide author declared in guide.json */
+  author?: string;
+  /** Tags declared in guide.json */
+  tags?: string[];
+  /** Parsed guide.json manifest, if the guide ships one */
+  manifest?: GuideManifest;
+  /** Rules used to recognize projects this guide fits */
+  detection?: GuideDetectionRules;
+  /** How well the guide matches the target project, from 0 to 1 */
+  confidence?: number;
+  /** Source a custom guide was discovered in */
+  source?: GuideSource;
+  /** npm package a package guide was discovered in */
+  package?: GuidePackage;
+}
+
+/**
+ * node_modules folder a guide package was found in
+ */
+export type GuidePackageScope = 'project' | 'global';
+
+/**
+ * An installed npm package that ships a guide
+ *
+ * Its package.json declares the guide under memoryBankGuide:
+ * { "path": "guide", "format": 1 }, where path is the guide folder inside
+ * the package (defaults to the package root) and format the guide package
+ * format it is written for (defaults to 1).
+ */
+export interface GuidePackage {
+  /** npm package name, such as @acme/memory-bank-guide-backend */
+  name: string;
+  /** Package version from package.json */
+  version: string;
+  /** Whether the package is installed in the project or globally */
+  scope: GuidePackageScope;
+  /** Folder of the package */
+  path: string;
+  /** Folder of the guide inside the package */
+  folderPath: string;
+}
+
+/**
+ * A custom guide left out because another source has a guide with its id
+ */
+export interface ShadowedGuide {
+  /** Guide that was left out */
+  guide: GuideInfo;
+  /** Guide with the same id that is used instead */
+  shadowedBy: GuideInfo;
+}
+
+/**
+ * Signals that identify a project stack a guide is written for
+ */
+export interface GuideDetectionRules {
+  /** File name patterns at the project root, or relative file paths */
+  files?: string[];
+  /** package.json dependency names or patterns */
+  packages?: string[];
+  /** Text that has to appear in a project file */
+  contents?: GuideContentRule[];
+}
+
+/**
+ * Detection rule matching text inside a project file
+ */
+export interface GuideContentRule {
+  /** Project-relative path of the file to search */
+  file: string;
+  /** Text the file has to contain */
+  text: string;
+}
+
+/**
+ * Contents of a guide.json manifest shipped inside a guide folder
+ */
+export interface GuideManifest {
+  /** Unique identifier (defaults to the folder name) */
+  id?: string;
+  /** Display name shown in the menu */
+  displayName?: string;
+  /** Optional category for grouping */
+  category?: string;
+  /** Optional description for the guide */
+  description?: string;
+  /** Version of the guide */
+  version?: string;
+  /** Author or owning team of the guide */
+  author?: string;
+  /** Free-form tags for searching and filtering */
+  tags?: string[];
+  /** Files to install (defaults to developmentGuide.md and .cursorrules) */
+  files?: GuideManifestFile[];
+  /** Glob patterns selecting files from the guide folder to install */
+  include?: string[];
+  /** Glob patterns removing files from the include selection */
+  exclude?: string[];
+  /** Rules mapping included guide paths to project paths */
+  mappings?: GuidePathMapping[];
+  /** Template variables used by the guide's files; enables {{name}} substitution */
+  variables?: GuideVariable[];
+  /** Rules used to recommend the guide for a project */
+  detection?: GuideDetectionRules;
+  /** Id of a built-in or custom guide whose files this guide builds on */
+  extends?: string;
+  /** Changes to the files of the base guide, applied in order */
+  fragments?: GuideFragment[];
+}
+
+/**
+ * Where a guide fragment goes in the file it changes
+ */
+export type GuideFragmentMode = 'append' | 'prepend' | 'replace';
+
+/**
+ * A file of an extending guide that is added to, or replaces part of, a
+ * file of its base guide
+ */
+export interface GuideFragment {
+  /** Path of the fragment file relative to the guide folder */
+  source: string;
+  /** File of the base guide to change, relative to that guide (defaults to developmentGuide.md) */
+  target?: string;
+  /** Add the fragment after or before the content, or put it in its place */
+  mode: GuideFragmentMode;
+  /** Heading of the section to change, such as "## Testing"; without it the whole file is changed */
+  heading?: string;
+}
+
+/**
+ * A template variable declared by a guide
+ */
+export interface GuideVariable {
+  /** Placeholder name used as {{name}} in guide files */
+  name: string;
+  /** Question asked during interactive installs */
+  prompt?: string;
+  /** Value used when nothing else provides one */
+  default?: string;
+}
+
+/**
+ * Maps a file or folder inside a guide to a location in the project
+ */
+export interface GuidePathMapping {
+  /** Guide-relative file path, or folder path ending in "/" */
+  from: string;
+  /** Project-relative destination for the file or folder */
+  to: string;
+}
+
+/**
+ * A file declared in a guide manifest
+ */
+export interface GuideManifestFile {
+  /** Path of the file relative to the guide folder */
+  source: string;
+  /** Install destination relative to the project root */
+  destination: string;
+}
+
+/**
+ * Structured template for one of the core memory bank files
+ */
+export interface MemoryBankTemplate {
+  /** File name inside .memory-bank */
+  fileName: string;
+  /** Top-level heading of the file */
+  title: string;
+  /** One-line description of the file's role */
+  summary: string;
+  /** Sections rendered as second-level headings */
+  sections: MemoryBankTemplateSection[];
+}
+
+/**
+ * A section of a memory bank template
+ */
+export interface MemoryBankTemplateSection {
+  /** Section heading */
+  heading: string;
+  /** Guidance on what the section should contain */
+  prompt: string;
 }
 
 /**
@@ -54,10 +422,22 @@ export interface ValidationResult {
   isValid: boolean;
   /** Error message if validation failed */
   error?: string;
+  /** Every problem found, when the validation reports them all at once */
+  issues?: ValidationIssue[];
   /** Warning messages for non-critical issues */
   warnings?: string[];
 }
 
+/**
+ * One invalid value found by schema validation
+ */
+export interface ValidationIssue {
+  /** JSON pointer of the value, such as /menuItems/0/id ('' for the whole document) */
+  path: string;
+  /** What is wrong with the value */
+  message: string;
+}
+
 /**
  * Result of a file copy operation
  */
@@ -76,6 +456,475 @@ export interface CopyResult {
   rolledBack?: boolean;
   /** Error message if rollback failed */
   rollbackError?: string;
+  /** Whether an existing file was kept instead of being written */
+  skipped?: boolean;
+  /** Whether the kept file already matched the guide version */
+  unchanged?: boolean;
+  /** How an existing file that differed from the guide version was handled */
+  conflictAction?: ConflictAction;
+  /** Where the guide version was written when keep-both kept the existing file */
+  newFilePath?: string;
+}
+
+/**
+ * What the install does with an existing file that differs from the guide
+ *
+ * - overwrite: back up the existing file and write the guide version
+ * - skip: keep the existing file and leave the guide version out
+ * - keep-both: keep the existing file and write the guide version beside it
+ *   with a .new suffix
+ * - merge: append the guide's sections the existing file does not have
+ */
+export type ConflictAction = 'overwrite' | 'skip' | 'keep-both' | 'merge';
+
+/**
+ * How --on-conflict handles existing files: one action for every file, or
+ * show-diff to show each file's differences and ask what to do
+ */
+export type ConflictStrategy = ConflictAction | 'show-diff';
+
+/**
+ * An existing project file that differs from the guide file to be installed
+ */
+export interface FileConflict {
+  /** Path of the guide file */
+  sourcePath: string;
+  /** Path of the existing project file */
+  targetPath: string;
+  /** Content of the existing project file */
+  existing: string;
+  /** Content the guide would write */
+  incoming: string;
+}
+
+/**
+ * Record of a guide install, stored in .memory-bank/.install.json
+ */
+export interface InstallLockfile {
+  /** Version of the lockfile format */
+  lockfileVersion: number;
+  /** Guide that was installed */
+  guide: InstalledGuide;
+  /** Template variables the guide files were rendered with */
+  variables?: Record<string, string>;
+  /** Every file written by the install */
+  files: InstalledFile[];
+  /** When the guide was first installed into the project (ISO 8601) */
+  installedAt: string;
+  /** When the lockfile was last written (ISO 8601) */
+  updatedAt: string;
+}
+
+/**
+ * The guide recorded in an install lockfile
+ */
+export interface InstalledGuide {
+  /** Unique identifier for the guide */
+  id: string;
+  /** Type of guide (built-in, custom or package) */
+  type: GuideType;
+  /** Path to the guide folder at install time */
+  sourcePath: string;
+  /** Guide version declared in guide.json */
+  version?: string;
+  /** SHA-256 over the guide's installable files */
+  contentHash: string;
+}
+
+/**
+ * A file recorded in an install lockfile
+ */
+export interface InstalledFile {
+  /** Project-relative path of the installed file, using "/" separators */
+  path: string;
+  /** Guide-relative path of the source file (absent for built-in templates) */
+  source?: string;
+  /** SHA-256 of the file as it was written */
+  sha256: string;
+  /** When the file was written (ISO 8601) */
+  installedAt: string;
+}
+
+/**
+ * What an update does with an installed guide file
+ *
+ * - unchanged: the project file already matches the result
+ * - update: the file had no local edits and takes the new guide version
+ * - merge: local edits and guide changes were merged without conflicts
+ * - conflict: local edits and guide changes touch the same lines
+ * - create: the file is new in the guide
+ * - deleted: the file was deleted locally and stays deleted
+ * - removed: the file is no longer part of the guide and stays as it is
+ */
+export type FileUpdateAction =
+  | 'unchanged'
+  | 'update'
+  | 'merge'
+  | 'conflict'
+  | 'create'
+  | 'deleted'
+  | 'removed';
+
+/**
+ * How a conflicting file was resolved
+ *
+ * - markers: both versions were written between conflict markers
+ * - ours: the local version was kept
+ * - theirs: the guide version replaced the local one
+ */
+export type ConflictResolution = 'markers' | 'ours' | 'theirs';
+
+/**
+ * The outcome of updating one installed guide file
+ */
+export interface FileUpdate {
+  /** Project-relative path of the file, using "/" separators */
+  path: string;
+  /** Guide-relative path of the source file */
+  source?: string;
+  /** What the update does with the file */
+  action: FileUpdateAction;
+  /** Number of conflicting regions, for conflicts */
+  conflicts?: number;
+  /** How a conflict was resolved */
+  resolution?: ConflictResolution;
+  /** Whether the file was written */
+  written?: boolean;
+}
+
+/**
+ * Structured summary of an update run, printed when --json is used
+ */
+export interface UpdateReport {
+  /** Final outcome of the run */
+  status: 'success' | 'dry-run' | 'conflicts' | 'failed';
+  /** Process exit code (see ExitCode) */
+  exitCode: number;
+  /** Directory whose installed guide was updated */
+  targetDir?: string;
+  /** Guide as recorded after the update */
+  guide?: InstalledGuide;
+  /** What happened to every guide file */
+  files: FileUpdate[];
+  /** Error message when the run failed */
+  error?: string;
+}
+
+/**
+ * How a project file compares to the guide version
+ *
+ * - identical: the file matches the guide
+ * - modified: the file differs from the guide
+ * - missing: the guide ships the file but the project does not have it
+ */
+export type FileDiffStatus = 'identical' | 'modified' | 'missing';
+
+/**
+ * The differences between one project file and the guide version
+ */
+export interface FileDiff {
+  /** Project-relative path of the file, using "/" separators */
+  path: string;
+  /** Guide-relative path of the source file */
+  source: string;
+  /** How the project file compares to the guide */
+  status: FileDiffStatus;
+  /** Lines the project has that the guide does not */
+  added: number;
+  /** Lines the guide has that the project does not */
+  removed: number;
+  /** Unified diff from the guide version to the project version */
+  diff?: string;
+}
+
+/**
+ * Structured summary of a diff run, printed when --json is used
+ */
+export interface DiffReport {
+  /** Whether the project matches the guide */
+  status: 'identical' | 'drift' | 'failed';
+  /** Process exit code (see ExitCode) */
+  exitCode: number;
+  /** Directory that was compared */
+  targetDir?: string;
+  /** Id of the guide the project was compared against */
+  guide?: string;
+  /** How every guide file compares */
+  files: FileDiff[];
+  /** Error message when the run failed */
+  error?: string;
+}
+
+/**
+ * What uninstalling does with one installed file
+ *
+ * - remove: the file is deleted
+ * - restore: the file is replaced by its most recent backup
+ * - missing: the file was already deleted
+ */
+export type FileUninstallAction = 'remove' | 'restore' | 'missing';
+
+/**
+ * The outcome of uninstalling one installed file
+ */
+export interface FileUninstall {
+  /** Project-relative path of the file, using "/" separators */
+  path: string;
+  /** What uninstalling does with the file */
+  action: FileUninstallAction;
+  /** Whether the file changed since it was installed */
+  modified?: boolean;
+  /** Project-relative path of the backup the file is restored from */
+  backupPath?: string;
+  /** Whether the file was removed or restored */
+  done?: boolean;
+}
+
+/**
+ * The outcome of uninstalling a memory bank folder (.memory-bank or .specs)
+ */
+export interface DirectoryUninstall {
+  /** Project-relative path of the folder */
+  path: string;
+  /** Files that are not part of the install and would be deleted with it */
+  remaining: string[];
+  /** Whether the folder is removed or kept */
+  action: 'remove' | 'keep';
+}
+
+/**
+ * Structured summary of an uninstall run, printed when --json is used
+ */
+export interface UninstallReport {
+  /** Final outcome of the run */
+  status: 'success' | 'dry-run' | 'failed';
+  /** Process exit code (see ExitCode) */
+  exitCode: number;
+  /** Directory the guide was uninstalled from */
+  targetDir?: string;
+  /** Guide as recorded in the lockfile */
+  guide?: InstalledGuide;
+  /** What happened to every installed file */
+  files: FileUninstall[];
+  /** What happened to the memory bank folders */
+  directories: DirectoryUninstall[];
+  /** Error message when the run failed */
+  error?: string;
+}
+
+/**
+ * A backup of a project file
+ */
+export interface BackupEntry {
+  /** "/"-separated path of the backup, relative to the project */
+  path: string;
+  /** "/"-separated path of the file it is a backup of, relative to the project */
+  file: string;
+  /** Time the backup was taken, in milliseconds since the epoch */
+  timestamp: number;
+  /** Where the backup is stored */
+  location: BackupLocation;
+}
+
+/**
+ * Structured summary of a backups run, printed when --json is used
+ */
+export interface BackupsReport {
+  /** Final outcome of the run */
+  status: 'success' | 'dry-run' | 'failed';
+  /** Process exit code (see ExitCode) */
+  exitCode: number;
+  /** Whether backups were listed, restored or pruned */
+  action: 'list' | 'restore' | 'prune';
+  /** Directory whose backups were handled */
+  targetDir?: string;
+  /** Every backup found before the run changed anything */
+  backups: BackupEntry[];
+  /** Backup that was (or would be) restored */
+  restored?: BackupEntry;
+  /** Backup of the current file taken before restoring */
+  backupPath?: string;
+  /** Backups that were (or would be) removed */
+  removed?: BackupEntry[];
+  /** Error message when the run failed */
+  error?: string;
+}
+
+/**
+ * Structured summary of a sources command run, printed when --json is used
+ */
+export interface SourcesReport {
+  /** Final outcome of the run */
+  status: 'success' | 'failed';
+  /** Process exit code (see ExitCode) */
+  exitCode: number;
+  /** What the command did */
+  action: SourcesAction;
+  /** Directory the project configuration was searched from */
+  targetDir?: string;
+  /** Every guide source, highest precedence first */
+  sources: GuideSourceStatus[];
+  /** Error message when the run failed */
+  error?: string;
+}
+
+/**
+ * Structured summary of a config command run, printed when --json is used
+ */
+export interface ConfigReport {
+  /** Final outcome of the run */
+  status: 'success' | 'failed';
+  /** Process exit code (see ExitCode) */
+  exitCode: number;
+  /** Directory the project configuration was searched from */
+  targetDir?: string;
+  /** Directory of the global configuration and what decided it */
+  configLocation?: ConfigLocation;
+  /** Layers that were merged, lowest precedence first (without --resolved) */
+  layers?: ConfigLayer[];
+  /** Effective configuration (with --resolved) */
+  config?: CustomGuideConfig;
+  /** Effective values and where each came from (with --resolved) */
+  values?: ResolvedConfigValue[];
+  /** Error message when the run failed */
+  error?: string;
+}
+
+/**
+ * The areas the doctor command checks
+ */
+export type DiagnosticCheck =
+  | 'config'
+  | 'backup-config'
+  | 'guides-folder'
+  | 'guide-structure'
+  | 'menu-items'
+  | 'duplicate-ids'
+  | 'cursor-rules'
+  | 'target';
+
+/**
+ * One result of a doctor check
+ */
+export interface DiagnosticFinding {
+  /** Check that produced the finding */
+  check: DiagnosticCheck;
+  /** Whether the check passed, or how serious the problem is */
+  severity: 'ok' | 'warning' | 'error';
+  /** What was found */
+  message: string;
+  /** File or folder the finding is about */
+  path?: string;
+  /** How to fix the problem */
+  fix?: string;
+}
+
+/**
+ * Structured summary of a doctor run, printed when --json is used
+ */
+export interface DoctorReport {
+  /** Whether any check found a problem */
+  status: 'healthy' | 'warnings' | 'errors';
+  /** Process exit code (see ExitCode) */
+  exitCode: number;
+  /** Every finding, grouped by check */
+  findings: DiagnosticFinding[];
+}
+
+/**
+ * A directory the install would create or reuse
+ */
+export interface PlannedDirectory {
+  /** Absolute path of the directory */
+  path: string;
+  /** Whether the directory would be created or already exists */
+  action: 'create' | 'exists';
+}
+
+/**
+ * A file the install would write
+ */
+export interface PlannedFile {
+  /** Path of the guide file that would be copied (absent for built-in templates) */
+  sourcePath?: string;
+  /** Path the file would be written to */
+  targetPath: string;
+  /** Whether the target would be created, overwritten or kept as it is */
+  action: 'create' | 'overwrite' | 'keep';
+  /** Path of the backup that would be created before overwriting */
+  backupPath?: string;
+  /** How an existing file would be handled, when --on-conflict applies */
+  conflictAction?: ConflictAction;
+}
+
+/**
+ * Preview of every filesystem change an install would make
+ */
+export interface InstallPlan {
+  /** Id of the guide being installed */
+  guideId: string;
+  /** Display name of the guide being installed */
+  guideName: string;
+  /** Directory the guide would be installed into */
+  targetDir: string;
+  /** Directories that would be created or reused */
+  directories: PlannedDirectory[];
+  /** Files that would be written */
+  files: PlannedFile[];
+  /** Problems that would make the install fail */
+  errors: string[];
+}
+
+/**
+ * Structured summary of a CLI run, printed when --json is used
+ */
+export interface RunReport {
+  /** Final outcome of the run */
+  status: 'success' | 'dry-run' | 'failed';
+  /** Process exit code (see ExitCode) */
+  exitCode: number;
+  /** Directory the guide was (or would be) installed into */
+  targetDir?: string;
+  /** Configuration loading and validation results */
+  config: {
+    /** Path of the configuration file */
+    path?: string;
+    /** Path of the project configuration file, when one was found */
+    projectPath?: string;
+    /** How the configuration file was migrated from an older format */
+    migration?: ConfigMigrationReport;
+    /** Whether the configuration file was loaded without falling back to defaults */
+    loaded: boolean;
+    /** Result of validating the loaded configuration */
+    validation?: ValidationResult;
+  };
+  /** Guides that were discovered */
+  guides: {
+    /** Built-in guides shipped with the package */
+    builtIn: GuideInfo[];
+    /** Custom guides found in the configured folder */
+    custom: GuideInfo[];
+    /** Guides shipped as npm packages in node_modules */
+    packages: GuideInfo[];
+    /** Problems found while discovering custom and package guides */
+    warnings: string[];
+  };
+  /** Guide selected for installation */
+  selectedGuide?: GuideInfo;
+  /** Install preview when running with --dry-run */
+  plan?: InstallPlan;
+  /** Template variables used for guides that declare variables */
+  variables?: Record<string, string>;
+  /** Result of every file copy */
+  results: CopyResult[];
+  /** Old backups removed by the retention policy */
+  prunedBackups?: string[];
+  /** Whether a failed install's changes were all undone */
+  rolledBack?: boolean;
+  /** Problems undoing a failed install's changes */
+  rollbackErrors?: string[];
+  /** Error message when the run failed */
+  error?: string;
 }
 
 /**
@@ -86,3 +935,126 @@ export interface MemoryBankType {
   cursorRulesPath: string;
   developmentGuidePath: string;
 }
+
+/**
+ * Options parsed from the init-memory-bank command line
+ */
+export interface CliOptions {
+  /** Command to run (defaults to install) */
+  command: CliCommand;
+  /** Guide id to install without showing the selection prompt */
+  guide?: string;
+  /** Directory to install into (defaults to the current working directory) */
+  target?: string;
+  /** Skip all interactive prompts */
+  yes: boolean;
+  /** Show usage information and exit */
+  help: boolean;
+  /** Preview the install without writing anything */
+  dryRun: boolean;
+  /** Print a machine-readable JSON report instead of console text */
+  json: boolean;
+  /** Template variable values given with --var name=value */
+  vars?: Record<string, string>;
+  /** Only list guides of this type (list command) */
+  type?: GuideType;
+  /** Only list guides in this category (list command) */
+  category?: string;
+  /** Output format (list command) */
+  format?: ListFormat;
+  /** Only print the status of each file (diff command) */
+  summary?: boolean;
+  /** Exit with 1 when the project differs from the guide (diff command) */
+  exitCode?: boolean;
+  /** Remove files even when they changed since install (uninstall command) */
+  force?: boolean;
+  /** Backup, or file whose latest backup, to restore (backups command) */
+  restore?: string;
+  /** Remove backups outside the retention policy (backups command) */
+  prune?: boolean;
+  /** Number of backups to keep per file when pruning (backups command) */
+  keep?: number;
+  /** Remove backups older than this many days when pruning (backups command) */
+  olderThan?: number;
+  /** How to handle existing files that differ from the guide (install command) */
+  onConflict?: ConflictStrategy;
+  /** Custom guides folder that overrides every configuration file */
+  guidesFolder?: string;
+  /** What the config command does */
+  configAction?: ConfigAction;
+  /** Show effective values and their sources (config command) */
+  resolved?: boolean;
+  /** Directory of the global configuration, overriding the environment */
+  config?: string;
+  /** What the sources command does */
+  sourcesAction?: SourcesAction;
+  /** Label of the only guide source to refresh (sources command) */
+  source?: string;
+}
+
+/**
+ * Options of memory-bank-configure
+ */
+export interface ConfigureOptions {
+  /** Directory of the configuration, overriding the environment */
+  config?: string;
+  /** Show usage information */
+  help: boolean;
+}
+
+/**
+ * Actions of the config command
+ */
+export type ConfigAction = 'show';
+
+/**
+ * Actions of the sources command
+ */
+export type SourcesAction = 'list' | 'refresh';
+
+/**
+ * Commands supported by init-memory-bank
+ */
+export type CliCommand =
+  | 'install'
+  | 'list'
+  | 'update'
+  | 'diff'
+  | 'uninstall'
+  | 'doctor'
+  | 'backups'
+  | 'config'
+  | 'sources';
+
+/**
+ * Output formats supported by the list command
+ */
+export type ListFormat = 'table' | 'json' | 'ids';
+
+/**
+ * A guide as reported by the list command
+ */
+export interface GuideListEntry {
+  /** Unique identifier for the guide */
+  id: string;
+  /** Display name shown in the menu */
+  displayName: string;
+  /** Type of guide (built-in, custom or package) */
+  type: GuideType;
+  /** Optional category for grouping */
+  category?: string;
+  /** Optional description for the guide */
+  description?: string;
+  /** Path to the guide folder */
+  folderPath: string;
+  /** Whether the guide has associated cursor rules */
+  hasCursorRules: boolean;
+  /** Whether the guide folder and its developmentGuide.md can be read */
+  accessible: boolean;
+  /** Label of the source a custom guide was discovered in */
+  source?: string;
+  /** Name of the npm package a package guide was discovered in */
+  package?: string;
+  /** Version of the guide */
+  version?: string;
+}
@@ -1,13 +1,33 @@
 #!/usr/bin/env node
 
 import { ConfigureCommand } from './commands/configure-command';
+import { CONFIGURE_USAGE, parseConfigureArgs } from './utils/cli-args';
+import { ExitCode } from './utils/errors';
+
+async function main(argv: string[] = []) {
+  let options;
+  try {
+    options = parseConfigureArgs(argv);
+  } catch (error) {
+    console.error(
+      '❌ Error:',
+      error instanceof Error ? error.message : String(error)
+    );
+    console.error(`\n${CONFIGURE_USAGE}`);
+    process.exit(ExitCode.InvalidArguments);
+    return;
+  }
+
+  if (options.help) {
+    console.log(CONFIGURE_USAGE);
+    return;
+  }
 
-async function main() {
   console.log('🔧 Memory Bank Configuration');
   console.log('============================\n');
 
   try {
-    const configureCommand = new ConfigureCommand();
+    const configureCommand = new ConfigureCommand(options.config);
     await configureCommand.run();
   } catch (error) {
     console.error(
@@ -19,5 +39,5 @@ async function main() {
 }
 
 if (require.main === module) {
-  main();
+  main(process.argv.slice(2));
 }
@@ -1,59 +1,274 @@
 #!/usr/bin/env node
 import * as fs from 'fs';
 import * as path from 'path';
+import { readCliLayers } from './config/config-layers';
+import { formatValidationIssues } from './config/config-schema';
 import { ConfigurationManager } from './config/configuration-manager';
+import { DEFAULT_GUIDE_SOURCE_LABEL } from './config/guide-sources';
+import { BackupsCommand } from './commands/backups-command';
+import { ConfigCommand } from './commands/config-command';
+import { SourcesCommand } from './commands/sources-command';
+import { DiffCommand } from './commands/diff-command';
+import { DoctorCommand } from './commands/doctor-command';
+import { ListCommand } from './commands/list-command';
+import { UninstallCommand } from './commands/uninstall-command';
+import { UpdateCommand } from './commands/update-command';
+import { BackupService } from './services/backup-service';
 import { GuideDiscoveryService } from './services/guide-discovery-service';
+import { InstallTransaction } from './services/install-transaction';
 import { FileCopyService } from './services/file-copy-service';
-import { GuideInfo } from './config/types';
+import { MemoryBankScaffoldService } from './services/memory-bank-scaffold-service';
+import { StackDetectionService } from './services/stack-detection-service';
+import {
+  BackupSettings,
+  CliOptions,
+  ConflictAction,
+  FileConflict,
+  GuideInfo,
+  GuideType,
+  RunReport,
+} from './config/types';
+import { parseCliArgs, USAGE } from './utils/cli-args';
+import { formatUnifiedDiff } from './utils/diff';
+import { CliError, ExitCode } from './utils/errors';
+import { formatInstallPlan } from './utils/install-plan';
+import { detectProjectVariables } from './utils/project-variables';
+import { Logger } from './utils/logger';
+
+/**
+ * --guide value that installs the guide matching the detected stack
+ */
+const AUTO_GUIDE = 'auto';
+
+/**
+ * Icon shown before each guide in the menu
+ */
+const GUIDE_TYPE_ICONS: Record<GuideType, string> = {
+  'built-in': '📦',
+  custom: '🔧',
+  package: '🧩',
+};
 
 /**
  * Main entry point for the Memory Bank Initializer
  *
- * This function orchestrates the complete workflow:
+ * Subcommands such as `list`, `update`, `diff`, `uninstall`, `doctor`,
+ * `backups` and `config` are dispatched to their command classes.
+ * Otherwise this function orchestrates the complete install workflow:
  * 1. Loads and validates configuration
  * 2. Discovers built-in and custom development guides
- * 3. Presents an interactive menu for guide selection
- * 4. Copies selected guide files to the current project
+ * 3. Presents an interactive menu for guide selection, ranked by the
+ *    detected project stack, unless a guide was chosen with --guide
+ *    (--guide auto picks the best match)
+ * 4. Copies selected guide files to the current project or --target
  *
  * The function includes comprehensive error handling to ensure
  * graceful degradation when configuration or custom guides are unavailable.
+ * With --json, console output is replaced by a single RunReport document,
+ * and every failure exits with the ExitCode for its category.
  *
+ * @param argv - Command line arguments (without the node and script paths)
  * @returns Promise<void> - Resolves when the operation completes
  * @throws Error - If no guides are available or critical operations fail
  */
-export async function main() {
-  console.log('🚀 Memory Bank Initializer');
-  console.log('==========================\n');
+export async function main(argv: string[] = []) {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (argv.includes('--json')) {
+      console.log(
+        JSON.stringify(
+          {
+            status: 'failed',
+            exitCode: ExitCode.InvalidArguments,
+            error: message,
+          },
+          null,
+          2
+        )
+      );
+    } else {
+      console.error('❌ Error:', message);
+      console.error(`\n${USAGE}`);
+    }
+    process.exit(ExitCode.InvalidArguments);
+    return;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (options.command === 'list') {
+    try {
+      new ListCommand(options.config).run(options);
+    } catch (error) {
+      console.error(
+        '❌ Error:',
+        error instanceof Error ? error.message : error
+      );
+      process.exit(ExitCode.GeneralError);
+    }
+    return;
+  }
+
+  if (options.command === 'update') {
+    const updateReport = await new UpdateCommand(options.config).run(options);
+    if (updateReport.exitCode !== ExitCode.Success) {
+      process.exit(updateReport.exitCode);
+    }
+    return;
+  }
+
+  if (options.command === 'diff') {
+    const diffReport = await new DiffCommand(options.config).run(options);
+    if (diffReport.exitCode !== ExitCode.Success) {
+      process.exit(diffReport.exitCode);
+    }
+    return;
+  }
+
+  if (options.command === 'uninstall') {
+    const uninstallReport = await new UninstallCommand().run(options);
+    if (uninstallReport.exitCode !== ExitCode.Success) {
+      process.exit(uninstallReport.exitCode);
+    }
+    return;
+  }
+
+  if (options.command === 'doctor') {
+    const doctorReport = new DoctorCommand(options.config).run(options);
+    if (doctorReport.exitCode !== ExitCode.Success) {
+      process.exit(doctorReport.exitCode);
+    }
+    return;
+  }
+
+  if (options.command === 'backups') {
+    const backupsReport = await new BackupsCommand(options.config).run(options);
+    if (backupsReport.exitCode !== ExitCode.Success) {
+      process.exit(backupsReport.exitCode);
+    }
+    return;
+  }
+
+  if (options.command === 'sources') {
+    const sourcesReport = new SourcesCommand(options.config).run(options);
+    if (sourcesReport.exitCode !== ExitCode.Success) {
+      process.exit(sourcesReport.exitCode);
+    }
+    return;
+  }
+
+  if (options.command === 'config') {
+    const configReport = new ConfigCommand(options.config).run(options);
+    if (configReport.exitCode !== ExitCode.Success) {
+      process.exit(configReport.exitCode);
+    }
+    return;
+  }
+
+  const logger = new Logger(options.json);
+  const report: RunReport = {
+    status: 'success',
+    exitCode: ExitCode.Success,
+    config: { loaded: false },
+    guides: { builtIn: [], custom: [], packages: [], warnings: [] },
+    results: [],
+  };
+  // Every change the install makes, so a failure can undo all of them
+  const transaction = new InstallTransaction();
+
+  logger.info('🚀 Memory Bank Initializer');
+  logger.info('==========================\n');
 
   try {
     // Load configuration and discover guides with comprehensive error handling
-    const configManager = new ConfigurationManager();
-    const guideDiscoveryService = new GuideDiscoveryService();
+    const configManager = new ConfigurationManager(options.config);
+    const guideDiscoveryService = new GuideDiscoveryService(
+      options.json,
+      options.config
+    );
     const fileCopyService = new FileCopyService();
+    const scaffoldService = new MemoryBankScaffoldService();
+    const stackDetectionService = new StackDetectionService();
+
+    if (options.json && !options.guide) {
+      throw new CliError(
+        'Option --json requires --guide because it cannot show interactive prompts.',
+        ExitCode.InvalidArguments
+      );
+    }
 
-    console.log('📋 Loading configuration...');
+    // Resolve and validate the install target before doing any work
+    const targetDir = options.target
+      ? path.resolve(options.target)
+      : process.cwd();
+    report.targetDir = targetDir;
+    if (options.target) {
+      const targetValidation =
+        fileCopyService.validateTargetDirectory(targetDir);
+      if (!targetValidation.isValid) {
+        throw new CliError(
+          targetValidation.error || 'Target directory validation failed',
+          ExitCode.InvalidTarget
+        );
+      }
+    }
+
+    logger.info('📋 Loading configuration...');
+    report.config.path = configManager.getConfigPath();
     let config;
     let configErrors: string[] = [];
 
     try {
-      config = await configManager.loadConfig();
+      const resolved = configManager.loadResolvedConfig({
+        cwd: targetDir,
+        cliLayers: readCliLayers(options),
+      });
+      config = resolved.config;
+      report.config.projectPath = resolved.layers.find(
+        (layer) => layer.source === 'project'
+      )?.origin;
+
+      const migration = configManager.getLastMigration();
+      if (migration) {
+        report.config.migration = migration;
+        logger.info(
+          `🔄 Migrated the configuration from version ${migration.fromVersion} to ${migration.toVersion}:`
+        );
+        migration.changes.forEach((change) => logger.info(`   - ${change}`));
+        if (migration.backupPath) {
+          logger.info(`   Previous version saved as ${migration.backupPath}`);
+        }
+        if (migration.error) {
+          configErrors.push(migration.error);
+        }
+      }
 
       // Validate configuration and collect any warnings
       const validation = configManager.validateConfig(config);
+      report.config.loaded = true;
+      report.config.validation = validation;
       if (!validation.isValid) {
         configErrors.push(
-          validation.error || 'Configuration validation failed'
+          ...(validation.issues?.map((issue) =>
+            formatValidationIssues([issue])
+          ) || [validation.error || 'Configuration validation failed'])
         );
       }
       if (validation.warnings && validation.warnings.length > 0) {
         configErrors.push(...validation.warnings);
       }
-      console.log('✅ Configuration loaded successfully');
+      logger.info('✅ Configuration loaded successfully');
     } catch (error) {
-      console.log(
+      logger.info(
         '⚠️  Configuration loading failed, using built-in guides only.'
       );
-      console.log(
+      logger.info(
         `   Error: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
       config = configManager.getDefaultConfig();
@@ -61,221 +276,452 @@ export async function main() {
     }
 
     // Discover all available guides with error handling
-    console.log('🔍 Discovering development guides...');
+    logger.info('🔍 Discovering development guides...');
     const builtInGuides = guideDiscoveryService.discoverBuiltInGuides();
-    console.log(`✅ Found ${builtInGuides.length} built-in guides`);
+    report.guides.builtIn = builtInGuides;
+    logger.info(`✅ Found ${builtInGuides.length} built-in guides`);
 
     let customGuides: GuideInfo[] = [];
     let customGuideErrors: string[] = [];
 
     try {
       customGuides = guideDiscoveryService.discoverCustomGuides(config);
+      report.guides.custom = customGuides;
+      report.guides.warnings = guideDiscoveryService.getWarnings();
       if (customGuides.length > 0) {
-        console.log(`✅ Found ${customGuides.length} custom guides`);
+        logger.info(`✅ Found ${customGuides.length} custom guides`);
       } else {
-        console.log('ℹ️  No custom guides found');
+        logger.info('ℹ️  No custom guides found');
       }
     } catch (error) {
       customGuideErrors.push(
         `Custom guides discovery failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+      report.guides.warnings.push(...customGuideErrors);
+    }
+
+    let packageGuides: GuideInfo[] = [];
+    try {
+      packageGuides = guideDiscoveryService.discoverPackageGuides(
+        config,
+        targetDir
+      );
+      report.guides.packages = packageGuides;
+      report.guides.warnings = [
+        ...report.guides.warnings,
+        ...guideDiscoveryService.getPackageWarnings(),
+      ];
+      if (packageGuides.length > 0) {
+        logger.info(`✅ Found ${packageGuides.length} guide packages`);
+      }
+    } catch (error) {
+      report.guides.warnings.push(
+        `Guide package discovery failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
 
     // Show warnings for configuration issues
     if (configErrors.length > 0) {
-      console.log('\n⚠️  Configuration warnings:');
+      logger.info('\n⚠️  Configuration warnings:');
       configErrors.forEach((error) => {
-        console.log(`   - ${error}`);
+        logger.info(`   - ${error}`);
       });
-      console.log(
+      logger.info(
         '   Using built-in guides only. Run "npx memory-bank-configure" to fix configuration issues.\n'
       );
     }
 
     if (customGuideErrors.length > 0) {
-      console.log('\n⚠️  Custom guides warnings:');
+      logger.info('\n⚠️  Custom guides warnings:');
       customGuideErrors.forEach((error) => {
-        console.log(`   - ${error}`);
+        logger.info(`   - ${error}`);
       });
-      console.log(
+      logger.info(
         '   Custom guides will not be available. Check your custom guides folder configuration.\n'
       );
     }
 
-    const allGuides = [...builtInGuides, ...customGuides];
+    const allGuides = [...builtInGuides, ...customGuides, ...packageGuides];
+    guideDiscoveryService.resolveExtendingGuides(allGuides);
 
     if (allGuides.length === 0) {
-      throw new Error(
-        'No guides found. Please check your configuration or reinstall the package.'
+      throw new CliError(
+        'No guides found. Please check your configuration or reinstall the package.',
+        ExitCode.NoGuidesAvailable
       );
     }
 
-    // Create menu choices with clear labeling
-    const choices = allGuides.map((guide) => ({
-      name: `${guide.displayName}${guide.type === 'custom' ? ' (Custom)' : ''}`,
-      value: guide.id,
-      guide: guide,
-    }));
+    let selectedGuide: GuideInfo | undefined;
 
-    console.log('\n📝 Available development guides:');
-    choices.forEach((choice, index) => {
-      const prefix = choice.guide.type === 'custom' ? '🔧' : '📦';
-      console.log(`   ${index + 1}. ${prefix} ${choice.name}`);
-    });
-
-    // Dynamically import ESM-only inquirer to support CommonJS bundle
-    const { default: inquirer } = await import('inquirer');
+    if (options.guide === AUTO_GUIDE) {
+      // Install the guide that best matches the project's stack
+      const [bestMatch] = stackDetectionService.rankGuides(
+        allGuides,
+        targetDir
+      );
+      if (!bestMatch || !bestMatch.confidence) {
+        throw new CliError(
+          `Could not detect the project's stack. Use --guide <id> with one of: ${allGuides
+            .map((guide) => guide.id)
+            .join(', ')}`,
+          ExitCode.GuideNotFound
+        );
+      }
+      selectedGuide = bestMatch;
+      logger.info(
+        `🔎 Detected ${bestMatch.displayName} (${formatConfidence(bestMatch.confidence)} match)`
+      );
+    } else if (options.guide) {
+      // Non-interactive selection by guide id
+      selectedGuide = guideDiscoveryService.findGuideById(
+        allGuides,
+        options.guide
+      );
+      if (!selectedGuide) {
+        throw new CliError(
+          `Unknown guide: ${options.guide}. Available guides: ${allGuides
+            .map((guide) => guide.id)
+            .join(', ')}`,
+          ExitCode.GuideNotFound
+        );
+      }
+    } else if (options.yes) {
+      throw new CliError(
+        'No guide specified. Use --guide <id> together with --yes to install without prompts.',
+        ExitCode.InvalidArguments
+      );
+    } else {
+      selectedGuide = await promptForGuide(
+        stackDetectionService.rankGuides(allGuides, targetDir),
+        logger
+      );
+    }
+    report.selectedGuide = selectedGuide;
+
+    // Guides that extend another guide are composed from the available guides
+    fileCopyService.setAvailableGuides(allGuides);
+    const composition = fileCopyService.validateComposition(selectedGuide);
+    if (!composition.isValid) {
+      throw new CliError(
+        composition.error || 'Guide composition failed',
+        ExitCode.GuideCompositionFailed
+      );
+    }
 
-    const { selectedGuideId } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedGuideId',
-        message: 'What type of memory bank would you like to install?',
-        choices: choices,
-      },
-    ]);
+    // Invalid backup settings are ignored rather than risk pruning too much
+    const backupSettings = report.config.validation?.isValid
+      ? config.backups
+      : undefined;
+    fileCopyService.setBackupSettings(backupSettings);
 
-    const selectedGuide = allGuides.find(
-      (guide) => guide.id === selectedGuideId
+    // Resolve template variables for guides that use them; a dry run
+    // never prompts, so it plans what --yes would install
+    const templateVariables = await resolveTemplateVariables(
+      selectedGuide,
+      targetDir,
+      options.dryRun ? { ...options, yes: true } : options
     );
-    if (!selectedGuide) {
-      throw new Error(
-        `Selected guide not found: ${selectedGuideId}. Please try again.`
+    if (templateVariables) {
+      report.variables = templateVariables;
+      fileCopyService.setTemplateVariables(templateVariables);
+    }
+
+    if (options.dryRun) {
+      // Preview the install without touching the filesystem
+      const plan = fileCopyService.planInstall(
+        selectedGuide,
+        targetDir,
+        Date.now(),
+        options.onConflict === 'show-diff' ? undefined : options.onConflict
       );
+      if (plan.errors.length === 0) {
+        plan.files.push(
+          ...scaffoldService.planScaffold(
+            selectedGuide,
+            targetDir,
+            plan.files.map((file) => file.targetPath)
+          )
+        );
+      }
+      report.plan = plan;
+      logger.info(`\n${formatInstallPlan(plan)}`);
+      logger.info('\n🔎 Dry run: no files or directories were changed.');
+
+      if (plan.errors.length > 0) {
+        throw new CliError(
+          'The install would fail. See the plan for details.',
+          ExitCode.CopyFailed
+        );
+      }
+
+      report.status = 'dry-run';
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      }
+      return;
     }
 
-    console.log(
+    logger.info(
       `\n📦 Installing ${selectedGuide.displayName} Memory Bank...\n`
     );
 
     // Create directories with error handling
-    console.log('📁 Creating project directories...');
-    const memoryBankDir = path.join(process.cwd(), '.memory-bank');
-    const specsDir = path.join(process.cwd(), '.specs');
+    logger.info('📁 Creating project directories...');
+    const memoryBankDir = path.join(targetDir, '.memory-bank');
+    const specsDir = path.join(targetDir, '.specs');
 
     try {
       if (!fs.existsSync(memoryBankDir)) {
-        fs.mkdirSync(memoryBankDir, { recursive: true });
-        console.log('✅ Created .memory-bank directory');
+        transaction.createDirectory(memoryBankDir);
+        logger.info('✅ Created .memory-bank directory');
       } else {
-        console.log('ℹ️  .memory-bank directory already exists');
+        logger.info('ℹ️  .memory-bank directory already exists');
       }
     } catch (error) {
-      throw new Error(
-        `Failed to create .memory-bank directory: ${error instanceof Error ? error.message : 'Unknown error'}`
+      throw new CliError(
+        `Failed to create .memory-bank directory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ExitCode.DirectoryCreationFailed
       );
     }
 
     try {
       if (!fs.existsSync(specsDir)) {
-        fs.mkdirSync(specsDir, { recursive: true });
-        console.log('✅ Created .specs directory');
+        transaction.createDirectory(specsDir);
+        logger.info('✅ Created .specs directory');
       } else {
-        console.log('ℹ️  .specs directory already exists');
+        logger.info('ℹ️  .specs directory already exists');
       }
     } catch (error) {
-      throw new Error(
-        `Failed to create .specs directory: ${error instanceof Error ? error.message : 'Unknown error'}`
+      throw new CliError(
+        `Failed to create .specs directory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ExitCode.DirectoryCreationFailed
       );
     }
 
+    // Decide what happens to existing files that differ from the guide
+    const conflictActions = await resolveConflicts(
+      fileCopyService.findConflicts(selectedGuide, targetDir),
+      targetDir,
+      options,
+      logger
+    );
+
     // Copy guide files using the file copy service with comprehensive error handling
-    console.log('📄 Copying guide files...');
-    const targetDir = process.cwd();
+    logger.info('📄 Copying guide files...');
     const copyResults = fileCopyService.copyGuideFilesWithBackup(
       selectedGuide,
-      targetDir
+      targetDir,
+      transaction,
+      conflictActions
     );
+    report.results = copyResults;
 
     // Check for any copy failures and provide detailed error information
     const failedCopies = copyResults.filter((result) => !result.success);
     if (failedCopies.length > 0) {
-      console.error('\n❌ Some files failed to copy:');
+      logger.error('\n❌ Some files failed to copy:');
       failedCopies.forEach((result) => {
-        console.error(`   - ${result.error}`);
+        logger.error(`   - ${result.error}`);
         if (result.rollbackError) {
-          console.error(`     Rollback failed: ${result.rollbackError}`);
+          logger.error(`     Rollback failed: ${result.rollbackError}`);
         }
       });
 
       // Provide recovery instructions
-      console.error('\n💡 Recovery options:');
-      console.error('   1. Check file permissions in your project directory');
-      console.error(
+      logger.error('\n💡 Recovery options:');
+      logger.error('   1. Check file permissions in your project directory');
+      logger.error(
         '   2. Ensure you have write access to the current directory'
       );
-      console.error('   3. Try running the command again');
-      console.error(
-        '   4. If the issue persists, try running as administrator'
-      );
+      logger.error('   3. Try running the command again');
+      logger.error('   4. If the issue persists, try running as administrator');
 
-      throw new Error(
-        'Failed to copy some guide files. See error details above.'
+      throw new CliError(
+        'Failed to copy some guide files. See error details above.',
+        ExitCode.CopyFailed
       );
     }
 
     // Report successful copies with detailed information
-    console.log('✅ File copy operations completed successfully:');
+    logger.info('✅ File copy operations completed successfully:');
     copyResults.forEach((result) => {
       if (result.success) {
         const fileName = path.basename(result.copiedFilePath || '');
-        if (fileName === 'developmentGuide.md') {
-          console.log(
+        const relativePath = path.relative(
+          targetDir,
+          result.copiedFilePath || ''
+        );
+        if (result.conflictAction === 'keep-both') {
+          logger.info(
+            `   📄 Kept existing ${relativePath}; wrote the guide version to ${path.relative(targetDir, result.newFilePath || '')}`
+          );
+          return;
+        }
+        if (result.unchanged) {
+          logger.info(`   ✅ ${relativePath} is already up to date`);
+          return;
+        }
+        if (result.skipped) {
+          logger.info(`   ℹ️  Kept existing ${relativePath}`);
+          return;
+        }
+
+        if (result.conflictAction === 'merge') {
+          logger.info(
+            `   🔀 Merged missing guide sections into ${relativePath}`
+          );
+        } else if (fileName === 'developmentGuide.md') {
+          logger.info(
             '   📖 Copied development guide to .memory-bank directory'
           );
         } else if (fileName === '.cursorrules') {
-          console.log('   ⚙️  Copied .cursorrules to project root');
+          logger.info('   ⚙️  Copied .cursorrules to project root');
+        } else {
+          logger.info(`   📄 Copied ${relativePath}`);
         }
 
         if (result.overwritten) {
-          console.log(`      ⚠️  Overwrote existing ${fileName}`);
+          if (result.conflictAction !== 'merge') {
+            logger.info(`      ⚠️  Overwrote existing ${fileName}`);
+          }
           if (result.backupPath) {
-            console.log(`      💾 Backup created at: ${result.backupPath}`);
+            logger.info(`      💾 Backup created at: ${result.backupPath}`);
           }
         }
       }
     });
 
-    console.log('\n🎉 Memory Bank setup complete!');
-    console.log('\n📁 Project structure:');
-    console.log('   📂 .memory-bank/ (contains developmentGuide.md)');
-    console.log('   📂 .specs/ (for feature specifications)');
-    console.log('   📄 .cursorrules (project-specific rules)');
-    console.log('\n🚀 You can now start using your Memory Bank!');
+    // Create the core memory bank files the cursor rules expect
+    logger.info('\n🧠 Creating core memory bank files...');
+    const scaffoldResults = scaffoldService.scaffold(
+      selectedGuide,
+      targetDir,
+      transaction,
+      copyResults.flatMap((result) =>
+        result.copiedFilePath ? [result.copiedFilePath] : []
+      )
+    );
+    report.results = [...copyResults, ...scaffoldResults];
+
+    const failedScaffolds = scaffoldResults.filter((result) => !result.success);
+    if (failedScaffolds.length > 0) {
+      logger.error('\n❌ Some memory bank files could not be created:');
+      failedScaffolds.forEach((result) => {
+        logger.error(`   - ${result.error}`);
+      });
+
+      throw new CliError(
+        'Failed to create some memory bank files. See error details above.',
+        ExitCode.CopyFailed
+      );
+    }
+
+    scaffoldResults.forEach((result) => {
+      const fileName = path.basename(result.copiedFilePath || '');
+      if (result.skipped) {
+        logger.info(`   ℹ️  Kept existing ${fileName}`);
+      } else {
+        logger.info(`   📝 Created ${fileName}`);
+      }
+    });
+
+    // Record what was installed so later commands can work from facts
+    const lockfileResult = fileCopyService.writeInstallLockfile(
+      selectedGuide,
+      targetDir,
+      report.results,
+      new Date(),
+      transaction
+    );
+    if (!lockfileResult.success) {
+      throw new CliError(
+        lockfileResult.error || 'Failed to write the install lockfile',
+        ExitCode.CopyFailed
+      );
+    }
+    logger.info(
+      `   🔒 Recorded the install in ${path.relative(targetDir, lockfileResult.copiedFilePath || '')}`
+    );
+
+    // Old backups are only removed once the install can no longer roll back
+    if (backupSettings) {
+      report.prunedBackups = pruneBackups(targetDir, backupSettings, logger);
+    }
+
+    logger.info('\n🎉 Memory Bank setup complete!');
+    logger.info('\n📁 Project structure:');
+    logger.info(
+      '   📂 .memory-bank/ (core memory bank files and developmentGuide.md)'
+    );
+    logger.info('   📂 .specs/ (for feature specifications)');
+    logger.info('   📄 .cursorrules (project-specific rules)');
+    logger.info('\n🚀 You can now start using your Memory Bank!');
 
     if (selectedGuide.type === 'custom') {
-      console.log(
+      logger.info(
         '\n💡 Tip: Run "npx memory-bank-configure" to manage custom guides'
       );
     }
 
     // Show configuration help if there were issues
     if (configErrors.length > 0 || customGuideErrors.length > 0) {
-      console.log('\n🔧 Configuration help:');
-      console.log(
+      logger.info('\n🔧 Configuration help:');
+      logger.info(
         '   - Run "npx memory-bank-configure" to set up custom guides'
       );
-      console.log(
+      logger.info(
         '   - Check that your custom guides folder exists and contains valid guides'
       );
-      console.log(
+      logger.info(
         '   - Ensure your custom guides have a developmentGuide.md file'
       );
     }
 
     // Show next steps
-    console.log('\n📋 Next steps:');
-    console.log('   1. Review the developmentGuide.md file in .memory-bank/');
-    console.log('   2. Customize the .cursorrules file for your project');
-    console.log(
+    logger.info('\n📋 Next steps:');
+    logger.info('   1. Review the developmentGuide.md file in .memory-bank/');
+    logger.info('   2. Customize the .cursorrules file for your project');
+    logger.info(
       '   3. Start using the memory bank in your development workflow'
     );
-    console.log('   4. Create feature specifications in the .specs/ directory');
+    logger.info('   4. Create feature specifications in the .specs/ directory');
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    }
   } catch (error) {
+    report.status = 'failed';
+    report.exitCode =
+      error instanceof CliError ? error.exitCode : ExitCode.GeneralError;
+    report.error = error instanceof Error ? error.message : String(error);
+
+    // Undo whatever the install changed before it failed
+    if (transaction.hasChanges()) {
+      const rollbackErrors = transaction.rollback();
+      report.rolledBack = rollbackErrors.length === 0;
+      if (rollbackErrors.length > 0) {
+        report.rollbackErrors = rollbackErrors;
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+      process.exit(report.exitCode);
+      return;
+    }
+
     console.error(
       '\n❌ Error:',
       error instanceof Error ? error.message : error
     );
+    if (report.rolledBack) {
+      console.error('\n↩️  Rolled back the install; the project is unchanged.');
+    } else if (report.rollbackErrors) {
+      console.error('\n⚠️  The install could not be fully rolled back:');
+      report.rollbackErrors.forEach((rollbackError) => {
+        console.error(`   - ${rollbackError}`);
+      });
+    }
 
     // Provide helpful error recovery information
     console.error('\n💡 Troubleshooting tips:');
@@ -293,10 +739,260 @@ export async function main() {
       '   - Check the console output above for specific error details'
     );
 
-    process.exit(1);
+    process.exit(report.exitCode);
+  }
+}
+
+/**
+ * Remove the backups the configured retention policy no longer keeps
+ *
+ * Backups that cannot be removed are only reported; they do not fail the
+ * install. Returns the project-relative paths of the removed backups.
+ */
+function pruneBackups(
+  targetDir: string,
+  settings: BackupSettings,
+  logger: Logger
+): string[] {
+  if (settings.keep === undefined && settings.maxAgeDays === undefined) {
+    return [];
+  }
+
+  const backupService = new BackupService();
+  const expired = backupService.planPrune(
+    backupService.listBackups(targetDir),
+    settings
+  );
+  const results = backupService.removeBackups(targetDir, expired);
+  results
+    .filter((result) => !result.success)
+    .forEach((result) => logger.error(`   ⚠️  ${result.error}`));
+
+  const removed = expired
+    .filter((_, index) => results[index].success)
+    .map((backup) => backup.path);
+  if (removed.length > 0) {
+    logger.info(
+      `   🧹 Removed ${removed.length} old backup${removed.length === 1 ? '' : 's'}`
+    );
+  }
+  return removed;
+}
+
+/**
+ * Format a detection confidence score as a percentage
+ */
+function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+/**
+ * Label custom guides in the menu, naming the guide source unless it is
+ * customGuidesFolder, and package guides with their package and version
+ */
+function describeGuideType(guide: GuideInfo): string {
+  if (guide.type === 'package' && guide.package) {
+    return ` (Package: ${guide.package.name}@${guide.package.version})`;
+  }
+  if (guide.type !== 'custom') {
+    return '';
+  }
+  return guide.source && guide.source.label !== DEFAULT_GUIDE_SOURCE_LABEL
+    ? ` (Custom: ${guide.source.label})`
+    : ' (Custom)';
+}
+
+/**
+ * Present the interactive guide selection menu
+ *
+ * Guides ranked by stack detection are listed best match first, and the
+ * best match is pre-selected when it has any confidence.
+ */
+async function promptForGuide(
+  allGuides: GuideInfo[],
+  logger: Logger
+): Promise<GuideInfo> {
+  const recommended =
+    allGuides[0] && allGuides[0].confidence ? allGuides[0] : undefined;
+
+  // Create menu choices with clear labeling
+  const choices = allGuides.map((guide) => ({
+    name: `${guide.displayName}${describeGuideType(guide)}${
+      guide === recommended
+        ? ` (recommended, ${formatConfidence(guide.confidence || 0)} match)`
+        : ''
+    }`,
+    value: guide.id,
+    guide: guide,
+  }));
+
+  logger.info('\n📝 Available development guides:');
+  choices.forEach((choice, index) => {
+    const prefix = GUIDE_TYPE_ICONS[choice.guide.type];
+    logger.info(`   ${index + 1}. ${prefix} ${choice.name}`);
+  });
+
+  // Dynamically import ESM-only inquirer to support CommonJS bundle
+  const { default: inquirer } = await import('inquirer');
+
+  const { selectedGuideId } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'selectedGuideId',
+      message: 'What type of memory bank would you like to install?',
+      choices: choices,
+      default: recommended?.id,
+    },
+  ]);
+
+  const selectedGuide = allGuides.find((guide) => guide.id === selectedGuideId);
+  if (!selectedGuide) {
+    throw new CliError(
+      `Selected guide not found: ${selectedGuideId}. Please try again.`,
+      ExitCode.GuideNotFound
+    );
+  }
+
+  return selectedGuide;
+}
+
+/**
+ * Collect template variable values for a guide that declares variables
+ *
+ * Values given with --var win over prompt answers, which win over values
+ * detected from the project, which win over the guide's defaults. Prompts
+ * are skipped with --yes or --json.
+ */
+async function resolveTemplateVariables(
+  guide: GuideInfo,
+  targetDir: string,
+  options: CliOptions
+): Promise<Record<string, string> | undefined> {
+  const declared = guide.manifest?.variables;
+  if (!declared) {
+    return undefined;
+  }
+
+  const variables = detectProjectVariables(targetDir);
+  declared.forEach((variable) => {
+    if (variable.default !== undefined && !(variable.name in variables)) {
+      variables[variable.name] = variable.default;
+    }
+  });
+
+  const cliVariables = options.vars || {};
+  const questions = declared.filter(
+    (variable) => variable.prompt && !(variable.name in cliVariables)
+  );
+
+  if (questions.length > 0 && !options.yes && !options.json) {
+    // Dynamically import ESM-only inquirer to support CommonJS bundle
+    const { default: inquirer } = await import('inquirer');
+
+    // Index-based names keep dotted variable names from becoming nested answers
+    const answers = await inquirer.prompt(
+      questions.map((variable, index) => ({
+        type: 'input',
+        name: `variable${index}`,
+        message: variable.prompt || variable.name,
+        default: variables[variable.name],
+      }))
+    );
+
+    questions.forEach((variable, index) => {
+      const answer = answers[`variable${index}`];
+      if (typeof answer === 'string' && answer.trim() !== '') {
+        variables[variable.name] = answer.trim();
+      }
+    });
+  }
+
+  return { ...variables, ...cliVariables };
+}
+
+/**
+ * Decide what the install does with each existing file that differs from the guide
+ *
+ * An --on-conflict action applies to every file. Otherwise each file is
+ * asked about, after showing its differences with --on-conflict show-diff.
+ * Without prompts (--yes or --json) the files are overwritten.
+ */
+async function resolveConflicts(
+  conflicts: FileConflict[],
+  targetDir: string,
+  options: CliOptions,
+  logger: Logger
+): Promise<Record<string, ConflictAction>> {
+  const actions: Record<string, ConflictAction> = {};
+  const interactive = !options.yes && !options.json;
+
+  for (const conflict of conflicts) {
+    if (options.onConflict && options.onConflict !== 'show-diff') {
+      actions[conflict.targetPath] = options.onConflict;
+    } else if (interactive) {
+      actions[conflict.targetPath] = await promptForConflictAction(
+        conflict,
+        targetDir,
+        options.onConflict === 'show-diff',
+        logger
+      );
+    } else {
+      actions[conflict.targetPath] = 'overwrite';
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Ask what to do with one existing file, showing its differences on request
+ */
+async function promptForConflictAction(
+  conflict: FileConflict,
+  targetDir: string,
+  showDiff: boolean,
+  logger: Logger
+): Promise<ConflictAction> {
+  const relativePath = path.relative(targetDir, conflict.targetPath);
+  const printDiff = () => {
+    const filePath = relativePath.split(path.sep).join('/');
+    logger.info(
+      `\n${formatUnifiedDiff(conflict.existing, conflict.incoming, `project/${filePath}`, `guide/${filePath}`)}`
+    );
+  };
+  if (showDiff) {
+    printDiff();
+  }
+
+  // Dynamically import ESM-only inquirer to support CommonJS bundle
+  const { default: inquirer } = await import('inquirer');
+
+  for (;;) {
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: `${relativePath} already exists and differs from the guide. What should the install do?`,
+        choices: [
+          { name: 'Overwrite it (a backup is kept)', value: 'overwrite' },
+          { name: 'Keep it and skip the guide version', value: 'skip' },
+          {
+            name: `Keep it and write the guide version to ${relativePath}.new`,
+            value: 'keep-both',
+          },
+          { name: 'Append the guide sections it is missing', value: 'merge' },
+          { name: 'Show the differences first', value: 'show-diff' },
+        ],
+      },
+    ]);
+
+    if (action !== 'show-diff') {
+      return action;
+    }
+    printDiff();
   }
 }
 
 if (require.main === module) {
-  main();
+  main(process.argv.slice(2));
 }
@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BackupEntry,
+  BackupSettings,
+  CopyResult,
+  InstallLockfile,
+} from '../config/types';
+import { FileCopyService } from './file-copy-service';
+import { BACKUPS_DIR, parseBackupName } from '../utils/backup-files';
+import { readInstallLockfile, toLockfilePath } from '../utils/install-lockfile';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service for listing, pruning and restoring backups in a project
+ *
+ * Backups beside a file are looked for in the project root, in
+ * .memory-bank and in every folder the install lockfile lists a file in.
+ * Backups under .memory-bank/.backups are all found.
+ */
+export class BackupService {
+  private fileCopyService = new FileCopyService();
+
+  /**
+   * List every backup in a project, newest first for each file
+   */
+  listBackups(targetDir: string): BackupEntry[] {
+    const { lockfile } = readInstallLockfile(targetDir);
+    const backups = [
+      ...getInstallFolders(lockfile).flatMap((folder) =>
+        listBesideBackups(targetDir, folder)
+      ),
+      ...listCollectedBackups(targetDir, ''),
+    ];
+
+    return backups.sort(
+      (a, b) => a.file.localeCompare(b.file) || b.timestamp - a.timestamp
+    );
+  }
+
+  /**
+   * Select the backups a retention policy no longer keeps
+   *
+   * A backup goes when it is older than maxAgeDays, or when the file has
+   * more than keep newer backups.
+   */
+  planPrune(
+    backups: BackupEntry[],
+    policy: BackupSettings,
+    now: number = Date.now()
+  ): BackupEntry[] {
+    const backupsByFile = new Map<string, BackupEntry[]>();
+    backups.forEach((backup) => {
+      backupsByFile.set(backup.file, [
+        ...(backupsByFile.get(backup.file) || []),
+        backup,
+      ]);
+    });
+
+    return [...backupsByFile.values()].flatMap((fileBackups) =>
+      fileBackups
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .filter(
+          (backup, index) =>
+            (policy.keep !== undefined && index >= policy.keep) ||
+            (policy.maxAgeDays !== undefined &&
+              now - backup.timestamp > policy.maxAgeDays * DAY_MS)
+        )
+    );
+  }
+
+  /**
+   * Delete backups from the project
+   */
+  removeBackups(targetDir: string, backups: BackupEntry[]): CopyResult[] {
+    return backups.map((backup) => {
+      const backupPath = path.join(targetDir, ...backup.path.split('/'));
+      try {
+        fs.unlinkSync(backupPath);
+        return { success: true, copiedFilePath: backupPath };
+      } catch (error) {
+        return {
+          success: false,
+          error: `Failed to remove ${backup.path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+      }
+    });
+  }
+
+  /**
+   * Put a backup back in place of the file it was taken from
+   *
+   * The current file is backed up first, so a restore can itself be undone;
+   * that backup is returned as the result's backupPath.
+   */
+  restoreBackup(
+    targetDir: string,
+    backup: BackupEntry,
+    settings?: BackupSettings
+  ): CopyResult {
+    const filePath = path.join(targetDir, ...backup.file.split('/'));
+    const backupPath = path.join(targetDir, ...backup.path.split('/'));
+
+    try {
+      this.fileCopyService.setBackupSettings(settings);
+      const overwritten = fs.existsSync(filePath);
+      const currentBackupPath = overwritten
+        ? this.fileCopyService.createBackup(filePath, targetDir)
+        : undefined;
+      if (!overwritten) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      }
+
+      const result = this.fileCopyService.restoreFromBackup(
+        filePath,
+        backupPath
+      );
+      return {
+        ...result,
+        overwritten,
+        backupPath: currentBackupPath,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to restore ${backup.file}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
+
+/**
+ * Project-relative folders that can hold installed files
+ */
+function getInstallFolders(lockfile: InstallLockfile | undefined): string[] {
+  const folders = new Set(['', '.memory-bank']);
+  lockfile?.files.forEach((file) => {
+    folders.add(path.posix.dirname(file.path).replace(/^\.$/, ''));
+  });
+  return [...folders];
+}
+
+/**
+ * List the backups kept beside the files of one project folder
+ */
+function listBesideBackups(targetDir: string, folder: string): BackupEntry[] {
+  const folderPath = path.join(targetDir, ...folder.split('/'));
+  if (!fs.existsSync(folderPath)) {
+    return [];
+  }
+
+  return fs.readdirSync(folderPath).flatMap((name) => {
+    const backup = parseBackupName(name);
+    if (!backup) {
+      return [];
+    }
+
+    return [
+      {
+        path: joinProjectPath(folder, name),
+        file: joinProjectPath(folder, backup.originalName),
+        timestamp: backup.timestamp,
+        location: 'beside' as const,
+      },
+    ];
+  });
+}
+
+/**
+ * List the backups under .memory-bank/.backups, which mirrors the project
+ */
+function listCollectedBackups(
+  targetDir: string,
+  folder: string
+): BackupEntry[] {
+  const folderPath = path.join(targetDir, BACKUPS_DIR, ...folder.split('/'));
+  if (!fs.existsSync(folderPath)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(folderPath, { withFileTypes: true })
+    .flatMap((entry) => {
+      if (entry.isDirectory()) {
+        return listCollectedBackups(
+          targetDir,
+          joinProjectPath(folder, entry.name)
+        );
+      }
+
+      const backup = parseBackupName(entry.name);
+      if (!backup) {
+        return [];
+      }
+
+      return [
+        {
+          path: joinProjectPath(
+            toLockfilePath(BACKUPS_DIR),
+            joinProjectPath(folder, entry.name)
+          ),
+          file: joinProjectPath(folder, backup.originalName),
+          timestamp: backup.timestamp,
+          location: 'memory-bank' as const,
+        },
+      ];
+    });
+}
+
+/**
+ * Join "/"-separated project paths, where "" is the project root
+ */
+function joinProjectPath(folder: string, name: string): string {
+  return folder ? `${folder}/${name}` : name;
+}
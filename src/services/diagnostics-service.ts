@@ -0,0 +1,739 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ConfigMigrationResult,
+  ConfigVersionError,
+  migrateConfig,
+} from '../config/config-migrations';
+import {
+  formatValidationIssues,
+  hasConfigShape,
+} from '../config/config-schema';
+import { ConfigurationManager } from '../config/configuration-manager';
+import {
+  DEFAULT_GUIDE_SOURCE_LABEL,
+  getGuideSourceKind,
+  getGuideSourceLocation,
+  resolveGuideSources,
+  resolveMenuItemFolder,
+} from '../config/guide-sources';
+import { FileCopyService } from './file-copy-service';
+import { GuideDiscoveryService } from './guide-discovery-service';
+import { GuideSourceService } from './guide-source-service';
+import {
+  CustomGuideConfig,
+  DiagnosticFinding,
+  GuideInfo,
+  GuideSource,
+} from '../config/types';
+import {
+  GUIDE_MANIFEST_FILE,
+  readGuideManifest,
+  resolveGuideFiles,
+  usesFileList,
+} from '../utils/guide-manifest';
+import { findGuidePackages } from '../utils/guide-packages';
+import { validateGuideStructure } from '../utils/validation';
+
+/**
+ * Service that runs every configuration, guide and project check in one place
+ *
+ * Each finding names the exact file or folder it is about and, for
+ * problems, how to fix it.
+ */
+export class DiagnosticsService {
+  private configManager: ConfigurationManager;
+  private guideDiscoveryService: GuideDiscoveryService;
+  private guideSourceService: GuideSourceService;
+  private fileCopyService: FileCopyService;
+
+  constructor(configDir?: string) {
+    this.configManager = new ConfigurationManager(configDir);
+    this.guideDiscoveryService = new GuideDiscoveryService(true, configDir);
+    this.guideSourceService = new GuideSourceService(configDir);
+    this.fileCopyService = new FileCopyService();
+  }
+
+  /**
+   * Run all checks against the configuration, the guides and a project
+   */
+  runChecks(targetDir: string): DiagnosticFinding[] {
+    const { findings, config, configBroken } = this.checkConfig();
+    const guides = this.guideDiscoveryService.getAllGuides(config, targetDir);
+
+    return [
+      ...findings,
+      ...this.checkBackupConfig(configBroken),
+      ...this.checkGuidesFolder(config),
+      ...this.checkGuideStructures(config),
+      ...this.checkGuidePackages(targetDir),
+      ...this.checkGuideCompositions(guides),
+      ...this.checkMenuItems(config),
+      ...this.checkDuplicateIds(config, guides),
+      ...this.checkCursorRules(),
+      ...this.checkTarget(targetDir),
+    ];
+  }
+
+  /**
+   * Check that the configuration file parses and has a valid structure
+   *
+   * Returns the configuration the other checks should use: the file when
+   * it is usable, otherwise whatever loadConfig would fall back to.
+   */
+  private checkConfig(): {
+    findings: DiagnosticFinding[];
+    config: CustomGuideConfig;
+    configBroken: boolean;
+  } {
+    const configPath = this.configManager.getConfigPath();
+    const fallback = (message: string, fix: string) => ({
+      findings: [
+        {
+          check: 'config' as const,
+          severity: 'error' as const,
+          message,
+          path: configPath,
+          fix,
+        },
+      ],
+      config:
+        this.configManager.getBackupConfig() ||
+        this.configManager.getDefaultConfig(),
+      configBroken: true,
+    });
+
+    if (!fs.existsSync(configPath)) {
+      return {
+        findings: [
+          {
+            check: 'config',
+            severity: 'ok',
+            message: 'No configuration file; the defaults are used',
+            path: configPath,
+          },
+        ],
+        config: this.configManager.getDefaultConfig(),
+        configBroken: false,
+      };
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error) {
+      return fallback(
+        `Configuration is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'Fix the JSON syntax, or delete the file and run memory-bank-configure to create a new one'
+      );
+    }
+
+    // Check the configuration as loadConfig will see it after migrating
+    let migration: ConfigMigrationResult | undefined;
+    if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+      try {
+        migration = migrateConfig(data as Record<string, unknown>);
+        data = migration.config;
+      } catch (error) {
+        return fallback(
+          error instanceof Error ? error.message : 'Unknown error',
+          error instanceof ConfigVersionError
+            ? 'Upgrade the CLI, or restore a configuration written by this version'
+            : 'Set version to a supported version, or delete the file and run memory-bank-configure to create a new one'
+        );
+      }
+    }
+
+    if (!hasConfigShape(data)) {
+      return fallback(
+        'Configuration must have a version, a customGuidesFolder and a menuItems list',
+        'Add the missing fields, or delete the file and run memory-bank-configure to create a new one'
+      );
+    }
+
+    const validation = this.configManager.validateConfig(data);
+    if (!validation.isValid) {
+      const result = fallback(
+        `Configuration is invalid: ${validation.error}`,
+        'Correct the value in the configuration file or with memory-bank-configure'
+      );
+      // One finding per invalid value, each named by its JSON pointer
+      if (validation.issues) {
+        result.findings = validation.issues.map((issue) => ({
+          ...result.findings[0],
+          message: `Configuration is invalid: ${formatValidationIssues([issue])}`,
+        }));
+      }
+      return result;
+    }
+
+    if (migration && migration.fromVersion !== migration.toVersion) {
+      return {
+        findings: [
+          {
+            check: 'config',
+            severity: 'warning',
+            message: `Configuration uses version ${migration.fromVersion}; it is migrated to ${migration.toVersion} the next time it is loaded`,
+            path: configPath,
+            fix: 'Run memory-bank-configure, or install a guide, to migrate and save it',
+          },
+        ],
+        config: data,
+        configBroken: false,
+      };
+    }
+
+    return {
+      findings: [
+        {
+          check: 'config',
+          severity: 'ok',
+          message: 'Configuration is valid',
+          path: configPath,
+        },
+      ],
+      config: data,
+      configBroken: false,
+    };
+  }
+
+  /**
+   * Check that a backup is available to recover a corrupted configuration
+   */
+  private checkBackupConfig(configBroken: boolean): DiagnosticFinding[] {
+    const backupPath = this.configManager.getBackupPath();
+
+    if (!fs.existsSync(backupPath)) {
+      return [
+        configBroken
+          ? {
+              check: 'backup-config',
+              severity: 'warning',
+              message:
+                'No backup configuration to recover from; the defaults are used instead',
+              path: backupPath,
+              fix: 'Fix the configuration file; a backup is written every time it is saved',
+            }
+          : {
+              check: 'backup-config',
+              severity: 'ok',
+              message: 'No backup configuration yet',
+              path: backupPath,
+            },
+      ];
+    }
+
+    if (!this.configManager.getBackupConfig()) {
+      return [
+        {
+          check: 'backup-config',
+          severity: 'warning',
+          message: 'Backup configuration is unreadable and cannot be restored',
+          path: backupPath,
+          fix: 'Delete the backup; a new one is written the next time the configuration is saved',
+        },
+      ];
+    }
+
+    return [
+      {
+        check: 'backup-config',
+        severity: 'ok',
+        message: configBroken
+          ? 'Backup configuration is available and is used instead'
+          : 'Backup configuration is available',
+        path: backupPath,
+      },
+    ];
+  }
+
+  /**
+   * Check that the custom guides folder and every other guide source
+   * folder exists and can be read
+   */
+  private checkGuidesFolder(config: CustomGuideConfig): DiagnosticFinding[] {
+    return resolveGuideSources(config).flatMap((source) =>
+      this.checkGuideSource(source)
+    );
+  }
+
+  /**
+   * Check that one guide source folder exists and can be read
+   */
+  private checkGuideSource(source: GuideSource): DiagnosticFinding[] {
+    if (getGuideSourceKind(source) !== 'path') {
+      return this.checkFetchedGuideSource(source);
+    }
+
+    const folder = source.path || '';
+    const isDefault = source.label === DEFAULT_GUIDE_SOURCE_LABEL;
+    const name = isDefault
+      ? 'Custom guides folder'
+      : `Guide source '${source.label}' folder`;
+    const choose = isDefault
+      ? 'choose another folder with memory-bank-configure'
+      : `correct the path of guide source '${source.label}'`;
+    const finding = (
+      severity: DiagnosticFinding['severity'],
+      message: string,
+      fix?: string
+    ): DiagnosticFinding[] => [
+      { check: 'guides-folder', severity, message, path: folder, fix },
+    ];
+
+    if (!fs.existsSync(folder)) {
+      return finding(
+        'warning',
+        `${name} does not exist, so no custom guides are available${isDefault ? '' : ' from it'}`,
+        `Create it with mkdir -p "${folder}", or ${choose}`
+      );
+    }
+
+    try {
+      if (!fs.statSync(folder).isDirectory()) {
+        return finding(
+          'error',
+          `${name} is not a directory`,
+          isDefault
+            ? 'Choose a directory with memory-bank-configure'
+            : `Point guide source '${source.label}' to a directory`
+        );
+      }
+      fs.accessSync(folder, fs.constants.R_OK | fs.constants.X_OK);
+    } catch {
+      return finding(
+        'error',
+        `${name} cannot be read`,
+        `Grant read access with chmod u+rx "${folder}"`
+      );
+    }
+
+    return finding('ok', `${name} is readable`);
+  }
+
+  /**
+   * Check that a git or archive source is cached, fetching it when it is
+   * not, and that it has the folder the guides are read from
+   */
+  private checkFetchedGuideSource(source: GuideSource): DiagnosticFinding[] {
+    const location = getGuideSourceLocation(source);
+    try {
+      const cached = this.guideSourceService.isCached(source);
+      const folder = this.guideSourceService.resolveFolder(source);
+      if (!fs.existsSync(folder)) {
+        return [
+          {
+            check: 'guides-folder',
+            severity: 'error',
+            message: `Guide source '${source.label}' has no folder ${source.folder}`,
+            path: folder,
+            fix: `Correct the folder of guide source '${source.label}'`,
+          },
+        ];
+      }
+      return [
+        {
+          check: 'guides-folder',
+          severity: 'ok',
+          message: `Guide source '${source.label}' is ${cached ? 'cached' : 'fetched'}`,
+          path: folder,
+        },
+      ];
+    } catch (error) {
+      return [
+        {
+          check: 'guides-folder',
+          severity: 'error',
+          message: `Guide source '${source.label}' could not be fetched: ${error instanceof Error ? error.message : String(error)}`,
+          path: location,
+          fix: `Check that ${location} can be read, then run init-memory-bank sources refresh`,
+        },
+      ];
+    }
+  }
+
+  /**
+   * Validate the structure of every built-in and custom guide folder
+   */
+  private checkGuideStructures(config: CustomGuideConfig): DiagnosticFinding[] {
+    const findings: DiagnosticFinding[] = [];
+
+    // Missing built-in .cursorrules files are reported by checkCursorRules
+    this.guideDiscoveryService.discoverBuiltInGuides().forEach((guide) => {
+      const validation = validateGuideStructure(guide.folderPath);
+      findings.push(
+        validation.isValid
+          ? {
+              check: 'guide-structure',
+              severity: 'ok',
+              message: `Built-in guide '${guide.id}' is valid`,
+              path: guide.folderPath,
+            }
+          : {
+              check: 'guide-structure',
+              severity: 'error',
+              message: `Built-in guide '${guide.id}' is broken: ${validation.error}`,
+              path: guide.folderPath,
+              fix: 'Reinstall @zacfermanis/memory-bank',
+            }
+      );
+    });
+
+    resolveGuideSources(config).forEach((source) => {
+      const folder = this.guideSourceService.getCachedFolder(source);
+      if (!folder) {
+        return;
+      }
+      listGuideFolders(folder).forEach((guidePath) => {
+        findings.push(...this.checkCustomGuide(guidePath));
+      });
+    });
+
+    return findings;
+  }
+
+  /**
+   * Validate the guides of the npm packages that declare one, in the
+   * project's and the global node_modules
+   */
+  private checkGuidePackages(targetDir: string): DiagnosticFinding[] {
+    return findGuidePackages(targetDir).flatMap(
+      (candidate): DiagnosticFinding[] => {
+        if (!candidate.guidePackage) {
+          return [
+            {
+              check: 'guide-structure',
+              severity: 'error',
+              message: `Guide package '${candidate.name}' (${candidate.scope}) is skipped: ${candidate.error}`,
+              path: path.join(candidate.packageDir, 'package.json'),
+              fix: `Install a release of ${candidate.name} made for this version of init-memory-bank, or uninstall it`,
+            },
+          ];
+        }
+        if (!fs.existsSync(candidate.guidePackage.folderPath)) {
+          return [
+            {
+              check: 'guide-structure',
+              severity: 'error',
+              message: `Guide package '${candidate.name}' (${candidate.scope}) is skipped: guide folder does not exist`,
+              path: candidate.guidePackage.folderPath,
+              fix: `Reinstall ${candidate.name}; if the folder is still missing, report it to the package's maintainers`,
+            },
+          ];
+        }
+        return this.checkCustomGuide(
+          candidate.guidePackage.folderPath,
+          candidate.name
+        );
+      }
+    );
+  }
+
+  /**
+   * Validate one custom guide folder the way guide discovery does
+   */
+  private checkCustomGuide(
+    guidePath: string,
+    name: string = path.basename(guidePath)
+  ): DiagnosticFinding[] {
+    const { manifest, error } = readGuideManifest(guidePath);
+    if (error) {
+      return [
+        {
+          check: 'guide-structure',
+          severity: 'error',
+          message: `Guide '${name}' is skipped: ${error}`,
+          path: path.join(guidePath, GUIDE_MANIFEST_FILE),
+          fix: `Fix ${GUIDE_MANIFEST_FILE}, or remove it to install developmentGuide.md and .cursorrules`,
+        },
+      ];
+    }
+
+    const validation = validateGuideStructure(guidePath, manifest);
+    if (!validation.isValid) {
+      return [
+        {
+          check: 'guide-structure',
+          severity: 'error',
+          message: `Guide '${name}' is skipped: ${validation.error}`,
+          path: guidePath,
+          fix: 'Add the missing file, or move the folder out of the custom guides folder',
+        },
+      ];
+    }
+
+    if (
+      usesFileList(manifest) &&
+      resolveGuideFiles(guidePath, manifest).length === 0
+    ) {
+      return [
+        {
+          check: 'guide-structure',
+          severity: 'error',
+          message: `Guide '${name}' is skipped: ${GUIDE_MANIFEST_FILE} does not match any files`,
+          path: path.join(guidePath, GUIDE_MANIFEST_FILE),
+          fix: 'Correct the files or include patterns in guide.json',
+        },
+      ];
+    }
+
+    const warnings = (validation.warnings || []).map(
+      (warning): DiagnosticFinding => ({
+        check: 'guide-structure',
+        severity: 'warning',
+        message: `Guide '${name}': ${warning}`,
+        path: guidePath,
+        fix: 'Add the file if the guide should install it',
+      })
+    );
+    return warnings.length > 0
+      ? warnings
+      : [
+          {
+            check: 'guide-structure',
+            severity: 'ok',
+            message: `Guide '${name}' is valid`,
+            path: guidePath,
+          },
+        ];
+  }
+
+  /**
+   * Check that every menu item points to an existing guide folder
+   */
+  private checkMenuItems(config: CustomGuideConfig): DiagnosticFinding[] {
+    const findings: DiagnosticFinding[] = [];
+
+    config.menuItems.forEach((menuItem) => {
+      const folderPath = resolveMenuItemFolder(config, menuItem);
+      if (!fs.existsSync(folderPath)) {
+        findings.push({
+          check: 'menu-items',
+          severity: 'warning',
+          message: `Menu item '${menuItem.displayName}' (${menuItem.id}) points to a folder that does not exist`,
+          path: folderPath,
+          fix: 'Create the guide folder, or edit or remove the menu item with memory-bank-configure',
+        });
+      }
+    });
+
+    if (findings.length === 0) {
+      findings.push({
+        check: 'menu-items',
+        severity: 'ok',
+        message:
+          config.menuItems.length === 0
+            ? 'No menu items configured'
+            : 'Every menu item points to an existing folder',
+      });
+    }
+    return findings;
+  }
+
+  /**
+   * Check that every guide extending another guide can be composed from
+   * the available guides
+   */
+  private checkGuideCompositions(guides: GuideInfo[]): DiagnosticFinding[] {
+    this.fileCopyService.setAvailableGuides(guides);
+
+    return guides
+      .filter((guide) => guide.manifest?.extends)
+      .map((guide): DiagnosticFinding => {
+        const manifestPath = path.join(guide.folderPath, GUIDE_MANIFEST_FILE);
+        const composition = this.fileCopyService.validateComposition(guide);
+        return composition.isValid
+          ? {
+              check: 'guide-structure',
+              severity: 'ok',
+              message: `Guide '${guide.id}' extends '${guide.manifest?.extends}'`,
+              path: manifestPath,
+            }
+          : {
+              check: 'guide-structure',
+              severity: 'error',
+              message: `Guide '${guide.id}' cannot be installed: ${composition.error}`,
+              path: manifestPath,
+              fix: `Correct "extends" and "fragments" in ${manifestPath}`,
+            };
+      });
+  }
+
+  /**
+   * Check that no two guides or menu items share an id
+   *
+   * Guides another source shadows are reported first. Guide ids are then
+   * matched case-insensitively, like --guide does, so only the first guide
+   * with an id can be selected.
+   */
+  private checkDuplicateIds(
+    config: CustomGuideConfig,
+    guides: GuideInfo[]
+  ): DiagnosticFinding[] {
+    const findings: DiagnosticFinding[] = [];
+
+    const firstGuides = new Map<string, GuideInfo>();
+
+    // Guides left out because a source or package with more precedence has their id
+    this.guideDiscoveryService
+      .getShadowedGuides()
+      .forEach(({ guide, shadowedBy }) => {
+        findings.push({
+          check: 'duplicate-ids',
+          severity: 'warning',
+          message: `Guide id '${guide.id}' from ${describeGuideOrigin(guide)} is shadowed by the guide from ${describeGuideOrigin(shadowedBy)} at ${shadowedBy.folderPath}`,
+          path: guide.folderPath,
+          fix: guide.package
+            ? `Uninstall one of the packages ${guide.package.name} and ${shadowedBy.package?.name}`
+            : `Set a unique "id" in ${path.join(guide.folderPath, GUIDE_MANIFEST_FILE)}, or change the priority of guide source '${guide.source?.label}'`,
+        });
+      });
+
+    guides.forEach((guide) => {
+      const first = firstGuides.get(guide.id.toLowerCase());
+      if (!first) {
+        firstGuides.set(guide.id.toLowerCase(), guide);
+        return;
+      }
+      findings.push({
+        check: 'duplicate-ids',
+        severity: 'warning',
+        message: `Guide id '${guide.id}' is already used by ${first.folderPath}, so this guide cannot be selected`,
+        path: guide.folderPath,
+        fix: `Set a unique "id" in ${path.join(guide.folderPath, GUIDE_MANIFEST_FILE)}`,
+      });
+    });
+
+    const menuItemIds = new Set<string>();
+    config.menuItems.forEach((menuItem) => {
+      if (menuItemIds.has(menuItem.id)) {
+        findings.push({
+          check: 'duplicate-ids',
+          severity: 'warning',
+          message: `Menu item id '${menuItem.id}' is used more than once`,
+          path: this.configManager.getConfigPath(),
+          fix: 'Remove the duplicate menu item with memory-bank-configure',
+        });
+      }
+      menuItemIds.add(menuItem.id);
+    });
+
+    if (findings.length === 0) {
+      findings.push({
+        check: 'duplicate-ids',
+        severity: 'ok',
+        message: 'Every guide id is unique',
+      });
+    }
+    return findings;
+  }
+
+  /**
+   * Check that built-in guides flagged with .cursorrules actually ship one
+   */
+  private checkCursorRules(): DiagnosticFinding[] {
+    return this.guideDiscoveryService
+      .discoverBuiltInGuides()
+      .filter((guide) => guide.hasCursorRules)
+      .map((guide) => {
+        const cursorRulesPath = path.join(guide.folderPath, '.cursorrules');
+        return fs.existsSync(cursorRulesPath)
+          ? {
+              check: 'cursor-rules',
+              severity: 'ok',
+              message: `Built-in guide '${guide.id}' ships .cursorrules`,
+              path: cursorRulesPath,
+            }
+          : {
+              check: 'cursor-rules',
+              severity: 'error',
+              message: `Built-in guide '${guide.id}' is flagged with .cursorrules but the file is missing, so installing it fails`,
+              path: cursorRulesPath,
+              fix: 'Reinstall @zacfermanis/memory-bank; if the file is still missing, report it as a packaging bug',
+            };
+      });
+  }
+
+  /**
+   * Check that guides can be installed into the target directory
+   */
+  private checkTarget(targetDir: string): DiagnosticFinding[] {
+    if (!fs.existsSync(targetDir)) {
+      return [
+        {
+          check: 'target',
+          severity: 'error',
+          message: 'Target directory does not exist',
+          path: targetDir,
+          fix: 'Create it or pass an existing directory with --target',
+        },
+      ];
+    }
+    if (!fs.statSync(targetDir).isDirectory()) {
+      return [
+        {
+          check: 'target',
+          severity: 'error',
+          message: 'Target is not a directory',
+          path: targetDir,
+          fix: 'Pass a directory with --target',
+        },
+      ];
+    }
+
+    const findings: DiagnosticFinding[] = [];
+    [
+      targetDir,
+      ...['.memory-bank', '.specs'].map((name) => path.join(targetDir, name)),
+    ]
+      .filter((directory) => fs.existsSync(directory))
+      .forEach((directory) => {
+        try {
+          fs.accessSync(directory, fs.constants.W_OK);
+        } catch {
+          findings.push({
+            check: 'target',
+            severity: 'error',
+            message:
+              'Directory is not writable, so guide files cannot be installed',
+            path: directory,
+            fix: `Grant write access with chmod u+w "${directory}"`,
+          });
+        }
+      });
+
+    if (findings.length === 0) {
+      findings.push({
+        check: 'target',
+        severity: 'ok',
+        message: 'Target directory is writable',
+        path: targetDir,
+      });
+    }
+    return findings;
+  }
+}
+
+/**
+ * List the guide folders inside the custom guides folder
+ */
+function listGuideFolders(customGuidesFolder: string): string[] {
+  try {
+    return fs
+      .readdirSync(customGuidesFolder)
+      .map((item) => path.join(customGuidesFolder, item))
+      .filter((itemPath) => fs.statSync(itemPath).isDirectory());
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Describe where a guide was found, such as "source 'team'" or
+ * "package '@acme/guide' (global)"
+ */
+function describeGuideOrigin(guide: GuideInfo): string {
+  return guide.package
+    ? `package '${guide.package.name}' (${guide.package.scope})`
+    : `source '${guide.source?.label}'`;
+}
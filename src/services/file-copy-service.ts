@@ -1,11 +1,96 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { GuideInfo, CopyResult, ValidationResult } from '../config/types';
+import {
+  BackupSettings,
+  ConflictAction,
+  GuideInfo,
+  CopyResult,
+  FileConflict,
+  GuideFragment,
+  InstallPlan,
+  InstallLockfile,
+  InstalledFile,
+  ValidationResult,
+} from '../config/types';
+import { BACKUPS_DIR, parseBackupName } from '../utils/backup-files';
+import {
+  DEFAULT_FRAGMENT_TARGET,
+  GuideCompositionError,
+  applyGuideFragment,
+} from '../utils/guide-composition';
+import {
+  extendsGuide,
+  resolveGuideFiles,
+  usesFileList,
+} from '../utils/guide-manifest';
+import {
+  INSTALL_BASE_DIR,
+  INSTALL_LOCKFILE_PATH,
+  INSTALL_LOCKFILE_VERSION,
+  hashContent,
+  readInstallLockfile,
+  saveInstallBase,
+  saveInstallLockfile,
+  toLockfilePath,
+} from '../utils/install-lockfile';
+import { appendMissingSections } from '../utils/merge';
+import { renderTemplate } from '../utils/template';
+import { InstallTransaction, TransactionWrite } from './install-transaction';
+
+/**
+ * A fragment of an extending guide, located on disk
+ */
+export interface ResolvedGuideFragment extends GuideFragment {
+  /** Absolute path of the fragment file */
+  sourcePath: string;
+  /** Id of the guide that declares the fragment */
+  guideId: string;
+}
+
+/**
+ * A file a guide installs
+ */
+export interface GuideFile {
+  /** Absolute path of the file in the guide that provides it */
+  sourcePath: string;
+  /** Absolute path of the file in the project */
+  targetPath: string;
+  /** Path of the file relative to the guide that provides it */
+  source: string;
+  /** Fragments of extending guides composed into the file, in order */
+  fragments?: ResolvedGuideFragment[];
+}
 
 /**
  * Service for copying development guide files
  */
 export class FileCopyService {
+  private templateVariables?: Record<string, string>;
+  private backupSettings?: BackupSettings;
+  private availableGuides?: GuideInfo[];
+
+  /**
+   * Enable {{name}} substitution in copied files, or turn it off with undefined
+   */
+  setTemplateVariables(variables: Record<string, string> | undefined): void {
+    this.templateVariables = variables;
+  }
+
+  /**
+   * Choose where backups are written, or go back to the default with undefined
+   */
+  setBackupSettings(settings: BackupSettings | undefined): void {
+    this.backupSettings = settings;
+  }
+
+  /**
+   * Provide the guides that guides declaring "extends" can build on, or
+   * clear them with undefined
+   */
+  setAvailableGuides(guides: GuideInfo[] | undefined): void {
+    this.availableGuides = guides;
+  }
+
   /**
    * Copy developmentGuide.md from guide to target directory
    */
@@ -36,7 +121,10 @@ export class FileCopyService {
       }
 
       // Read source file
-      const content = fs.readFileSync(sourcePath, 'utf8');
+      const content = this.renderContent(
+        fs.readFileSync(sourcePath, 'utf8'),
+        sourcePath
+      );
 
       // Write to target file
       fs.writeFileSync(targetPath, content, 'utf8');
@@ -77,7 +165,10 @@ export class FileCopyService {
       }
 
       // Read source file
-      const content = fs.readFileSync(sourcePath, 'utf8');
+      const content = this.renderContent(
+        fs.readFileSync(sourcePath, 'utf8'),
+        sourcePath
+      );
 
       // Write to target file
       fs.writeFileSync(targetPath, content, 'utf8');
@@ -159,6 +250,24 @@ export class FileCopyService {
       ];
     }
 
+    // Guides with a guide.json file list or a base guide copy exactly those files
+    if (usesFileList(guide.manifest) || extendsGuide(guide.manifest)) {
+      let files: GuideFile[];
+      try {
+        files = this.getGuideFilePairs(guide, targetDir);
+      } catch (error) {
+        return [
+          {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        ];
+      }
+      return files.map((file) =>
+        this.copyFile(file.sourcePath, file.targetPath, file.fragments)
+      );
+    }
+
     // Always copy developmentGuide.md
     const guideResult = this.copyGuide(guide, targetDir);
     results.push(guideResult);
@@ -205,13 +314,16 @@ export class FileCopyService {
 
       // Create backup if overwriting
       if (overwritten) {
-        backupPath = this.generateBackupPath(targetPath, Date.now());
+        backupPath = this.prepareBackupPath(targetPath, targetDir);
         const existingContent = fs.readFileSync(targetPath, 'utf8');
         fs.writeFileSync(backupPath, existingContent, 'utf8');
       }
 
       // Read source file
-      const content = fs.readFileSync(sourcePath, 'utf8');
+      const content = this.renderContent(
+        fs.readFileSync(sourcePath, 'utf8'),
+        sourcePath
+      );
 
       try {
         // Write to target file
@@ -312,13 +424,16 @@ export class FileCopyService {
 
       // Create backup if overwriting
       if (overwritten) {
-        backupPath = this.generateBackupPath(targetPath, Date.now());
+        backupPath = this.prepareBackupPath(targetPath, targetDir);
         const existingContent = fs.readFileSync(targetPath, 'utf8');
         fs.writeFileSync(backupPath, existingContent, 'utf8');
       }
 
       // Read source file
-      const content = fs.readFileSync(sourcePath, 'utf8');
+      const content = this.renderContent(
+        fs.readFileSync(sourcePath, 'utf8'),
+        sourcePath
+      );
 
       try {
         // Write to target file
@@ -397,11 +512,70 @@ export class FileCopyService {
   }
 
   /**
-   * Copy all guide files with backup and rollback support
+   * Copy a single file into the target directory, creating parent folders
+   *
+   * Contents are copied as raw bytes so guides can ship binary assets.
+   * Fragments of extending guides are composed into the file first.
    */
-  copyGuideFilesWithBackup(guide: GuideInfo, targetDir: string): CopyResult[] {
-    const results: CopyResult[] = [];
+  copyFile(
+    sourcePath: string,
+    targetPath: string,
+    fragments: ResolvedGuideFragment[] = []
+  ): CopyResult {
+    try {
+      if (!fs.existsSync(sourcePath)) {
+        return {
+          success: false,
+          error: `Source file not found: ${sourcePath}`,
+        };
+      }
+
+      const targetDirectory = path.dirname(targetPath);
+      if (!fs.existsSync(targetDirectory)) {
+        fs.mkdirSync(targetDirectory, { recursive: true });
+      }
+
+      const overwritten = fs.existsSync(targetPath);
+      const content = this.renderBinaryContent(
+        this.readGuideSource(sourcePath, fragments),
+        sourcePath
+      );
+      fs.writeFileSync(targetPath, content);
 
+      return {
+        success: true,
+        copiedFilePath: targetPath,
+        overwritten,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Unknown error during file copy',
+      };
+    }
+  }
+
+  /**
+   * Copy all guide files with backups as one all-or-nothing change
+   *
+   * Every file is read and rendered before anything is written, then all
+   * files and backups are written through the transaction. When any file
+   * fails the transaction is rolled back, so the project is left as it was
+   * (including anything else the transaction already changed), and every
+   * result reports the failure.
+   *
+   * Existing files that differ from the guide version are handled by their
+   * entry in conflictActions and overwritten when they have none.
+   */
+  copyGuideFilesWithBackup(
+    guide: GuideInfo,
+    targetDir: string,
+    transaction: InstallTransaction = new InstallTransaction(),
+    conflictActions: Record<string, ConflictAction> = {}
+  ): CopyResult[] {
     // Validate target directory first
     const validation = this.validateTargetDirectory(targetDir);
     if (!validation.isValid) {
@@ -413,36 +587,511 @@ export class FileCopyService {
       ];
     }
 
-    // Always copy developmentGuide.md with backup
-    const guideResult = this.copyGuideWithBackup(guide, targetDir);
-    results.push(guideResult);
+    let files: GuideFile[];
+    try {
+      files = this.getGuideFilePairs(guide, targetDir);
+    } catch (error) {
+      return [
+        {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      ];
+    }
 
-    // Copy .cursorrules with backup if available
-    if (guide.hasCursorRules) {
-      const cursorResult = this.copyCursorRulesWithBackup(guide, targetDir);
-      results.push(cursorResult);
+    const timestamp = Date.now();
+    const writes: TransactionWrite[] = [];
+    const results: CopyResult[] = files.map((file) => {
+      try {
+        if (!fs.existsSync(file.sourcePath)) {
+          return {
+            success: false,
+            error: `Source file not found: ${file.sourcePath}`,
+          };
+        }
+
+        const content = this.renderBinaryContent(
+          this.readGuideSource(file.sourcePath, file.fragments),
+          file.sourcePath
+        );
+        const existing = fs.existsSync(file.targetPath)
+          ? fs.readFileSync(file.targetPath)
+          : undefined;
+        // A file that already holds the guide version needs no write or backup
+        if (existing && Buffer.from(existing).equals(Buffer.from(content))) {
+          return {
+            success: true,
+            copiedFilePath: file.targetPath,
+            skipped: true,
+            unchanged: true,
+          };
+        }
+        const conflictAction = existing
+          ? conflictActions[file.targetPath] || 'overwrite'
+          : undefined;
+
+        if (conflictAction === 'skip') {
+          return {
+            success: true,
+            copiedFilePath: file.targetPath,
+            skipped: true,
+            conflictAction,
+          };
+        }
+
+        if (conflictAction === 'keep-both') {
+          const newFilePath = `${file.targetPath}.new`;
+          writes.push({ path: newFilePath, content });
+          return {
+            success: true,
+            copiedFilePath: file.targetPath,
+            skipped: true,
+            conflictAction,
+            newFilePath,
+          };
+        }
+
+        let written = content;
+        if (existing && conflictAction === 'merge') {
+          written = appendMissingSections(
+            existing.toString('utf8'),
+            content.toString()
+          );
+          if (written === existing.toString('utf8')) {
+            return {
+              success: true,
+              copiedFilePath: file.targetPath,
+              skipped: true,
+              conflictAction,
+            };
+          }
+        }
+
+        const backupPath = existing
+          ? this.generateBackupPath(file.targetPath, timestamp, targetDir)
+          : undefined;
+        if (existing && backupPath) {
+          writes.push({ path: backupPath, content: existing });
+        }
+        writes.push({ path: file.targetPath, content: written });
+
+        return {
+          success: true,
+          copiedFilePath: file.targetPath,
+          overwritten: existing !== undefined,
+          backupPath,
+          conflictAction,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Unknown error during file copy',
+        };
+      }
+    });
+
+    let writeError: string | undefined;
+    if (results.every((result) => result.success)) {
+      try {
+        transaction.writeFiles(writes);
+        return results;
+      } catch (error) {
+        writeError =
+          error instanceof Error ? error.message : 'Unknown write error';
+      }
     }
 
-    return results;
+    // Undo everything so no guide file is left half-upgraded
+    const rollbackErrors = transaction.rollback();
+    return results.map((result) => ({
+      success: false,
+      error:
+        result.error ||
+        writeError ||
+        `${path.relative(targetDir, result.copiedFilePath || '')} was not copied because another guide file failed`,
+      copiedFilePath: result.copiedFilePath,
+      rolledBack: rollbackErrors.length === 0,
+      rollbackError:
+        rollbackErrors.length > 0 ? rollbackErrors.join('; ') : undefined,
+    }));
+  }
+
+  /**
+   * Describe every change an install would make without touching the disk
+   *
+   * With onConflict, existing files that differ from the guide version are
+   * planned the way that action handles them.
+   */
+  planInstall(
+    guide: GuideInfo,
+    targetDir: string,
+    timestamp: number = Date.now(),
+    onConflict?: ConflictAction
+  ): InstallPlan {
+    const plan: InstallPlan = {
+      guideId: guide.id,
+      guideName: guide.displayName,
+      targetDir,
+      directories: [],
+      files: [],
+      errors: [],
+    };
+
+    const validation = this.validateTargetDirectory(targetDir);
+    if (!validation.isValid) {
+      plan.errors.push(
+        validation.error || 'Target directory validation failed'
+      );
+      return plan;
+    }
+
+    for (const directory of ['.memory-bank', '.specs']) {
+      const directoryPath = path.join(targetDir, directory);
+      plan.directories.push({
+        path: directoryPath,
+        action: fs.existsSync(directoryPath) ? 'exists' : 'create',
+      });
+    }
+
+    if (extendsGuide(guide.manifest)) {
+      const composition = this.validateComposition(guide);
+      if (!composition.isValid) {
+        plan.errors.push(composition.error || 'Guide composition failed');
+        return plan;
+      }
+    }
+
+    for (const { sourcePath, targetPath, fragments } of this.getGuideFilePairs(
+      guide,
+      targetDir
+    )) {
+      const file = { sourcePath, targetPath };
+      if (!fs.existsSync(file.sourcePath)) {
+        plan.errors.push(`Source file not found: ${file.sourcePath}`);
+        continue;
+      }
+
+      // Render now so unresolved template variables fail the plan
+      let content: Buffer | string;
+      try {
+        content = this.renderBinaryContent(
+          this.readGuideSource(file.sourcePath, fragments),
+          file.sourcePath
+        );
+      } catch (error) {
+        plan.errors.push(
+          error instanceof Error ? error.message : String(error)
+        );
+        continue;
+      }
+
+      const conflictAction =
+        onConflict && this.detectConflict(file.targetPath, content)
+          ? onConflict
+          : undefined;
+      if (conflictAction === 'skip') {
+        plan.files.push({ ...file, action: 'keep', conflictAction });
+        continue;
+      }
+      if (conflictAction === 'keep-both') {
+        const newFilePath = `${file.targetPath}.new`;
+        plan.files.push({
+          ...file,
+          targetPath: newFilePath,
+          action: fs.existsSync(newFilePath) ? 'overwrite' : 'create',
+          conflictAction,
+        });
+        continue;
+      }
+
+      if (
+        fs.existsSync(file.targetPath) &&
+        !this.detectConflict(file.targetPath, content)
+      ) {
+        plan.files.push({ ...file, action: 'keep' });
+        continue;
+      }
+
+      const overwrite = this.detectConflict(file.targetPath);
+      plan.files.push({
+        ...file,
+        action: overwrite ? 'overwrite' : 'create',
+        backupPath: overwrite
+          ? this.generateBackupPath(file.targetPath, timestamp, targetDir)
+          : undefined,
+        conflictAction,
+      });
+    }
+
+    return plan;
+  }
+
+  /**
+   * Record the guide and every file an install wrote in .memory-bank/.install.json
+   *
+   * Files that were kept instead of written keep their entry from the
+   * previous lockfile; files kept because they already matched the guide
+   * are recorded like written ones. Reinstalling the same guide keeps the
+   * time of the first install. A copy of every guide file is kept under
+   * .memory-bank/.install-base so updates can merge local edits. With a
+   * transaction, rolling it back also undoes these writes.
+   */
+  writeInstallLockfile(
+    guide: GuideInfo,
+    targetDir: string,
+    results: CopyResult[],
+    now: Date = new Date(),
+    transaction?: InstallTransaction
+  ): CopyResult {
+    const lockfilePath = path.join(targetDir, INSTALL_LOCKFILE_PATH);
+
+    try {
+      const timestamp = now.toISOString();
+      const { lockfile: previous } = readInstallLockfile(targetDir);
+      const previousFiles = new Map(
+        (previous?.files || []).map((file) => [file.path, file])
+      );
+      const sources = new Map(
+        this.getGuideFilePairs(guide, targetDir).map((file) => [
+          file.targetPath,
+          file.source,
+        ])
+      );
+
+      const toFilePath = (copiedFilePath: string) =>
+        toLockfilePath(path.relative(targetDir, copiedFilePath));
+      // A path written by this install is recorded from its new content only
+      const writtenPaths = new Set(
+        results
+          .filter(
+            (result) => result.success && (!result.skipped || result.unchanged)
+          )
+          .flatMap((result) =>
+            result.copiedFilePath ? [toFilePath(result.copiedFilePath)] : []
+          )
+      );
+
+      const files: InstalledFile[] = [];
+      results.forEach((result) => {
+        if (!result.success || !result.copiedFilePath) {
+          return;
+        }
+
+        const filePath = toFilePath(result.copiedFilePath);
+        if (result.skipped && !result.unchanged) {
+          const kept = previousFiles.get(filePath);
+          if (kept && !writtenPaths.has(filePath)) {
+            files.push(kept);
+          }
+          return;
+        }
+
+        const content = fs.readFileSync(result.copiedFilePath);
+        const source = sources.get(result.copiedFilePath);
+        if (source) {
+          transaction?.track(path.join(targetDir, INSTALL_BASE_DIR, filePath));
+          saveInstallBase(targetDir, filePath, content);
+        }
+        files.push({
+          path: filePath,
+          source,
+          sha256: hashContent(content),
+          installedAt: timestamp,
+        });
+      });
+
+      const lockfile: InstallLockfile = {
+        lockfileVersion: INSTALL_LOCKFILE_VERSION,
+        guide: {
+          id: guide.id,
+          type: guide.type,
+          sourcePath: guide.folderPath,
+          version: guide.version,
+          contentHash: this.hashGuide(guide),
+        },
+        variables: this.templateVariables,
+        files,
+        installedAt:
+          previous?.guide.id === guide.id ? previous.installedAt : timestamp,
+        updatedAt: timestamp,
+      };
+
+      const overwritten = fs.existsSync(lockfilePath);
+      transaction?.track(lockfilePath);
+      saveInstallLockfile(targetDir, lockfile);
+
+      return {
+        success: true,
+        copiedFilePath: lockfilePath,
+        overwritten,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to write ${INSTALL_LOCKFILE_PATH}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Hash the paths and contents of every file a guide installs
+   *
+   * The hash changes whenever a guide file is added, removed, renamed or
+   * edited, so it identifies guides that do not declare a version. Files
+   * of extending guides are hashed as composed, so a change to the base
+   * guide or a fragment changes the hash too.
+   */
+  hashGuide(guide: GuideInfo): string {
+    const entries = this.getGuideFilePairs(guide, '')
+      .filter((file) => fs.existsSync(file.sourcePath))
+      .map(
+        (file) =>
+          `${file.source}\0${hashContent(this.readGuideSource(file.sourcePath, file.fragments))}`
+      )
+      .sort();
+
+    return hashContent(entries.join('\n'));
   }
 
   /**
    * Detect if a file conflict exists at the target path
+   *
+   * With content, a file that already holds exactly that content is not a
+   * conflict.
+   */
+  detectConflict(targetPath: string, content?: Buffer | string): boolean {
+    if (!fs.existsSync(targetPath)) {
+      return false;
+    }
+
+    return (
+      content === undefined ||
+      !Buffer.from(fs.readFileSync(targetPath)).equals(Buffer.from(content))
+    );
+  }
+
+  /**
+   * Find the existing project files that differ from the guide files an
+   * install would write
+   *
+   * Files that cannot be rendered, such as those with unresolved template
+   * variables, are left out so the copy reports them as failed results.
    */
-  detectConflict(targetPath: string): boolean {
-    return fs.existsSync(targetPath);
+  findConflicts(guide: GuideInfo, targetDir: string): FileConflict[] {
+    return this.getGuideFilePairs(guide, targetDir).flatMap((file) => {
+      if (!fs.existsSync(file.sourcePath)) {
+        return [];
+      }
+
+      let content: Buffer | string;
+      try {
+        content = this.renderBinaryContent(
+          this.readGuideSource(file.sourcePath, file.fragments),
+          file.sourcePath
+        );
+      } catch {
+        return [];
+      }
+      if (!this.detectConflict(file.targetPath, content)) {
+        return [];
+      }
+
+      return [
+        {
+          sourcePath: file.sourcePath,
+          targetPath: file.targetPath,
+          existing: fs.readFileSync(file.targetPath, 'utf8'),
+          incoming: content.toString(),
+        },
+      ];
+    });
   }
 
   /**
    * Generate a unique backup path for a file
+   *
+   * Backups go beside the file unless the settings collect them under
+   * .memory-bank/.backups of the project directory.
    */
-  generateBackupPath(originalPath: string, timestamp: number): string {
-    const dir = path.dirname(originalPath);
+  generateBackupPath(
+    originalPath: string,
+    timestamp: number,
+    targetDir?: string
+  ): string {
     const ext = path.extname(originalPath);
     const base = path.basename(originalPath, ext);
+    const dir =
+      targetDir && this.backupSettings?.location === 'memory-bank'
+        ? path.join(
+            targetDir,
+            BACKUPS_DIR,
+            path.relative(targetDir, path.dirname(originalPath))
+          )
+        : path.dirname(originalPath);
     return path.join(dir, `${base}.backup.${timestamp}${ext}`);
   }
 
+  /**
+   * Find the most recent backup of a file, if it has any
+   *
+   * With the project directory, backups under .memory-bank/.backups are
+   * searched as well as those beside the file.
+   */
+  findLatestBackup(
+    originalPath: string,
+    targetDir?: string
+  ): string | undefined {
+    const name = path.basename(originalPath);
+    const dirs = [path.dirname(originalPath)];
+    if (targetDir) {
+      dirs.push(
+        path.join(
+          targetDir,
+          BACKUPS_DIR,
+          path.relative(targetDir, path.dirname(originalPath))
+        )
+      );
+    }
+
+    let latest: { path: string; timestamp: number } | undefined;
+    for (const dir of dirs.filter((dir) => fs.existsSync(dir))) {
+      for (const backupName of fs.readdirSync(dir)) {
+        const backup = parseBackupName(backupName);
+        if (
+          backup?.originalName === name &&
+          (!latest || backup.timestamp > latest.timestamp)
+        ) {
+          latest = {
+            path: path.join(dir, backupName),
+            timestamp: backup.timestamp,
+          };
+        }
+      }
+    }
+    return latest?.path;
+  }
+
+  /**
+   * Copy a file's current content to a new backup and return the backup path
+   */
+  createBackup(
+    originalPath: string,
+    targetDir?: string,
+    timestamp: number = Date.now()
+  ): string {
+    const backupPath = this.generateBackupPath(
+      originalPath,
+      timestamp,
+      targetDir
+    );
+    fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+    fs.writeFileSync(backupPath, fs.readFileSync(originalPath));
+    return backupPath;
+  }
+
   /**
    * Restore a file from its backup
    */
@@ -456,11 +1105,11 @@ export class FileCopyService {
         };
       }
 
-      // Read backup content
-      const content = fs.readFileSync(backupPath, 'utf8');
+      // Copy the bytes so binary files survive the restore
+      const content = fs.readFileSync(backupPath);
 
       // Write to original location
-      fs.writeFileSync(originalPath, content, 'utf8');
+      fs.writeFileSync(originalPath, content);
 
       return {
         success: true,
@@ -477,4 +1126,270 @@ export class FileCopyService {
       };
     }
   }
+
+  /**
+   * Resolve the source and target path of every file a guide installs
+   *
+   * A guide that extends another installs the files of its base guide,
+   * composed with its fragments, and its own files in place of base files
+   * installed to the same path. Throws a GuideCompositionError when a base
+   * guide is missing, guides extend each other in a cycle or a fragment
+   * changes a file the base guide does not install.
+   */
+  getGuideFilePairs(guide: GuideInfo, targetDir: string): GuideFile[] {
+    return this.composeGuideFiles(guide, targetDir, []);
+  }
+
+  /**
+   * Read a guide file as it would be installed, with fragments composed
+   * into it and template variables applied
+   */
+  renderGuideFile(
+    sourcePath: string,
+    fragments: ResolvedGuideFragment[] = []
+  ): Buffer | string {
+    return this.renderBinaryContent(
+      this.readGuideSource(sourcePath, fragments),
+      sourcePath
+    );
+  }
+
+  /**
+   * Check that a guide and every guide it extends can be composed
+   *
+   * Every composed file is read, so a heading a fragment needs but the
+   * base file lacks is found before anything is written.
+   */
+  validateComposition(guide: GuideInfo): ValidationResult {
+    try {
+      this.getGuideFilePairs(guide, '')
+        .filter((file) => file.fragments && fs.existsSync(file.sourcePath))
+        .forEach((file) =>
+          this.readGuideSource(file.sourcePath, file.fragments)
+        );
+      return { isValid: true };
+    } catch (error) {
+      return {
+        isValid: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Resolve the files of a guide and, recursively, of the guides it extends
+   *
+   * @param extending - Guides that extend this guide, nearest last, used to
+   *   detect cycles
+   */
+  private composeGuideFiles(
+    guide: GuideInfo,
+    targetDir: string,
+    extending: GuideInfo[]
+  ): GuideFile[] {
+    const ownFiles = this.getOwnGuideFiles(guide, targetDir);
+    if (!extendsGuide(guide.manifest)) {
+      return ownFiles;
+    }
+
+    const chain = [...extending, guide];
+    if (extending.some((other) => other.folderPath === guide.folderPath)) {
+      throw new GuideCompositionError(
+        `Guides extend each other in a cycle: ${chain.map((other) => other.id).join(' -> ')}`
+      );
+    }
+
+    const base = this.findBaseGuide(guide, guide.manifest.extends);
+    const files = this.composeGuideFiles(base, targetDir, chain).map(
+      (file) =>
+        ownFiles.find((own) => own.targetPath === file.targetPath) || file
+    );
+    files.push(
+      ...ownFiles.filter((own) => !files.some((file) => file === own))
+    );
+
+    for (const fragment of guide.manifest.fragments || []) {
+      const target = toLockfilePath(
+        path.normalize(fragment.target || DEFAULT_FRAGMENT_TARGET)
+      );
+      const index = files.findIndex((file) => file.source === target);
+      if (index === -1) {
+        throw new GuideCompositionError(
+          `Fragment ${fragment.source} of guide '${guide.id}' changes ${target}, which guide '${base.id}' does not install`
+        );
+      }
+
+      files[index] = {
+        ...files[index],
+        fragments: [
+          ...(files[index].fragments || []),
+          {
+            ...fragment,
+            sourcePath: path.join(guide.folderPath, fragment.source),
+            guideId: guide.id,
+          },
+        ],
+      };
+    }
+
+    return files;
+  }
+
+  /**
+   * Resolve the files a guide ships itself, leaving out its base guide
+   */
+  private getOwnGuideFiles(guide: GuideInfo, targetDir: string): GuideFile[] {
+    const withSource = (file: { sourcePath: string; targetPath: string }) => ({
+      ...file,
+      source: toLockfilePath(path.relative(guide.folderPath, file.sourcePath)),
+    });
+
+    // guide.json sources are relative to the guide, destinations to the project
+    if (usesFileList(guide.manifest)) {
+      return resolveGuideFiles(guide.folderPath, guide.manifest).map((file) =>
+        withSource({
+          sourcePath: path.join(guide.folderPath, file.source),
+          targetPath: path.join(targetDir, file.destination),
+        })
+      );
+    }
+
+    const files: GuideFile[] = [];
+    const developmentGuidePath = path.join(
+      guide.folderPath,
+      'developmentGuide.md'
+    );
+    // Extending guides take developmentGuide.md from their base unless they ship one
+    if (!extendsGuide(guide.manifest) || fs.existsSync(developmentGuidePath)) {
+      files.push(
+        withSource({
+          sourcePath: developmentGuidePath,
+          targetPath: path.join(
+            targetDir,
+            '.memory-bank',
+            'developmentGuide.md'
+          ),
+        })
+      );
+    }
+    // hasCursorRules of an extending guide also counts its base's .cursorrules
+    const cursorRulesPath = path.join(guide.folderPath, '.cursorrules');
+    if (
+      extendsGuide(guide.manifest)
+        ? fs.existsSync(cursorRulesPath)
+        : guide.hasCursorRules
+    ) {
+      files.push(
+        withSource({
+          sourcePath: cursorRulesPath,
+          targetPath: path.join(targetDir, '.cursorrules'),
+        })
+      );
+    }
+    return files;
+  }
+
+  /**
+   * Find the guide another guide extends among the available guides,
+   * preferring an exact id match over a case-insensitive one
+   *
+   * The extending guide itself is never its own base, so a guide can
+   * extend another guide with the same id.
+   */
+  private findBaseGuide(guide: GuideInfo, baseId: string): GuideInfo {
+    const candidates = (this.availableGuides || []).filter(
+      (other) => other.folderPath !== guide.folderPath
+    );
+    const base =
+      candidates.find((other) => other.id === baseId) ||
+      candidates.find(
+        (other) => other.id.toLowerCase() === baseId.toLowerCase()
+      );
+    if (!base) {
+      throw new GuideCompositionError(
+        `Guide '${guide.id}' extends '${baseId}', but no guide with that id was found${
+          candidates.length > 0
+            ? `. Available guides: ${candidates.map((other) => other.id).join(', ')}`
+            : ''
+        }`
+      );
+    }
+    return base;
+  }
+
+  /**
+   * Read a guide file and compose the fragments of extending guides into it
+   */
+  private readGuideSource(
+    sourcePath: string,
+    fragments: ResolvedGuideFragment[] = []
+  ): Buffer {
+    const content = fs.readFileSync(sourcePath);
+    if (fragments.length === 0) {
+      return content;
+    }
+
+    let composed = content.toString('utf8');
+    for (const fragment of fragments) {
+      const result = applyGuideFragment(
+        composed,
+        fs.readFileSync(fragment.sourcePath, 'utf8'),
+        fragment
+      );
+      if (result === undefined) {
+        throw new GuideCompositionError(
+          `Fragment ${fragment.source} of guide '${fragment.guideId}' needs the heading '${fragment.heading}', which ${sourcePath} does not have`
+        );
+      }
+      composed = result;
+    }
+    return Buffer.from(composed, 'utf8');
+  }
+
+  /**
+   * Generate the path of a backup taken now, creating its folder when
+   * backups are collected under .memory-bank/.backups
+   */
+  private prepareBackupPath(targetPath: string, targetDir?: string): string {
+    const backupPath = this.generateBackupPath(
+      targetPath,
+      Date.now(),
+      targetDir
+    );
+    if (targetDir && this.backupSettings?.location === 'memory-bank') {
+      fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+    }
+    return backupPath;
+  }
+
+  /**
+   * Apply template variables to file content when templating is enabled
+   */
+  private renderContent(content: string, sourcePath: string): string {
+    if (!this.templateVariables) {
+      return content;
+    }
+
+    const rendered = renderTemplate(content, this.templateVariables);
+    if (rendered.unresolved.length > 0) {
+      throw new Error(
+        `Unresolved template variables in ${sourcePath}: ${rendered.unresolved.join(', ')}`
+      );
+    }
+    return rendered.content;
+  }
+
+  /**
+   * Apply template variables to raw file content, leaving binary files untouched
+   */
+  private renderBinaryContent(
+    content: Buffer,
+    sourcePath: string
+  ): Buffer | string {
+    if (!this.templateVariables || content.includes(0)) {
+      return content;
+    }
+
+    return this.renderContent(content.toString('utf8'), sourcePath);
+  }
 }
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileDiff, GuideInfo } from '../config/types';
+import { FileCopyService } from './file-copy-service';
+import { countLineChanges, formatUnifiedDiff } from '../utils/diff';
+import { toLockfilePath } from '../utils/install-lockfile';
+
+/**
+ * Service for comparing a project's memory bank against its source guide
+ */
+export class GuideDiffService {
+  private fileCopyService = new FileCopyService();
+
+  /**
+   * Provide the guides that guides declaring "extends" can build on
+   */
+  setAvailableGuides(guides: GuideInfo[] | undefined): void {
+    this.fileCopyService.setAvailableGuides(guides);
+  }
+
+  /**
+   * Compare every file the guide installs with the project copy
+   *
+   * Guide files are rendered with the given template variables first, so
+   * only real edits show up. Nothing is written. Throws when a guide file
+   * cannot be rendered.
+   */
+  compareGuide(
+    guide: GuideInfo,
+    targetDir: string,
+    variables?: Record<string, string>
+  ): FileDiff[] {
+    this.fileCopyService.setTemplateVariables(variables);
+
+    return this.fileCopyService
+      .getGuideFilePairs(guide, targetDir)
+      .filter((file) => fs.existsSync(file.sourcePath))
+      .map((file) => {
+        const filePath = toLockfilePath(
+          path.relative(targetDir, file.targetPath)
+        );
+        const rendered = this.fileCopyService.renderGuideFile(
+          file.sourcePath,
+          file.fragments
+        );
+        const incoming = Buffer.isBuffer(rendered)
+          ? rendered
+          : Buffer.from(rendered);
+
+        return this.compareFile(
+          {
+            path: filePath,
+            source: file.source,
+            status: 'identical',
+            added: 0,
+            removed: 0,
+          },
+          incoming,
+          file.targetPath
+        );
+      });
+  }
+
+  /**
+   * Compare the guide version of one file with the project copy
+   */
+  private compareFile(
+    fileDiff: FileDiff,
+    incoming: Buffer,
+    targetPath: string
+  ): FileDiff {
+    const guideLabel = `guide/${fileDiff.path}`;
+    const projectLabel = `project/${fileDiff.path}`;
+
+    if (!fs.existsSync(targetPath)) {
+      const changes = isBinary(incoming)
+        ? { added: 0, removed: 0 }
+        : countLineChanges(incoming.toString('utf8'), '');
+      return {
+        ...fileDiff,
+        ...changes,
+        status: 'missing',
+        diff: isBinary(incoming)
+          ? `Binary file ${guideLabel} is missing from the project\n`
+          : formatUnifiedDiff(
+              incoming.toString('utf8'),
+              '',
+              guideLabel,
+              '/dev/null'
+            ),
+      };
+    }
+
+    const local = fs.readFileSync(targetPath);
+    if (local.equals(incoming)) {
+      return fileDiff;
+    }
+
+    if (isBinary(local) || isBinary(incoming)) {
+      return {
+        ...fileDiff,
+        status: 'modified',
+        diff: `Binary files ${guideLabel} and ${projectLabel} differ\n`,
+      };
+    }
+
+    const guideContent = incoming.toString('utf8');
+    const projectContent = local.toString('utf8');
+    return {
+      ...fileDiff,
+      ...countLineChanges(guideContent, projectContent),
+      status: 'modified',
+      diff: formatUnifiedDiff(
+        guideContent,
+        projectContent,
+        guideLabel,
+        projectLabel
+      ),
+    };
+  }
+}
+
+/**
+ * Check whether content looks binary and cannot be compared line by line
+ */
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
@@ -1,16 +1,51 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  describeGuideSource,
+  resolveGuideSources,
+} from '../config/guide-sources';
 import {
   GuideInfo,
   CustomGuideConfig,
+  GuideManifest,
+  GuideSource,
+  ShadowedGuide,
   ValidationResult,
 } from '../config/types';
+import { findGuidePackages } from '../utils/guide-packages';
 import { validateGuideStructure } from '../utils/validation';
+import { FileCopyService } from './file-copy-service';
+import { GuideSourceService } from './guide-source-service';
+import {
+  extendsGuide,
+  readGuideManifest,
+  resolveGuideFiles,
+  usesFileList,
+} from '../utils/guide-manifest';
 
 /**
  * Service for discovering and managing development guides
  */
 export class GuideDiscoveryService {
+  private warnings: string[] = [];
+  private packageWarnings: string[] = [];
+  private shadowedGuides: ShadowedGuide[] = [];
+  private shadowedPackageGuides: ShadowedGuide[] = [];
+
+  private readonly guideSourceService: GuideSourceService;
+
+  /**
+   * @param silent - Collect discovery warnings without printing them
+   * @param configDir - Directory of the global configuration, whose cache
+   *   holds git and archive guide sources
+   */
+  constructor(
+    private readonly silent: boolean = false,
+    configDir?: string
+  ) {
+    this.guideSourceService = new GuideSourceService(configDir);
+  }
+
   /**
    * Discover all built-in development guides
    */
@@ -29,6 +64,12 @@ export class GuideDiscoveryService {
           'Web'
         ),
         hasCursorRules: true,
+        category: 'Web',
+        description: 'TypeScript, React, Next.js and modern web technologies',
+        detection: {
+          files: ['tsconfig.json', 'next.config.*', 'vite.config.*'],
+          packages: ['react', 'next', 'vue', '@angular/core', 'svelte'],
+        },
       },
       {
         id: 'java',
@@ -43,6 +84,16 @@ export class GuideDiscoveryService {
           'Java'
         ),
         hasCursorRules: true,
+        category: 'Backend',
+        description: 'Java and Spring Boot services',
+        detection: {
+          files: ['pom.xml', 'build.gradle', 'build.gradle.kts'],
+          contents: [
+            { file: 'pom.xml', text: 'spring-boot' },
+            { file: 'build.gradle', text: 'spring-boot' },
+            { file: 'build.gradle.kts', text: 'spring-boot' },
+          ],
+        },
       },
       {
         id: 'lua',
@@ -57,123 +108,368 @@ export class GuideDiscoveryService {
           'Lua'
         ),
         hasCursorRules: true,
+        category: 'Game Development',
+        description: 'Lua and the Love2D game framework',
+        detection: {
+          files: ['main.lua', 'conf.lua', '*.rockspec', '.luarc.json'],
+          contents: [{ file: 'conf.lua', text: 'love.conf' }],
+        },
       },
     ];
   }
 
   /**
-   * Discover custom development guides from the configured folder with error handling
+   * Discover custom development guides from every configured source
+   *
+   * Sources are scanned highest precedence first (see resolveGuideSources)
+   * and each guide is tagged with the source it was found in. When a guide
+   * id was already found, the later guide is left out with a warning and
+   * recorded as shadowed; guide folders are scanned in name order so the
+   * outcome does not depend on the filesystem.
    */
   discoverCustomGuides(config: CustomGuideConfig): GuideInfo[] {
     const guides: GuideInfo[] = [];
     const errors: string[] = [];
+    this.shadowedGuides = [];
 
-    try {
-      // Check if custom guides folder exists
-      if (!fs.existsSync(config.customGuidesFolder)) {
-        return [];
+    for (const source of resolveGuideSources(config)) {
+      try {
+        const folder = this.guideSourceService.resolveFolder(source);
+        for (const guide of this.discoverSourceGuides(
+          source,
+          folder,
+          config,
+          errors
+        )) {
+          const winner = guides.find((existing) => existing.id === guide.id);
+          if (winner) {
+            this.shadowedGuides.push({ guide, shadowedBy: winner });
+            errors.push(
+              `Guide '${guide.id}' from source '${source.label}' (${guide.folderPath}) is ignored: the guide from source '${winner.source?.label}' (${winner.folderPath}) has the same id and takes precedence`
+            );
+            continue;
+          }
+          guides.push(guide);
+        }
+      } catch (error) {
+        errors.push(
+          `Custom guides discovery failed for ${describeGuideSource(source)}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
       }
+    }
 
-      // Check if it's a directory
-      const stats = fs.statSync(config.customGuidesFolder);
-      if (!stats.isDirectory()) {
-        return [];
+    this.warnings = errors;
+
+    // Log any errors for debugging
+    if (errors.length > 0 && !this.silent) {
+      console.warn('⚠️  Custom guide discovery warnings:');
+      errors.forEach((error) => {
+        console.warn(`   - ${error}`);
+      });
+    }
+
+    return guides;
+  }
+
+  /**
+   * Discover the guides in the folder of one source, collecting problems
+   * in errors
+   */
+  private discoverSourceGuides(
+    source: GuideSource,
+    folder: string,
+    config: CustomGuideConfig,
+    errors: string[]
+  ): GuideInfo[] {
+    // A source folder that does not exist simply has no guides
+    if (!fs.existsSync(folder) || !fs.statSync(folder).isDirectory()) {
+      return [];
+    }
+
+    const guides: GuideInfo[] = [];
+    const items = [...fs.readdirSync(folder)].sort();
+
+    for (const item of items) {
+      // Hidden folders such as the .git folder of a cloned source are not guides
+      if (item.startsWith('.')) {
+        continue;
       }
 
-      // Read directory contents
-      const items = fs.readdirSync(config.customGuidesFolder);
+      try {
+        const itemPath = path.join(folder, item);
 
-      for (const item of items) {
-        try {
-          const itemPath = path.join(config.customGuidesFolder, item);
+        // Check if item is a directory
+        const itemStats = fs.statSync(itemPath);
+        if (!itemStats.isDirectory()) {
+          continue;
+        }
 
-          // Check if item is a directory
-          const itemStats = fs.statSync(itemPath);
-          if (!itemStats.isDirectory()) {
-            continue;
-          }
+        const guide = this.loadGuide(
+          itemPath,
+          item,
+          `Guide '${item}'`,
+          config,
+          errors
+        );
+        if (guide) {
+          guides.push({ ...guide, source });
+        }
+      } catch (itemError) {
+        errors.push(
+          `Error processing guide '${item}': ${itemError instanceof Error ? itemError.message : 'Unknown error'}`
+        );
+      }
+    }
 
-          // Validate the guide structure
-          const validation = this.validateGuide(itemPath);
-          if (!validation.isValid) {
-            errors.push(`Guide '${item}': ${validation.error}`);
-            continue;
-          }
+    return guides;
+  }
 
-          // Check for required developmentGuide.md file
-          const developmentGuidePath = path.join(
-            itemPath,
-            'developmentGuide.md'
-          );
-          if (!fs.existsSync(developmentGuidePath)) {
-            errors.push(
-              `Guide '${item}' missing required file: developmentGuide.md`
-            );
-            continue;
-          }
+  /**
+   * Read one guide folder, collecting why it cannot be used in errors
+   *
+   * The guide is named after its folder unless guide.json sets an id, and
+   * a menu item for either overrides the manifest's display settings.
+   */
+  private loadGuide(
+    guidePath: string,
+    name: string,
+    label: string,
+    config: CustomGuideConfig,
+    errors: string[]
+  ): GuideInfo | undefined {
+    // Read the optional guide.json manifest
+    const { manifest, error: manifestError } = readGuideManifest(guidePath);
+    if (manifestError) {
+      errors.push(`${label}: ${manifestError}`);
+      return undefined;
+    }
 
-          // Check if there's a custom menu item configuration for this guide
-          const customMenuItem = config.menuItems.find(
-            (menuItem) => menuItem.id === item
-          );
+    // Validate the guide structure
+    const validation = this.validateGuide(guidePath, manifest);
+    if (!validation.isValid) {
+      errors.push(`${label}: ${validation.error}`);
+      return undefined;
+    }
+
+    // Guides that list their own files must install at least one, unless
+    // their base guide provides the files
+    if (
+      usesFileList(manifest) &&
+      !extendsGuide(manifest) &&
+      resolveGuideFiles(guidePath, manifest).length === 0
+    ) {
+      errors.push(`${label}: guide.json does not match any files`);
+      return undefined;
+    }
 
-          // Determine if guide has cursor rules
-          const hasCursorRules = fs.existsSync(
-            path.join(itemPath, '.cursorrules')
+    // Check for required developmentGuide.md file unless the manifest lists the files
+    const developmentGuidePath = path.join(guidePath, 'developmentGuide.md');
+    if (
+      !usesFileList(manifest) &&
+      !extendsGuide(manifest) &&
+      !fs.existsSync(developmentGuidePath)
+    ) {
+      errors.push(`${label} missing required file: developmentGuide.md`);
+      return undefined;
+    }
+
+    const guideId = manifest?.id || name;
+
+    // Check if there's a custom menu item configuration for this guide
+    const customMenuItem = config.menuItems.find(
+      (menuItem) => menuItem.id === guideId || menuItem.id === name
+    );
+
+    // Menu item settings override the manifest, which overrides the folder name
+    return {
+      id: guideId,
+      displayName: customMenuItem?.displayName || manifest?.displayName || name,
+      type: 'custom',
+      folderPath: guidePath,
+      hasCursorRules: this.hasCursorRules(guidePath, manifest),
+      category: customMenuItem?.category || manifest?.category,
+      description: customMenuItem?.description || manifest?.description,
+      version: manifest?.version,
+      author: manifest?.author,
+      tags: manifest?.tags,
+      manifest,
+      detection: manifest?.detection,
+    };
+  }
+
+  /**
+   * Discover guides shipped as npm packages
+   *
+   * The project's node_modules is scanned before the global one, so a
+   * package installed in the project wins over a global install of the
+   * same package or of another package with the same guide id; the latter
+   * is left out with a warning and recorded as shadowed. Packages that
+   * declare a guide in an unsupported format or with a broken guide are
+   * reported as warnings.
+   */
+  discoverPackageGuides(
+    config: CustomGuideConfig,
+    projectDir: string = process.cwd()
+  ): GuideInfo[] {
+    const guides: GuideInfo[] = [];
+    const errors: string[] = [];
+    this.shadowedPackageGuides = [];
+
+    for (const candidate of findGuidePackages(projectDir)) {
+      const label = `Guide package '${candidate.name}' (${candidate.scope})`;
+      try {
+        const guidePackage = candidate.guidePackage;
+        if (!guidePackage) {
+          errors.push(`${label}: ${candidate.error}`);
+          continue;
+        }
+        // A package installed both ways is used from the project
+        if (guides.some((guide) => guide.package?.name === guidePackage.name)) {
+          continue;
+        }
+        if (!fs.existsSync(guidePackage.folderPath)) {
+          errors.push(
+            `${label}: guide folder does not exist: ${guidePackage.folderPath}`
           );
+          continue;
+        }
 
-          const guide: GuideInfo = {
-            id: item,
-            displayName: customMenuItem?.displayName || item,
-            type: 'custom',
-            folderPath: itemPath,
-            hasCursorRules,
-            category: customMenuItem?.category,
-            description: customMenuItem?.description,
-          };
+        const guide = this.loadGuide(
+          guidePackage.folderPath,
+          guidePackage.name,
+          label,
+          config,
+          errors
+        );
+        if (!guide) {
+          continue;
+        }
 
-          guides.push(guide);
-        } catch (itemError) {
+        const packageGuide: GuideInfo = {
+          ...guide,
+          type: 'package',
+          version: guidePackage.version,
+          package: guidePackage,
+        };
+        const winner = guides.find((existing) => existing.id === guide.id);
+        if (winner) {
+          this.shadowedPackageGuides.push({
+            guide: packageGuide,
+            shadowedBy: winner,
+          });
           errors.push(
-            `Error processing guide '${item}': ${itemError instanceof Error ? itemError.message : 'Unknown error'}`
+            `${label} is ignored: package '${winner.package?.name}' (${winner.package?.scope}) has a guide with the same id '${guide.id}' and takes precedence`
           );
+          continue;
         }
+        guides.push(packageGuide);
+      } catch (error) {
+        errors.push(
+          `${label}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
       }
+    }
 
-      // Log any errors for debugging
-      if (errors.length > 0) {
-        console.warn('⚠️  Custom guide discovery warnings:');
-        errors.forEach((error) => {
-          console.warn(`   - ${error}`);
-        });
-      }
+    this.packageWarnings = errors;
 
-      return guides;
-    } catch (error) {
-      // Return empty array on any error, but log the error
-      console.warn(
-        `⚠️  Custom guides discovery failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-      return [];
+    if (errors.length > 0 && !this.silent) {
+      console.warn('⚠️  Guide package discovery warnings:');
+      errors.forEach((error) => {
+        console.warn(`   - ${error}`);
+      });
     }
+
+    return guides;
+  }
+
+  /**
+   * Get the warnings collected by the last custom and package guide
+   * discovery
+   */
+  getWarnings(): string[] {
+    return [...this.warnings, ...this.packageWarnings];
+  }
+
+  /**
+   * Get the warnings collected by the last package guide discovery
+   */
+  getPackageWarnings(): string[] {
+    return [...this.packageWarnings];
+  }
+
+  /**
+   * Get the guides the last custom and package guide discovery left out as
+   * duplicates
+   */
+  getShadowedGuides(): ShadowedGuide[] {
+    return [...this.shadowedGuides, ...this.shadowedPackageGuides];
   }
 
   /**
    * Validate a development guide folder structure
    */
-  validateGuide(guidePath: string): ValidationResult {
-    return validateGuideStructure(guidePath);
+  validateGuide(guidePath: string, manifest?: GuideManifest): ValidationResult {
+    return validateGuideStructure(guidePath, manifest);
   }
 
   /**
-   * Get all available guides (built-in and custom) with error handling
+   * Get all available guides (built-in, custom and package) with error
+   * handling
+   *
+   * @param projectDir - Project whose node_modules is searched for guide
+   *   packages
    */
-  getAllGuides(config: CustomGuideConfig): GuideInfo[] {
+  getAllGuides(
+    config: CustomGuideConfig,
+    projectDir: string = process.cwd()
+  ): GuideInfo[] {
     const builtInGuides = this.discoverBuiltInGuides();
     const customGuides = this.discoverCustomGuides(config);
+    const packageGuides = this.discoverPackageGuides(config, projectDir);
 
-    // Combine guides with built-in guides first, then custom guides
-    return [...builtInGuides, ...customGuides];
+    // Combine guides with built-in guides first, then custom and package guides
+    const guides = [...builtInGuides, ...customGuides, ...packageGuides];
+    this.resolveExtendingGuides(guides);
+    return guides;
+  }
+
+  /**
+   * Describe guides that extend another guide by what they install
+   *
+   * An extending guide installs the .cursorrules of its base guide even
+   * when it ships none itself, so hasCursorRules is taken from the composed
+   * files once every guide is known. The guides are updated in place;
+   * guides that cannot be composed keep what they ship themselves, and the
+   * problem is reported when they are installed.
+   */
+  resolveExtendingGuides(guides: GuideInfo[]): void {
+    const fileCopyService = new FileCopyService();
+    fileCopyService.setAvailableGuides(guides);
+
+    guides
+      .filter((guide) => extendsGuide(guide.manifest))
+      .forEach((guide) => {
+        try {
+          guide.hasCursorRules = fileCopyService
+            .getGuideFilePairs(guide, '')
+            .some((file) => path.normalize(file.targetPath) === '.cursorrules');
+        } catch {
+          // Keep the flag discovery found
+        }
+      });
+  }
+
+  /**
+   * Find a guide by id, preferring an exact match over a case-insensitive one
+   */
+  findGuideById(guides: GuideInfo[], guideId: string): GuideInfo | undefined {
+    const exactMatch = guides.find((guide) => guide.id === guideId);
+    if (exactMatch) {
+      return exactMatch;
+    }
+
+    const normalizedId = guideId.toLowerCase();
+    return guides.find((guide) => guide.id.toLowerCase() === normalizedId);
   }
 
   /**
@@ -192,20 +488,32 @@ export class GuideDiscoveryService {
         return false;
       }
 
-      // Check for required developmentGuide.md file
-      const developmentGuidePath = path.join(
-        guide.folderPath,
-        'developmentGuide.md'
-      );
-      if (!fs.existsSync(developmentGuidePath)) {
-        return false;
-      }
+      // Check the files and fragments declared in guide.json, or the
+      // required developmentGuide.md
+      const requiredFiles = [
+        ...(usesFileList(guide.manifest)
+          ? resolveGuideFiles(guide.folderPath, guide.manifest).map((file) =>
+              path.join(guide.folderPath, file.source)
+            )
+          : extendsGuide(guide.manifest)
+            ? []
+            : [path.join(guide.folderPath, 'developmentGuide.md')]),
+        ...(guide.manifest?.fragments || []).map((fragment) =>
+          path.join(guide.folderPath, fragment.source)
+        ),
+      ];
 
-      // Check if developmentGuide.md is readable
-      try {
-        fs.accessSync(developmentGuidePath, fs.constants.R_OK);
-      } catch {
-        return false;
+      for (const requiredFile of requiredFiles) {
+        if (!fs.existsSync(requiredFile)) {
+          return false;
+        }
+
+        // Check if the file is readable
+        try {
+          fs.accessSync(requiredFile, fs.constants.R_OK);
+        } catch {
+          return false;
+        }
       }
 
       return true;
@@ -229,24 +537,51 @@ export class GuideDiscoveryService {
       }
 
       const guideName = path.basename(guidePath);
+      const { manifest, error } = readGuideManifest(guidePath);
+      if (error) {
+        return null;
+      }
+
       const developmentGuidePath = path.join(guidePath, 'developmentGuide.md');
-      const hasCursorRules = fs.existsSync(
-        path.join(guidePath, '.cursorrules')
-      );
+      const hasCursorRules = this.hasCursorRules(guidePath, manifest);
 
-      if (!fs.existsSync(developmentGuidePath)) {
+      if (
+        !usesFileList(manifest) &&
+        !extendsGuide(manifest) &&
+        !fs.existsSync(developmentGuidePath)
+      ) {
         return null;
       }
 
       return {
-        id: guideName,
-        displayName: guideName,
+        id: manifest?.id || guideName,
+        displayName: manifest?.displayName || guideName,
         type: 'custom',
         folderPath: guidePath,
         hasCursorRules,
+        category: manifest?.category,
+        description: manifest?.description,
+        version: manifest?.version,
+        author: manifest?.author,
+        tags: manifest?.tags,
+        manifest,
+        detection: manifest?.detection,
       };
     } catch {
       return null;
     }
   }
+
+  /**
+   * Determine whether a guide installs a .cursorrules file
+   */
+  private hasCursorRules(guidePath: string, manifest?: GuideManifest): boolean {
+    if (usesFileList(manifest)) {
+      return resolveGuideFiles(guidePath, manifest).some(
+        (file) => path.normalize(file.destination) === '.cursorrules'
+      );
+    }
+
+    return fs.existsSync(path.join(guidePath, '.cursorrules'));
+  }
 }
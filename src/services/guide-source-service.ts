@@ -0,0 +1,294 @@
+import { execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { resolveConfigLocation } from '../config/config-location';
+import {
+  getGuideSourceKind,
+  getGuideSourceLocation,
+  isGitUrl,
+} from '../config/guide-sources';
+import { GuideSource, GuideSourceStatus } from '../config/types';
+
+/**
+ * Folder under the configuration directory that git and archive sources
+ * are fetched into
+ */
+export const GUIDE_SOURCE_CACHE_DIR = path.join('cache', 'guide-sources');
+
+/**
+ * Error raised when a git or archive guide source cannot be fetched
+ */
+export class GuideSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuideSourceError';
+  }
+}
+
+/**
+ * Service that makes guide sources available as local folders
+ *
+ * Folder sources are used as they are. Git sources are cloned and archives
+ * extracted into the cache the first time they are needed, and fetched
+ * again only when refreshed, so discovery works offline once a source is
+ * cached. Fetching happens in a temporary folder that replaces the cache
+ * only when it succeeds.
+ */
+export class GuideSourceService {
+  private readonly cacheDir: string;
+
+  /**
+   * @param configDir Directory of the global configuration, as given with
+   *   --config; when omitted it is resolved from the environment
+   */
+  constructor(configDir?: string) {
+    this.cacheDir = path.join(
+      resolveConfigLocation(configDir).dir,
+      GUIDE_SOURCE_CACHE_DIR
+    );
+  }
+
+  /**
+   * Get the local folder holding a source's guides, fetching a git or
+   * archive source that is not cached yet
+   */
+  resolveFolder(source: GuideSource): string {
+    if (getGuideSourceKind(source) !== 'path' && !this.isCached(source)) {
+      this.fetch(source);
+    }
+    return this.getFolder(source);
+  }
+
+  /**
+   * Get the local folder holding a source's guides without fetching it;
+   * undefined for a git or archive source that is not cached yet
+   */
+  getCachedFolder(source: GuideSource): string | undefined {
+    if (getGuideSourceKind(source) !== 'path' && !this.isCached(source)) {
+      return undefined;
+    }
+    return this.getFolder(source);
+  }
+
+  /**
+   * Fetch a git or archive source again, replacing its cache
+   *
+   * A cached git repository is updated in place so only new commits are
+   * downloaded. Folder sources are left alone.
+   */
+  refresh(source: GuideSource): void {
+    const kind = getGuideSourceKind(source);
+    if (kind === 'git' && this.isCached(source)) {
+      const repository = this.getCachePath(source);
+      runCommand(
+        'git',
+        ['fetch', '--quiet', '--force', '--tags', 'origin'],
+        repository,
+        `Could not fetch ${source.git}`
+      );
+      checkoutRef(repository, source);
+    } else if (kind !== 'path') {
+      this.fetch(source);
+    }
+  }
+
+  /**
+   * Describe a source and its cache without fetching anything
+   */
+  getStatus(source: GuideSource): GuideSourceStatus {
+    const kind = getGuideSourceKind(source);
+    const status: GuideSourceStatus = {
+      label: source.label,
+      kind,
+      location: getGuideSourceLocation(source),
+      ref: source.ref,
+      priority: source.priority ?? 0,
+      folder: this.getCachedFolder(source),
+    };
+    if (kind === 'path') {
+      return status;
+    }
+
+    status.cached = this.isCached(source);
+    if (kind === 'git' && status.cached) {
+      try {
+        status.commit = runCommand(
+          'git',
+          ['rev-parse', 'HEAD'],
+          this.getCachePath(source),
+          'Could not read the checked out commit'
+        ).trim();
+      } catch {
+        // A damaged cache is fetched again by refresh
+      }
+    }
+    return status;
+  }
+
+  /**
+   * Get the cache folder of a git or archive source
+   *
+   * The folder name combines the label with a hash of the location and
+   * ref, so changing either fetches into a new folder.
+   */
+  getCachePath(source: GuideSource): string {
+    const key = [
+      getGuideSourceKind(source),
+      toAbsoluteLocation(source),
+      source.ref || '',
+    ].join('\n');
+    const hash = createHash('sha256').update(key).digest('hex').slice(0, 12);
+    const name = source.label.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    return path.join(this.cacheDir, `${name}-${hash}`);
+  }
+
+  /**
+   * Check whether a git or archive source has been fetched
+   */
+  isCached(source: GuideSource): boolean {
+    return fs.existsSync(this.getCachePath(source));
+  }
+
+  /**
+   * Get the folder guides are read from, applying the source's folder
+   */
+  private getFolder(source: GuideSource): string {
+    const root =
+      getGuideSourceKind(source) === 'path'
+        ? source.path || ''
+        : this.getCachePath(source);
+    return source.folder ? path.join(root, source.folder) : root;
+  }
+
+  /**
+   * Clone or extract a source into a temporary folder, then move it into
+   * the cache
+   */
+  private fetch(source: GuideSource): void {
+    const cachePath = this.getCachePath(source);
+    const tempPath = `${cachePath}.tmp-${process.pid}`;
+    fs.rmSync(tempPath, { recursive: true, force: true });
+    fs.mkdirSync(this.cacheDir, { recursive: true });
+
+    try {
+      if (getGuideSourceKind(source) === 'git') {
+        runCommand(
+          'git',
+          [
+            'clone',
+            '--quiet',
+            '--no-checkout',
+            toAbsoluteLocation(source),
+            tempPath,
+          ],
+          undefined,
+          `Could not clone ${source.git}`
+        );
+        checkoutRef(tempPath, source);
+      } else {
+        const archivePath = toAbsoluteLocation(source);
+        if (!fs.existsSync(archivePath)) {
+          throw new GuideSourceError(`Archive not found: ${archivePath}`);
+        }
+        fs.mkdirSync(tempPath, { recursive: true });
+        runCommand(
+          'tar',
+          ['-xzf', archivePath, '-C', tempPath],
+          undefined,
+          `Could not extract ${source.archive}`
+        );
+      }
+
+      fs.rmSync(cachePath, { recursive: true, force: true });
+      fs.renameSync(tempPath, cachePath);
+    } catch (error) {
+      fs.rmSync(tempPath, { recursive: true, force: true });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Check out a source's ref in a clone, detached so refreshing never has to
+ * merge
+ *
+ * A branch is looked up on origin first so a refresh moves to its latest
+ * commit; tags and commits are used as they are. Without a ref the
+ * repository's default branch is used.
+ */
+function checkoutRef(repository: string, source: GuideSource): void {
+  const candidates = source.ref
+    ? [`origin/${source.ref}`, source.ref]
+    : ['origin/HEAD', 'HEAD'];
+  let commit: string | undefined;
+  for (const candidate of candidates) {
+    try {
+      commit = runCommand(
+        'git',
+        ['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`],
+        repository,
+        ''
+      ).trim();
+      break;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  if (!commit) {
+    throw new GuideSourceError(
+      source.ref
+        ? `Ref ${source.ref} not found in ${source.git}`
+        : `${source.git} has no commits`
+    );
+  }
+
+  runCommand(
+    'git',
+    ['checkout', '--quiet', '--force', '--detach', commit],
+    repository,
+    `Could not check out ${source.ref || 'the default branch'} of ${source.git}`
+  );
+}
+
+/**
+ * Turn a source's location into an absolute path, or leave a git URL as is
+ *
+ * Archives may be given as file:// URLs, which are turned into paths.
+ */
+function toAbsoluteLocation(source: GuideSource): string {
+  const location = getGuideSourceLocation(source);
+  if (source.archive !== undefined && location.startsWith('file://')) {
+    return fileURLToPath(location);
+  }
+  if (source.git !== undefined && isGitUrl(location)) {
+    return location;
+  }
+  return path.resolve(location);
+}
+
+/**
+ * Run a command and return its output, turning a failure into a
+ * GuideSourceError that ends with the command's own error output
+ */
+function runCommand(
+  command: string,
+  args: string[],
+  cwd: string | undefined,
+  failure: string
+): string {
+  try {
+    return execFileSync(command, args, {
+      cwd,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const reason =
+      stderr || (error instanceof Error ? error.message : String(error));
+    throw new GuideSourceError(`${failure}: ${reason}`);
+  }
+}
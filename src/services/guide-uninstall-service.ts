@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CopyResult,
+  DirectoryUninstall,
+  FileUninstall,
+  InstallLockfile,
+} from '../config/types';
+import { FileCopyService } from './file-copy-service';
+import {
+  INSTALL_BASE_DIR,
+  INSTALL_LOCKFILE_PATH,
+  hashContent,
+  removeInstallRecord,
+  toLockfilePath,
+} from '../utils/install-lockfile';
+
+/**
+ * Folders an install creates in the project
+ */
+const MEMORY_BANK_DIRECTORIES = ['.memory-bank', '.specs'];
+
+/**
+ * A planned removal of one installed file
+ */
+export interface PendingFileUninstall extends FileUninstall {
+  /** Absolute path of the file in the project */
+  targetPath: string;
+}
+
+/**
+ * Service for removing an installed guide from a project
+ *
+ * Only files recorded in the install lockfile are touched. A file the
+ * install overwrote gets its most recent backup back instead of being
+ * deleted.
+ */
+export class GuideUninstallService {
+  private fileCopyService = new FileCopyService();
+
+  /**
+   * Work out what uninstalling would do with every installed file
+   *
+   * Nothing is written. Files whose content no longer matches the lockfile
+   * are flagged as modified.
+   */
+  planUninstall(
+    targetDir: string,
+    lockfile: InstallLockfile
+  ): PendingFileUninstall[] {
+    return lockfile.files.map((file) => {
+      const targetPath = path.join(targetDir, ...file.path.split('/'));
+      if (!fs.existsSync(targetPath)) {
+        return { path: file.path, action: 'missing', targetPath };
+      }
+
+      const backupPath = this.fileCopyService.findLatestBackup(
+        targetPath,
+        targetDir
+      );
+      return {
+        path: file.path,
+        action: backupPath ? 'restore' : 'remove',
+        modified: hashContent(fs.readFileSync(targetPath)) !== file.sha256,
+        backupPath: backupPath
+          ? toLockfilePath(path.relative(targetDir, backupPath))
+          : undefined,
+        targetPath,
+      };
+    });
+  }
+
+  /**
+   * Describe the memory bank folders that would be left after uninstalling
+   *
+   * A folder is listed with the files that are not part of the install;
+   * folders without such files are marked for removal.
+   */
+  planDirectories(
+    targetDir: string,
+    uninstalls: PendingFileUninstall[]
+  ): DirectoryUninstall[] {
+    const removed = new Set(
+      uninstalls
+        .filter((uninstall) => uninstall.action === 'remove')
+        .map((uninstall) => uninstall.path)
+    );
+    removed.add(toLockfilePath(INSTALL_LOCKFILE_PATH));
+
+    return MEMORY_BANK_DIRECTORIES.filter((directory) =>
+      fs.existsSync(path.join(targetDir, directory))
+    ).map((directory) => {
+      const remaining = listFiles(targetDir, directory).filter(
+        (file) =>
+          !removed.has(file) &&
+          !file.startsWith(`${toLockfilePath(INSTALL_BASE_DIR)}/`)
+      );
+      return {
+        path: directory,
+        remaining,
+        action: remaining.length === 0 ? 'remove' : 'keep',
+      };
+    });
+  }
+
+  /**
+   * Remove or restore the planned files and delete the install lockfile
+   *
+   * Files are handled as planned, including modified ones, so callers
+   * decide beforehand whether modified files may go.
+   */
+  applyUninstall(
+    targetDir: string,
+    uninstalls: PendingFileUninstall[]
+  ): CopyResult[] {
+    const results: CopyResult[] = [];
+
+    for (const uninstall of uninstalls) {
+      if (uninstall.action === 'missing') {
+        continue;
+      }
+
+      try {
+        if (uninstall.action === 'restore' && uninstall.backupPath) {
+          const backupPath = path.join(
+            targetDir,
+            ...uninstall.backupPath.split('/')
+          );
+          const restoreResult = this.fileCopyService.restoreFromBackup(
+            uninstall.targetPath,
+            backupPath
+          );
+          if (!restoreResult.success) {
+            throw new Error(restoreResult.error);
+          }
+          fs.unlinkSync(backupPath);
+        } else {
+          fs.unlinkSync(uninstall.targetPath);
+        }
+
+        uninstall.done = true;
+        results.push({ success: true, copiedFilePath: uninstall.targetPath });
+      } catch (error) {
+        results.push({
+          success: false,
+          error: `Failed to ${uninstall.action} ${uninstall.path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    }
+
+    // Keep the lockfile when files remain so the uninstall can be retried
+    if (results.every((result) => result.success)) {
+      try {
+        removeInstallRecord(targetDir);
+      } catch (error) {
+        results.push({
+          success: false,
+          error: `Failed to remove ${toLockfilePath(INSTALL_LOCKFILE_PATH)}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Delete a memory bank folder with everything left in it
+   */
+  removeDirectory(targetDir: string, directory: string): CopyResult {
+    const directoryPath = path.join(targetDir, directory);
+    try {
+      fs.rmSync(directoryPath, { recursive: true, force: true });
+      return { success: true, copiedFilePath: directoryPath };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to remove ${directory}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
+
+/**
+ * List every file below a project folder as "/"-separated project paths
+ */
+function listFiles(targetDir: string, directory: string): string[] {
+  return fs
+    .readdirSync(path.join(targetDir, directory), { withFileTypes: true })
+    .flatMap((entry) => {
+      const relativePath = `${directory}/${entry.name}`;
+      return entry.isDirectory()
+        ? listFiles(targetDir, relativePath)
+        : [relativePath];
+    });
+}
@@ -0,0 +1,284 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CopyResult,
+  FileUpdate,
+  GuideInfo,
+  InstallLockfile,
+  InstalledFile,
+} from '../config/types';
+import { FileCopyService } from './file-copy-service';
+import {
+  INSTALL_LOCKFILE_VERSION,
+  hashContent,
+  readInstallBase,
+  saveInstallBase,
+  saveInstallLockfile,
+  toLockfilePath,
+} from '../utils/install-lockfile';
+import { mergeThreeWay } from '../utils/merge';
+
+/**
+ * A planned update of one file, with the content it would write
+ */
+export interface PendingFileUpdate extends FileUpdate {
+  /** Absolute path of the file in the project */
+  targetPath: string;
+  /** The file as the new guide version installs it */
+  incoming?: Buffer;
+  /** The file as it is in the project */
+  local?: Buffer;
+  /** Content to write, or undefined when the file is left as it is */
+  content?: Buffer | string;
+}
+
+/**
+ * Service for upgrading installed guide files while keeping local edits
+ *
+ * Each file is compared three ways: the project copy, the guide version
+ * recorded at install time and the guide's current version.
+ */
+export class GuideUpdateService {
+  private fileCopyService = new FileCopyService();
+
+  /**
+   * Provide the guides that guides declaring "extends" can build on
+   */
+  setAvailableGuides(guides: GuideInfo[] | undefined): void {
+    this.fileCopyService.setAvailableGuides(guides);
+  }
+
+  /**
+   * Work out what an update would do to every file of the installed guide
+   *
+   * Nothing is written. Throws when a guide file cannot be rendered, for
+   * example because it uses a template variable without a value, or when
+   * a guide that extends another cannot be composed.
+   */
+  planUpdate(
+    guide: GuideInfo,
+    targetDir: string,
+    lockfile: InstallLockfile,
+    variables?: Record<string, string>
+  ): PendingFileUpdate[] {
+    this.fileCopyService.setTemplateVariables(variables);
+    const installed = new Map(lockfile.files.map((file) => [file.path, file]));
+    const updates: PendingFileUpdate[] = [];
+
+    for (const file of this.fileCopyService.getGuideFilePairs(
+      guide,
+      targetDir
+    )) {
+      const filePath = toLockfilePath(
+        path.relative(targetDir, file.targetPath)
+      );
+      const rendered = this.fileCopyService.renderGuideFile(
+        file.sourcePath,
+        file.fragments
+      );
+      updates.push(
+        this.planFile(targetDir, installed.get(filePath), {
+          path: filePath,
+          source: file.source,
+          action: 'unchanged',
+          targetPath: file.targetPath,
+          incoming: Buffer.isBuffer(rendered)
+            ? rendered
+            : Buffer.from(rendered),
+        })
+      );
+    }
+
+    // Files the guide no longer ships are left in the project
+    const guidePaths = new Set(updates.map((update) => update.path));
+    lockfile.files
+      .filter((file) => file.source && !guidePaths.has(file.path))
+      .forEach((file) => {
+        updates.push({
+          path: file.path,
+          source: file.source,
+          action: 'removed',
+          targetPath: path.join(targetDir, file.path),
+        });
+      });
+
+    return updates;
+  }
+
+  /**
+   * Write the planned changes and record the new guide version in the lockfile
+   *
+   * Conflicts are written as resolved by the caller; unresolved ones keep
+   * their conflict markers. The guide version of every file becomes the
+   * base for the next update, even where the local version was kept.
+   */
+  applyUpdate(
+    guide: GuideInfo,
+    targetDir: string,
+    lockfile: InstallLockfile,
+    updates: PendingFileUpdate[],
+    variables?: Record<string, string>,
+    now: Date = new Date()
+  ): CopyResult[] {
+    const timestamp = now.toISOString();
+    const results: CopyResult[] = [];
+
+    for (const update of updates) {
+      if (update.content === undefined) {
+        continue;
+      }
+
+      try {
+        const targetDirectory = path.dirname(update.targetPath);
+        if (!fs.existsSync(targetDirectory)) {
+          fs.mkdirSync(targetDirectory, { recursive: true });
+        }
+        const overwritten = fs.existsSync(update.targetPath);
+        fs.writeFileSync(update.targetPath, update.content);
+        update.written = true;
+        results.push({
+          success: true,
+          copiedFilePath: update.targetPath,
+          overwritten,
+        });
+      } catch (error) {
+        results.push({
+          success: false,
+          error: `Failed to update ${update.path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    }
+
+    const updated = new Map(updates.map((update) => [update.path, update]));
+    const files: InstalledFile[] = lockfile.files.map((file) => {
+      const update = updated.get(file.path);
+      return update
+        ? this.recordFile(targetDir, file, update, timestamp)
+        : file;
+    });
+    const installedPaths = new Set(lockfile.files.map((file) => file.path));
+    updates
+      .filter((update) => update.incoming && !installedPaths.has(update.path))
+      .filter((update) => update.action !== 'create' || update.written)
+      .forEach((update) => {
+        files.push(this.recordFile(targetDir, undefined, update, timestamp));
+      });
+
+    try {
+      saveInstallLockfile(targetDir, {
+        ...lockfile,
+        lockfileVersion: INSTALL_LOCKFILE_VERSION,
+        guide: {
+          id: guide.id,
+          type: guide.type,
+          sourcePath: guide.folderPath,
+          version: guide.version,
+          contentHash: this.fileCopyService.hashGuide(guide),
+        },
+        variables,
+        files,
+        updatedAt: timestamp,
+      });
+    } catch (error) {
+      results.push({
+        success: false,
+        error: `Failed to update the install lockfile: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Decide what to do with one guide file
+   */
+  private planFile(
+    targetDir: string,
+    installed: InstalledFile | undefined,
+    update: PendingFileUpdate
+  ): PendingFileUpdate {
+    const incoming = update.incoming as Buffer;
+
+    if (!fs.existsSync(update.targetPath)) {
+      return installed
+        ? { ...update, action: 'deleted' }
+        : { ...update, action: 'create', content: incoming };
+    }
+
+    const local = fs.readFileSync(update.targetPath);
+    const planned = { ...update, local };
+    if (local.equals(incoming)) {
+      return planned;
+    }
+
+    // Files without local edits simply take the new version
+    if (installed && hashContent(local) === installed.sha256) {
+      return { ...planned, action: 'update', content: incoming };
+    }
+
+    const base = installed
+      ? readInstallBase(targetDir, update.path)
+      : undefined;
+    if (base && base.equals(incoming)) {
+      // Only the project copy changed, so the local edits stay
+      return planned;
+    }
+
+    if (isBinary(local) || isBinary(incoming)) {
+      return { ...planned, action: 'conflict', conflicts: 1 };
+    }
+
+    const merged = mergeThreeWay(
+      base ? base.toString('utf8') : '',
+      local.toString('utf8'),
+      incoming.toString('utf8'),
+      { ours: 'local', theirs: 'guide' }
+    );
+    if (merged.conflicts > 0) {
+      return {
+        ...planned,
+        action: 'conflict',
+        conflicts: merged.conflicts,
+        content: merged.content,
+      };
+    }
+
+    return merged.content === local.toString('utf8')
+      ? planned
+      : { ...planned, action: 'merge', content: merged.content };
+  }
+
+  /**
+   * Build the lockfile entry of a file after the update
+   */
+  private recordFile(
+    targetDir: string,
+    installed: InstalledFile | undefined,
+    update: PendingFileUpdate,
+    timestamp: string
+  ): InstalledFile {
+    if (!update.incoming || update.action === 'deleted') {
+      return installed as InstalledFile;
+    }
+
+    const sha256 = hashContent(update.incoming);
+    if (installed && installed.sha256 === sha256) {
+      return installed;
+    }
+
+    saveInstallBase(targetDir, update.path, update.incoming);
+    return {
+      path: update.path,
+      source: update.source,
+      sha256,
+      installedAt: timestamp,
+    };
+  }
+}
+
+/**
+ * Check whether content looks binary and cannot be merged line by line
+ */
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A file the transaction changed and what it held before
+ */
+interface TouchedFile {
+  /** Absolute path of the file */
+  path: string;
+  /** Content before the transaction, or undefined if the file did not exist */
+  previous?: Buffer;
+}
+
+/**
+ * A file waiting to be written by a transaction
+ */
+export interface TransactionWrite {
+  /** Absolute path the file is written to */
+  path: string;
+  /** New content of the file */
+  content: Buffer | string;
+}
+
+/**
+ * All-or-nothing set of filesystem changes made by an install
+ *
+ * Files are written to temporary files first and renamed into place, so a
+ * file is never left half-written. The transaction remembers what every
+ * touched path held before and which directories it created, and rollback
+ * puts the project back the way it was.
+ */
+export class InstallTransaction {
+  private createdDirectories: string[] = [];
+  private touchedFiles: TouchedFile[] = [];
+  private rollbackErrors?: string[];
+
+  /**
+   * Create a directory and its missing parents
+   */
+  createDirectory(directoryPath: string): void {
+    this.assertActive();
+
+    // mkdirSync returns the top-most directory it created, if any
+    const created = fs.mkdirSync(directoryPath, { recursive: true });
+    if (created) {
+      this.createdDirectories.push(created);
+    }
+  }
+
+  /**
+   * Prepare to change a file without writeFiles
+   *
+   * Creates the file's folder when it is missing and remembers what the
+   * file holds now, so a rollback can put it back.
+   */
+  track(filePath: string): void {
+    this.assertActive();
+    const directory = path.dirname(filePath);
+    if (!fs.existsSync(directory)) {
+      this.createDirectory(directory);
+    }
+    this.snapshot(filePath);
+  }
+
+  /**
+   * Write files by staging every one in a temporary file, then renaming
+   * them into place
+   *
+   * Nothing is renamed until every temporary file was written. On failure
+   * the temporary files are removed and the error is rethrown; files
+   * renamed before the failure are undone by rollback.
+   */
+  writeFiles(files: TransactionWrite[]): void {
+    this.assertActive();
+    const staged: { path: string; tempPath: string }[] = [];
+    let current: string | undefined;
+
+    try {
+      files.forEach((file, index) => {
+        current = file.path;
+        const directory = path.dirname(file.path);
+        if (!fs.existsSync(directory)) {
+          this.createDirectory(directory);
+        }
+
+        const tempPath = path.join(
+          directory,
+          `.${path.basename(file.path)}.${process.pid}-${index}.tmp`
+        );
+        staged.push({ path: file.path, tempPath });
+        fs.writeFileSync(tempPath, file.content);
+      });
+
+      while (staged.length > 0) {
+        current = staged[0].path;
+        this.snapshot(staged[0].path);
+        fs.renameSync(staged[0].tempPath, staged[0].path);
+        staged.shift();
+      }
+    } catch (error) {
+      staged.forEach((file) => {
+        try {
+          fs.rmSync(file.tempPath, { force: true });
+        } catch {
+          // A leftover temporary file does not change the project's files
+        }
+      });
+      throw new Error(
+        `Failed to write ${current}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Undo every change, newest first, and return the problems doing so
+   *
+   * Rolling back more than once has no further effect; later calls return
+   * the problems of the first rollback.
+   */
+  rollback(): string[] {
+    if (this.rollbackErrors) {
+      return this.rollbackErrors;
+    }
+
+    const errors: string[] = [];
+    [...this.touchedFiles].reverse().forEach((file) => {
+      try {
+        if (file.previous === undefined) {
+          fs.rmSync(file.path, { force: true });
+        } else {
+          fs.writeFileSync(file.path, file.previous);
+        }
+      } catch (error) {
+        errors.push(
+          `Failed to restore ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    });
+    [...this.createdDirectories].reverse().forEach((directory) => {
+      try {
+        fs.rmSync(directory, { recursive: true, force: true });
+      } catch (error) {
+        errors.push(
+          `Failed to remove ${directory}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    });
+
+    this.rollbackErrors = errors;
+    return errors;
+  }
+
+  /**
+   * Whether the transaction changed anything, even if it was rolled back since
+   */
+  hasChanges(): boolean {
+    return this.touchedFiles.length > 0 || this.createdDirectories.length > 0;
+  }
+
+  /**
+   * Remember what a file holds now; only the first snapshot of a path counts
+   */
+  private snapshot(filePath: string): void {
+    if (this.touchedFiles.some((file) => file.path === filePath)) {
+      return;
+    }
+
+    this.touchedFiles.push({
+      path: filePath,
+      previous: fs.existsSync(filePath) ? fs.readFileSync(filePath) : undefined,
+    });
+  }
+
+  /**
+   * Refuse further changes once the transaction was rolled back
+   */
+  private assertActive(): void {
+    if (this.rollbackErrors) {
+      throw new Error('The install was already rolled back');
+    }
+  }
+}
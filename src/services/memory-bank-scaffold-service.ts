@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CopyResult, GuideInfo, PlannedFile } from '../config/types';
+import { InstallTransaction, TransactionWrite } from './install-transaction';
+import {
+  CORE_MEMORY_BANK_TEMPLATES,
+  GUIDE_TEMPLATES_FOLDER,
+  renderMemoryBankTemplate,
+} from '../templates/memory-bank-templates';
+
+/**
+ * A core memory bank file and where its content comes from
+ */
+interface ScaffoldEntry {
+  /** Guide template replacing the built-in one, if the guide ships one */
+  overridePath?: string;
+  /** Built-in content used when the guide has no override */
+  defaultContent: string;
+  /** Path of the file in the project's .memory-bank folder */
+  targetPath: string;
+}
+
+/**
+ * Service for creating the core memory bank files in a project
+ */
+export class MemoryBankScaffoldService {
+  /**
+   * Create every missing core memory bank file, keeping existing ones as they are
+   *
+   * The files are written together through the transaction; when one cannot
+   * be created the transaction is rolled back and every file that was to be
+   * created reports the failure.
+   *
+   * @param installedPaths - Targets the guide itself installed, which are
+   *   left to the guide
+   */
+  scaffold(
+    guide: GuideInfo,
+    targetDir: string,
+    transaction: InstallTransaction = new InstallTransaction(),
+    installedPaths: string[] = []
+  ): CopyResult[] {
+    const writes: TransactionWrite[] = [];
+    const results: CopyResult[] = this.getEntries(guide, targetDir)
+      .filter((entry) => !installedPaths.includes(entry.targetPath))
+      .map((entry) => {
+        try {
+          if (fs.existsSync(entry.targetPath)) {
+            return {
+              success: true,
+              copiedFilePath: entry.targetPath,
+              skipped: true,
+            };
+          }
+
+          writes.push({
+            path: entry.targetPath,
+            content: entry.overridePath
+              ? fs.readFileSync(entry.overridePath, 'utf8')
+              : entry.defaultContent,
+          });
+          return {
+            success: true,
+            copiedFilePath: entry.targetPath,
+            overwritten: false,
+          };
+        } catch (error) {
+          return {
+            success: false,
+            error: `Failed to create ${path.basename(entry.targetPath)}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          };
+        }
+      });
+
+    let writeError: string | undefined;
+    if (results.every((result) => result.success)) {
+      try {
+        transaction.writeFiles(writes);
+        return results;
+      } catch (error) {
+        writeError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    // Existing files were never touched, so only the others report the failure
+    const rollbackErrors = transaction.rollback();
+    return results.map((result) =>
+      result.skipped
+        ? result
+        : {
+            success: false,
+            error:
+              result.error ||
+              writeError ||
+              `${path.basename(result.copiedFilePath || '')} was not created because another memory bank file failed`,
+            copiedFilePath: result.copiedFilePath,
+            rolledBack: rollbackErrors.length === 0,
+            rollbackError:
+              rollbackErrors.length > 0 ? rollbackErrors.join('; ') : undefined,
+          }
+    );
+  }
+
+  /**
+   * Describe the core files an install would create or keep
+   *
+   * @param plannedPaths - Targets the guide itself installs, which take
+   *   precedence over the templates
+   */
+  planScaffold(
+    guide: GuideInfo,
+    targetDir: string,
+    plannedPaths: string[] = []
+  ): PlannedFile[] {
+    return this.getEntries(guide, targetDir)
+      .filter((entry) => !plannedPaths.includes(entry.targetPath))
+      .map((entry) => ({
+        sourcePath: entry.overridePath,
+        targetPath: entry.targetPath,
+        action: fs.existsSync(entry.targetPath) ? 'keep' : 'create',
+      }));
+  }
+
+  /**
+   * Resolve the target path and template source of every core file
+   */
+  private getEntries(guide: GuideInfo, targetDir: string): ScaffoldEntry[] {
+    return CORE_MEMORY_BANK_TEMPLATES.map((template) => {
+      const overridePath = path.join(
+        guide.folderPath,
+        GUIDE_TEMPLATES_FOLDER,
+        template.fileName
+      );
+
+      return {
+        overridePath: fs.existsSync(overridePath) ? overridePath : undefined,
+        defaultContent: renderMemoryBankTemplate(template),
+        targetPath: path.join(targetDir, '.memory-bank', template.fileName),
+      };
+    });
+  }
+}
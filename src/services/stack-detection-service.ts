@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GuideDetectionRules, GuideInfo } from '../config/types';
+import { matchesGlob } from '../utils/glob';
+
+/**
+ * Confidence each kind of matching signal adds to a guide's score
+ */
+const SIGNAL_WEIGHTS = {
+  file: 0.5,
+  package: 0.6,
+  content: 0.7,
+};
+
+/**
+ * What the detection rules are evaluated against
+ */
+interface ProjectFacts {
+  /** Names of the files and folders at the project root */
+  entries: string[];
+  /** Dependency names declared in package.json */
+  packages: string[];
+}
+
+/**
+ * Service for recognizing a project's stack and recommending guides
+ */
+export class StackDetectionService {
+  private fileContents = new Map<string, string | undefined>();
+
+  /**
+   * Score every guide against the project and sort by confidence
+   *
+   * Returns copies of the guides with `confidence` set. Guides with equal
+   * scores keep their original order.
+   */
+  rankGuides(guides: GuideInfo[], targetDir: string): GuideInfo[] {
+    this.fileContents.clear();
+    const facts = this.readProjectFacts(targetDir);
+
+    return guides
+      .map((guide) => ({
+        ...guide,
+        confidence: guide.detection
+          ? this.scoreRules(guide.detection, targetDir, facts)
+          : 0,
+      }))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Combine every matching signal into a score between 0 and 1
+   *
+   * Each signal removes part of the remaining uncertainty, so more
+   * matches always raise the score without ever exceeding 1.
+   */
+  private scoreRules(
+    rules: GuideDetectionRules,
+    targetDir: string,
+    facts: ProjectFacts
+  ): number {
+    const weights: number[] = [];
+
+    (rules.files || []).forEach((pattern) => {
+      const found = pattern.includes('/')
+        ? fs.existsSync(path.join(targetDir, pattern))
+        : facts.entries.some((entry) => matchesGlob(entry, [pattern]));
+      if (found) {
+        weights.push(SIGNAL_WEIGHTS.file);
+      }
+    });
+
+    (rules.packages || []).forEach((pattern) => {
+      if (facts.packages.some((name) => matchesGlob(name, [pattern]))) {
+        weights.push(SIGNAL_WEIGHTS.package);
+      }
+    });
+
+    (rules.contents || []).forEach((rule) => {
+      if (this.readFile(targetDir, rule.file)?.includes(rule.text)) {
+        weights.push(SIGNAL_WEIGHTS.content);
+      }
+    });
+
+    const uncertainty = weights.reduce((remaining, weight) => {
+      return remaining * (1 - weight);
+    }, 1);
+    return Math.round((1 - uncertainty) * 100) / 100;
+  }
+
+  /**
+   * Collect the root entries and package.json dependencies of the project
+   */
+  private readProjectFacts(targetDir: string): ProjectFacts {
+    let entries: string[] = [];
+    try {
+      entries = fs.readdirSync(targetDir);
+    } catch {
+      // An unreadable project simply matches no file rules
+    }
+
+    let packages: string[] = [];
+    const packageJson = this.readFile(targetDir, 'package.json');
+    if (packageJson) {
+      try {
+        const pkg = JSON.parse(packageJson);
+        packages = Object.keys({
+          ...(pkg.dependencies || {}),
+          ...(pkg.devDependencies || {}),
+          ...(pkg.peerDependencies || {}),
+        });
+      } catch {
+        // Invalid package.json files match no package rules
+      }
+    }
+
+    return { entries, packages };
+  }
+
+  /**
+   * Read a project file once per ranking, returning undefined if it is missing
+   */
+  private readFile(
+    targetDir: string,
+    relativePath: string
+  ): string | undefined {
+    if (!this.fileContents.has(relativePath)) {
+      const filePath = path.join(targetDir, relativePath);
+      let content: string | undefined;
+      try {
+        content = fs.existsSync(filePath)
+          ? fs.readFileSync(filePath, 'utf8')
+          : undefined;
+      } catch {
+        content = undefined;
+      }
+      this.fileContents.set(relativePath, content);
+    }
+
+    return this.fileContents.get(relativePath);
+  }
+}
@@ -0,0 +1,188 @@
+import { MemoryBankTemplate } from '../config/types';
+
+/**
+ * Folder inside a guide whose files replace the built-in templates
+ */
+export const GUIDE_TEMPLATES_FOLDER = 'memory-bank-templates';
+
+/**
+ * Templates for the six core memory bank files described in .cursorrules
+ *
+ * Section headings follow the responsibilities listed for each file so
+ * agents find the structure they are told to maintain.
+ */
+export const CORE_MEMORY_BANK_TEMPLATES: MemoryBankTemplate[] = [
+  {
+    fileName: 'projectBrief.md',
+    title: 'Project Brief',
+    summary:
+      'Foundation document that shapes all other memory bank files and is the source of truth for project scope.',
+    sections: [
+      {
+        heading: 'Overview',
+        prompt: 'Describe the project in a few sentences.',
+      },
+      {
+        heading: 'Core Requirements',
+        prompt: 'List the requirements the project must meet.',
+      },
+      {
+        heading: 'Goals',
+        prompt: 'List the outcomes that define success.',
+      },
+      {
+        heading: 'Scope',
+        prompt:
+          'Describe what is in scope and what is explicitly out of scope.',
+      },
+    ],
+  },
+  {
+    fileName: 'productContext.md',
+    title: 'Product Context',
+    summary: 'Why this project exists and how it should work for its users.',
+    sections: [
+      {
+        heading: 'Why This Project Exists',
+        prompt: 'Explain the motivation behind the project.',
+      },
+      {
+        heading: 'Problems It Solves',
+        prompt: 'List the problems users have today.',
+      },
+      {
+        heading: 'How It Should Work',
+        prompt: 'Describe the main flows from the user point of view.',
+      },
+      {
+        heading: 'User Experience Goals',
+        prompt: 'List the qualities the experience should have.',
+      },
+    ],
+  },
+  {
+    fileName: 'activeContext.md',
+    title: 'Active Context',
+    summary: 'Current state of the work; update it at the end of every task.',
+    sections: [
+      {
+        heading: 'Current Work Focus',
+        prompt: 'Describe what is being worked on right now.',
+      },
+      {
+        heading: 'Recent Changes',
+        prompt: 'List notable changes made recently.',
+      },
+      {
+        heading: 'Next Steps',
+        prompt: 'List the next tasks in priority order.',
+      },
+      {
+        heading: 'Active Decisions and Considerations',
+        prompt: 'Record open questions and decisions being weighed.',
+      },
+      {
+        heading: 'Important Patterns and Preferences',
+        prompt: 'Record conventions and preferences to keep following.',
+      },
+      {
+        heading: 'Learnings and Project Insights',
+        prompt: 'Record insights gained while working on the project.',
+      },
+    ],
+  },
+  {
+    fileName: 'systemPatterns.md',
+    title: 'System Patterns',
+    summary: 'Architecture and the design decisions that shape the code.',
+    sections: [
+      {
+        heading: 'System Architecture',
+        prompt: 'Describe the main parts of the system and how they fit.',
+      },
+      {
+        heading: 'Key Technical Decisions',
+        prompt: 'Record important decisions and the reasons behind them.',
+      },
+      {
+        heading: 'Design Patterns in Use',
+        prompt: 'List the patterns the codebase relies on.',
+      },
+      {
+        heading: 'Component Relationships',
+        prompt: 'Describe how components depend on each other.',
+      },
+      {
+        heading: 'Critical Implementation Paths',
+        prompt: 'Describe the code paths that matter most.',
+      },
+    ],
+  },
+  {
+    fileName: 'techContext.md',
+    title: 'Tech Context',
+    summary: 'Technologies, tooling and constraints of the project.',
+    sections: [
+      {
+        heading: 'Technologies Used',
+        prompt: 'List languages, frameworks and services.',
+      },
+      {
+        heading: 'Development Setup',
+        prompt: 'Describe how to set up and run the project locally.',
+      },
+      {
+        heading: 'Technical Constraints',
+        prompt: 'List limits the implementation has to respect.',
+      },
+      {
+        heading: 'Dependencies',
+        prompt: 'List important dependencies and why they are used.',
+      },
+      {
+        heading: 'Tool Usage Patterns',
+        prompt: 'Describe how build, test and lint tools are used.',
+      },
+    ],
+  },
+  {
+    fileName: 'progress.md',
+    title: 'Progress',
+    summary: 'What is done, what is left and how the project got here.',
+    sections: [
+      {
+        heading: 'What Works',
+        prompt: 'List features that are complete and working.',
+      },
+      {
+        heading: "What's Left to Build",
+        prompt: 'List the remaining work.',
+      },
+      {
+        heading: 'Current Status',
+        prompt: 'Summarize the overall state of the project.',
+      },
+      {
+        heading: 'Known Issues',
+        prompt: 'List bugs and limitations that are known.',
+      },
+      {
+        heading: 'Evolution of Project Decisions',
+        prompt: 'Record how and why earlier decisions changed.',
+      },
+    ],
+  },
+];
+
+/**
+ * Render a memory bank template as Markdown
+ */
+export function renderMemoryBankTemplate(template: MemoryBankTemplate): string {
+  const lines = [`# ${template.title}`, '', `> ${template.summary}`];
+
+  template.sections.forEach((section) => {
+    lines.push('', `## ${section.heading}`, '', `<!-- ${section.prompt} -->`);
+  });
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,27 @@
+import * as path from 'path';
+
+/**
+ * Project-relative folder collecting backups when they are not kept beside
+ * the original file
+ */
+export const BACKUPS_DIR = path.join('.memory-bank', '.backups');
+
+/**
+ * Split a backup file name into the original file name and the timestamp
+ *
+ * Backups are named <base>.backup.<timestamp><ext>; other names return
+ * undefined.
+ */
+export function parseBackupName(
+  name: string
+): { originalName: string; timestamp: number } | undefined {
+  const match = /^(.+)\.backup\.(\d+)(\.[^.]+)?$/.exec(name);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    originalName: `${match[1]}${match[3] || ''}`,
+    timestamp: Number(match[2]),
+  };
+}
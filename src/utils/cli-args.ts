@@ -0,0 +1,468 @@
+import {
+  CliCommand,
+  CliOptions,
+  ConfigAction,
+  ConfigureOptions,
+  ConflictStrategy,
+  GuideType,
+  ListFormat,
+  SourcesAction,
+} from '../config/types';
+
+/**
+ * Commands that can be given as the first argument
+ */
+const COMMANDS: CliCommand[] = [
+  'install',
+  'list',
+  'update',
+  'diff',
+  'uninstall',
+  'doctor',
+  'backups',
+  'config',
+  'sources',
+];
+
+/**
+ * Short flag aliases mapped to their long form
+ */
+const FLAG_ALIASES: Record<string, string> = {
+  '-g': '--guide',
+  '-t': '--target',
+  '-y': '--yes',
+  '-n': '--dry-run',
+  '-h': '--help',
+};
+
+/**
+ * Flags that are only valid for specific commands
+ */
+const COMMAND_FLAGS: Record<string, CliCommand[]> = {
+  '--guide': ['install', 'diff'],
+  '--target': [
+    'install',
+    'update',
+    'diff',
+    'uninstall',
+    'doctor',
+    'backups',
+    'config',
+    'sources',
+  ],
+  '--yes': ['install', 'update', 'uninstall'],
+  '--dry-run': ['install', 'update', 'uninstall', 'backups'],
+  '--var': ['install', 'update', 'diff'],
+  '--type': ['list'],
+  '--category': ['list'],
+  '--format': ['list'],
+  '--summary': ['diff'],
+  '--exit-code': ['diff'],
+  '--force': ['uninstall'],
+  '--restore': ['backups'],
+  '--prune': ['backups'],
+  '--keep': ['backups'],
+  '--older-than': ['backups'],
+  '--on-conflict': ['install'],
+  '--guides-folder': ['install', 'list', 'update', 'diff', 'config'],
+  '--resolved': ['config'],
+  '--source': ['sources'],
+};
+
+const GUIDE_TYPES: GuideType[] = ['built-in', 'custom', 'package'];
+const LIST_FORMATS: ListFormat[] = ['table', 'json', 'ids'];
+const CONFLICT_STRATEGIES: ConflictStrategy[] = [
+  'overwrite',
+  'skip',
+  'keep-both',
+  'merge',
+  'show-diff',
+];
+const CONFIG_ACTIONS: ConfigAction[] = ['show'];
+const SOURCES_ACTIONS: SourcesAction[] = ['list', 'refresh'];
+
+/**
+ * Actions of the commands that take one as their first argument
+ */
+const COMMAND_ACTIONS: Partial<Record<CliCommand, readonly string[]>> = {
+  config: CONFIG_ACTIONS,
+  sources: SOURCES_ACTIONS,
+};
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+
+/**
+ * Usage text shown for --help and invalid arguments
+ */
+export const USAGE = `Usage: init-memory-bank [command] [options]
+
+Commands:
+  install              Install a development guide (default)
+  list                 List available guides
+  update               Update the installed guide, keeping local edits
+  diff                 Show how the project differs from its guide
+  uninstall            Remove the installed guide and restore backups
+  doctor               Check the configuration, guides and project for
+                       problems
+  backups              List, restore or prune backups of overwritten files
+  config show          Show the configuration and where it comes from
+  sources [list|refresh]
+                       List the guide sources, or fetch git and archive
+                       sources again
+
+Install options:
+  -g, --guide <id>     Install the guide with this id without prompting
+                       ("auto" installs the best match for the project)
+  -t, --target <dir>   Install into <dir> instead of the current directory
+  -y, --yes            Skip all interactive prompts (requires --guide)
+  -n, --dry-run        Show what would be created or overwritten without
+                       writing anything
+      --json           Print a JSON report instead of console output
+                       (requires --guide)
+      --var <k=v>      Set a template variable used by the guide's files
+                       (repeatable)
+      --on-conflict <action>
+                       Handle existing files that differ from the guide:
+                       overwrite (default with --yes), skip, keep-both
+                       (write the guide version as <file>.new), merge
+                       (append missing guide sections) or show-diff (show
+                       the differences and ask for each file)
+      --guides-folder <dir>
+                       Use custom guides from <dir>, overriding every
+                       configuration file
+
+Update options:
+  -t, --target <dir>   Update the guide installed in <dir>
+  -y, --yes            Write conflict markers instead of asking how to
+                       resolve each conflict
+  -n, --dry-run        Show what would change without writing anything
+      --json           Print a JSON report instead of console output
+      --var <k=v>      Override a template variable (repeatable)
+      --guides-folder <dir>
+                       Look for the installed guide in <dir>
+
+Diff options:
+  -t, --target <dir>   Compare the memory bank in <dir>
+  -g, --guide <id>     Compare against this guide instead of the
+                       installed one
+      --summary        Only list which files differ
+      --exit-code      Exit with 1 when any file differs from the guide
+      --json           Print a JSON report instead of console output
+      --var <k=v>      Override a template variable (repeatable)
+      --guides-folder <dir>
+                       Look for the guide in <dir>
+
+Uninstall options:
+  -t, --target <dir>   Remove the guide installed in <dir>
+  -y, --yes            Keep non-empty .memory-bank and .specs folders
+                       without asking
+  -n, --dry-run        Show what would be removed without deleting anything
+      --force          Also remove files that changed since install
+      --json           Print a JSON report instead of console output
+
+Doctor options:
+  -t, --target <dir>   Check that guides can be installed into <dir>
+      --json           Print a JSON report instead of console output
+
+Backups options:
+  -t, --target <dir>   Handle the backups in <dir>
+      --restore <path> Restore this backup, or the latest backup of this
+                       file
+      --prune          Remove backups outside the retention policy
+      --keep <n>       Keep the newest <n> backups of each file (with
+                       --prune)
+      --older-than <d> Remove backups older than <d> days (with --prune)
+  -n, --dry-run        Show what would be restored or removed without
+                       changing anything
+      --json           Print a JSON report instead of console output
+
+Config options:
+  -t, --target <dir>   Find the project configuration from <dir> instead
+                       of the current directory
+      --resolved       Show every effective value and where it comes from
+      --guides-folder <dir>
+                       Override the custom guides folder
+      --json           Print a JSON report instead of console output
+
+Sources options:
+  -t, --target <dir>   Find the project configuration from <dir> instead
+                       of the current directory
+      --source <label> Only refresh the guide source with this label
+      --json           Print a JSON report instead of console output
+
+List options:
+      --type <type>    Only list built-in, custom or package guides
+      --category <c>   Only list guides in category <c>
+      --format <fmt>   Output as table (default), json or ids
+      --json           Same as --format json
+      --guides-folder <dir>
+                       List custom guides from <dir>
+
+Global options:
+      --config <dir>   Read and save the global configuration in <dir>
+                       instead of $MEMORY_BANK_CONFIG, $MEMORY_BANK_HOME,
+                       $XDG_CONFIG_HOME/memory-bank or ~/.memory-bank
+  -h, --help           Show this help message`;
+
+/**
+ * Usage text of memory-bank-configure
+ */
+export const CONFIGURE_USAGE = `Usage: memory-bank-configure [options]
+
+Options:
+      --config <dir>   Read and save the configuration in <dir> instead of
+                       $MEMORY_BANK_CONFIG, $MEMORY_BANK_HOME,
+                       $XDG_CONFIG_HOME/memory-bank or ~/.memory-bank
+  -h, --help           Show this help message`;
+
+/**
+ * Parse command line arguments for init-memory-bank
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    command: 'install',
+    yes: false,
+    help: false,
+    dryRun: false,
+    json: false,
+  };
+
+  let startIndex = 0;
+  if (argv.length > 0 && COMMANDS.includes(argv[0] as CliCommand)) {
+    options.command = argv[0] as CliCommand;
+    startIndex = 1;
+  }
+
+  for (let index = startIndex; index < argv.length; index++) {
+    const arg = argv[index];
+    const equalsIndex = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const rawFlag = equalsIndex === -1 ? arg : arg.slice(0, equalsIndex);
+    const inlineValue =
+      equalsIndex === -1 ? undefined : arg.slice(equalsIndex + 1);
+    const flag = FLAG_ALIASES[rawFlag] || rawFlag;
+
+    // Reject flags that belong to a different command
+    const allowedCommands = COMMAND_FLAGS[flag];
+    if (allowedCommands && !allowedCommands.includes(options.command)) {
+      throw new Error(
+        `Option ${flag} is not valid for the ${options.command} command`
+      );
+    }
+
+    // Read the value for flags that require one
+    const readValue = (): string => {
+      if (inlineValue !== undefined) {
+        if (inlineValue.trim() === '') {
+          throw new Error(`Option ${flag} requires a value`);
+        }
+        return inlineValue;
+      }
+
+      const next = argv[index + 1];
+      if (next === undefined || next.startsWith('-')) {
+        throw new Error(`Option ${flag} requires a value`);
+      }
+      index++;
+      return next;
+    };
+
+    // Read a value that must be a whole number of at least the minimum
+    const readCount = (minimum: number): number => {
+      const value = readValue();
+      if (!/^\d+$/.test(value) || Number(value) < minimum) {
+        throw new Error(
+          `Invalid value for ${flag}: ${value}. Expected a whole number of at least ${minimum}`
+        );
+      }
+      return Number(value);
+    };
+
+    // Read a value that must be one of a fixed set of choices
+    const readChoice = <T extends string>(choices: readonly T[]): T => {
+      const value = readValue();
+      if (!choices.includes(value as T)) {
+        throw new Error(
+          `Invalid value for ${flag}: ${value}. Expected one of: ${choices.join(', ')}`
+        );
+      }
+      return value as T;
+    };
+
+    switch (flag) {
+      case '--guide':
+        options.guide = readValue();
+        break;
+      case '--target':
+        options.target = readValue();
+        break;
+      case '--yes':
+        options.yes = true;
+        break;
+      case '--help':
+        options.help = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--summary':
+        options.summary = true;
+        break;
+      case '--exit-code':
+        options.exitCode = true;
+        break;
+      case '--force':
+        options.force = true;
+        break;
+      case '--restore':
+        options.restore = readValue();
+        break;
+      case '--prune':
+        options.prune = true;
+        break;
+      case '--keep':
+        options.keep = readCount(1);
+        break;
+      case '--older-than':
+        options.olderThan = readCount(0);
+        break;
+      case '--var': {
+        const value = readValue();
+        const separator = value.indexOf('=');
+        const name = value.slice(0, separator).trim();
+        if (separator === -1 || !VARIABLE_NAME_PATTERN.test(name)) {
+          throw new Error(
+            `Invalid value for --var: ${value}. Expected name=value`
+          );
+        }
+        options.vars = { ...options.vars, [name]: value.slice(separator + 1) };
+        break;
+      }
+      case '--type':
+        options.type = readChoice(GUIDE_TYPES);
+        break;
+      case '--category':
+        options.category = readValue();
+        break;
+      case '--format':
+        options.format = readChoice(LIST_FORMATS);
+        break;
+      case '--on-conflict':
+        options.onConflict = readChoice(CONFLICT_STRATEGIES);
+        break;
+      case '--guides-folder':
+        options.guidesFolder = readValue();
+        break;
+      case '--resolved':
+        options.resolved = true;
+        break;
+      case '--config':
+        options.config = readValue();
+        break;
+      case '--source':
+        options.source = readValue();
+        break;
+      default: {
+        // The config and sources commands take their action as the first
+        // argument
+        const actions = COMMAND_ACTIONS[options.command];
+        if (actions && index === startIndex && !arg.startsWith('-')) {
+          if (!actions.includes(arg)) {
+            throw new Error(
+              `Unknown ${options.command} action: ${arg}. Expected one of: ${actions.join(', ')}`
+            );
+          }
+          if (options.command === 'config') {
+            options.configAction = arg as ConfigAction;
+          } else {
+            options.sourcesAction = arg as SourcesAction;
+          }
+          break;
+        }
+        throw new Error(
+          arg.startsWith('-')
+            ? `Unknown option: ${arg}`
+            : `Unexpected argument: ${arg}`
+        );
+      }
+    }
+  }
+
+  // --json is shorthand for --format json when listing guides
+  if (options.command === 'list' && options.json) {
+    if (options.format && options.format !== 'json') {
+      throw new Error('Option --json cannot be combined with --format');
+    }
+    options.format = 'json';
+  }
+
+  if (options.onConflict === 'show-diff' && (options.yes || options.json)) {
+    throw new Error(
+      `Option --on-conflict show-diff asks about each file and cannot be combined with ${options.yes ? '--yes' : '--json'}`
+    );
+  }
+
+  if (options.command === 'config' && !options.configAction) {
+    options.configAction = 'show';
+  }
+  if (options.command === 'sources' && !options.sourcesAction) {
+    options.sourcesAction = 'list';
+  }
+  if (options.source && options.sourcesAction !== 'refresh') {
+    throw new Error('Option --source requires the refresh action');
+  }
+
+  if (options.restore && options.prune) {
+    throw new Error('Option --restore cannot be combined with --prune');
+  }
+  if (options.keep !== undefined && !options.prune) {
+    throw new Error('Option --keep requires --prune');
+  }
+  if (options.olderThan !== undefined && !options.prune) {
+    throw new Error('Option --older-than requires --prune');
+  }
+
+  return options;
+}
+
+/**
+ * Parse command line arguments for memory-bank-configure
+ */
+export function parseConfigureArgs(argv: string[]): ConfigureOptions {
+  const options: ConfigureOptions = { help: false };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    const [flag, inlineValue] = arg.startsWith('--config=')
+      ? ['--config', arg.slice('--config='.length)]
+      : [arg, undefined];
+
+    switch (flag) {
+      case '--config': {
+        const value = inlineValue ?? argv[++index];
+        if (
+          value === undefined ||
+          value.trim() === '' ||
+          value.startsWith('-')
+        ) {
+          throw new Error('Option --config requires a value');
+        }
+        options.config = value;
+        break;
+      }
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      default:
+        throw new Error(
+          arg.startsWith('-')
+            ? `Unknown option: ${arg}`
+            : `Unexpected argument: ${arg}`
+        );
+    }
+  }
+
+  return options;
+}
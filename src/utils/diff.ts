@@ -0,0 +1,217 @@
+/**
+ * Split file content into lines, keeping a trailing newline as an empty last line
+ *
+ * Joining the result with "\n" gives back the original content.
+ */
+export function splitLines(content: string): string[] {
+  return content.split('\n');
+}
+
+/**
+ * Find the lines two texts have in common, in order
+ *
+ * Returns pairs of matching line indexes in `a` and `b`. Common leading
+ * and trailing lines are matched directly so the quadratic search only
+ * covers the part of the files that changed.
+ */
+export function matchLines(a: string[], b: string[]): [number, number][] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const matches: [number, number][] = [];
+  for (let index = 0; index < start; index++) {
+    matches.push([index, index]);
+  }
+
+  // lengths[i * width + j] is the LCS length of a[i..endA) and b[j..endB)
+  const rows = endA - start;
+  const width = endB - start + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = width - 2; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[start + i] === b[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < width - 1) {
+    if (a[start + i] === b[start + j]) {
+      matches.push([start + i, start + j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  for (let offset = 0; endA + offset < a.length; offset++) {
+    matches.push([endA + offset, endB + offset]);
+  }
+
+  return matches;
+}
+
+/**
+ * Marker git prints after a last line that has no trailing newline
+ */
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Number of lines added and removed between two texts
+ */
+export interface LineChanges {
+  /** Lines only in the new text */
+  added: number;
+  /** Lines only in the old text */
+  removed: number;
+}
+
+/**
+ * A line of a unified diff: kept, removed from the old text or added in the new one
+ */
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Count the lines added and removed between two texts
+ */
+export function countLineChanges(
+  oldContent: string,
+  newContent: string
+): LineChanges {
+  return diffContent(oldContent, newContent).reduce(
+    (changes, line) => ({
+      added: changes.added + (line.type === '+' ? 1 : 0),
+      removed: changes.removed + (line.type === '-' ? 1 : 0),
+    }),
+    { added: 0, removed: 0 }
+  );
+}
+
+/**
+ * Render the differences between two texts as a unified diff
+ *
+ * Returns an empty string when the texts are identical. A missing
+ * trailing newline is shown the way git shows it.
+ */
+export function formatUnifiedDiff(
+  oldContent: string,
+  newContent: string,
+  oldLabel: string,
+  newLabel: string,
+  context: number = 3
+): string {
+  const lines = diffContent(oldContent, newContent);
+  const changed = lines
+    .map((line, index) => (line.type === ' ' ? -1 : index))
+    .filter((index) => index !== -1);
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context would overlap into one hunk
+  const groups: [number, number][] = [];
+  changed.forEach((index) => {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  });
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  groups.forEach(([first, last]) => {
+    const start = Math.max(0, first - context);
+    const end = Math.min(lines.length, last + context + 1);
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+
+    const oldStart = before.filter((line) => line.type !== '+').length;
+    const newStart = before.filter((line) => line.type !== '-').length;
+    const oldCount = hunk.filter((line) => line.type !== '+').length;
+    const newCount = hunk.filter((line) => line.type !== '-').length;
+
+    output.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+      ...hunk.map((line) => `${line.type}${line.text}`)
+    );
+  });
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * Compare two texts line by line
+ */
+function diffContent(oldContent: string, newContent: string): DiffLine[] {
+  const oldLines = toDiffLines(oldContent);
+  const newLines = toDiffLines(newContent);
+  const lines: DiffLine[] = [];
+
+  let oldIndex = 0;
+  let newIndex = 0;
+  const flush = (oldEnd: number, newEnd: number) => {
+    for (; oldIndex < oldEnd; oldIndex++) {
+      lines.push({ type: '-', text: oldLines[oldIndex] });
+    }
+    for (; newIndex < newEnd; newIndex++) {
+      lines.push({ type: '+', text: newLines[newIndex] });
+    }
+  };
+
+  matchLines(oldLines, newLines).forEach(([oldMatch, newMatch]) => {
+    flush(oldMatch, newMatch);
+    lines.push({ type: ' ', text: oldLines[oldMatch] });
+    oldIndex++;
+    newIndex++;
+  });
+  flush(oldLines.length, newLines.length);
+
+  return lines;
+}
+
+/**
+ * Split content into diff lines
+ *
+ * A last line without a trailing newline carries git's marker, so it
+ * differs from the same line with a newline.
+ */
+function toDiffLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+
+  const lines = splitLines(content);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += `\n${NO_NEWLINE_MARKER}`;
+  }
+  return lines;
+}
+
+/**
+ * Format the line range of a hunk header
+ */
+function formatRange(before: number, count: number): string {
+  const start = count === 0 ? before : before + 1;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
@@ -0,0 +1,48 @@
+/**
+ * Stable process exit codes for each failure category
+ */
+export enum ExitCode {
+  /** The command completed successfully */
+  Success = 0,
+  /** An unexpected error occurred */
+  GeneralError = 1,
+  /** The command line arguments were invalid */
+  InvalidArguments = 2,
+  /** No built-in or custom guides could be found */
+  NoGuidesAvailable = 3,
+  /** The requested guide does not exist */
+  GuideNotFound = 4,
+  /** The target directory is missing or not a directory */
+  InvalidTarget = 5,
+  /** The .memory-bank or .specs directory could not be created */
+  DirectoryCreationFailed = 6,
+  /** One or more guide files could not be copied */
+  CopyFailed = 7,
+  /** The project has no valid install lockfile */
+  NotInstalled = 8,
+  /** An update left conflict markers in one or more files */
+  UpdateConflicts = 9,
+  /** Uninstall stopped because installed files were edited (use --force) */
+  FilesModified = 10,
+  /** The doctor command found at least one error */
+  ChecksFailed = 11,
+  /** The requested backup does not exist */
+  BackupNotFound = 12,
+  /** A git or archive guide source could not be fetched */
+  SourceFetchFailed = 13,
+  /** A guide's base guide is missing, guides extend each other in a cycle or a fragment does not fit its base */
+  GuideCompositionFailed = 14,
+}
+
+/**
+ * Error raised by the CLI with the exit code the process should end with
+ */
+export class CliError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: ExitCode = ExitCode.GeneralError
+  ) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
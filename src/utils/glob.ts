@@ -0,0 +1,43 @@
+/**
+ * Convert a glob pattern into a regular expression
+ *
+ * Supports `*` (any characters except "/"), `?` (one character except "/")
+ * and `**` (any number of folders). Patterns match the whole path, so
+ * `*.md` only matches files at the top level of the guide; prefix the
+ * pattern with a `**` folder segment to match at any depth.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === '*') {
+      if (pattern[index + 1] === '*') {
+        // "**/" matches zero or more folders, a trailing "**" matches anything
+        if (pattern[index + 2] === '/') {
+          source += '(?:.*/)?';
+          index += 2;
+        } else {
+          source += '.*';
+          index += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a "/"-separated relative path matches any of the patterns
+ */
+export function matchesGlob(filePath: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(filePath));
+}
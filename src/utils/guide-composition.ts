@@ -0,0 +1,140 @@
+import { GuideFragment, GuideFragmentMode } from '../config/types';
+import { splitLines } from './diff';
+
+/**
+ * Ways a fragment can change a file of its base guide
+ */
+export const GUIDE_FRAGMENT_MODES: GuideFragmentMode[] = [
+  'append',
+  'prepend',
+  'replace',
+];
+
+/**
+ * File of the base guide a fragment changes when it names none
+ */
+export const DEFAULT_FRAGMENT_TARGET = 'developmentGuide.md';
+
+/**
+ * Error raised when a guide that extends another guide cannot be composed
+ */
+export class GuideCompositionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuideCompositionError';
+  }
+}
+
+/**
+ * Apply one fragment to the content of a base guide file
+ *
+ * Without a heading the fragment goes after or before the whole content,
+ * or replaces it. With a heading it changes that section instead: the
+ * heading line and everything up to the next heading of the same or a
+ * higher level, so subsections belong to the section. A heading written
+ * with #'s only matches headings of that level; headings are compared
+ * ignoring case and extra spaces, and headings in fenced code blocks do
+ * not count.
+ *
+ * Returns undefined when the content has no section with the heading.
+ */
+export function applyGuideFragment(
+  content: string,
+  fragmentContent: string,
+  fragment: Pick<GuideFragment, 'mode' | 'heading'>
+): string | undefined {
+  const fragmentText = fragmentContent.trim();
+
+  if (fragment.heading === undefined) {
+    return joinBlocks(
+      fragment.mode === 'append' ? content : '',
+      fragmentText,
+      fragment.mode === 'prepend' ? content : ''
+    );
+  }
+
+  const lines = splitLines(content);
+  const section = findSection(lines, fragment.heading);
+  if (!section) {
+    return undefined;
+  }
+
+  const before = lines.slice(0, section.start).join('\n');
+  const sectionText = lines.slice(section.start, section.end).join('\n');
+  const after = lines.slice(section.end).join('\n');
+  if (fragment.mode === 'append') {
+    return joinBlocks(before, sectionText, fragmentText, after);
+  }
+  if (fragment.mode === 'prepend') {
+    return joinBlocks(before, fragmentText, sectionText, after);
+  }
+  return joinBlocks(before, fragmentText, after);
+}
+
+/**
+ * Find the lines of the section under a heading
+ */
+function findSection(
+  lines: string[],
+  heading: string
+): { start: number; end: number } | undefined {
+  const wanted = parseHeading(heading);
+  const wantedText = normalizeHeading(wanted ? wanted.text : heading);
+  let inFence = false;
+  let start: number | undefined;
+  let sectionLevel = 0;
+
+  for (const [index, line] of lines.entries()) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    const found = inFence ? undefined : parseHeading(line);
+    if (!found) {
+      continue;
+    }
+
+    if (start !== undefined) {
+      if (found.level <= sectionLevel) {
+        return { start, end: index };
+      }
+    } else if (
+      normalizeHeading(found.text) === wantedText &&
+      (!wanted || found.level === wanted.level)
+    ) {
+      start = index;
+      sectionLevel = found.level;
+    }
+  }
+
+  return start === undefined ? undefined : { start, end: lines.length };
+}
+
+/**
+ * Read the level and text of a Markdown heading line
+ */
+function parseHeading(
+  line: string
+): { level: number; text: string } | undefined {
+  const match = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/.exec(line.trim());
+  return match ? { level: match[1].length, text: match[2] } : undefined;
+}
+
+/**
+ * Normalize heading text so headings compare ignoring case and spacing
+ */
+function normalizeHeading(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Join blocks of Markdown with one blank line between them, ending with a
+ * newline
+ */
+function joinBlocks(...blocks: string[]): string {
+  const text = blocks
+    .map((block) => block.replace(/^\n+|\s+$/g, ''))
+    .filter((block) => block !== '')
+    .join('\n\n');
+  return text ? `${text}\n` : '';
+}
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  GuideManifest,
+  GuideManifestFile,
+  GuidePathMapping,
+} from '../config/types';
+import { GUIDE_TEMPLATES_FOLDER } from '../templates/memory-bank-templates';
+import { matchesGlob } from './glob';
+import { validateGuideManifest } from './validation';
+
+/**
+ * Name of the manifest file inside a guide folder
+ */
+export const GUIDE_MANIFEST_FILE = 'guide.json';
+
+/**
+ * Mappings applied after the manifest's own rules, keeping the
+ * developmentGuide.md convention for whole-tree guides
+ */
+const DEFAULT_PATH_MAPPINGS: GuidePathMapping[] = [
+  { from: 'developmentGuide.md', to: '.memory-bank/developmentGuide.md' },
+];
+
+/**
+ * Folders never installed from a guide tree
+ */
+const IGNORED_FOLDERS = ['.git', 'node_modules'];
+
+/**
+ * Read and validate the guide.json manifest of a guide folder
+ *
+ * Returns an empty result when the guide has no manifest, so callers can
+ * fall back to the developmentGuide.md/.cursorrules convention.
+ */
+export function readGuideManifest(guidePath: string): {
+  manifest?: GuideManifest;
+  error?: string;
+} {
+  const manifestPath = path.join(guidePath, GUIDE_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  } catch (error) {
+    return {
+      error: `Invalid ${GUIDE_MANIFEST_FILE}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+
+  const validation = validateGuideManifest(data);
+  if (!validation.isValid) {
+    return {
+      error: `Invalid ${GUIDE_MANIFEST_FILE}: ${validation.error}`,
+    };
+  }
+
+  return { manifest: data as GuideManifest };
+}
+
+/**
+ * Check whether a manifest lists its own files instead of relying on the
+ * developmentGuide.md/.cursorrules convention
+ */
+export function usesFileList(
+  manifest?: GuideManifest
+): manifest is GuideManifest {
+  return !!(manifest?.files || manifest?.include);
+}
+
+/**
+ * Check whether a manifest builds on the files of another guide
+ */
+export function extendsGuide(
+  manifest?: GuideManifest
+): manifest is GuideManifest & { extends: string } {
+  return !!manifest?.extends;
+}
+
+/**
+ * Resolve every file a manifest installs, relative to the guide folder and
+ * the project root
+ *
+ * Explicit `files` entries come first. When `include` is set the guide
+ * folder is walked and each matching file that is not excluded or a
+ * fragment is mapped to its destination with the manifest's `mappings`.
+ */
+export function resolveGuideFiles(
+  guidePath: string,
+  manifest: GuideManifest
+): GuideManifestFile[] {
+  const files: GuideManifestFile[] = [...(manifest.files || [])];
+
+  if (manifest.include) {
+    // Fragments are composed into base guide files, not installed
+    const declaredSources = new Set(
+      [...files, ...(manifest.fragments || [])].map((file) =>
+        toPosixPath(path.normalize(file.source))
+      )
+    );
+
+    for (const source of listGuideTree(guidePath)) {
+      if (
+        source === GUIDE_MANIFEST_FILE ||
+        source.startsWith(`${GUIDE_TEMPLATES_FOLDER}/`) ||
+        declaredSources.has(source) ||
+        !matchesGlob(source, manifest.include) ||
+        matchesGlob(source, manifest.exclude || [])
+      ) {
+        continue;
+      }
+
+      files.push({
+        source,
+        destination: mapGuidePath(source, manifest.mappings || []),
+      });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Map a guide-relative path to its project-relative destination
+ *
+ * The first matching rule wins. A rule whose `from` ends in "/" moves a
+ * whole folder; any other rule matches a single file. Paths without a
+ * matching rule keep their location relative to the project root.
+ */
+export function mapGuidePath(
+  source: string,
+  mappings: GuidePathMapping[]
+): string {
+  for (const mapping of [...mappings, ...DEFAULT_PATH_MAPPINGS]) {
+    if (mapping.from.endsWith('/')) {
+      if (source.startsWith(mapping.from)) {
+        return path.posix.join(mapping.to, source.slice(mapping.from.length));
+      }
+    } else if (source === mapping.from) {
+      return mapping.to;
+    }
+  }
+
+  return source;
+}
+
+/**
+ * List all files below a guide folder as sorted "/"-separated relative paths
+ */
+function listGuideTree(guidePath: string, relativeDir = ''): string[] {
+  const files: string[] = [];
+  const entries = fs.readdirSync(path.join(guidePath, relativeDir)).sort();
+
+  for (const entry of entries) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry}` : entry;
+    const stats = fs.statSync(path.join(guidePath, relativePath));
+
+    if (stats.isDirectory()) {
+      if (!IGNORED_FOLDERS.includes(entry)) {
+        files.push(...listGuideTree(guidePath, relativePath));
+      }
+    } else {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Convert platform separators to "/" so paths can be matched against globs
+ */
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GuidePackage, GuidePackageScope } from '../config/types';
+
+/**
+ * package.json key that marks an npm package as a memory bank guide
+ */
+export const GUIDE_PACKAGE_KEY = 'memoryBankGuide';
+
+/**
+ * Guide package formats this version of the CLI can install
+ */
+export const SUPPORTED_GUIDE_PACKAGE_FORMATS = [1];
+
+/**
+ * Find the node_modules folder of a project, looking in the project
+ * directory and then in each parent the way Node resolves packages
+ */
+export function findProjectNodeModules(projectDir: string): string | undefined {
+  let directory = path.resolve(projectDir);
+  for (;;) {
+    const nodeModules = path.join(directory, 'node_modules');
+    if (fs.existsSync(nodeModules)) {
+      return nodeModules;
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Get the global node_modules folder npm installs packages into
+ *
+ * The npm prefix comes from npm_config_prefix, which npm sets for the
+ * commands it runs, and otherwise from the location of the Node binary.
+ */
+export function resolveGlobalNodeModules(
+  env: Record<string, string | undefined> = process.env,
+  execPath: string = process.execPath,
+  platform: string = process.platform
+): string {
+  const prefix =
+    env.npm_config_prefix ||
+    env.NPM_CONFIG_PREFIX ||
+    (platform === 'win32'
+      ? path.dirname(execPath)
+      : path.dirname(path.dirname(execPath)));
+  return platform === 'win32'
+    ? path.join(prefix, 'node_modules')
+    : path.join(prefix, 'lib', 'node_modules');
+}
+
+/**
+ * List the package folders in a node_modules folder, including scoped
+ * packages, in name order
+ */
+export function listPackageFolders(nodeModules: string): string[] {
+  const readNames = (folder: string): string[] => {
+    try {
+      return [...fs.readdirSync(folder)]
+        .filter((name) => !name.startsWith('.'))
+        .sort();
+    } catch {
+      return [];
+    }
+  };
+
+  return readNames(nodeModules).flatMap((name) =>
+    name.startsWith('@')
+      ? readNames(path.join(nodeModules, name)).map((scoped) =>
+          path.join(nodeModules, name, scoped)
+        )
+      : [path.join(nodeModules, name)]
+  );
+}
+
+/**
+ * A package that declares a guide, whether or not it can be used
+ */
+export interface GuidePackageCandidate {
+  /** Package folder name, such as @acme/memory-bank-guide-backend */
+  name: string;
+  /** Whether the package is installed in the project or globally */
+  scope: GuidePackageScope;
+  /** Folder of the package */
+  packageDir: string;
+  /** The declared guide, when the declaration is valid */
+  guidePackage?: GuidePackage;
+  /** Why the declaration cannot be used */
+  error?: string;
+}
+
+/**
+ * Find every package that declares a guide, in the project's node_modules
+ * first and then in the global one
+ */
+export function findGuidePackages(
+  projectDir: string,
+  globalNodeModules: string = resolveGlobalNodeModules()
+): GuidePackageCandidate[] {
+  const folders: [GuidePackageScope, string | undefined][] = [
+    ['project', findProjectNodeModules(projectDir)],
+    ['global', globalNodeModules],
+  ];
+  const scanned = new Set<string>();
+  const candidates: GuidePackageCandidate[] = [];
+
+  for (const [scope, nodeModules] of folders) {
+    if (!nodeModules || scanned.has(nodeModules)) {
+      continue;
+    }
+    scanned.add(nodeModules);
+
+    for (const packageDir of listPackageFolders(nodeModules)) {
+      const result = readGuidePackage(packageDir, scope);
+      if (result) {
+        candidates.push({
+          name: path
+            .relative(nodeModules, packageDir)
+            .split(path.sep)
+            .join('/'),
+          scope,
+          packageDir,
+          ...result,
+        });
+      }
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Read the guide declaration of an installed package
+ *
+ * Returns undefined for packages that do not declare a guide, so ordinary
+ * dependencies are skipped without a warning. A package that declares a
+ * guide but cannot be used gets an error naming the package.
+ */
+export function readGuidePackage(
+  packageDir: string,
+  scope: GuidePackageScope
+): { guidePackage?: GuidePackage; error?: string } | undefined {
+  const packageJsonPath = path.join(packageDir, 'package.json');
+  let content: string;
+  try {
+    if (!fs.existsSync(packageJsonPath)) {
+      return undefined;
+    }
+    content = fs.readFileSync(packageJsonPath, 'utf8');
+  } catch {
+    return undefined;
+  }
+  // Most packages are not guides; skip them without parsing
+  if (typeof content !== 'string' || !content.includes(GUIDE_PACKAGE_KEY)) {
+    return undefined;
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return {
+      error: `Invalid package.json: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+  const entry =
+    typeof data === 'object' && data !== null
+      ? data[GUIDE_PACKAGE_KEY]
+      : undefined;
+  if (entry === undefined) {
+    return undefined;
+  }
+
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    return { error: 'package.json has no name' };
+  }
+  if (typeof data.version !== 'string' || data.version.trim() === '') {
+    return { error: 'package.json has no version' };
+  }
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return { error: `"${GUIDE_PACKAGE_KEY}" must be an object` };
+  }
+
+  const { path: guidePath = '.', format = 1 } = entry as Record<
+    string,
+    unknown
+  >;
+  if (typeof guidePath !== 'string' || guidePath.trim() === '') {
+    return { error: `"${GUIDE_PACKAGE_KEY}.path" must be a folder path` };
+  }
+  const folderPath = path.resolve(packageDir, guidePath);
+  const relative = path.relative(packageDir, folderPath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return {
+      error: `"${GUIDE_PACKAGE_KEY}.path" must stay inside the package: ${guidePath}`,
+    };
+  }
+  if (typeof format !== 'number' || !Number.isInteger(format)) {
+    return { error: `"${GUIDE_PACKAGE_KEY}.format" must be a whole number` };
+  }
+  if (!SUPPORTED_GUIDE_PACKAGE_FORMATS.includes(format)) {
+    return {
+      error: `guide format ${format} is not supported by this version of init-memory-bank (supported: ${SUPPORTED_GUIDE_PACKAGE_FORMATS.join(', ')})`,
+    };
+  }
+
+  return {
+    guidePackage: {
+      name: data.name,
+      version: data.version,
+      scope,
+      path: packageDir,
+      folderPath,
+    },
+  };
+}
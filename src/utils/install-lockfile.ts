@@ -0,0 +1,128 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { InstallLockfile } from '../config/types';
+import { validateInstallLockfile } from './validation';
+
+/**
+ * Project-relative path of the install lockfile
+ */
+export const INSTALL_LOCKFILE_PATH = path.join('.memory-bank', '.install.json');
+
+/**
+ * Project-relative folder holding the guide's version of each installed file
+ *
+ * These copies are the common base when an update merges local edits
+ * with a newer guide version.
+ */
+export const INSTALL_BASE_DIR = path.join('.memory-bank', '.install-base');
+
+/**
+ * Version of the lockfile format written by this release
+ */
+export const INSTALL_LOCKFILE_VERSION = 1;
+
+/**
+ * Compute the SHA-256 hex digest of file content
+ */
+export function hashContent(content: Buffer | string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Convert a path to the "/"-separated form stored in lockfiles
+ */
+export function toLockfilePath(relativePath: string): string {
+  return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * Read and validate the install lockfile of a project
+ *
+ * Returns an empty result when the project has no lockfile, for example
+ * because nothing was installed yet or it predates lockfiles.
+ */
+export function readInstallLockfile(targetDir: string): {
+  lockfile?: InstallLockfile;
+  error?: string;
+} {
+  const lockfilePath = path.join(targetDir, INSTALL_LOCKFILE_PATH);
+  if (!fs.existsSync(lockfilePath)) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(lockfilePath, 'utf8'));
+  } catch (error) {
+    return {
+      error: `Invalid ${INSTALL_LOCKFILE_PATH}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+
+  const validation = validateInstallLockfile(data);
+  if (!validation.isValid) {
+    return {
+      error: `Invalid ${INSTALL_LOCKFILE_PATH}: ${validation.error}`,
+    };
+  }
+
+  return { lockfile: data as InstallLockfile };
+}
+
+/**
+ * Write the install lockfile of a project
+ */
+export function saveInstallLockfile(
+  targetDir: string,
+  lockfile: InstallLockfile
+): void {
+  const lockfilePath = path.join(targetDir, INSTALL_LOCKFILE_PATH);
+  const lockfileDirectory = path.dirname(lockfilePath);
+  if (!fs.existsSync(lockfileDirectory)) {
+    fs.mkdirSync(lockfileDirectory, { recursive: true });
+  }
+  fs.writeFileSync(
+    lockfilePath,
+    `${JSON.stringify(lockfile, null, 2)}\n`,
+    'utf8'
+  );
+}
+
+/**
+ * Read the guide's version of an installed file, if a copy was kept
+ */
+export function readInstallBase(
+  targetDir: string,
+  filePath: string
+): Buffer | undefined {
+  const basePath = path.join(targetDir, INSTALL_BASE_DIR, filePath);
+  return fs.existsSync(basePath) ? fs.readFileSync(basePath) : undefined;
+}
+
+/**
+ * Keep the guide's version of an installed file as the base for later merges
+ */
+export function saveInstallBase(
+  targetDir: string,
+  filePath: string,
+  content: Buffer | string
+): void {
+  const basePath = path.join(targetDir, INSTALL_BASE_DIR, filePath);
+  const baseDirectory = path.dirname(basePath);
+  if (!fs.existsSync(baseDirectory)) {
+    fs.mkdirSync(baseDirectory, { recursive: true });
+  }
+  fs.writeFileSync(basePath, content);
+}
+
+/**
+ * Delete the install lockfile and the base copies of a project
+ */
+export function removeInstallRecord(targetDir: string): void {
+  fs.rmSync(path.join(targetDir, INSTALL_BASE_DIR), {
+    recursive: true,
+    force: true,
+  });
+  fs.rmSync(path.join(targetDir, INSTALL_LOCKFILE_PATH), { force: true });
+}
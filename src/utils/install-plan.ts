@@ -0,0 +1,67 @@
+import * as path from 'path';
+import { ConflictAction, InstallPlan, PlannedFile } from '../config/types';
+
+const FILE_MARKERS: Record<PlannedFile['action'], string> = {
+  create: '+ create   ',
+  overwrite: '~ overwrite',
+  keep: '= keep     ',
+};
+
+const CONFLICT_NOTES: Record<ConflictAction, string> = {
+  overwrite: 'replaces the existing file',
+  skip: 'keeps the existing file',
+  'keep-both': 'keeps the existing file and writes the guide version beside it',
+  merge: 'adds the missing guide sections to the existing file',
+};
+
+/**
+ * Render an install plan as human-readable text
+ */
+export function formatInstallPlan(plan: InstallPlan): string {
+  const relative = (filePath: string) =>
+    path.relative(plan.targetDir, filePath) || '.';
+  const lines: string[] = [
+    `📝 Install plan for ${plan.guideName} (${plan.guideId})`,
+    `   Target: ${plan.targetDir}`,
+  ];
+
+  if (plan.directories.length > 0) {
+    lines.push('', '📁 Directories:');
+    plan.directories.forEach((directory) => {
+      const marker =
+        directory.action === 'create' ? '+ create  ' : '= exists  ';
+      lines.push(`   ${marker} ${relative(directory.path)}/`);
+    });
+  }
+
+  if (plan.files.length > 0) {
+    lines.push('', '📄 Files:');
+    plan.files.forEach((file) => {
+      lines.push(
+        `   ${FILE_MARKERS[file.action]} ${relative(file.targetPath)}`
+      );
+      if (file.action !== 'keep') {
+        lines.push(
+          `                from ${file.sourcePath || 'built-in template'}`
+        );
+      }
+      if (file.backupPath) {
+        lines.push(`                backup ${relative(file.backupPath)}`);
+      }
+      if (file.conflictAction) {
+        lines.push(
+          `                conflict ${CONFLICT_NOTES[file.conflictAction]}`
+        );
+      }
+    });
+  }
+
+  if (plan.errors.length > 0) {
+    lines.push('', '❌ Problems that would stop the install:');
+    plan.errors.forEach((error) => {
+      lines.push(`   - ${error}`);
+    });
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,170 @@
+import { ValidationIssue } from '../config/types';
+
+/**
+ * JSON value types a schema can require
+ */
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * The subset of JSON Schema (draft-07) the CLI's schemas use
+ *
+ * errorMessage is the keyword ajv-errors uses: when set, it replaces the
+ * message of any keyword of the same schema that fails. It does not apply
+ * to properties and items, which have schemas of their own.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType;
+  enum?: unknown[];
+  minimum?: number;
+  pattern?: string;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  definitions?: Record<string, JsonSchema>;
+  errorMessage?: string;
+}
+
+const TYPE_MESSAGES: Record<JsonSchemaType, string> = {
+  string: 'must be a string',
+  number: 'must be a number',
+  integer: 'must be a whole number',
+  boolean: 'must be true or false',
+  object: 'must be an object',
+  array: 'must be a list',
+  null: 'must be null',
+};
+
+/**
+ * Validate data against a schema and return every violation found
+ *
+ * Each issue names the invalid value by its JSON pointer, such as
+ * /menuItems/0/id, with '' for the document itself. A value of the wrong
+ * type is reported once, without checking what it contains.
+ */
+export function validateJsonSchema(
+  data: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  pointer = ''
+): ValidationIssue[] {
+  const resolved = resolveRef(schema, root);
+  const fail = (message: string): ValidationIssue[] => [
+    { path: pointer, message: resolved.errorMessage || message },
+  ];
+
+  if (resolved.type && !matchesType(data, resolved.type)) {
+    return fail(TYPE_MESSAGES[resolved.type]);
+  }
+  if (resolved.enum && !resolved.enum.includes(data)) {
+    return fail(`must be one of: ${resolved.enum.join(', ')}`);
+  }
+  if (
+    resolved.minimum !== undefined &&
+    typeof data === 'number' &&
+    data < resolved.minimum
+  ) {
+    return fail(`must be at least ${resolved.minimum}`);
+  }
+  if (
+    resolved.pattern !== undefined &&
+    typeof data === 'string' &&
+    !new RegExp(resolved.pattern).test(data)
+  ) {
+    return fail(`must match the pattern ${resolved.pattern}`);
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (matchesType(data, 'object')) {
+    const object = data as Record<string, unknown>;
+    (resolved.required || [])
+      .filter((name) => object[name] === undefined)
+      .forEach((name) =>
+        issues.push({
+          path: childPointer(pointer, name),
+          message: 'is required',
+        })
+      );
+    Object.entries(resolved.properties || {})
+      .filter(([name]) => object[name] !== undefined)
+      .forEach(([name, propertySchema]) =>
+        issues.push(
+          ...validateJsonSchema(
+            object[name],
+            propertySchema,
+            root,
+            childPointer(pointer, name)
+          )
+        )
+      );
+  }
+  if (Array.isArray(data) && resolved.items) {
+    const items = resolved.items;
+    data.forEach((item, index) =>
+      issues.push(
+        ...validateJsonSchema(
+          item,
+          items,
+          root,
+          childPointer(pointer, String(index))
+        )
+      )
+    );
+  }
+  return issues;
+}
+
+/**
+ * Follow a local reference such as #/definitions/menuItem
+ */
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (!schema.$ref) {
+    return schema;
+  }
+
+  const match = /^#\/definitions\/([^/]+)$/.exec(schema.$ref);
+  const target = match ? root.definitions?.[match[1]] : undefined;
+  if (!target) {
+    throw new Error(`Unsupported schema reference: ${schema.$ref}`);
+  }
+  return resolveRef(target, root);
+}
+
+/**
+ * Check a value against a JSON Schema type
+ */
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'object':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+      );
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Append a property name or index to a JSON pointer, escaping ~ and /
+ */
+function childPointer(pointer: string, token: string): string {
+  return `${pointer}/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
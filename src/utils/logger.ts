@@ -0,0 +1,24 @@
+/**
+ * Console output that can be silenced when the CLI prints machine-readable output
+ */
+export class Logger {
+  constructor(private readonly silent: boolean = false) {}
+
+  /**
+   * Print an informational message to stdout
+   */
+  info(...messages: unknown[]): void {
+    if (!this.silent) {
+      console.log(...messages);
+    }
+  }
+
+  /**
+   * Print an error message to stderr
+   */
+  error(...messages: unknown[]): void {
+    if (!this.silent) {
+      console.error(...messages);
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { matchLines, splitLines } from './diff';
+
+/**
+ * Names written after the conflict markers of a merge
+ */
+export interface MergeLabels {
+  /** Label of the local version, shown after <<<<<<< */
+  ours: string;
+  /** Label of the incoming version, shown after >>>>>>> */
+  theirs: string;
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  /** Merged content, with conflict markers where both sides changed */
+  content: string;
+  /** Number of conflicting regions */
+  conflicts: number;
+}
+
+/**
+ * Merge local and incoming changes made to the same base text
+ *
+ * Regions changed on only one side take that side's lines. Regions
+ * changed on both sides in the same way are taken once; other regions
+ * are written between Git-style conflict markers.
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels
+): MergeResult {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+
+  const ourMatches = new Map(matchLines(baseLines, ourLines));
+  const theirMatches = new Map(matchLines(baseLines, theirLines));
+
+  const output: string[] = [];
+  let conflicts = 0;
+
+  // Resolve the lines between two base lines kept by both sides
+  const mergeChunk = (
+    baseChunk: string[],
+    ourChunk: string[],
+    theirChunk: string[]
+  ) => {
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      output.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      output.push(...ourChunk);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.ours}`,
+        ...ourChunk,
+        '=======',
+        ...theirChunk,
+        `>>>>>>> ${labels.theirs}`
+      );
+    }
+  };
+
+  let baseIndex = 0;
+  let ourIndex = 0;
+  let theirIndex = 0;
+
+  while (baseIndex <= baseLines.length) {
+    // Find the next base line both sides still contain
+    let stable = baseIndex;
+    while (
+      stable < baseLines.length &&
+      !(ourMatches.has(stable) && theirMatches.has(stable))
+    ) {
+      stable++;
+    }
+
+    if (stable === baseLines.length) {
+      mergeChunk(
+        baseLines.slice(baseIndex),
+        ourLines.slice(ourIndex),
+        theirLines.slice(theirIndex)
+      );
+      break;
+    }
+
+    const ourStable = ourMatches.get(stable) as number;
+    const theirStable = theirMatches.get(stable) as number;
+    mergeChunk(
+      baseLines.slice(baseIndex, stable),
+      ourLines.slice(ourIndex, ourStable),
+      theirLines.slice(theirIndex, theirStable)
+    );
+    output.push(baseLines[stable]);
+
+    baseIndex = stable + 1;
+    ourIndex = ourStable + 1;
+    theirIndex = theirStable + 1;
+  }
+
+  return { content: output.join('\n'), conflicts };
+}
+
+/**
+ * Append the Markdown sections of incoming content that existing content lacks
+ *
+ * A section starts at a heading and runs to the next heading; headings in
+ * fenced code blocks do not count. A section is missing when the existing
+ * content has no heading with the same text. Text before the first heading
+ * is only taken when the existing content is empty.
+ */
+export function appendMissingSections(
+  existing: string,
+  incoming: string
+): string {
+  const existingHeadings = new Set(
+    splitSections(existing)
+      .map((section) => section.heading)
+      .filter((heading): heading is string => heading !== undefined)
+  );
+  const missing = splitSections(incoming).filter((section) =>
+    section.heading === undefined
+      ? existing.trim() === ''
+      : !existingHeadings.has(section.heading)
+  );
+  if (missing.length === 0) {
+    return existing;
+  }
+
+  const added = missing
+    .map((section) => section.lines.join('\n').trim())
+    .filter((text) => text !== '')
+    .join('\n\n');
+  const kept = existing.trimEnd();
+  return `${kept}${kept ? '\n\n' : ''}${added}\n`;
+}
+
+/**
+ * A heading and the lines under it, up to the next heading
+ */
+interface Section {
+  /** Normalized heading text, or undefined for text before the first heading */
+  heading?: string;
+  /** Lines of the section, including the heading line */
+  lines: string[];
+}
+
+/**
+ * Split Markdown content into sections at every heading
+ */
+function splitSections(content: string): Section[] {
+  const sections: Section[] = [{ lines: [] }];
+  let inFence = false;
+
+  splitLines(content).forEach((line) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : /^#{1,6}\s+(.+)$/.exec(line);
+    if (heading) {
+      sections.push({
+        heading: heading[1].trim().replace(/\s+/g, ' ').toLowerCase(),
+        lines: [line],
+      });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  });
+
+  return sections;
+}
+
+/**
+ * Check whether two line lists are identical
+ */
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * pom.xml blocks that contain their own name, version or url elements
+ */
+const POM_NESTED_BLOCKS = [
+  'parent',
+  'dependencies',
+  'dependencyManagement',
+  'build',
+  'reporting',
+  'profiles',
+  'modules',
+  'developers',
+  'contributors',
+  'organization',
+  'licenses',
+  'issueManagement',
+  'ciManagement',
+  'mailingLists',
+  'distributionManagement',
+  'repositories',
+  'pluginRepositories',
+  'properties',
+];
+
+/**
+ * Template variables detected from a project's metadata files
+ *
+ * Values come from package.json, then pom.xml, then the git remote. Only
+ * variables with a detected value are included, so callers can tell
+ * which ones still need a --var flag or a prompt.
+ */
+export function detectProjectVariables(
+  targetDir: string,
+  now: Date = new Date()
+): Record<string, string> {
+  const variables: Record<string, string> = {
+    date: now.toISOString().slice(0, 10),
+    year: String(now.getFullYear()),
+  };
+
+  const sources = [
+    readPackageJsonVariables(targetDir),
+    readPomVariables(targetDir),
+    readGitVariables(targetDir),
+  ];
+
+  // Earlier sources win, so only fill in values that are still missing
+  for (const source of sources) {
+    for (const [name, value] of Object.entries(source)) {
+      if (value && !(name in variables)) {
+        variables[name] = value;
+      }
+    }
+  }
+
+  if (!variables.projectName) {
+    variables.projectName = path.basename(path.resolve(targetDir));
+  }
+
+  return variables;
+}
+
+/**
+ * Read project variables from package.json
+ */
+function readPackageJsonVariables(
+  targetDir: string
+): Record<string, string | undefined> {
+  const packagePath = path.join(targetDir, 'package.json');
+  if (!fs.existsSync(packagePath)) {
+    return {};
+  }
+
+  try {
+    const pkg = JSON.parse(fs.readFileSync(packagePath, 'utf8'));
+    const dependencies = {
+      ...(pkg.dependencies || {}),
+      ...(pkg.devDependencies || {}),
+    };
+
+    return {
+      projectName: asString(pkg.name),
+      projectDescription: asString(pkg.description),
+      projectVersion: asString(pkg.version),
+      author: asString(
+        typeof pkg.author === 'object' ? pkg.author?.name : pkg.author
+      ),
+      repoUrl: asString(
+        typeof pkg.repository === 'object'
+          ? pkg.repository?.url
+          : pkg.repository
+      ),
+      primaryLanguage:
+        'typescript' in dependencies ? 'TypeScript' : 'JavaScript',
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Read project variables from a Maven pom.xml
+ */
+function readPomVariables(
+  targetDir: string
+): Record<string, string | undefined> {
+  const pomPath = path.join(targetDir, 'pom.xml');
+  if (!fs.existsSync(pomPath)) {
+    return {};
+  }
+
+  try {
+    // Drop nested blocks whose elements would shadow the project's own
+    const pom = POM_NESTED_BLOCKS.reduce(
+      (xml, tag) =>
+        xml.replace(new RegExp(`<${tag}>[\\s\\S]*?</${tag}>`, 'g'), ''),
+      fs.readFileSync(pomPath, 'utf8')
+    );
+    const scm = readXmlElement(pom, 'scm');
+
+    return {
+      projectName:
+        readXmlElement(pom, 'name') || readXmlElement(pom, 'artifactId'),
+      projectDescription: readXmlElement(pom, 'description'),
+      projectVersion: readXmlElement(pom, 'version'),
+      repoUrl:
+        (scm && readXmlElement(scm, 'url')) || readXmlElement(pom, 'url'),
+      primaryLanguage: 'Java',
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Read the origin remote URL from the project's git config
+ */
+function readGitVariables(
+  targetDir: string
+): Record<string, string | undefined> {
+  const gitConfigPath = path.join(targetDir, '.git', 'config');
+  if (!fs.existsSync(gitConfigPath)) {
+    return {};
+  }
+
+  try {
+    const gitConfig = fs.readFileSync(gitConfigPath, 'utf8');
+    const origin = gitConfig.match(
+      /\[remote "origin"\]([\s\S]*?)(?=^\s*\[|(?![\s\S]))/m
+    );
+    const url = origin?.[1].match(/^\s*url\s*=\s*(.+)$/m);
+
+    return { repoUrl: url?.[1].trim() };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Read the text of the first element with the given tag
+ */
+function readXmlElement(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? match[1].trim() || undefined : undefined;
+}
+
+/**
+ * Return a trimmed string, or undefined for anything else
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== ''
+    ? value.trim()
+    : undefined;
+}
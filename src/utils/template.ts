@@ -0,0 +1,46 @@
+/**
+ * Matches {{name}} placeholders; a leading backslash escapes the placeholder
+ */
+const PLACEHOLDER_PATTERN = /(\\?)\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+/**
+ * Result of rendering a template
+ */
+export interface RenderedTemplate {
+  /** Content with every resolvable placeholder replaced */
+  content: string;
+  /** Names of placeholders that had no value, in order of first use */
+  unresolved: string[];
+}
+
+/**
+ * Replace {{name}} placeholders with template variable values
+ *
+ * Write \{{name}} to keep a literal placeholder in the output.
+ */
+export function renderTemplate(
+  content: string,
+  variables: Record<string, string>
+): RenderedTemplate {
+  const unresolved: string[] = [];
+
+  const rendered = content.replace(
+    PLACEHOLDER_PATTERN,
+    (match: string, escape: string, name: string) => {
+      if (escape) {
+        return match.slice(1);
+      }
+
+      if (Object.prototype.hasOwnProperty.call(variables, name)) {
+        return variables[name];
+      }
+
+      if (!unresolved.includes(name)) {
+        unresolved.push(name);
+      }
+      return match;
+    }
+  );
+
+  return { content: rendered, unresolved };
+}
@@ -1,6 +1,17 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ValidationResult, CustomGuideConfig } from '../config/types';
+import { validateConfigVersion } from '../config/config-migrations';
+import {
+  formatValidationIssues,
+  validateConfigSchema,
+} from '../config/config-schema';
+import {
+  ValidationResult,
+  CustomGuideConfig,
+  GuideFragmentMode,
+  GuideManifest,
+} from '../config/types';
+import { GUIDE_FRAGMENT_MODES } from './guide-composition';
 
 /**
  * Validate a file path for security and correctness
@@ -39,11 +50,51 @@ export function validateFilePath(filePath: string): ValidationResult {
 
 /**
  * Validate the structure of a development guide folder
+ *
+ * Guides whose manifest declares a file list only need those files, and
+ * guides that extend another guide only their fragments; all other guides
+ * need developmentGuide.md.
  */
-export function validateGuideStructure(guidePath: string): ValidationResult {
+export function validateGuideStructure(
+  guidePath: string,
+  manifest?: GuideManifest
+): ValidationResult {
   try {
     const warnings: string[] = [];
 
+    // Check that every fragment declared in guide.json exists
+    for (const fragment of manifest?.fragments || []) {
+      if (!fs.existsSync(path.join(guidePath, fragment.source))) {
+        return {
+          isValid: false,
+          error: `Guide is missing fragment declared in guide.json: ${fragment.source}`,
+        };
+      }
+    }
+
+    if (manifest?.files) {
+      // Check that every file declared in guide.json exists
+      for (const file of manifest.files) {
+        if (!fs.existsSync(path.join(guidePath, file.source))) {
+          return {
+            isValid: false,
+            error: `Guide is missing file declared in guide.json: ${file.source}`,
+          };
+        }
+      }
+
+      return {
+        isValid: true,
+      };
+    }
+
+    // Guides that extend another guide get its files from the base guide
+    if (manifest?.extends) {
+      return {
+        isValid: true,
+      };
+    }
+
     // Check for required developmentGuide.md file
     const developmentGuidePath = path.join(guidePath, 'developmentGuide.md');
     if (!fs.existsSync(developmentGuidePath)) {
@@ -75,61 +126,399 @@ export function validateGuideStructure(guidePath: string): ValidationResult {
 }
 
 /**
- * Validate a custom guide configuration
+ * Validate the structure of a parsed guide manifest
  */
-export function validateConfiguration(
-  config: CustomGuideConfig
-): ValidationResult {
-  try {
-    // Validate version
-    if (config.version !== '1.0.0') {
+export function validateGuideManifest(data: unknown): ValidationResult {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { isValid: false, error: 'Manifest must be a JSON object' };
+  }
+
+  const manifest = data as Record<string, unknown>;
+
+  for (const field of [
+    'id',
+    'displayName',
+    'category',
+    'description',
+    'version',
+    'author',
+    'extends',
+  ]) {
+    const value = manifest[field];
+    if (
+      value !== undefined &&
+      (typeof value !== 'string' || value.trim() === '')
+    ) {
       return {
         isValid: false,
-        error: `Invalid version: ${config.version}. Expected: 1.0.0`,
+        error: `Field '${field}' must be a non-empty string`,
       };
     }
+  }
+
+  if (
+    manifest.tags !== undefined &&
+    (!Array.isArray(manifest.tags) ||
+      !manifest.tags.every((tag) => typeof tag === 'string'))
+  ) {
+    return {
+      isValid: false,
+      error: "Field 'tags' must be an array of strings",
+    };
+  }
 
-    // Validate custom guides folder path
-    if (!config.customGuidesFolder || config.customGuidesFolder.trim() === '') {
+  for (const field of ['include', 'exclude']) {
+    const value = manifest[field];
+    if (
+      value !== undefined &&
+      (!Array.isArray(value) ||
+        value.length === 0 ||
+        !value.every(
+          (pattern) => typeof pattern === 'string' && pattern.trim() !== ''
+        ))
+    ) {
       return {
         isValid: false,
-        error: 'Custom guides folder path cannot be empty',
+        error: `Field '${field}' must be a non-empty array of glob patterns`,
       };
     }
+  }
 
-    // Check if custom guides folder exists
-    if (!fs.existsSync(config.customGuidesFolder)) {
+  if (manifest.mappings !== undefined) {
+    if (!Array.isArray(manifest.mappings)) {
       return {
         isValid: false,
-        error: `Custom guides folder does not exist: ${config.customGuidesFolder}`,
+        error: "Field 'mappings' must be an array",
       };
     }
 
-    // Check if custom guides folder is a directory
-    const stats = fs.statSync(config.customGuidesFolder);
-    if (!stats.isDirectory()) {
+    for (const [index, mapping] of manifest.mappings.entries()) {
+      if (typeof mapping !== 'object' || mapping === null) {
+        return {
+          isValid: false,
+          error: `Mapping ${index} must be an object`,
+        };
+      }
+
+      for (const field of ['from', 'to']) {
+        const value = (mapping as Record<string, unknown>)[field];
+        if (typeof value !== 'string') {
+          return {
+            isValid: false,
+            error: `Mapping ${index} is missing '${field}'`,
+          };
+        }
+
+        const pathValidation = validateFilePath(value);
+        if (!pathValidation.isValid || path.isAbsolute(value)) {
+          return {
+            isValid: false,
+            error: `Mapping ${index} has an invalid ${field}: ${value}`,
+          };
+        }
+      }
+    }
+  }
+
+  if (manifest.variables !== undefined) {
+    if (!Array.isArray(manifest.variables)) {
       return {
         isValid: false,
-        error: `Custom guides folder is not a directory: ${config.customGuidesFolder}`,
+        error: "Field 'variables' must be an array",
       };
     }
 
-    // Validate menu items
-    for (const menuItem of config.menuItems) {
-      if (!menuItem.folderPath || menuItem.folderPath.trim() === '') {
+    for (const [index, variable] of manifest.variables.entries()) {
+      const {
+        name,
+        prompt,
+        default: defaultValue,
+      } = (variable || {}) as Record<string, unknown>;
+      if (typeof name !== 'string' || !/^[A-Za-z_][\w.-]*$/.test(name)) {
         return {
           isValid: false,
-          error: `Menu item '${menuItem.id}' has empty folder path`,
+          error: `Variable ${index} must have a name made of letters, digits, '_', '.' or '-'`,
         };
       }
+      if (
+        prompt !== undefined &&
+        (typeof prompt !== 'string' || prompt.trim() === '')
+      ) {
+        return {
+          isValid: false,
+          error: `Variable '${name}' has an invalid prompt`,
+        };
+      }
+      if (defaultValue !== undefined && typeof defaultValue !== 'string') {
+        return {
+          isValid: false,
+          error: `Variable '${name}' has a default that is not a string`,
+        };
+      }
+    }
+  }
+
+  if (manifest.detection !== undefined) {
+    const detectionValidation = validateDetectionRules(manifest.detection);
+    if (!detectionValidation.isValid) {
+      return detectionValidation;
+    }
+  }
+
+  if (manifest.files !== undefined) {
+    if (!Array.isArray(manifest.files) || manifest.files.length === 0) {
+      return {
+        isValid: false,
+        error: "Field 'files' must be a non-empty array",
+      };
+    }
+
+    for (const [index, file] of manifest.files.entries()) {
+      if (typeof file !== 'object' || file === null) {
+        return {
+          isValid: false,
+          error: `File entry ${index} must be an object`,
+        };
+      }
+
+      for (const field of ['source', 'destination']) {
+        const value = (file as Record<string, unknown>)[field];
+        if (typeof value !== 'string') {
+          return {
+            isValid: false,
+            error: `File entry ${index} is missing '${field}'`,
+          };
+        }
+
+        const pathValidation = validateFilePath(value);
+        if (!pathValidation.isValid || path.isAbsolute(value)) {
+          return {
+            isValid: false,
+            error: `File entry ${index} has an invalid ${field}: ${value}`,
+          };
+        }
+      }
+    }
+  }
+
+  if (manifest.fragments !== undefined) {
+    const fragmentsValidation = validateGuideFragments(
+      manifest.fragments,
+      manifest.extends !== undefined
+    );
+    if (!fragmentsValidation.isValid) {
+      return fragmentsValidation;
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validate the fragments a guide applies to the files of its base guide
+ */
+function validateGuideFragments(
+  data: unknown,
+  hasBase: boolean
+): ValidationResult {
+  if (!hasBase) {
+    return {
+      isValid: false,
+      error: "Field 'fragments' requires 'extends' to name a base guide",
+    };
+  }
+  if (!Array.isArray(data)) {
+    return { isValid: false, error: "Field 'fragments' must be an array" };
+  }
 
-      if (!fs.existsSync(menuItem.folderPath)) {
+  for (const [index, fragment] of data.entries()) {
+    if (typeof fragment !== 'object' || fragment === null) {
+      return {
+        isValid: false,
+        error: `Fragment ${index} must be an object`,
+      };
+    }
+
+    const { source, target, mode, heading } = fragment as Record<
+      string,
+      unknown
+    >;
+    if (typeof source !== 'string') {
+      return {
+        isValid: false,
+        error: `Fragment ${index} is missing 'source'`,
+      };
+    }
+    for (const [field, value] of [
+      ['source', source],
+      ['target', target],
+    ]) {
+      if (
+        value !== undefined &&
+        (typeof value !== 'string' ||
+          !validateFilePath(value).isValid ||
+          path.isAbsolute(value))
+      ) {
         return {
           isValid: false,
-          error: `Menu item folder does not exist: ${menuItem.folderPath}`,
+          error: `Fragment ${index} has an invalid ${field}: ${value}`,
         };
       }
     }
+    if (!GUIDE_FRAGMENT_MODES.includes(mode as GuideFragmentMode)) {
+      return {
+        isValid: false,
+        error: `Fragment ${index} has an invalid mode: ${mode}. Expected one of: ${GUIDE_FRAGMENT_MODES.join(', ')}`,
+      };
+    }
+    if (
+      heading !== undefined &&
+      (typeof heading !== 'string' || heading.trim() === '')
+    ) {
+      return {
+        isValid: false,
+        error: `Fragment ${index} has an invalid heading`,
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validate the structure of a parsed install lockfile
+ */
+export function validateInstallLockfile(data: unknown): ValidationResult {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { isValid: false, error: 'Lockfile must be a JSON object' };
+  }
+
+  const lockfile = data as Record<string, unknown>;
+
+  if (
+    typeof lockfile.lockfileVersion !== 'number' ||
+    !Number.isInteger(lockfile.lockfileVersion) ||
+    lockfile.lockfileVersion < 1
+  ) {
+    return {
+      isValid: false,
+      error: "Field 'lockfileVersion' must be a positive integer",
+    };
+  }
+
+  const guide = lockfile.guide as Record<string, unknown> | undefined;
+  if (typeof guide !== 'object' || guide === null) {
+    return { isValid: false, error: "Field 'guide' must be an object" };
+  }
+
+  for (const field of ['id', 'type', 'sourcePath', 'contentHash']) {
+    if (typeof guide[field] !== 'string' || guide[field] === '') {
+      return {
+        isValid: false,
+        error: `Field 'guide.${field}' must be a non-empty string`,
+      };
+    }
+  }
+
+  for (const field of ['installedAt', 'updatedAt']) {
+    if (typeof lockfile[field] !== 'string') {
+      return {
+        isValid: false,
+        error: `Field '${field}' must be a timestamp`,
+      };
+    }
+  }
+
+  if (!Array.isArray(lockfile.files)) {
+    return { isValid: false, error: "Field 'files' must be an array" };
+  }
+
+  for (const [index, file] of lockfile.files.entries()) {
+    const { path: filePath, sha256 } = (file || {}) as Record<string, unknown>;
+    if (
+      typeof filePath !== 'string' ||
+      !validateFilePath(filePath).isValid ||
+      path.isAbsolute(filePath)
+    ) {
+      return {
+        isValid: false,
+        error: `File entry ${index} has an invalid path`,
+      };
+    }
+    if (typeof sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(sha256)) {
+      return {
+        isValid: false,
+        error: `File entry ${index} has an invalid sha256`,
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validate a custom guide configuration
+ *
+ * The structure is checked against the configuration schema, then the
+ * folders it names must exist. Every problem is reported at once, each
+ * with the JSON pointer of the value it is about.
+ */
+export function validateConfiguration(
+  config: CustomGuideConfig
+): ValidationResult {
+  try {
+    const issues = validateConfigSchema(config);
+    const hasIssue = (pointer: string) =>
+      issues.some(
+        (issue) =>
+          issue.path === pointer || issue.path.startsWith(`${pointer}/`)
+      );
+
+    // Validate version
+    if (!hasIssue('/version')) {
+      const versionError = validateConfigVersion(config.version);
+      if (versionError) {
+        issues.push({ path: '/version', message: versionError });
+      }
+    }
+
+    // Check the custom guides folder is an existing directory
+    if (!hasIssue('/customGuidesFolder')) {
+      if (!fs.existsSync(config.customGuidesFolder)) {
+        issues.push({
+          path: '/customGuidesFolder',
+          message: `Custom guides folder does not exist: ${config.customGuidesFolder}`,
+        });
+      } else if (!fs.statSync(config.customGuidesFolder).isDirectory()) {
+        issues.push({
+          path: '/customGuidesFolder',
+          message: `Custom guides folder is not a directory: ${config.customGuidesFolder}`,
+        });
+      }
+    }
+
+    // Check the menu item folders exist
+    if (Array.isArray(config.menuItems)) {
+      config.menuItems.forEach((menuItem, index) => {
+        if (
+          !hasIssue(`/menuItems/${index}`) &&
+          !fs.existsSync(menuItem.folderPath)
+        ) {
+          issues.push({
+            path: `/menuItems/${index}/folderPath`,
+            message: `Menu item folder does not exist: ${menuItem.folderPath}`,
+          });
+        }
+      });
+    }
+
+    if (issues.length > 0) {
+      return {
+        isValid: false,
+        error: formatValidationIssues(issues),
+        issues,
+      };
+    }
 
     return {
       isValid: true,
@@ -144,3 +533,61 @@ export function validateConfiguration(
     };
   }
 }
+
+/**
+ * Validate the stack detection rules of a guide manifest
+ */
+function validateDetectionRules(data: unknown): ValidationResult {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { isValid: false, error: "Field 'detection' must be an object" };
+  }
+
+  const rules = data as Record<string, unknown>;
+
+  for (const field of ['files', 'packages']) {
+    const value = rules[field];
+    if (
+      value !== undefined &&
+      (!Array.isArray(value) ||
+        !value.every(
+          (pattern) => typeof pattern === 'string' && pattern.trim() !== ''
+        ))
+    ) {
+      return {
+        isValid: false,
+        error: `Field 'detection.${field}' must be an array of patterns`,
+      };
+    }
+  }
+
+  if (rules.contents !== undefined) {
+    if (!Array.isArray(rules.contents)) {
+      return {
+        isValid: false,
+        error: "Field 'detection.contents' must be an array",
+      };
+    }
+
+    for (const [index, rule] of rules.contents.entries()) {
+      const { file, text } = (rule || {}) as Record<string, unknown>;
+      if (
+        typeof file !== 'string' ||
+        !validateFilePath(file).isValid ||
+        path.isAbsolute(file)
+      ) {
+        return {
+          isValid: false,
+          error: `Content rule ${index} has an invalid file`,
+        };
+      }
+      if (typeof text !== 'string' || text === '') {
+        return {
+          isValid: false,
+          error: `Content rule ${index} must have non-empty text`,
+        };
+      }
+    }
+  }
+
+  return { isValid: true };
+}